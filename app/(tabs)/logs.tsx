@@ -1,6 +1,16 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { View, Text, Pressable, FlatList, type ListRenderItem } from 'react-native';
+import { useState, useCallback, useMemo, useRef, useEffect, type ReactNode } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  FlatList,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  type ListRenderItem,
+} from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
 import {
   FileText,
   Check,
@@ -15,16 +25,36 @@ import {
   Trash2,
   Filter,
   Copy,
+  Archive,
+  Radio,
+  Share2,
+  X,
+  GitCommitVertical,
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
-import { nip19, getEventHash } from 'nostr-tools';
-import { Card, Badge, IconButton, GradientBackground, HelpTooltip } from '@/components/ui';
-import { useCopyFeedback } from '@/hooks';
-import { useLogStore, useCredentialStore } from '@/stores';
-import type { LogEntry, LogLevel, LogCategory } from '@/types';
+import { nip19 } from 'nostr-tools';
+import { Card, Badge, IconButton, GradientBackground, HelpTooltip, Input } from '@/components/ui';
+import { useCopyFeedback, useDiagnostics, useLogArchive } from '@/hooks';
+import { useLogStore, useCredentialStore, filterLogEntries, getLogEntryFacets } from '@/stores';
+import { extractNostrEventFromEntry, getNostrEventId } from '@/services/igloo';
+import type {
+  LogEntry,
+  LogFilter,
+  LogLevel,
+  LogCategory,
+  LogSession,
+  LogTimeRange,
+} from '@/types';
 
 const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
 const LOG_CATEGORIES: LogCategory[] = ['signing', 'relay', 'peer', 'echo', 'system'];
+const LOG_RANGES: { value: LogTimeRange; label: string }[] = [
+  { value: '15m', label: '15m' },
+  { value: '1h', label: '1h' },
+  { value: '6h', label: '6h' },
+  { value: '24h', label: '24h' },
+  { value: 'all', label: 'All' },
+];
 
 export default function LogsTab() {
   const entries = useLogStore((s) => s.entries);
@@ -34,23 +64,59 @@ export default function LogsTab() {
   const setFilter = useLogStore((s) => s.setFilter);
   const setAutoScroll = useLogStore((s) => s.setAutoScroll);
   const shareDetails = useCredentialStore((s) => s.shareDetails);
+  const shares = useCredentialStore((s) => s.shares);
   const groupPubkey = shareDetails?.groupPubkey;
+  const archive = useLogArchive();
+  const { exportDiagnostics } = useDiagnostics();
+  // Set by igloo://logs?session=<id> links
+  const { session: linkedSessionId } = useLocalSearchParams<{ session?: string }>();
 
   const flatListRef = useRef<FlatList>(null);
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Live shows this run's in-memory buffer; saved pages through the on-device archive
+  const [source, setSource] = useState<'live' | 'saved'>('live');
+  const isSaved = source === 'saved';
+  const sourceEntries: LogEntry[] = isSaved ? archive.entries : entries;
 
   // Get filtered entries
-  const filteredEntries = entries.filter(
-    (entry) =>
-      filter.levels.includes(entry.level) && filter.categories.includes(entry.category)
+  const filteredEntries = useMemo(
+    () => filterLogEntries(sourceEntries, filter),
+    [sourceEntries, filter]
   );
+  const searchQuery = filter.query.trim();
 
   // Auto-scroll to top when new entries arrive
   useEffect(() => {
-    if (autoScroll && filteredEntries.length > 0 && flatListRef.current) {
+    if (!isSaved && autoScroll && filteredEntries.length > 0 && flatListRef.current) {
       flatListRef.current.scrollToOffset({ offset: 0, animated: true });
     }
-  }, [filteredEntries.length, autoScroll]);
+  }, [filteredEntries.length, autoScroll, isSaved]);
+
+  const openArchive = archive.open;
+  const showSaved = useCallback(
+    (sessionId?: string) => {
+      setSource('saved');
+      setExpandedId(null);
+      void openArchive(sessionId);
+    },
+    [openArchive]
+  );
+
+  // A linked session switches to saved logs once per link
+  const [linkedSource, setLinkedSource] = useState<string | undefined>(undefined);
+  if (linkedSessionId && linkedSessionId !== linkedSource) {
+    setLinkedSource(linkedSessionId);
+    setSource('saved');
+    setExpandedId(null);
+  }
+  useEffect(() => {
+    if (linkedSessionId) void openArchive(linkedSessionId);
+  }, [linkedSessionId, openArchive]);
+
+  const getShareName = useCallback(
+    (shareId: string | null) => shares.find((share) => share.id === shareId)?.name,
+    [shares]
+  );
 
   const toggleLevel = useCallback(
     (level: LogLevel) => {
@@ -74,21 +140,61 @@ export default function LogsTab() {
     [filter.categories, setFilter]
   );
 
+  const applyFacet = useCallback(
+    (facet: Partial<LogFilter>) => {
+      setFilter(facet);
+      setExpandedId(null);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    },
+    [setFilter]
+  );
+
   const handleClearLogs = useCallback(() => {
+    if (isSaved) {
+      Alert.alert('Clear Saved Logs', 'Delete every log entry saved on this device?', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: () => {
+            void archive.clear();
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          },
+        },
+      ]);
+      return;
+    }
     clearLogs();
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-  }, [clearLogs]);
+  }, [archive, clearLogs, isSaved]);
+
+  const handleExport = useCallback(async () => {
+    try {
+      // Export what is on screen: the current source with the level and category filters
+      await exportDiagnostics(filteredEntries);
+    } catch (error) {
+      Alert.alert(
+        'Export Failed',
+        error instanceof Error ? error.message : 'Could not share the diagnostics bundle'
+      );
+    }
+  }, [exportDiagnostics, filteredEntries]);
 
   const renderLogEntry: ListRenderItem<LogEntry> = useCallback(
-    ({ item }) => (
-      <LogEntryItem
-        entry={item}
-        groupPubkey={groupPubkey}
-        expanded={expandedId === item.id}
-        onToggle={() => setExpandedId(expandedId === item.id ? null : item.id)}
-      />
-    ),
-    [expandedId, groupPubkey]
+    ({ item }) =>
+      isSessionMarker(item) ? (
+        <SessionMarker entry={item} />
+      ) : (
+        <LogEntryItem
+          entry={item}
+          groupPubkey={groupPubkey}
+          expanded={expandedId === item.id}
+          query={searchQuery}
+          onToggle={() => setExpandedId(expandedId === item.id ? null : item.id)}
+          onFilter={applyFacet}
+        />
+      ),
+    [applyFacet, expandedId, groupPubkey, searchQuery]
   );
 
   const keyExtractor = useCallback((item: LogEntry) => item.id, []);
@@ -98,16 +204,104 @@ export default function LogsTab() {
       <SafeAreaView className="flex-1" edges={[]}>
         {/* Filter Bar */}
         <View className="px-4 pt-2 pb-3 border-b border-gray-700/30 bg-gray-900/80">
+          {/* Source */}
+          <View className="flex-row items-center gap-2 mb-2">
+            <SourceTab
+              label="Live"
+              icon={<Radio size={12} color={isSaved ? '#9ca3af' : '#60a5fa'} strokeWidth={2} />}
+              active={!isSaved}
+              onPress={() => setSource('live')}
+            />
+            <SourceTab
+              label="Saved"
+              icon={<Archive size={12} color={isSaved ? '#60a5fa' : '#9ca3af'} strokeWidth={2} />}
+              active={isSaved}
+              onPress={() => showSaved(archive.sessionId)}
+            />
+            <HelpTooltip
+              title="Saved Logs"
+              content="Logs are also saved on this device, grouped by signer session, so they survive app restarts. Retention is set in Settings."
+              size={12}
+            />
+          </View>
+
+          {/* Sessions */}
+          {isSaved && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              className="mb-2"
+              contentContainerStyle={{ gap: 4 }}
+            >
+              <FilterChip
+                label="All sessions"
+                active={archive.sessionId === undefined}
+                onPress={() => showSaved(undefined)}
+              />
+              {archive.sessions.map((session) => (
+                <FilterChip
+                  key={session.id}
+                  label={formatSessionLabel(session, getShareName(session.shareId))}
+                  active={archive.sessionId === session.id}
+                  variant={
+                    session.endReason === 'error' || session.endReason === 'interrupted'
+                      ? 'warning'
+                      : 'default'
+                  }
+                  onPress={() => showSaved(session.id)}
+                />
+              ))}
+            </ScrollView>
+          )}
+
           {/* Filter Header */}
           <View className="flex-row items-center gap-1 mb-2">
             <Filter size={12} color="#9ca3af" strokeWidth={2} />
             <Text className="text-xs font-medium text-gray-400">Filters</Text>
             <HelpTooltip
               title="Log Filters"
-              content="Filter logs by severity level and category. Click a chip to toggle visibility. At least one filter must be active per row."
+              content="Search message and data text, and filter by severity level, category and time. Click a chip to toggle visibility. At least one level and category must stay active. Expand an entry to filter by its session, peer or event kind."
               size={12}
             />
           </View>
+
+          {/* Search */}
+          <Input
+            value={filter.query}
+            onChangeText={(query) => setFilter({ query })}
+            placeholder="Search messages and data"
+            autoCapitalize="none"
+            autoCorrect={false}
+            clearButtonMode="while-editing"
+            className="mb-2"
+          />
+
+          {/* Session, peer and kind filters */}
+          {(filter.sessionId !== null ||
+            filter.peerPubkey !== null ||
+            filter.eventKind !== null) && (
+            <View className="flex-row flex-wrap items-center gap-1 mb-2">
+              {filter.sessionId !== null && (
+                <ActiveFacet
+                  label={`session ${truncateId(filter.sessionId)}`}
+                  onClear={() => setFilter({ sessionId: null })}
+                />
+              )}
+              {filter.peerPubkey !== null && (
+                <ActiveFacet
+                  label={`peer ${truncateId(filter.peerPubkey)}`}
+                  onClear={() => setFilter({ peerPubkey: null })}
+                />
+              )}
+              {filter.eventKind !== null && (
+                <ActiveFacet
+                  label={`kind ${filter.eventKind}`}
+                  onClear={() => setFilter({ eventKind: null })}
+                />
+              )}
+            </View>
+          )}
+
           {/* Level Filters */}
           <View className="flex-row items-center mb-2">
             <Text className="text-xs text-gray-400 mr-2 w-12">Level</Text>
@@ -125,7 +319,7 @@ export default function LogsTab() {
           </View>
 
           {/* Category Filters */}
-          <View className="flex-row items-center">
+          <View className="flex-row items-center mb-2">
             <Text className="text-xs text-gray-400 mr-2 w-12">Type</Text>
             <View className="flex-row flex-wrap gap-1">
               {LOG_CATEGORIES.map((category) => (
@@ -138,6 +332,21 @@ export default function LogsTab() {
               ))}
             </View>
           </View>
+
+          {/* Time Range */}
+          <View className="flex-row items-center">
+            <Text className="text-xs text-gray-400 mr-2 w-12">Time</Text>
+            <View className="flex-row flex-wrap gap-1">
+              {LOG_RANGES.map((range) => (
+                <FilterChip
+                  key={range.value}
+                  label={range.label}
+                  active={filter.range === range.value}
+                  onPress={() => setFilter({ range: range.value })}
+                />
+              ))}
+            </View>
+          </View>
         </View>
 
         {/* Log List */}
@@ -148,12 +357,29 @@ export default function LogsTab() {
           keyExtractor={keyExtractor}
           contentContainerStyle={{ padding: 16 }}
           ItemSeparatorComponent={() => <View className="h-2" />}
+          onEndReached={isSaved ? () => void archive.loadMore() : undefined}
+          onEndReachedThreshold={0.5}
+          keyboardShouldPersistTaps="handled"
+          keyboardDismissMode="on-drag"
+          ListFooterComponent={
+            isSaved && archive.isLoading ? (
+              <ActivityIndicator size="small" color="#60a5fa" className="py-4" />
+            ) : null
+          }
           ListEmptyComponent={
             <View className="py-12 items-center">
               <FileText size={32} color="#9ca3af" strokeWidth={1.5} />
-              <Text className="text-gray-400 mt-2">No log entries</Text>
+              <Text className="text-gray-400 mt-2">
+                {isSaved && archive.isLoading
+                  ? 'Loading saved logs...'
+                  : sourceEntries.length > 0
+                    ? 'No entries match the filters'
+                    : 'No log entries'}
+              </Text>
               <Text className="text-sm text-gray-500 mt-1">
-                Events will appear here as they occur
+                {isSaved
+                  ? 'Saved entries older than the retention limit are removed'
+                  : 'Events will appear here as they occur'}
               </Text>
             </View>
           }
@@ -161,35 +387,93 @@ export default function LogsTab() {
 
         {/* Bottom Actions */}
         <View className="px-4 py-3 border-t border-gray-700/30 bg-gray-900/80 flex-row items-center justify-between">
-          <View className="flex-row items-center">
-            <Pressable
-              onPress={() => setAutoScroll(!autoScroll)}
-              className="flex-row items-center"
-            >
-              {autoScroll ? (
-                <CheckSquare size={18} color="#60a5fa" strokeWidth={2} />
-              ) : (
-                <Square size={18} color="#9ca3af" strokeWidth={2} />
-              )}
-              <Text className="text-sm text-gray-400 ml-2">Auto-scroll</Text>
-            </Pressable>
-            <Text className="text-sm text-gray-400 ml-4">
-              {filteredEntries.length} / {entries.length} entries
+          {isSaved ? (
+            <Text className="text-sm text-gray-400">
+              {filteredEntries.length} / {archive.entries.length} loaded
+              {archive.usage
+                ? ` · ${archive.usage.entries} saved (${formatBytes(archive.usage.bytes)})`
+                : ''}
             </Text>
+          ) : (
+            <View className="flex-row items-center">
+              <Pressable
+                onPress={() => setAutoScroll(!autoScroll)}
+                className="flex-row items-center"
+              >
+                {autoScroll ? (
+                  <CheckSquare size={18} color="#60a5fa" strokeWidth={2} />
+                ) : (
+                  <Square size={18} color="#9ca3af" strokeWidth={2} />
+                )}
+                <Text className="text-sm text-gray-400 ml-2">Auto-scroll</Text>
+              </Pressable>
+              <Text className="text-sm text-gray-400 ml-4">
+                {filteredEntries.length} / {entries.length} entries
+              </Text>
+            </View>
+          )}
+          <View className="flex-row items-center">
+            <IconButton
+              icon={<Share2 size={16} color="#9ca3af" strokeWidth={2} />}
+              variant="ghost"
+              size="md"
+              disabled={filteredEntries.length === 0}
+              onPress={handleExport}
+            />
+            <IconButton
+              icon={<Trash2 size={16} color="#9ca3af" strokeWidth={2} />}
+              variant="ghost"
+              size="md"
+              disabled={sourceEntries.length === 0}
+              onPress={handleClearLogs}
+            />
           </View>
-          <IconButton
-            icon={<Trash2 size={16} color="#9ca3af" strokeWidth={2} />}
-            variant="ghost"
-            size="md"
-            disabled={entries.length === 0}
-            onPress={handleClearLogs}
-          />
         </View>
       </SafeAreaView>
     </GradientBackground>
   );
 }
 
+function SourceTab({
+  label,
+  icon,
+  active,
+  onPress,
+}: {
+  label: string;
+  icon: ReactNode;
+  active: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      className={`flex-row items-center gap-1 px-3 py-1 rounded-full ${
+        active ? 'bg-blue-900/40' : 'bg-gray-800'
+      }`}
+    >
+      {icon}
+      <Text className={`text-xs font-medium ${active ? 'text-blue-300' : 'text-gray-400'}`}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+function SessionMarker({ entry }: { entry: LogEntry }) {
+  const reason = typeof entry.data?.reason === 'string' ? entry.data.reason : undefined;
+  return (
+    <View className="flex-row items-center gap-2 py-1">
+      <View className="flex-1 h-px bg-blue-900/50" />
+      <Text className="text-xs text-blue-300">
+        {entry.message}
+        {reason && reason !== 'stopped' ? ` (${reason})` : ''} · {formatTimestamp(entry.timestamp)}
+      </Text>
+      <View className="flex-1 h-px bg-blue-900/50" />
+    </View>
+  );
+}
+
 function FilterChip({
   label,
   active,
@@ -247,14 +531,19 @@ function LogEntryItem({
   entry,
   groupPubkey,
   expanded,
+  query,
   onToggle,
+  onFilter,
 }: {
   entry: LogEntry;
   groupPubkey?: string;
   expanded: boolean;
+  query: string;
   onToggle: () => void;
+  onFilter: (facet: Partial<LogFilter>) => void;
 }) {
   const hasData = entry.data && Object.keys(entry.data).length > 0;
+  const facets = expanded ? getLogEntryFacets(entry) : null;
   const signingSummary = entry.category === 'signing'
     ? getSigningSummary(entry, groupPubkey)
     : null;
@@ -390,9 +679,7 @@ function LogEntryItem({
                 {(signingSummary.sessionId || signingSummary.requestId) && (
                   <View className="mt-2">
                     {signingSummary.sessionId && (
-                      <Text className="text-[11px] text-gray-400 font-mono">
-                        session: {truncateId(signingSummary.sessionId)}
-                      </Text>
+                      <SessionLink sessionId={signingSummary.sessionId} />
                     )}
                     {signingSummary.requestId && (
                       <Text className="text-[11px] text-gray-400 font-mono">
@@ -420,7 +707,11 @@ function LogEntryItem({
 
             {/* Message */}
             <View className="flex-row items-center">
-              <Text className="text-sm text-gray-100">{entry.message}</Text>
+              <HighlightedText
+                text={entry.message}
+                query={query}
+                className="text-sm text-gray-100"
+              />
               {entry.count && entry.count > 1 && (
                 <Text className="text-xs text-gray-500 ml-2">x{entry.count}</Text>
               )}
@@ -439,9 +730,36 @@ function LogEntryItem({
                     )}
                   </Pressable>
                 </View>
-                <Text className="text-xs font-mono text-gray-400">
-                  {JSON.stringify(entry.data, null, 2)}
-                </Text>
+                <HighlightedText
+                  text={JSON.stringify(entry.data, null, 2)}
+                  query={query}
+                  className="text-xs font-mono text-gray-400"
+                />
+                {facets &&
+                  (facets.sessionId !== null ||
+                    facets.peerPubkey !== null ||
+                    facets.eventKind !== null) && (
+                  <View className="flex-row flex-wrap gap-1 mt-2">
+                    {facets.sessionId !== null && (
+                      <FacetButton
+                        label="Same session"
+                        onPress={() => onFilter({ sessionId: facets.sessionId })}
+                      />
+                    )}
+                    {facets.peerPubkey !== null && (
+                      <FacetButton
+                        label="Same peer"
+                        onPress={() => onFilter({ peerPubkey: facets.peerPubkey })}
+                      />
+                    )}
+                    {facets.eventKind !== null && (
+                      <FacetButton
+                        label={`Kind ${facets.eventKind}`}
+                        onPress={() => onFilter({ eventKind: facets.eventKind })}
+                      />
+                    )}
+                  </View>
+                )}
               </View>
             )}
           </View>
@@ -451,6 +769,79 @@ function LogEntryItem({
   );
 }
 
+function HighlightedText({
+  text,
+  query,
+  className,
+}: {
+  text: string;
+  query: string;
+  className: string;
+}) {
+  if (!query) {
+    return <Text className={className}>{text}</Text>;
+  }
+
+  // Split on the query, case-insensitively; matches land at the odd indexes
+  const parts = text.split(new RegExp(`(${escapeRegExp(query)})`, 'i'));
+  return (
+    <Text className={className}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <Text key={index} className="bg-yellow-500/30 text-yellow-200">
+            {part}
+          </Text>
+        ) : (
+          part
+        )
+      )}
+    </Text>
+  );
+}
+
+function ActiveFacet({ label, onClear }: { label: string; onClear: () => void }) {
+  return (
+    <Pressable
+      onPress={onClear}
+      className="flex-row items-center gap-1 px-2 py-1 rounded bg-blue-900/30"
+    >
+      <Text className="text-xs text-blue-400">{label}</Text>
+      <X size={10} color="#60a5fa" strokeWidth={2} />
+    </Pressable>
+  );
+}
+
+function FacetButton({ label, onPress }: { label: string; onPress: () => void }) {
+  return (
+    <Pressable
+      onPress={onPress}
+      hitSlop={4}
+      className="flex-row items-center gap-1 px-2 py-0.5 rounded-full border border-blue-500/40"
+    >
+      <Filter size={10} color="#60a5fa" strokeWidth={2} />
+      <Text className="text-[11px] text-blue-300">{label}</Text>
+    </Pressable>
+  );
+}
+
+function SessionLink({ sessionId }: { sessionId: string }) {
+  return (
+    <Pressable
+      onPress={() => router.push(`/signing-session/${sessionId}`)}
+      hitSlop={4}
+      className="flex-row items-center"
+    >
+      <Text className="text-[11px] text-gray-400 font-mono">
+        session: {truncateId(sessionId)}
+      </Text>
+      <View className="ml-1.5">
+        <GitCommitVertical size={11} color="#60a5fa" strokeWidth={2} />
+      </View>
+      <Text className="text-[11px] text-blue-400 ml-0.5">timeline</Text>
+    </Pressable>
+  );
+}
+
 function MetaPill({ label }: { label: string }) {
   return (
     <View className="px-2 py-0.5 rounded-full bg-gray-900/70 border border-gray-700/60">
@@ -489,6 +880,34 @@ function CopyRow({ label, value }: { label: string; value: string }) {
 }
 
 // Returns Tailwind color hex values for RN components
+function isSessionMarker(entry: LogEntry): boolean {
+  return (
+    entry.category === 'system' &&
+    (entry.message === 'Signer session started' || entry.message === 'Signer session ended')
+  );
+}
+
+function formatSessionLabel(session: LogSession, shareName?: string): string {
+  const started = new Date(session.startedAt);
+  const date = started.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  const time = started.toLocaleTimeString('en-US', {
+    hour12: false,
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  const status =
+    session.endedAt === null ? 'live' : session.endReason === 'stopped' ? null : session.endReason;
+  return [`${date} ${time}`, shareName, `${session.entryCount}`, status]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 function getLevelColor(level: LogLevel): string {
   switch (level) {
     case 'error':
@@ -524,6 +943,10 @@ function formatTimestamp(timestamp: string): string {
   });
 }
 
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 function truncateId(value: string, front = 8, back = 6): string {
   if (value.length <= front + back + 3) return value;
   return `${value.slice(0, front)}...${value.slice(-back)}`;
@@ -576,31 +999,6 @@ function normalizeNostrPubkey(pubkey: string): string | undefined {
   return undefined;
 }
 
-function getEventId(event: ReturnType<typeof parseNostrEvent>): string | undefined {
-  if (!event) return undefined;
-  if (typeof event.id === 'string') return event.id;
-  if (
-    typeof event.pubkey !== 'string' ||
-    typeof event.created_at !== 'number' ||
-    typeof event.kind !== 'number' ||
-    typeof event.content !== 'string'
-  ) {
-    return undefined;
-  }
-  const tags = Array.isArray(event.tags) ? event.tags : [];
-  try {
-    return getEventHash({
-      pubkey: event.pubkey,
-      created_at: event.created_at,
-      kind: event.kind,
-      tags,
-      content: event.content,
-    });
-  } catch {
-    return undefined;
-  }
-}
-
 type SigningSummary = {
   statusLabel: string;
   badgeLabel: string;
@@ -639,7 +1037,7 @@ function getSigningSummary(entry: LogEntry, groupPubkey?: string): SigningSummar
   const normalizedAuthorPubkey = authorPubkey ? normalizeNostrPubkey(authorPubkey) : undefined;
 
   const authorNpub = normalizedAuthorPubkey ? toNpub(normalizedAuthorPubkey) : undefined;
-  const eventIdFromEvent = getEventId(noteEvent);
+  const eventIdFromEvent = getNostrEventId(noteEvent);
   const eventIdFromHash =
     typeof data.sessionHashPreview === 'string' ? data.sessionHashPreview : undefined;
   const eventId = eventIdFromEvent ?? eventIdFromHash;
@@ -704,50 +1102,6 @@ function getSigningStatus(message: string): {
   return { label: 'Signing Event', badge: 'signing', variant: 'orange' };
 }
 
-function parseNostrEvent(content: string): {
-  kind?: number;
-  pubkey?: string;
-  created_at?: number;
-  content?: string;
-  tags?: string[][];
-  id?: string;
-} | null {
-  try {
-    const parsed = JSON.parse(content);
-    if (!parsed || typeof parsed !== 'object') return null;
-    if (typeof parsed.kind !== 'number' || typeof parsed.content !== 'string') return null;
-    return parsed as {
-      kind?: number;
-      pubkey?: string;
-      created_at?: number;
-      content?: string;
-      tags?: string[][];
-      id?: string;
-    };
-  } catch {
-    return null;
-  }
-}
-
-function extractNostrEventFromEntry(
-  data: Record<string, unknown>
-): ReturnType<typeof parseNostrEvent> {
-  const sessionContent =
-    typeof data.sessionContent === 'string' ? data.sessionContent : undefined;
-  const fromSession = sessionContent ? parseNostrEvent(sessionContent) : null;
-  if (fromSession) return fromSession;
-
-  const payload = data.payload as { env?: { content?: string } } | undefined;
-  const envContent = payload?.env?.content;
-  if (typeof envContent === 'string') {
-    const fromEnv = parseNostrEvent(envContent);
-    if (fromEnv) return fromEnv;
-  }
-
-  return null;
-}
-
-
 function extractTagLabels(tags?: string[][]): string[] {
   if (!Array.isArray(tags)) return [];
   const labels = tags
@@ -1,14 +1,17 @@
 import {
+  AvailabilityStrip,
   Badge,
   Button,
   Card,
+  Input,
   Switch,
   IconButton,
   HelpTooltip,
   GradientBackground,
+  Sparkline,
 } from '@/components/ui';
-import { usePeers, useSigner, useCopyFeedback } from '@/hooks';
-import type { Peer } from '@/types';
+import { usePeers, usePeerHealth, useSigner, useCopyFeedback } from '@/hooks';
+import type { Peer, PeerAvailability, PeerPolicyUpdate } from '@/types';
 import {
   Radio,
   User,
@@ -267,7 +270,7 @@ function PeerCard({
   isSignerRunning: boolean;
   isPinging: boolean;
   onPing: () => void;
-  onUpdatePolicy: (policy: { allowSend?: boolean; allowReceive?: boolean }) => void;
+  onUpdatePolicy: (policy: PeerPolicyUpdate) => void;
 }) {
   const [expanded, setExpanded] = useState(false);
   const { copied, copy } = useCopyFeedback();
@@ -334,6 +337,11 @@ function PeerCard({
                 {truncatePubkey(peer.pubkey)}
               </Text>
             </View>
+            {peer.note && (
+              <Text className="text-xs text-gray-500 mt-0.5" numberOfLines={1}>
+                {peer.note}
+              </Text>
+            )}
             <View className="flex-row items-center mt-1 flex-wrap gap-1">
               {getStatusBadge()}
               {peer.latency !== null && peer.status === 'online' && (
@@ -391,40 +399,148 @@ function PeerCard({
         </View>
       </View>
 
+      <PeerHealthRow pubkey={peer.pubkey} />
+
       {/* Expanded Section - Policies */}
-      {expanded && (
-        <View className="px-4 pb-4 pt-2 border-t border-gray-700/30">
-          <View className="flex-row items-center gap-1 mb-3">
-            <SlidersHorizontal size={12} color="#9ca3af" strokeWidth={2} />
-            <Text className="text-xs font-medium text-gray-400">
-              Policy Settings
+      {expanded && <PeerPolicyEditor peer={peer} onUpdatePolicy={onUpdatePolicy} />}
+    </Card>
+  );
+}
+
+const AVAILABILITY_WINDOWS: { key: keyof PeerAvailability; label: string }[] = [
+  { key: 'hour', label: '1h' },
+  { key: 'day', label: '24h' },
+  { key: 'week', label: '7d' },
+];
+
+/**
+ * Latency and ping success over the last day, with availability per window.
+ * Hidden until the peer has been pinged at least once in the last week.
+ */
+function PeerHealthRow({ pubkey }: { pubkey: string }) {
+  const { availability, latency, success } = usePeerHealth(pubkey);
+  const [width, setWidth] = useState(0);
+
+  if (availability.week === null) return null;
+
+  return (
+    <View className="px-4 pb-3">
+      <View className="flex-row items-center justify-between mb-1">
+        <Text className="text-xs text-gray-500">Last 24h</Text>
+        <View className="flex-row items-center gap-2">
+          {AVAILABILITY_WINDOWS.map(({ key, label }) => (
+            <Text key={key} className="text-xs text-gray-500">
+              {label}{' '}
+              <Text className={getAvailabilityTextColor(availability[key])}>
+                {formatAvailability(availability[key])}
+              </Text>
             </Text>
-            <HelpTooltip
-              title="Policy Settings"
-              content="Control which signing requests this peer can send to you and receive from you. Policies persist across sessions."
-              size={12}
-            />
-          </View>
-          <View className="space-y-3">
-            <Switch
-              label="Allow Send"
-              description="Allow sending signing requests to this peer"
-              value={peer.allowSend}
-              onValueChange={(value) => onUpdatePolicy({ allowSend: value })}
-            />
-            <Switch
-              label="Allow Receive"
-              description="Accept signing requests from this peer"
-              value={peer.allowReceive}
-              onValueChange={(value) => onUpdatePolicy({ allowReceive: value })}
-            />
-          </View>
+          ))}
         </View>
-      )}
-    </Card>
+      </View>
+      <View onLayout={(event) => setWidth(event.nativeEvent.layout.width)}>
+        {width > 0 && (
+          <>
+            <Sparkline values={latency} width={width} height={20} />
+            <View className="mt-1 rounded-sm overflow-hidden">
+              <AvailabilityStrip values={success} width={width} height={4} />
+            </View>
+          </>
+        )}
+      </View>
+    </View>
   );
 }
 
+/**
+ * Send/receive toggles apply immediately; the label and note are saved together.
+ * Mounted when the card expands, so the drafts start from the saved policy.
+ */
+function PeerPolicyEditor({
+  peer,
+  onUpdatePolicy,
+}: {
+  peer: Peer;
+  onUpdatePolicy: (policy: PeerPolicyUpdate) => void;
+}) {
+  const [label, setLabel] = useState(peer.displayName ?? '');
+  const [note, setNote] = useState(peer.note ?? '');
+  const isDirty =
+    label.trim() !== (peer.displayName ?? '') || note.trim() !== (peer.note ?? '');
+
+  const handleSave = () => {
+    onUpdatePolicy({ label, note });
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  };
+
+  return (
+    <View className="px-4 pb-4 pt-2 border-t border-gray-700/30">
+      <View className="flex-row items-center gap-1 mb-3">
+        <SlidersHorizontal size={12} color="#9ca3af" strokeWidth={2} />
+        <Text className="text-xs font-medium text-gray-400">
+          Policy Settings
+        </Text>
+        <HelpTooltip
+          title="Policy Settings"
+          content="Control which signing requests this peer can send to you and receive from you. Policies are saved with this share and applied every time the signer starts."
+          size={12}
+        />
+      </View>
+      <View className="space-y-3">
+        <Switch
+          label="Allow Send"
+          description="Allow sending signing requests to this peer"
+          value={peer.allowSend}
+          onValueChange={(value) => onUpdatePolicy({ allowSend: value })}
+        />
+        <Switch
+          label="Allow Receive"
+          description="Accept signing requests from this peer"
+          value={peer.allowReceive}
+          onValueChange={(value) => onUpdatePolicy({ allowReceive: value })}
+        />
+      </View>
+      <Input
+        label="Label"
+        placeholder="e.g. Laptop"
+        value={label}
+        onChangeText={setLabel}
+        autoCapitalize="words"
+        className="mt-4 mb-3"
+      />
+      <Input
+        label="Note"
+        placeholder="Who holds this share, where it runs..."
+        value={note}
+        onChangeText={setNote}
+        multiline
+        numberOfLines={2}
+        className="mb-3"
+      />
+      <Button
+        title="Save Label & Note"
+        variant="secondary"
+        size="sm"
+        disabled={!isDirty}
+        onPress={handleSave}
+      />
+    </View>
+  );
+}
+
+function formatAvailability(value: number | null): string {
+  if (value === null) return '—';
+  // Floor so a single failed ping never rounds up to 100%
+  return `${Math.floor(value * 100)}%`;
+}
+
+function getAvailabilityTextColor(value: number | null): string {
+  if (value === null) return 'text-gray-500';
+  if (value >= 0.99) return 'text-green-400';
+  if (value >= 0.9) return 'text-amber-400';
+  return 'text-red-400';
+}
+
 function truncatePubkey(pubkey: string): string {
   if (pubkey.length <= 16) return pubkey;
   return `${pubkey.slice(0, 8)}...${pubkey.slice(-4)}`;
@@ -1,32 +1,121 @@
-import { Button, Card, GradientBackground, HelpTooltip, RelayInput, SoundscapeSelector, VolumeControl } from '@/components/ui';
-import { useCredentials, useSigner, useCopyFeedback } from '@/hooks';
+import { BunkerClientList, Button, Card, GradientBackground, HelpTooltip, Input, Modal, PassphrasePromptModal, PinPromptModal, QRCodeModal, RelayHealthList, RelayInput, RelaySuggestionList, SigningPolicyEditor, SoundscapeSelector, Switch, VolumeControl } from '@/components/ui';
+import { useAppLock, useBackup, useBunker, useCredentials, useKeyring, useNotifications, usePassphrasePrompt, usePinPrompt, useRelayDiscovery, useSigner, useCopyFeedback } from '@/hooks';
+import { MIN_BACKUP_PASSWORD_LENGTH } from '@/services/backup';
 import { audioService } from '@/services/audio';
-import { useAudioStore, useLogStore, usePeerStore, useRelayStore, useSignerStore } from '@/stores';
-import type { SoundscapeId } from '@/types';
+import { useAudioStore, useLogStore, useRelayStore, useSigningPolicyStore } from '@/stores';
+import type { BunkerClient, BunkerStatus, KeyringShare, NotificationCategory, SignerStatus, SoundscapeId } from '@/types';
 import * as Haptics from 'expo-haptics';
 import { router } from 'expo-router';
 import {
   AlertTriangle,
+  Archive,
+  ArchiveRestore,
+  Bell,
   Check,
   Copy,
   Info,
+  KeyRound,
+  Link2,
+  Lock,
+  LockKeyhole,
   Music,
+  Pencil,
+  Plus,
+  QrCode,
+  RefreshCw,
+  Share2,
+  Square,
+  Trash2,
   Volume2,
 } from 'lucide-react-native';
-import { useCallback } from 'react';
+import { useCallback, useState } from 'react';
 import { Alert, Pressable, ScrollView, Text, View, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import pkg from '../../package.json';
+import { APP_VERSION, IGLOO_CORE_VERSION } from '@/constants/appInfo';
 
-const IGLOO_CORE_VERSION = pkg.dependencies['@frostr/igloo-core']?.replace(/^[\^~]/, '') ?? 'unknown';
+const AUTO_LOCK_OPTIONS: { label: string; seconds: number | null }[] = [
+  { label: '1m', seconds: 60 },
+  { label: '5m', seconds: 300 },
+  { label: '15m', seconds: 900 },
+  { label: 'Never', seconds: null },
+];
+const WIPE_AFTER_FAILURES = 10;
+const LOG_AGE_OPTIONS: { label: string; value: number }[] = [
+  { label: '1 day', value: 1 },
+  { label: '7 days', value: 7 },
+  { label: '30 days', value: 30 },
+  { label: '90 days', value: 90 },
+];
+const LOG_SIZE_OPTIONS: { label: string; value: number }[] = [
+  { label: '512 KB', value: 512 },
+  { label: '2 MB', value: 2048 },
+  { label: '8 MB', value: 8192 },
+];
+const NOTIFICATION_OPTIONS: { category: NotificationCategory; label: string; description: string }[] = [
+  {
+    category: 'signingActivity',
+    label: 'Signing activity',
+    description: 'A request was received or completed',
+  },
+  {
+    category: 'signerStopped',
+    label: 'Signer stopped',
+    description: 'The connection closed and the signer could not reconnect',
+  },
+  {
+    category: 'audioInterrupted',
+    label: 'Background audio stopped',
+    description: 'The soundscape that keeps the signer awake was interrupted',
+  },
+  {
+    category: 'quorumLost',
+    label: 'Quorum lost',
+    description: 'Too few signers are reachable to meet the threshold',
+  },
+];
+/** Share sheet for a file/message, or an animated QR code for another device */
+type BackupExportMethod = 'share' | 'qr';
 
 export default function SettingsTab() {
   const isIOS = Platform.OS === 'ios';
-  const { stop, isRunning } = useSigner();
-  const { shareDetails, deleteCredentials } = useCredentials();
+  const { isRunning, isReconnecting, relayHealth, refreshRelayHealth } = useSigner();
+  const { shareDetails } = useCredentials();
+  const {
+    shares,
+    activeShareId,
+    shareStatuses,
+    switchShare,
+    renameShare,
+    stopShare,
+    removeShare,
+    setSharePassphrase,
+    removeSharePassphrase,
+  } = useKeyring();
+  const activeShare = shares.find((share) => share.id === activeShareId) ?? null;
+  const [renamingShare, setRenamingShare] = useState<KeyringShare | null>(null);
+  const { createBackup, exportBackup } = useBackup();
+  const [isBackupModalOpen, setIsBackupModalOpen] = useState(false);
+  const [backupQr, setBackupQr] = useState<string | null>(null);
+  const { requestPin, pinPrompt } = usePinPrompt();
+  const { requestPassphrase, passphrasePrompt } = usePassphrasePrompt();
+  const {
+    isPinSet,
+    autoLockSeconds,
+    wipeAfterFailures,
+    setAutoLockSeconds,
+    setWipeAfterFailures,
+    removePin,
+    wipeKeyring,
+  } = useAppLock();
   const relays = useRelayStore((s) => s.relays);
   const setRelays = useRelayStore((s) => s.setRelays);
+  const relayDiscovery = useRelayDiscovery();
+  const logRetention = useLogStore((s) => s.retention);
+  const setLogRetention = useLogStore((s) => s.setRetention);
   const { copied: groupCopied, copy: copyGroup } = useCopyFeedback();
+  const bunker = useBunker();
+  const notifications = useNotifications();
+  const [bunkerUri, setBunkerUri] = useState<string | null>(null);
 
   // Audio preferences (persisted)
   const volume = useAudioStore((s) => s.volume);
@@ -34,6 +123,17 @@ export default function SettingsTab() {
   const setVolume = useAudioStore((s) => s.setVolume);
   const setSoundscape = useAudioStore((s) => s.setSoundscape);
 
+  // Signing approval policy (persisted)
+  const policyDefaultAction = useSigningPolicyStore((s) => s.defaultAction);
+  const policyRules = useSigningPolicyStore((s) => s.rules);
+  const setPolicyDefaultAction = useSigningPolicyStore((s) => s.setDefaultAction);
+  const addPolicyRule = useSigningPolicyStore((s) => s.addRule);
+  const updatePolicyRule = useSigningPolicyStore((s) => s.updateRule);
+  const removePolicyRule = useSigningPolicyStore((s) => s.removeRule);
+  const movePolicyRule = useSigningPolicyStore((s) => s.moveRule);
+  const approvalTimeoutSeconds = useSigningPolicyStore((s) => s.approvalTimeoutSeconds);
+  const setApprovalTimeout = useSigningPolicyStore((s) => s.setApprovalTimeout);
+
   const handleRelaysChange = useCallback((newRelays: string[]) => {
     setRelays(newRelays);
   }, [setRelays]);
@@ -72,10 +172,200 @@ export default function SettingsTab() {
     }
   }, [soundscapeId, setSoundscape, isRunning]);
 
+  const handleSwitchShare = useCallback((share: KeyringShare) => {
+    if (share.id === activeShareId) return;
+    Haptics.selectionAsync();
+    switchShare(share.id);
+  }, [activeShareId, switchShare]);
+
+  const handleStopShare = useCallback(async (share: KeyringShare) => {
+    try {
+      await stopShare(share.id);
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to stop signer'
+      );
+    }
+  }, [stopShare]);
+
+  const handleRemoveShare = useCallback((share: KeyringShare) => {
+    if (shares.length <= 1) {
+      Alert.alert(
+        'Remove Share',
+        'This is the only share in your keyring. Use Clear All Credentials below to remove it.'
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Remove Share',
+      `This will stop "${share.name}" and delete its credentials from this device. This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeShare(share.id);
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            } catch (error) {
+              Alert.alert(
+                'Error',
+                error instanceof Error ? error.message : 'Failed to remove share'
+              );
+            }
+          },
+        },
+      ]
+    );
+  }, [shares.length, removeShare]);
+
+  const handleRenameShare = useCallback((name: string) => {
+    if (renamingShare) {
+      renameShare(renamingShare.id, name);
+    }
+    setRenamingShare(null);
+  }, [renamingShare, renameShare]);
+
+  const handleExportBackup = useCallback(async (password: string, method: BackupExportMethod) => {
+    try {
+      if (method === 'qr') {
+        const serialized = await createBackup(password);
+        setIsBackupModalOpen(false);
+        setBackupQr(serialized);
+        return;
+      }
+      const shared = await exportBackup(password);
+      setIsBackupModalOpen(false);
+      if (shared) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+    } catch (error) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to export backup'
+      );
+    }
+  }, [createBackup, exportBackup]);
+
+  const handleOpenBackup = useCallback(async () => {
+    if (await requestPin('Enter your PIN to export a backup of your shares')) {
+      setIsBackupModalOpen(true);
+    }
+  }, [requestPin]);
+
+  const handleShowBunkerUri = useCallback(async () => {
+    if (!(await requestPin('Enter your PIN to pair a Nostr app'))) return;
+    try {
+      setBunkerUri(await bunker.getBunkerUri());
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to create bunker URI'
+      );
+    }
+  }, [bunker, requestPin]);
+
+  const handleRotateBunkerSecret = useCallback(async () => {
+    await bunker.rotateSecret();
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  }, [bunker]);
+
+  const handleRevokeBunkerClient = useCallback((client: BunkerClient) => {
+    Alert.alert(
+      'Revoke Access',
+      'This app will no longer be able to request signatures. It can pair again with a new bunker URI.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Revoke', style: 'destructive', onPress: () => bunker.revokeClient(client) },
+      ]
+    );
+  }, [bunker]);
+
+  const handleResolvePermissionRequest = useCallback(async (client: BunkerClient, grant: boolean) => {
+    if (grant && !(await requestPin('Enter your PIN to grant these permissions'))) return;
+    bunker.resolvePermissionRequest(client, grant);
+  }, [bunker, requestPin]);
+
+  const handleChangePin = useCallback(async () => {
+    if (await requestPin('Enter your current PIN')) {
+      router.push({ pathname: '/onboarding/pin', params: { mode: 'change' } });
+    }
+  }, [requestPin]);
+
+  const handleSetPin = useCallback(() => {
+    router.push({ pathname: '/onboarding/pin', params: { mode: 'set' } });
+  }, []);
+
+  const handleTurnOffAppLock = useCallback(async () => {
+    if (!(await requestPin('Enter your PIN to turn off the app lock'))) return;
+
+    Alert.alert(
+      'Turn Off App Lock',
+      'Anyone with this device will be able to open Igloo, view your share and control the signer.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn Off',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removePin();
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to remove PIN');
+            }
+          },
+        },
+      ]
+    );
+  }, [requestPin, removePin]);
+
+  const handleSetSharePassphrase = useCallback(async () => {
+    if (!activeShareId) return;
+    if (!(await requestPin('Enter your PIN to protect this share with a passphrase'))) return;
+
+    const encrypted = await requestPassphrase({
+      title: 'Set Share Passphrase',
+      description:
+        'The share will be stored encrypted under this passphrase and must be unlocked every time the signer starts. The passphrase cannot be recovered.',
+      confirm: true,
+      submitLabel: 'Encrypt',
+      onPassphrase: (passphrase) => setSharePassphrase(activeShareId, passphrase),
+    });
+    if (encrypted) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+  }, [activeShareId, requestPin, requestPassphrase, setSharePassphrase]);
+
+  const handleRemoveSharePassphrase = useCallback(async () => {
+    if (!activeShareId) return;
+    if (!(await requestPin('Enter your PIN to remove the share passphrase'))) return;
+
+    const decrypted = await requestPassphrase({
+      title: 'Remove Share Passphrase',
+      description:
+        'Enter the current passphrase. The share will be protected by device storage only.',
+      submitLabel: 'Remove',
+      onPassphrase: (passphrase) => removeSharePassphrase(activeShareId, passphrase),
+    });
+    if (decrypted) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+  }, [activeShareId, requestPin, requestPassphrase, removeSharePassphrase]);
+
+  const handleWipeToggle = useCallback((enabled: boolean) => {
+    setWipeAfterFailures(enabled ? WIPE_AFTER_FAILURES : null);
+  }, [setWipeAfterFailures]);
+
   const handleClearCredentials = useCallback(async () => {
+    if (!(await requestPin('Enter your PIN to clear all credentials'))) return;
+
     Alert.alert(
       'Clear Credentials',
-      'This will delete your stored credentials and return you to onboarding. This action cannot be undone.',
+      'This will stop every signer, delete all shares in your keyring and return you to onboarding. This action cannot be undone.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -83,15 +373,7 @@ export default function SettingsTab() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await stop();
-              await deleteCredentials();
-
-              // Clear all session-specific data
-              useLogStore.getState().clearLogs();
-              usePeerStore.getState().clearPeers();
-              useSignerStore.getState().resetSession();
-              useRelayStore.getState().resetToDefaults();
-
+              await wipeKeyring();
               Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
               router.replace('/onboarding');
             } catch (error) {
@@ -104,7 +386,7 @@ export default function SettingsTab() {
         },
       ]
     );
-  }, [stop, deleteCredentials]);
+  }, [requestPin, wipeKeyring]);
 
   const handleCopyGroupPubkey = useCallback(async () => {
     if (shareDetails?.groupPubkey) {
@@ -116,6 +398,45 @@ export default function SettingsTab() {
     <GradientBackground>
       <SafeAreaView className="flex-1" edges={[]}>
         <ScrollView className="flex-1" contentContainerClassName="p-4">
+          {/* Keyring */}
+          <View className="mb-6">
+            <View className="flex-row items-center gap-1 mb-3">
+              <KeyRound size={14} color="#9ca3af" strokeWidth={2} />
+              <Text className="text-sm font-semibold text-gray-400 uppercase tracking-wide">
+                Shares
+              </Text>
+              <HelpTooltip
+                title="Keyring"
+                content="Each share belongs to its own signing group and keeps its own relays and peer policies. Tap a share to manage it on the other tabs; signers for other shares keep running in the background."
+                size={14}
+              />
+            </View>
+
+            <Card>
+              {shares.map((share, index) => (
+                <ShareRow
+                  key={share.id}
+                  share={share}
+                  isActive={share.id === activeShareId}
+                  status={shareStatuses[share.id] ?? 'stopped'}
+                  isLast={index === shares.length - 1}
+                  onPress={handleSwitchShare}
+                  onRename={setRenamingShare}
+                  onStop={handleStopShare}
+                  onRemove={handleRemoveShare}
+                />
+              ))}
+              <Button
+                title="Add Share"
+                variant="secondary"
+                size="sm"
+                icon={<Plus size={16} color="#93c5fd" strokeWidth={2} />}
+                onPress={() => router.push('/onboarding/howto')}
+                className="mt-3"
+              />
+            </Card>
+          </View>
+
           {/* Relay Configuration */}
           <View className="mb-6">
             <View className="flex-row items-center gap-1 mb-3">
@@ -124,7 +445,7 @@ export default function SettingsTab() {
               </Text>
               <HelpTooltip
                 title="Relays"
-                content="Relays are servers that help coordinate signing operations between peers. Configure one or more WebSocket relays (wss://) for optimal connectivity."
+                content="Relays are servers that help coordinate signing operations between peers. Configure one or more WebSocket relays (wss://) for optimal connectivity. Relays are saved per share."
                 size={14}
               />
             </View>
@@ -136,6 +457,140 @@ export default function SettingsTab() {
                 showResetButton
               />
             </Card>
+
+            <Card className="mt-3">
+              <RelaySuggestionList
+                suggestions={relayDiscovery.suggestions}
+                hasDiscovered={relayDiscovery.hasDiscovered}
+                relayListsFound={relayDiscovery.relayListsFound}
+                isDiscovering={relayDiscovery.isDiscovering}
+                error={relayDiscovery.error}
+                onDiscover={relayDiscovery.discover}
+                onAccept={relayDiscovery.accept}
+                onAcceptAll={relayDiscovery.acceptAll}
+                onDismiss={relayDiscovery.dismiss}
+              />
+            </Card>
+
+            <Card className="mt-3">
+              <RelayHealthList
+                relays={relays}
+                health={relayHealth}
+                isActive={isRunning || isReconnecting}
+                onRefresh={refreshRelayHealth}
+              />
+            </Card>
+          </View>
+
+          {/* Signing Policy */}
+          <View className="mb-6">
+            <View className="flex-row items-center gap-1 mb-3">
+              <Text className="text-sm font-semibold text-gray-400 uppercase tracking-wide">
+                Signing Policy
+              </Text>
+              <HelpTooltip
+                title="Signing Policy"
+                content="Rules are checked before your share signs anything for a peer. Match on event kind, peer, time of day, content, or request rate, allow, deny, or ask you on the Signer tab."
+                size={14}
+              />
+            </View>
+
+            <Card>
+              <SigningPolicyEditor
+                defaultAction={policyDefaultAction}
+                rules={policyRules}
+                onDefaultActionChange={setPolicyDefaultAction}
+                onAddRule={addPolicyRule}
+                onUpdateRule={updatePolicyRule}
+                onRemoveRule={removePolicyRule}
+                onMoveRule={movePolicyRule}
+                approvalTimeoutSeconds={approvalTimeoutSeconds}
+                onApprovalTimeoutChange={setApprovalTimeout}
+              />
+            </Card>
+          </View>
+
+          {/* Remote Signing */}
+          <View className="mb-6">
+            <View className="flex-row items-center gap-1 mb-3">
+              <Link2 size={14} color="#9ca3af" strokeWidth={2} />
+              <Text className="text-sm font-semibold text-gray-400 uppercase tracking-wide">
+                Remote Signing
+              </Text>
+              <HelpTooltip
+                title="Nostr Connect (NIP-46)"
+                content="Lets Nostr apps use the group key through this device. Each request runs a signing round with your co-signers, so their policies still apply. Apps pair once with the bunker URI; its secret works a single time. Requests are only answered while the signer is running."
+                size={14}
+              />
+            </View>
+
+            <Card>
+              <Switch
+                label="Nostr Connect bunker"
+                description={getBunkerStatusText(bunker.status, bunker.lastError, bunker.enabled)}
+                value={bunker.enabled}
+                onValueChange={bunker.setEnabled}
+              />
+              {bunker.enabled && (
+                <>
+                  <View className="flex-row gap-3 mt-4">
+                    <Button
+                      title="Show Bunker URI"
+                      variant="secondary"
+                      icon={<QrCode size={16} color="#9ca3af" strokeWidth={2} />}
+                      onPress={handleShowBunkerUri}
+                      disabled={!activeShareId}
+                      className="flex-1"
+                    />
+                    <Button
+                      title="New Secret"
+                      variant="ghost"
+                      icon={<RefreshCw size={16} color="#9ca3af" strokeWidth={2} />}
+                      onPress={handleRotateBunkerSecret}
+                      disabled={!activeShareId}
+                    />
+                  </View>
+                  <Text className="text-sm font-medium text-gray-300 mt-4 mb-2">Connected Apps</Text>
+                  <BunkerClientList
+                    clients={bunker.clients}
+                    onRevoke={handleRevokeBunkerClient}
+                    onPermissionsChange={bunker.setClientPermissions}
+                    onResolvePermissionRequest={handleResolvePermissionRequest}
+                  />
+                </>
+              )}
+            </Card>
+          </View>
+
+          {/* Notifications */}
+          <View className="mb-6">
+            <View className="flex-row items-center gap-1 mb-3">
+              <Bell size={14} color="#9ca3af" strokeWidth={2} />
+              <Text className="text-sm font-semibold text-gray-400 uppercase tracking-wide">
+                Notifications
+              </Text>
+              <HelpTooltip
+                title="Local Notifications"
+                content="Posted by this device while Igloo is in the background, so a signer that stops overnight doesn't go unnoticed. Nothing is sent through a push server."
+                size={14}
+              />
+            </View>
+
+            <Card>
+              {NOTIFICATION_OPTIONS.filter(
+                // Only the iOS signer relies on background audio
+                (option) => isIOS || option.category !== 'audioInterrupted'
+              ).map((option, index) => (
+                <View key={option.category} className={index > 0 ? 'mt-4' : ''}>
+                  <Switch
+                    label={option.label}
+                    description={option.description}
+                    value={notifications.categories[option.category]}
+                    onValueChange={(enabled) => notifications.setEnabled(option.category, enabled)}
+                  />
+                </View>
+              ))}
+            </Card>
           </View>
 
           {isIOS ? (
@@ -266,11 +721,179 @@ export default function SettingsTab() {
             </View>
 
             <Card>
-              <InfoRow label="App Version" value={pkg.version} />
+              <InfoRow label="App Version" value={APP_VERSION} />
               <InfoRow label="igloo-core" value={IGLOO_CORE_VERSION} isLast />
             </Card>
           </View>
 
+          {/* Security */}
+          <View className="mb-6">
+            <View className="flex-row items-center gap-1 mb-3">
+              <Lock size={14} color="#9ca3af" strokeWidth={2} />
+              <Text className="text-sm font-semibold text-gray-400 uppercase tracking-wide">
+                Security
+              </Text>
+              <HelpTooltip
+                title="App Lock"
+                content="With a PIN set, Igloo locks itself after the chosen time in the background or without use. Running signers keep signing while the app is locked. Repeated wrong PINs are delayed, and can optionally erase every share."
+                size={14}
+              />
+            </View>
+
+            {isPinSet ? (
+              <Card>
+                <Text className="text-sm font-medium text-gray-300 mb-1.5">Auto-lock</Text>
+                <View className="flex-row gap-2 mb-4">
+                  {AUTO_LOCK_OPTIONS.map((option) => {
+                    const isSelected = option.seconds === autoLockSeconds;
+                    return (
+                      <Pressable
+                        key={option.label}
+                        onPress={() => {
+                          Haptics.selectionAsync();
+                          setAutoLockSeconds(option.seconds);
+                        }}
+                        className={`flex-1 py-2 rounded-lg border-2 items-center ${
+                          isSelected ? 'bg-blue-600/20 border-blue-500' : 'bg-gray-800/50 border-gray-700/50'
+                        }`}
+                      >
+                        <Text className={`text-sm ${isSelected ? 'text-gray-100' : 'text-gray-400'}`}>
+                          {option.label}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+                <Switch
+                  label="Erase after failed attempts"
+                  description={`Delete every share after ${WIPE_AFTER_FAILURES} wrong PINs in a row`}
+                  value={wipeAfterFailures !== null}
+                  onValueChange={handleWipeToggle}
+                />
+                <Button
+                  title="Change PIN"
+                  variant="secondary"
+                  onPress={handleChangePin}
+                  className="mt-4"
+                />
+                <Button
+                  title="Turn Off App Lock"
+                  variant="ghost"
+                  onPress={handleTurnOffAppLock}
+                  className="mt-2"
+                />
+              </Card>
+            ) : (
+              <Card>
+                <Text className="text-sm text-gray-400 mb-3">
+                  App lock is off. Set a PIN to lock Igloo when it is idle and to confirm viewing your share, starting the signer or clearing credentials.
+                </Text>
+                <Button
+                  title="Set PIN"
+                  variant="secondary"
+                  onPress={handleSetPin}
+                />
+              </Card>
+            )}
+          </View>
+
+          {/* Share Passphrase */}
+          {activeShare && (
+            <View className="mb-6">
+              <View className="flex-row items-center gap-1 mb-3">
+                <LockKeyhole size={14} color="#9ca3af" strokeWidth={2} />
+                <Text className="text-sm font-semibold text-gray-400 uppercase tracking-wide">
+                  Share Passphrase
+                </Text>
+                <HelpTooltip
+                  title="Share Passphrase"
+                  content="Encrypts the active share with a passphrase before it is stored, like igloo-desktop. A copy of the device's storage is then useless without the passphrase. The signer asks for it on every start and keeps the decrypted share in memory only while running."
+                  size={14}
+                />
+              </View>
+
+              <Card>
+                <Text className="text-sm text-gray-400 mb-3">
+                  {activeShare.passphraseProtected
+                    ? `${activeShare.name} is encrypted with a passphrase.`
+                    : `${activeShare.name} is protected by device storage only.`}
+                </Text>
+                {activeShare.passphraseProtected ? (
+                  <Button
+                    title="Remove Passphrase"
+                    variant="secondary"
+                    onPress={handleRemoveSharePassphrase}
+                  />
+                ) : (
+                  <Button
+                    title="Encrypt with Passphrase"
+                    variant="secondary"
+                    icon={<LockKeyhole size={16} color="#9ca3af" strokeWidth={2} />}
+                    onPress={handleSetSharePassphrase}
+                  />
+                )}
+              </Card>
+            </View>
+          )}
+
+          {/* Log Storage */}
+          <View className="mb-6">
+            <View className="flex-row items-center gap-1 mb-3">
+              <Archive size={14} color="#9ca3af" strokeWidth={2} />
+              <Text className="text-sm font-semibold text-gray-400 uppercase tracking-wide">
+                Log Storage
+              </Text>
+              <HelpTooltip
+                title="Saved Logs"
+                content="Logs are saved on this device, grouped by signer session, and can be browsed under Saved on the Logs tab. The oldest entries are removed once they pass either limit."
+                size={14}
+              />
+            </View>
+
+            <Card>
+              <Text className="text-sm font-medium text-gray-300 mb-1.5">Keep logs for</Text>
+              <OptionSelector
+                options={LOG_AGE_OPTIONS}
+                value={logRetention.maxAgeDays}
+                onSelect={(maxAgeDays) => setLogRetention({ maxAgeDays })}
+                className="mb-4"
+              />
+              <Text className="text-sm font-medium text-gray-300 mb-1.5">Maximum size</Text>
+              <OptionSelector
+                options={LOG_SIZE_OPTIONS}
+                value={logRetention.maxSizeKb}
+                onSelect={(maxSizeKb) => setLogRetention({ maxSizeKb })}
+              />
+            </Card>
+          </View>
+
+          {/* Backup */}
+          <View className="mb-6">
+            <View className="flex-row items-center gap-1 mb-3">
+              <ArchiveRestore size={14} color="#9ca3af" strokeWidth={2} />
+              <Text className="text-sm font-semibold text-gray-400 uppercase tracking-wide">
+                Backup
+              </Text>
+              <HelpTooltip
+                title="Encrypted Backup"
+                content="Exports every share with its relays, peer policies and your audio settings, encrypted with a password you choose. Restore it from onboarding on a new device. Without the password the backup cannot be opened."
+                size={14}
+              />
+            </View>
+
+            <Card>
+              <Text className="text-sm text-gray-400 mb-3">
+                Save an encrypted copy of your keyring somewhere safe, like a password manager.
+              </Text>
+              <Button
+                title="Export Encrypted Backup"
+                variant="secondary"
+                icon={<Share2 size={16} color="#9ca3af" strokeWidth={2} />}
+                onPress={handleOpenBackup}
+              />
+            </Card>
+          </View>
+
           {/* Danger Zone */}
           <View>
             <View className="flex-row items-center gap-1 mb-3">
@@ -284,8 +907,9 @@ export default function SettingsTab() {
               <View className="flex-row items-start mb-4">
                 <Info size={16} color="#9ca3af" strokeWidth={2} />
                 <Text className="flex-1 ml-2 text-sm text-gray-400">
-                  Clearing your credentials will remove all stored data and return you to the
-                  onboarding screen. Make sure you have a backup of your credentials.
+                  Clearing your credentials will remove every share in your keyring and all stored
+                  data, and return you to the onboarding screen. Make sure you have a backup of
+                  your credentials.
                 </Text>
               </View>
               <Button
@@ -296,11 +920,270 @@ export default function SettingsTab() {
             </Card>
           </View>
         </ScrollView>
+
+        <PinPromptModal {...pinPrompt} />
+        <PassphrasePromptModal {...passphrasePrompt} />
+
+        <BackupExportModal
+          key={isBackupModalOpen ? 'open' : 'closed'}
+          isOpen={isBackupModalOpen}
+          onClose={() => setIsBackupModalOpen(false)}
+          onExport={handleExportBackup}
+        />
+
+        <QRCodeModal
+          isOpen={backupQr !== null}
+          onClose={() => setBackupQr(null)}
+          value={backupQr ?? ''}
+          title="Encrypted Backup"
+          subtitle="Scan with Restore Backup on your other device, then enter the backup password there."
+          animated
+        />
+
+        <QRCodeModal
+          isOpen={bunkerUri !== null}
+          onClose={() => setBunkerUri(null)}
+          value={bunkerUri ?? ''}
+          title="Bunker URI"
+          subtitle="Scan or paste in a Nostr app. The secret works once."
+        />
+
+        <RenameShareModal
+          key={renamingShare?.id ?? 'none'}
+          share={renamingShare}
+          onClose={() => setRenamingShare(null)}
+          onSave={handleRenameShare}
+        />
       </SafeAreaView>
     </GradientBackground>
   );
 }
 
+function ShareRow({
+  share,
+  isActive,
+  status,
+  isLast,
+  onPress,
+  onRename,
+  onStop,
+  onRemove,
+}: {
+  share: KeyringShare;
+  isActive: boolean;
+  status: SignerStatus;
+  isLast: boolean;
+  onPress: (share: KeyringShare) => void;
+  onRename: (share: KeyringShare) => void;
+  onStop: (share: KeyringShare) => void;
+  onRemove: (share: KeyringShare) => void;
+}) {
+  const isActiveSigner =
+    status === 'running' || status === 'connecting' || status === 'reconnecting';
+  const details = share.shareDetails;
+
+  return (
+    <Pressable
+      onPress={() => onPress(share)}
+      className={`flex-row items-center py-2.5 ${isLast ? '' : 'border-b border-gray-700/30'}`}
+    >
+      <View className="flex-1">
+        <View className="flex-row items-center gap-2">
+          <Text
+            className={`text-sm font-medium ${isActive ? 'text-blue-300' : 'text-gray-100'}`}
+            numberOfLines={1}
+          >
+            {share.name}
+          </Text>
+          {isActive && <Check size={12} color="#93c5fd" strokeWidth={2} />}
+          {share.passphraseProtected && <Lock size={12} color="#9ca3af" strokeWidth={2} />}
+          {isActiveSigner && (
+            <View className="px-1.5 py-0.5 rounded bg-green-900/40">
+              <Text className="text-[10px] font-medium text-green-400">
+                {status === 'running'
+                  ? 'Running'
+                  : status === 'reconnecting'
+                    ? 'Reconnecting'
+                    : 'Connecting'}
+              </Text>
+            </View>
+          )}
+        </View>
+        <Text className="text-xs text-gray-500 font-mono mt-0.5">
+          {details
+            ? `#${details.idx} · ${details.threshold}-of-${details.totalMembers} · ${truncatePubkey(details.groupPubkey)}`
+            : 'Details unavailable'}
+        </Text>
+      </View>
+      <View className="flex-row items-center gap-3 ml-2">
+        {isActiveSigner && (
+          <Pressable onPress={() => onStop(share)} hitSlop={8}>
+            <Square size={16} color="#f87171" strokeWidth={2} />
+          </Pressable>
+        )}
+        <Pressable onPress={() => onRename(share)} hitSlop={8}>
+          <Pencil size={16} color="#9ca3af" strokeWidth={2} />
+        </Pressable>
+        <Pressable onPress={() => onRemove(share)} hitSlop={8}>
+          <Trash2 size={16} color="#9ca3af" strokeWidth={2} />
+        </Pressable>
+      </View>
+    </Pressable>
+  );
+}
+
+function BackupExportModal({
+  isOpen,
+  onClose,
+  onExport,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (password: string, method: BackupExportMethod) => Promise<void>;
+}) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [exportingMethod, setExportingMethod] = useState<BackupExportMethod | null>(null);
+  const isExporting = exportingMethod !== null;
+
+  const passwordError =
+    password.length > 0 && password.length < MIN_BACKUP_PASSWORD_LENGTH
+      ? `Use at least ${MIN_BACKUP_PASSWORD_LENGTH} characters`
+      : undefined;
+  const confirmError =
+    confirmPassword.length > 0 && confirmPassword !== password
+      ? 'Passwords do not match'
+      : undefined;
+  const canExport =
+    password.length >= MIN_BACKUP_PASSWORD_LENGTH && confirmPassword === password && !isExporting;
+
+  const handleExport = async (method: BackupExportMethod) => {
+    setExportingMethod(method);
+    try {
+      await onExport(password, method);
+    } finally {
+      setExportingMethod(null);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Export Backup" maxWidth="sm">
+      <Text className="text-sm text-gray-400 mb-3">
+        The backup contains your share credentials. Choose a strong password; it cannot be
+        recovered.
+      </Text>
+      <Input
+        label="Password"
+        value={password}
+        onChangeText={setPassword}
+        error={passwordError}
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        className="mb-3"
+      />
+      <Input
+        label="Confirm Password"
+        value={confirmPassword}
+        onChangeText={setConfirmPassword}
+        error={confirmError}
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        className="mb-4"
+      />
+      <View className="flex-row gap-3">
+        <Button title="Cancel" variant="ghost" onPress={onClose} className="flex-1" />
+        <Button
+          title="Show QR"
+          variant="secondary"
+          onPress={() => handleExport('qr')}
+          loading={exportingMethod === 'qr'}
+          disabled={!canExport}
+          className="flex-1"
+        />
+        <Button
+          title={exportingMethod === 'share' ? 'Encrypting...' : 'Export'}
+          onPress={() => handleExport('share')}
+          loading={exportingMethod === 'share'}
+          disabled={!canExport}
+          className="flex-1"
+        />
+      </View>
+    </Modal>
+  );
+}
+
+function RenameShareModal({
+  share,
+  onClose,
+  onSave,
+}: {
+  share: KeyringShare | null;
+  onClose: () => void;
+  onSave: (name: string) => void;
+}) {
+  const [name, setName] = useState(share?.name ?? '');
+
+  return (
+    <Modal isOpen={share !== null} onClose={onClose} title="Rename Share" maxWidth="sm">
+      <Input
+        label="Name"
+        value={name}
+        onChangeText={setName}
+        placeholder="Personal"
+        autoFocus
+        className="mb-4"
+      />
+      <View className="flex-row gap-3">
+        <Button title="Cancel" variant="ghost" onPress={onClose} className="flex-1" />
+        <Button
+          title="Save"
+          onPress={() => onSave(name)}
+          disabled={!name.trim()}
+          className="flex-1"
+        />
+      </View>
+    </Modal>
+  );
+}
+
+function OptionSelector({
+  options,
+  value,
+  onSelect,
+  className,
+}: {
+  options: { label: string; value: number }[];
+  value: number;
+  onSelect: (value: number) => void;
+  className?: string;
+}) {
+  return (
+    <View className={`flex-row gap-2 ${className ?? ''}`}>
+      {options.map((option) => {
+        const isSelected = option.value === value;
+        return (
+          <Pressable
+            key={option.label}
+            onPress={() => {
+              Haptics.selectionAsync();
+              onSelect(option.value);
+            }}
+            className={`flex-1 py-2 rounded-lg border-2 items-center ${
+              isSelected ? 'bg-blue-600/20 border-blue-500' : 'bg-gray-800/50 border-gray-700/50'
+            }`}
+          >
+            <Text className={`text-sm ${isSelected ? 'text-gray-100' : 'text-gray-400'}`}>
+              {option.label}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
 function InfoRow({
   label,
   value,
@@ -337,6 +1220,18 @@ function InfoRow({
   );
 }
 
+function getBunkerStatusText(status: BunkerStatus, lastError: string | null, enabled: boolean) {
+  if (!enabled) return 'Answer NIP-46 requests from Nostr apps as the group';
+  switch (status) {
+    case 'listening':
+      return 'Listening for requests';
+    case 'error':
+      return lastError ?? 'Failed to start';
+    default:
+      return 'Starts with the signer';
+  }
+}
+
 function truncatePubkey(pubkey: string): string {
   if (pubkey.length <= 16) return pubkey;
   return `${pubkey.slice(0, 8)}...${pubkey.slice(-4)}`;
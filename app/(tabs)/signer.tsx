@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { View, Text, ScrollView, Alert, Animated, Platform, Pressable } from 'react-native';
+import { router } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import {
   Key,
@@ -17,6 +18,11 @@ import {
   User,
   VolumeX,
   Volume2,
+  ShieldQuestion,
+  PenLine,
+  ChevronRight,
+  KeyRound,
+  Users,
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import {
@@ -27,13 +33,25 @@ import {
   Collapsible,
   CredentialDisplay,
   GradientBackground,
+  PassphrasePromptModal,
+  PinPromptModal,
   isMutedVolume,
 } from '@/components/ui';
-import { useSigner, useIgloo, useCopyFeedback } from '@/hooks';
-import { useAudioStore } from '@/stores';
+import {
+  useSigner,
+  useIgloo,
+  useKeyring,
+  useCopyFeedback,
+  usePassphrasePrompt,
+  usePinPrompt,
+  useQuorum,
+} from '@/hooks';
+import { useAudioStore, useCredentialStore, useLockStore } from '@/stores';
 import { audioService } from '@/services/audio';
+import { getVerifiedSessionEvent } from '@/services/igloo';
 import { secureStorage } from '@/services/storage/secureStorage';
-import type { SignerStatus, Credentials } from '@/types';
+import { shareEncryption } from '@/services/storage/shareEncryption';
+import type { SignerStatus, Credentials, SigningRequest, QuorumStatus } from '@/types';
 
 export default function SignerTab() {
   const {
@@ -44,16 +62,31 @@ export default function SignerTab() {
     signingRequestsReceived,
     signingRequestsCompleted,
     recentRequests,
+    heldRequests,
     shareDetails,
     isRunning,
     isConnecting,
+    isReconnecting,
     start,
     stop,
+    approveRequest,
+    rejectRequest,
     getUptime,
   } = useSigner();
 
   const { decodeGroupCredential, decodeShareCredential } = useIgloo();
   const { copied: pubkeyCopied, copy: copyPubkey } = useCopyFeedback();
+  const { requestPin, pinPrompt } = usePinPrompt();
+  const { requestPassphrase, passphrasePrompt } = usePassphrasePrompt();
+  const { revealShare } = useKeyring();
+  const quorum = useQuorum();
+
+  // The share stays concealed until the PIN is entered; locking the app conceals it again
+  const isPinSet = useLockStore((s) => s.isPinSet);
+  const lastVerifiedAt = useLockStore((s) => s.lastVerifiedAt);
+  const [shareRevealedFor, setShareRevealedFor] = useState<number | null>(null);
+  const isShareRevealed =
+    !isPinSet || (shareRevealedFor !== null && shareRevealedFor === lastVerifiedAt);
 
   // Audio state for quick mute
   const volume = useAudioStore((s) => s.volume);
@@ -61,22 +94,52 @@ export default function SignerTab() {
   const previousVolume = useRef(!isMutedVolume(volume) ? volume : 0.3);
   const isIOS = Platform.OS === 'ios';
 
+  // Buzz when a new request starts waiting for approval
+  const heldCount = heldRequests.length;
+  const previousHeldCount = useRef(heldCount);
+  useEffect(() => {
+    if (heldCount > previousHeldCount.current) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    }
+    previousHeldCount.current = heldCount;
+  }, [heldCount]);
+
+  const activeShareId = useCredentialStore((s) => s.activeShareId);
+  const isShareProtected = useCredentialStore(
+    (s) => s.shares.find((share) => share.id === s.activeShareId)?.passphraseProtected ?? false
+  );
   const [credentials, setCredentials] = useState<Credentials | null>(null);
   const [decodedGroup, setDecodedGroup] = useState<object | null>(null);
   const [decodedShare, setDecodedShare] = useState<object | null>(null);
-
-  // Load credentials on mount
+  // Passphrase-protected shares are decrypted only when the user asks to see them
+  const [decryptedShare, setDecryptedShare] = useState<{
+    shareId: string;
+    share: string;
+    decoded: object | null;
+  } | null>(null);
+  const visibleDecryptedShare =
+    isShareProtected && decryptedShare?.shareId === activeShareId ? decryptedShare : null;
+
+  // Load credentials for the active share
   useEffect(() => {
     let mounted = true;
 
     async function loadCredentials() {
       try {
-        const creds = await secureStorage.getCredentials();
-        if (!mounted || !creds) return;
+        const creds = activeShareId ? await secureStorage.getCredentials(activeShareId) : null;
+        if (!mounted) return;
+        if (!creds) {
+          setCredentials(null);
+          setDecodedGroup(null);
+          setDecodedShare(null);
+          return;
+        }
 
         setCredentials(creds);
         setDecodedGroup(decodeGroupCredential(creds.group));
-        setDecodedShare(decodeShareCredential(creds.share));
+        setDecodedShare(
+          shareEncryption.isEncrypted(creds.share) ? null : decodeShareCredential(creds.share)
+        );
       } catch (error) {
         console.error('Failed to load credentials:', error);
       }
@@ -86,15 +149,27 @@ export default function SignerTab() {
     return () => {
       mounted = false;
     };
-  }, [decodeGroupCredential, decodeShareCredential]);
+  }, [activeShareId, isShareProtected, decodeGroupCredential, decodeShareCredential]);
 
   const handleToggle = useCallback(async () => {
     try {
-      if (isRunning) {
+      if (isRunning || isReconnecting) {
         await stop();
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       } else {
-        await start();
+        if (!(await requestPin('Enter your PIN to start the signer'))) return;
+        if (isShareProtected) {
+          const started = await requestPassphrase({
+            title: 'Unlock Share',
+            description:
+              'Enter the passphrase for this share. It is decrypted in memory only while the signer runs.',
+            submitLabel: 'Start',
+            onPassphrase: (passphrase) => start(passphrase),
+          });
+          if (!started) return;
+        } else {
+          await start();
+        }
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       }
     } catch (error) {
@@ -104,7 +179,57 @@ export default function SignerTab() {
         error instanceof Error ? error.message : 'Failed to toggle signer'
       );
     }
-  }, [isRunning, start, stop]);
+  }, [isRunning, isReconnecting, isShareProtected, start, stop, requestPin, requestPassphrase]);
+
+  const handleRevealShare = useCallback(async () => {
+    if (!(await requestPin('Enter your PIN to view your share credential'))) return;
+
+    if (isShareProtected && activeShareId && !visibleDecryptedShare) {
+      const revealed = await requestPassphrase({
+        title: 'Reveal Share',
+        description: 'Enter the passphrase this share is encrypted with.',
+        submitLabel: 'Reveal',
+        onPassphrase: async (passphrase) => {
+          const share = await revealShare(activeShareId, passphrase);
+          setDecryptedShare({ shareId: activeShareId, share, decoded: decodeShareCredential(share) });
+        },
+      });
+      if (!revealed) return;
+    }
+    setShareRevealedFor(useLockStore.getState().lastVerifiedAt);
+  }, [
+    requestPin,
+    requestPassphrase,
+    revealShare,
+    decodeShareCredential,
+    isShareProtected,
+    activeShareId,
+    visibleDecryptedShare,
+  ]);
+
+  const handleApprove = useCallback(
+    (requestId: string) => {
+      try {
+        approveRequest(requestId);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      } catch (error) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert(
+          'Error',
+          error instanceof Error ? error.message : 'Failed to approve request'
+        );
+      }
+    },
+    [approveRequest]
+  );
+
+  const handleReject = useCallback(
+    (requestId: string) => {
+      rejectRequest(requestId);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    },
+    [rejectRequest]
+  );
 
   const handleCopyPubkey = useCallback(async () => {
     if (shareDetails?.groupPubkey) {
@@ -209,8 +334,14 @@ export default function SignerTab() {
 
             {/* Toggle Button */}
             <Button
-              title={isRunning ? 'Stop Signer' : isConnecting ? 'Connecting...' : 'Start Signer'}
-              variant={isRunning ? 'danger' : 'primary'}
+              title={
+                isRunning || isReconnecting
+                  ? 'Stop Signer'
+                  : isConnecting
+                    ? 'Connecting...'
+                    : 'Start Signer'
+              }
+              variant={isRunning || isReconnecting ? 'danger' : 'primary'}
               size="lg"
               loading={isConnecting}
               onPress={handleToggle}
@@ -218,6 +349,38 @@ export default function SignerTab() {
             />
           </Card>
 
+          {/* Quorum Readiness */}
+          {quorum && <QuorumCard quorum={quorum} isRunning={isRunning} />}
+
+          {/* Awaiting Approval */}
+          {heldRequests.length > 0 && (
+            <Card className="mb-4 border-yellow-500/50">
+              <View className="flex-row items-center justify-between mb-3">
+                <View className="flex-row items-center gap-1">
+                  <ShieldQuestion size={16} color="#eab308" strokeWidth={2} />
+                  <Text className="text-sm font-medium text-yellow-400 ml-1">
+                    Awaiting Approval
+                  </Text>
+                  <HelpTooltip
+                    title="Approval Requests"
+                    content="Your signing policy asked for confirmation before this share signs. The requesting peer only waits about 5 seconds, so this request was declined. Approve to sign the same request when that peer sends it again within 2 minutes. Requests are dropped when the timer runs out."
+                    size={14}
+                  />
+                </View>
+                <Badge label={String(heldRequests.length)} size="sm" variant="warning" />
+              </View>
+              {heldRequests.map((request, index) => (
+                <HeldRequestItem
+                  key={request.id}
+                  request={request}
+                  onApprove={handleApprove}
+                  onReject={handleReject}
+                  showDivider={index < heldRequests.length - 1}
+                />
+              ))}
+            </Card>
+          )}
+
           {/* Share Info Card */}
           {shareDetails && (
             <Card className="mb-4">
@@ -290,9 +453,15 @@ export default function SignerTab() {
                 {/* Share Credential */}
                 <CredentialDisplay
                   label="Share Credential"
-                  credential={credentials.share}
-                  decodedData={decodedShare || undefined}
+                  credential={
+                    isShareProtected ? (visibleDecryptedShare?.share ?? '') : credentials.share
+                  }
+                  decodedData={
+                    (isShareProtected ? visibleDecryptedShare?.decoded : decodedShare) || undefined
+                  }
                   masked
+                  concealed={!isShareRevealed || (isShareProtected && !visibleDecryptedShare)}
+                  onReveal={handleRevealShare}
                   helpContent="Your share credential (bfshare) contains your secret signing share. Keep this secure and never share it with others."
                 />
               </View>
@@ -343,6 +512,42 @@ export default function SignerTab() {
             )}
           </Card>
 
+          {/* Sign as Group */}
+          <Pressable onPress={() => router.push('/sign')} disabled={!isRunning}>
+            <Card className={`mb-4 ${isRunning ? '' : 'opacity-50'}`}>
+              <View className="flex-row items-center">
+                <PenLine size={16} color="#9ca3af" strokeWidth={2} />
+                <View className="flex-1 ml-2">
+                  <Text className="text-sm font-medium text-gray-400">Sign as Group</Text>
+                  <Text className="text-xs text-gray-500">
+                    {isRunning
+                      ? 'Start a signing round from this device'
+                      : 'Start signer to sign from this device'}
+                  </Text>
+                </View>
+                <ChevronRight size={16} color="#6b7280" strokeWidth={2} />
+              </View>
+            </Card>
+          </Pressable>
+
+          {/* Decrypt as Group */}
+          <Pressable onPress={() => router.push('/decrypt')} disabled={!isRunning}>
+            <Card className={`mb-4 ${isRunning ? '' : 'opacity-50'}`}>
+              <View className="flex-row items-center">
+                <KeyRound size={16} color="#9ca3af" strokeWidth={2} />
+                <View className="flex-1 ml-2">
+                  <Text className="text-sm font-medium text-gray-400">Decrypt as Group</Text>
+                  <Text className="text-xs text-gray-500">
+                    {isRunning
+                      ? 'Read a DM sent to the group key'
+                      : 'Start signer to decrypt from this device'}
+                  </Text>
+                </View>
+                <ChevronRight size={16} color="#6b7280" strokeWidth={2} />
+              </View>
+            </Card>
+          </Pressable>
+
           {/* Stats Card */}
           <Card className="mb-4">
             <View className="flex-row items-center gap-2 mb-3">
@@ -386,9 +591,14 @@ export default function SignerTab() {
                   size={14}
                 />
               </View>
-              {recentRequests.length > 0 && (
-                <Badge label={String(recentRequests.length)} size="sm" variant="info" />
-              )}
+              <View className="flex-row items-center gap-3">
+                {recentRequests.length > 0 && (
+                  <Badge label={String(recentRequests.length)} size="sm" variant="info" />
+                )}
+                <Pressable onPress={() => router.push('/history')} hitSlop={8}>
+                  <Text className="text-xs text-blue-400">View history</Text>
+                </Pressable>
+              </View>
             </View>
 
             {recentRequests.length === 0 ? (
@@ -415,10 +625,14 @@ export default function SignerTab() {
                       </Text>
                       <Text className="text-xs text-gray-400">
                         {formatTime(request.timestamp)}
+                        {request.type === 'ecdh' ? ' · ECDH' : ''}
+                        {request.policyDecision?.ruleName
+                          ? ` · ${request.policyDecision.ruleName}`
+                          : ''}
                       </Text>
                     </View>
                     <Badge
-                      label={request.status}
+                      label={getRequestStatusLabel(request)}
                       variant={
                         request.status === 'completed'
                           ? 'success'
@@ -434,6 +648,8 @@ export default function SignerTab() {
             )}
           </Card>
         </ScrollView>
+        <PinPromptModal {...pinPrompt} />
+        <PassphrasePromptModal {...passphrasePrompt} />
       </SafeAreaView>
     </GradientBackground>
   );
@@ -475,7 +691,7 @@ function SignerStatusIndicator({ status }: { status: SignerStatus }) {
         ])
       );
       animationRef.current.start();
-    } else if (status === 'connecting') {
+    } else if (status === 'connecting' || status === 'reconnecting') {
       spinAnimationRef.current = Animated.loop(
         Animated.timing(spinAnim, {
           toValue: 1,
@@ -503,6 +719,7 @@ function SignerStatusIndicator({ status }: { status: SignerStatus }) {
       case 'running':
         return 'bg-green-500';
       case 'connecting':
+      case 'reconnecting':
         return 'bg-yellow-500';
       case 'error':
         return 'bg-red-500';
@@ -518,6 +735,7 @@ function SignerStatusIndicator({ status }: { status: SignerStatus }) {
       case 'running':
         return <CheckCircle {...iconProps} />;
       case 'connecting':
+      case 'reconnecting':
         return (
           <Animated.View
             style={{
@@ -550,6 +768,178 @@ function SignerStatusIndicator({ status }: { status: SignerStatus }) {
   );
 }
 
+/**
+ * A held signing or ECDH request with the decoded event and approve/reject actions.
+ */
+function HeldRequestItem({
+  request,
+  onApprove,
+  onReject,
+  showDivider,
+}: {
+  request: SigningRequest;
+  onApprove: (requestId: string) => void;
+  onReject: (requestId: string) => void;
+  showDivider: boolean;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setNow(Date.now());
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  // Only show an event that hashes to what is being signed; the requester picks the content
+  const event =
+    request.type === 'sign' ? getVerifiedSessionEvent(request.content, request.sighash) : null;
+  const isUnverified = request.type === 'sign' && !event;
+  const secondsLeft = request.expiresAt
+    ? Math.max(0, Math.ceil((request.expiresAt.getTime() - now) / 1000))
+    : null;
+  const contentPreview =
+    request.type === 'ecdh'
+      ? `Wants to derive a shared secret with ${
+          request.ecdhPubkey ? truncatePubkey(request.ecdhPubkey) : 'an unknown pubkey'
+        }. Approving lets the group key decrypt and encrypt messages with it.`
+      : event?.content;
+
+  return (
+    <View className={showDivider ? 'pb-3 mb-3 border-b border-gray-700/30' : ''}>
+      <View className="flex-row items-center justify-between mb-2">
+        <Text className="text-sm text-gray-100">{truncatePubkey(request.pubkey)}</Text>
+        {secondsLeft !== null && (
+          <Text className="text-xs text-yellow-400">{secondsLeft}s left</Text>
+        )}
+      </View>
+
+      <View className="bg-gray-900/60 rounded-lg p-3 mb-3">
+        <View className="flex-row flex-wrap gap-2 mb-2">
+          {request.type === 'ecdh' && <Badge label="ECDH" size="sm" variant="info" />}
+          {request.eventKind !== undefined && (
+            <Badge label={`kind ${request.eventKind}`} size="sm" variant="info" />
+          )}
+          {event?.tags && event.tags.length > 0 && (
+            <Badge label={`${event.tags.length} tags`} size="sm" />
+          )}
+          {request.policyDecision?.ruleName && (
+            <Badge label={request.policyDecision.ruleName} size="sm" variant="purple" />
+          )}
+        </View>
+        {event?.created_at !== undefined && (
+          <Text className="text-xs text-gray-500 mb-1">
+            Created {new Date(event.created_at * 1000).toLocaleString()}
+          </Text>
+        )}
+        {isUnverified ? (
+          <Text className="text-sm text-amber-300">
+            The content sent with this request does not match the hash being signed, so what
+            you would sign is unknown
+            {request.sighash ? ` (hash ${request.sighash.slice(0, 16)}...)` : ''}. Only approve
+            if you trust this peer completely.
+          </Text>
+        ) : (
+          <Text className="text-sm text-gray-300" numberOfLines={6}>
+            {contentPreview ? contentPreview : 'No event content available'}
+          </Text>
+        )}
+      </View>
+
+      <View className="flex-row gap-2">
+        <Button
+          title="Reject"
+          variant="danger"
+          size="sm"
+          onPress={() => onReject(request.id)}
+          className="flex-1"
+        />
+        <Button
+          title="Approve"
+          variant="success"
+          size="sm"
+          onPress={() => onApprove(request.id)}
+          className="flex-1"
+        />
+      </View>
+    </View>
+  );
+}
+
+function getRequestStatusLabel(request: SigningRequest): string {
+  if (request.approval === 'rejected') return 'rejected';
+  if (request.approval === 'approved') return 'approved';
+  if (request.approval === 'expired') return 'expired';
+  if (
+    request.status === 'failed' &&
+    request.policyDecision &&
+    request.policyDecision.action !== 'allow'
+  ) {
+    return 'denied';
+  }
+  return request.status;
+}
+
+function QuorumCard({ quorum, isRunning }: { quorum: QuorumStatus; isRunning: boolean }) {
+  const badge = !isRunning
+    ? { label: 'Offline', variant: 'default' as const }
+    : quorum.state === 'reachable'
+      ? { label: 'Ready', variant: 'success' as const }
+      : quorum.state === 'checking'
+        ? { label: 'Checking', variant: 'warning' as const }
+        : { label: 'Below threshold', variant: 'error' as const };
+
+  return (
+    <Card className={`mb-4 ${isRunning && quorum.state === 'unreachable' ? 'border-red-500/50' : ''}`}>
+      <View className="flex-row items-center justify-between mb-3">
+        <View className="flex-row items-center gap-2">
+          <Users size={16} color="#9ca3af" strokeWidth={2} />
+          <Text className="text-sm font-medium text-gray-400">Signing Quorum</Text>
+          <HelpTooltip
+            title="Signing Quorum"
+            content="Counts this device plus online peers you allow sending requests to. Signing needs at least the threshold number of them; below it, requests can't complete. Peer status comes from pings on the Peers tab and from peers pinging you."
+            size={14}
+          />
+        </View>
+        <Badge label={badge.label} variant={badge.variant} size="sm" dot />
+      </View>
+      {isRunning ? (
+        <>
+          <View className="flex-row gap-1 mb-2">
+            {Array.from({ length: quorum.totalMembers }, (_, index) => (
+              <View
+                key={index}
+                className={`flex-1 h-1.5 rounded-full ${
+                  index < quorum.available
+                    ? quorum.available >= quorum.threshold
+                      ? 'bg-green-500'
+                      : 'bg-red-500'
+                    : index < quorum.threshold
+                      ? 'bg-gray-600'
+                      : 'bg-gray-800'
+                }`}
+              />
+            ))}
+          </View>
+          <Text className="text-sm text-gray-300">
+            {`${quorum.available} of ${quorum.threshold} required signers reachable`}
+          </Text>
+          {quorum.state === 'checking' && (
+            <Text className="text-xs text-gray-500 mt-1">
+              {`Waiting to hear from ${quorum.pending} ${quorum.pending === 1 ? 'peer' : 'peers'}`}
+            </Text>
+          )}
+        </>
+      ) : (
+        <Text className="text-sm text-gray-500">
+          {`Start signer to check whether ${quorum.threshold} of ${quorum.totalMembers} signers are reachable`}
+        </Text>
+      )}
+    </Card>
+  );
+}
+
 function InfoItem({ label, value }: { label: string; value: string }) {
   return (
     <View className="items-center">
@@ -565,6 +955,8 @@ function getStatusText(status: SignerStatus): string {
       return 'Signer Active';
     case 'connecting':
       return 'Connecting...';
+    case 'reconnecting':
+      return 'Reconnecting...';
     case 'error':
       return 'Error';
     default:
@@ -0,0 +1,17 @@
+import { getDeepLinkRoute, parseDeepLink } from '@/services/linking';
+
+/**
+ * Rewrite incoming igloo:// and nostrconnect:// URLs, and bare bfcred credentials, to the
+ * screen that handles them.
+ * Anything else is left for Expo Router to match against the app's routes.
+ */
+export function redirectSystemPath({ path }: { path: string; initial: boolean }): string {
+  try {
+    const link = parseDeepLink(path);
+    return link ? getDeepLinkRoute(link) : path;
+  } catch (error) {
+    // Throwing here would crash the app on launch
+    console.warn('[DeepLink] Failed to handle URL:', error);
+    return '/';
+  }
+}
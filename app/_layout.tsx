@@ -8,21 +8,29 @@ import '@/polyfills/nostr-shim';
 import '../global.css';
 
 import { useEffect, useState } from 'react';
-import { LogBox, Platform } from 'react-native';
+import { LogBox, Platform, View } from 'react-native';
 
 // Suppress SafeAreaView deprecation warning from react-navigation internals
 LogBox.ignoreLogs(['SafeAreaView has been deprecated']);
 import { DarkTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
-import { Stack, router } from 'expo-router';
+import { Stack, router, useSegments } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import 'react-native-reanimated';
 
 import { StatusBar } from 'expo-status-bar';
-import { useCredentialStore } from '@/stores';
-import { useIgloo } from '@/hooks';
+import { useCredentialStore, useLockStore } from '@/stores';
+import {
+  useAutoLock,
+  useBunker,
+  useForegroundSigner,
+  useIgloo,
+  useNotifications,
+  useQuorumAlert,
+} from '@/hooks';
 import { secureStorage } from '@/services/storage/secureStorage';
+import { shareEncryption } from '@/services/storage/shareEncryption';
 import { audioService } from '@/services/audio';
 
 export {
@@ -62,14 +70,34 @@ export default function RootLayout() {
 
 function RootLayoutNav() {
   const hasCredentials = useCredentialStore((s) => s.hasCredentials);
+  const activeShareId = useCredentialStore((s) => s.activeShareId);
   const isHydrated = useCredentialStore((s) => s.isHydrated);
   const hydrateFromStorage = useCredentialStore((s) => s.hydrateFromStorage);
   const setShareDetails = useCredentialStore((s) => s.setShareDetails);
+  const isLocked = useLockStore((s) => s.isLocked);
+  const isLockHydrated = useLockStore((s) => s.isHydrated);
+  const hydrateLock = useLockStore((s) => s.hydrate);
   const [isReady, setIsReady] = useState(false);
+  const segments = useSegments();
+
+  // Lock after inactivity; every touch in the app counts as activity
+  const { recordActivity } = useAutoLock();
 
   // Initialize IglooService event listeners and get the getShareDetails function
   const { getShareDetails } = useIgloo();
 
+  // Answer NIP-46 requests while the bunker is enabled and the signer is running
+  useBunker();
+
+  // Stop and Start buttons on the Android signer notification
+  useForegroundSigner();
+
+  // Warn when the running signer can no longer reach enough peers to sign
+  useQuorumAlert();
+
+  // Keep local notification settings applied and ask for permission when a signer starts
+  useNotifications();
+
   // Pre-initialize audio mode to avoid delay when signer starts
   useEffect(() => {
     if (Platform.OS === 'ios') {
@@ -80,21 +108,22 @@ function RootLayoutNav() {
   // Hydrate credential state from storage on mount
   useEffect(() => {
     async function prepare() {
-      await hydrateFromStorage();
+      await Promise.all([hydrateFromStorage(), hydrateLock()]);
       setIsReady(true);
     }
     prepare();
-  }, [hydrateFromStorage]);
+  }, [hydrateFromStorage, hydrateLock]);
 
   // Refresh shareDetails after hydration to ensure we have the latest calculated values
   // (fixes stale cached data where totalMembers was undefined)
   useEffect(() => {
     async function refreshShareDetails() {
-      if (!isHydrated || !hasCredentials) return;
+      if (!isHydrated || !hasCredentials || !activeShareId) return;
 
       try {
-        const credentials = await secureStorage.getCredentials();
-        if (credentials) {
+        const credentials = await secureStorage.getCredentials(activeShareId);
+        // A passphrase-protected share can't be decoded; keep its saved details
+        if (credentials && !shareEncryption.isEncrypted(credentials.share)) {
           const details = getShareDetails(credentials.share, credentials.group);
           if (details) {
             setShareDetails(details);
@@ -108,20 +137,29 @@ function RootLayoutNav() {
       }
     }
     refreshShareDetails();
-  }, [isHydrated, hasCredentials, getShareDetails, setShareDetails]);
+  }, [isHydrated, hasCredentials, activeShareId, getShareDetails, setShareDetails]);
 
-  // Handle navigation based on credentials
+  // Handle navigation based on credentials and the app lock
   useEffect(() => {
-    if (!isReady || !isHydrated) return;
+    if (!isReady || !isHydrated || !isLockHydrated) return;
 
-    // Navigate to appropriate screen based on credential state
+    // Navigate to appropriate screen based on credential state.
+    // A credential link may already have opened an onboarding screen; stay there.
     if (!hasCredentials) {
-      router.replace('/onboarding');
+      if (segments[0] !== 'onboarding') {
+        router.replace('/onboarding');
+      }
+      return;
+    }
+
+    // The app lock is opt-in; without a PIN the store never locks
+    if (isLocked && segments[0] !== 'lock') {
+      router.push('/lock');
     }
-  }, [isReady, isHydrated, hasCredentials]);
+  }, [isReady, isHydrated, isLockHydrated, hasCredentials, isLocked, segments]);
 
-  // Don't render until we know the credential state
-  if (!isReady || !isHydrated) {
+  // Don't render until we know the credential and lock state
+  if (!isReady || !isHydrated || !isLockHydrated) {
     return null;
   }
 
@@ -129,11 +167,22 @@ function RootLayoutNav() {
     <SafeAreaProvider>
       <ThemeProvider value={DarkTheme}>
         <StatusBar style="light" />
-        <Stack screenOptions={{ headerShown: false }}>
-          <Stack.Screen name="(tabs)" />
-          <Stack.Screen name="onboarding" />
-          <Stack.Screen name="+not-found" options={{ headerShown: true, title: 'Not Found' }} />
-        </Stack>
+        <View className="flex-1" onTouchStart={recordActivity}>
+          <Stack screenOptions={{ headerShown: false }}>
+            <Stack.Screen name="(tabs)" />
+            <Stack.Screen name="onboarding" />
+            <Stack.Screen
+              name="lock"
+              options={{ gestureEnabled: false, animation: 'fade', presentation: 'fullScreenModal' }}
+            />
+            <Stack.Screen name="history" />
+            <Stack.Screen name="signing-session/[id]" />
+            <Stack.Screen name="sign" />
+            <Stack.Screen name="decrypt" />
+            <Stack.Screen name="connect" />
+            <Stack.Screen name="+not-found" options={{ headerShown: true, title: 'Not Found' }} />
+          </Stack>
+        </View>
       </ThemeProvider>
     </SafeAreaProvider>
   );
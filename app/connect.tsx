@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import { Alert, Pressable, ScrollView, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { ArrowLeft, Link2, XCircle } from 'lucide-react-native';
+import {
+  Badge,
+  Button,
+  Card,
+  GradientBackground,
+  HelpTooltip,
+  PermissionRisks,
+  PinPromptModal,
+} from '@/components/ui';
+import { useBunker, usePinPrompt, useSigner } from '@/hooks';
+import { formatPermission, parseNostrConnectInvite } from '@/services/bunker';
+import type { NostrConnectInvite } from '@/types';
+
+export default function ConnectScreen() {
+  const { uri } = useLocalSearchParams<{ uri?: string }>();
+  const { isRunning } = useSigner();
+  const { approveConnection } = useBunker();
+  const { requestPin, pinPrompt } = usePinPrompt();
+  const [isApproving, setIsApproving] = useState(false);
+
+  const parsed = useMemo((): { invite: NostrConnectInvite | null; error: string | null } => {
+    if (!uri) return { invite: null, error: 'The link has no nostrconnect:// URI' };
+    try {
+      return { invite: parseNostrConnectInvite(uri), error: null };
+    } catch (error) {
+      return {
+        invite: null,
+        error: error instanceof Error ? error.message : 'Invalid nostrconnect:// URI',
+      };
+    }
+  }, [uri]);
+  const { invite } = parsed;
+
+  const close = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/signer');
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!invite) return;
+    if (!(await requestPin('Enter your PIN to connect this app'))) return;
+    setIsApproving(true);
+    try {
+      await approveConnection(invite);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert(
+        'App Connected',
+        `${invite.name ?? 'The app'} can now send requests to this signer. Manage it under Remote Signing in Settings.`,
+        [{ text: 'OK', onPress: close }]
+      );
+    } catch (error) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to connect the app');
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  return (
+    <GradientBackground>
+      <SafeAreaView className="flex-1" edges={['top']}>
+        {/* Header */}
+        <View className="flex-row items-center px-4 py-3 border-b border-blue-900/30">
+          <Pressable onPress={close} className="w-10 h-10 items-center justify-center -ml-2">
+            <ArrowLeft size={18} color="#9ca3af" strokeWidth={2} />
+          </Pressable>
+          <Text className="flex-1 text-lg font-semibold text-gray-100">Connect App</Text>
+          <HelpTooltip
+            title="Connect App"
+            content="A Nostr app opened this link to use your group key through the Nostr Connect bunker. Approving pairs it with the active share; co-signers' policies still apply to every request."
+            size={16}
+          />
+        </View>
+
+        <ScrollView contentContainerStyle={{ padding: 16 }}>
+          {!invite ? (
+            <Card className="border-red-500/40">
+              <View className="flex-row items-center gap-2 mb-2">
+                <XCircle size={16} color="#ef4444" strokeWidth={2} />
+                <Text className="text-sm font-medium text-gray-300">Can&apos;t read this link</Text>
+              </View>
+              <Text className="text-sm text-red-400">{parsed.error}</Text>
+            </Card>
+          ) : (
+            <>
+              {!isRunning && (
+                <Card className="mb-4 border-amber-500/40">
+                  <Text className="text-sm text-amber-300">Start the signer to connect apps.</Text>
+                </Card>
+              )}
+
+              <Card className="mb-4">
+                <View className="flex-row items-center gap-2 mb-3">
+                  <Link2 size={16} color="#9ca3af" strokeWidth={2} />
+                  <Text className="flex-1 text-sm font-medium text-gray-300" numberOfLines={1}>
+                    {invite.name ?? 'Unnamed app'}
+                  </Text>
+                </View>
+                {invite.url && <DetailRow label="Website" value={invite.url} />}
+                <DetailRow label="App key" value={invite.clientPubkey} />
+                <DetailRow label="Relays" value={invite.relays.join('\n')} />
+
+                <Text className="text-xs text-gray-500 mt-2 mb-1.5">Asks to</Text>
+                <View className="flex-row flex-wrap gap-1.5 mb-2">
+                  {invite.permissions.length === 0 && (
+                    <Text className="text-xs text-gray-400">
+                      Nothing beyond reading the group pubkey. You can grant more in Settings.
+                    </Text>
+                  )}
+                  {invite.permissions.map((permission) => (
+                    <Badge key={permission} label={formatPermission(permission)} size="sm" />
+                  ))}
+                </View>
+                <PermissionRisks permissions={invite.permissions} />
+              </Card>
+
+              <View className="flex-row gap-2">
+                <Button title="Decline" variant="outline" onPress={close} className="flex-1" />
+                <Button
+                  title="Approve"
+                  variant="success"
+                  loading={isApproving}
+                  disabled={!isRunning || isApproving}
+                  onPress={handleApprove}
+                  className="flex-1"
+                />
+              </View>
+            </>
+          )}
+        </ScrollView>
+        <PinPromptModal {...pinPrompt} />
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <View className="mb-2">
+      <Text className="text-xs text-gray-500">{label}</Text>
+      <Text className="text-xs text-gray-300 font-mono" selectable>
+        {value}
+      </Text>
+    </View>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { KeyboardAvoidingView, Platform, Pressable, ScrollView, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import * as Clipboard from 'expo-clipboard';
+import * as Haptics from 'expo-haptics';
+import { ArrowLeft, Check, ClipboardPaste, Copy, KeyRound, LockOpen } from 'lucide-react-native';
+import { Button, Card, GradientBackground, HelpTooltip, Input } from '@/components/ui';
+import { useCopyFeedback, useGroupDecryption, useSigner } from '@/hooks';
+
+export default function DecryptScreen() {
+  const { isRunning } = useSigner();
+  const { result, isDecrypting, error, decrypt, reset } = useGroupDecryption();
+  const { copied, copy } = useCopyFeedback({ duration: 1500 });
+
+  const [sender, setSender] = useState('');
+  const [payload, setPayload] = useState('');
+
+  const handlePaste = async () => {
+    setPayload((await Clipboard.getStringAsync()).trim());
+    reset();
+  };
+
+  const handleDecrypt = async () => {
+    const decrypted = await decrypt(sender, payload);
+    Haptics.notificationAsync(
+      decrypted ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Error
+    );
+  };
+
+  return (
+    <GradientBackground>
+      <SafeAreaView className="flex-1" edges={['top']}>
+        {/* Header */}
+        <View className="flex-row items-center px-4 py-3 border-b border-blue-900/30">
+          <Pressable
+            onPress={() => router.back()}
+            className="w-10 h-10 items-center justify-center -ml-2"
+          >
+            <ArrowLeft size={18} color="#9ca3af" strokeWidth={2} />
+          </Pressable>
+          <Text className="flex-1 text-lg font-semibold text-gray-100">Decrypt as Group</Text>
+          <HelpTooltip
+            title="Decrypt as Group"
+            content="Runs a threshold ECDH round with the sender's pubkey. Enough co-signers must be online and allow ECDH for the round to complete. The shared secret never leaves this device."
+            size={16}
+          />
+        </View>
+
+        <KeyboardAvoidingView
+          className="flex-1"
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <ScrollView contentContainerStyle={{ padding: 16 }} keyboardShouldPersistTaps="handled">
+            {!isRunning && (
+              <Card className="mb-4 border-amber-500/40">
+                <Text className="text-sm text-amber-300">
+                  Start the signer to run an ECDH round.
+                </Text>
+              </Card>
+            )}
+
+            <Card className="mb-4">
+              <Input
+                label="Sender"
+                value={sender}
+                onChangeText={setSender}
+                placeholder="npub1... or hex pubkey"
+                autoCapitalize="none"
+                autoCorrect={false}
+                className="mb-3"
+              />
+              <Input
+                label="Encrypted message"
+                value={payload}
+                onChangeText={setPayload}
+                placeholder="DM content (NIP-04 or NIP-44)"
+                hint="The content field of the DM event, not the whole event"
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+              />
+
+              <Pressable onPress={handlePaste} className="flex-row items-center mt-2" hitSlop={8}>
+                <ClipboardPaste size={12} color="#60a5fa" strokeWidth={2} />
+                <Text className="text-xs text-blue-400 ml-1">Paste from clipboard</Text>
+              </Pressable>
+
+              {error && <Text className="text-sm text-red-400 mt-3">{error}</Text>}
+
+              <Button
+                title={isDecrypting ? 'Waiting for co-signers...' : 'Decrypt'}
+                icon={<KeyRound size={16} color="#dbeafe" strokeWidth={2} />}
+                loading={isDecrypting}
+                disabled={!isRunning || isDecrypting || !sender.trim() || !payload.trim()}
+                onPress={handleDecrypt}
+                className="mt-4"
+              />
+            </Card>
+
+            {result && (
+              <Card>
+                <View className="flex-row items-center gap-2 mb-3">
+                  <LockOpen size={16} color="#4ade80" strokeWidth={2} />
+                  <Text className="flex-1 text-sm font-medium text-gray-300">Message</Text>
+                  <Text className="text-xs text-gray-500">{result.cipher.toUpperCase()}</Text>
+                </View>
+                <Pressable onPress={() => copy(result.plaintext)}>
+                  <View className="flex-row items-center justify-end mb-1">
+                    {copied ? (
+                      <Check size={12} color="#4ade80" strokeWidth={2} />
+                    ) : (
+                      <Copy size={12} color="#9ca3af" strokeWidth={2} />
+                    )}
+                  </View>
+                  <Text className="text-sm text-gray-100" selectable>
+                    {result.plaintext}
+                  </Text>
+                </Pressable>
+              </Card>
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
@@ -0,0 +1,412 @@
+import { useCallback, useState, type ReactNode } from 'react';
+import { Alert, FlatList, Pressable, Text, View, type ListRenderItem } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, BarChart3, History, Share2, Trash2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Badge, Card, GradientBackground, IconButton, Input } from '@/components/ui';
+import { useSigningHistory } from '@/hooks';
+import type {
+  SigningHistoryDayStats,
+  SigningHistoryEntry,
+  SigningHistoryPeerStats,
+  SigningHistoryRange,
+  SigningOutcome,
+} from '@/types';
+
+const RANGES: { value: SigningHistoryRange; label: string }[] = [
+  { value: 'day', label: '24h' },
+  { value: 'week', label: '7 days' },
+  { value: 'month', label: '30 days' },
+  { value: 'all', label: 'All' },
+];
+
+const OUTCOMES: SigningOutcome[] = ['completed', 'failed', 'denied', 'rejected', 'approved', 'expired'];
+
+// Days and peers shown in the statistics card
+const STATS_DAYS = 7;
+const STATS_PEERS = 5;
+
+export default function SigningHistoryScreen() {
+  const {
+    entries,
+    filteredEntries,
+    filter,
+    dayStats,
+    peerStats,
+    shares,
+    setFilter,
+    resetFilter,
+    clearHistory,
+    exportHistory,
+    getShareName,
+  } = useSigningHistory();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const toggleOutcome = (outcome: SigningOutcome) => {
+    setFilter({
+      outcomes: filter.outcomes.includes(outcome)
+        ? filter.outcomes.filter((o) => o !== outcome)
+        : [...filter.outcomes, outcome],
+    });
+  };
+
+  const handleExport = async () => {
+    try {
+      await exportHistory();
+    } catch (error) {
+      Alert.alert('Export Failed', error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const handleClear = () => {
+    Alert.alert(
+      'Clear Signing History',
+      'This permanently deletes every entry in the signing journal for all shares.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: () => {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            clearHistory();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderEntry: ListRenderItem<SigningHistoryEntry> = useCallback(
+    ({ item }) => (
+      <HistoryEntryItem
+        entry={item}
+        shareName={shares.length > 1 ? getShareName(item.shareId) : undefined}
+        expanded={expandedId === item.id}
+        onToggle={() => setExpandedId((current) => (current === item.id ? null : item.id))}
+      />
+    ),
+    [expandedId, getShareName, shares.length]
+  );
+
+  const hasActiveFilter =
+    filter.query.trim() !== '' ||
+    filter.outcomes.length > 0 ||
+    filter.shareId !== null ||
+    filter.range !== 'all';
+
+  return (
+    <GradientBackground>
+      <SafeAreaView className="flex-1" edges={['top']}>
+        {/* Header */}
+        <View className="flex-row items-center px-4 py-3 border-b border-blue-900/30">
+          <Pressable
+            onPress={() => router.back()}
+            className="w-10 h-10 items-center justify-center -ml-2"
+          >
+            <ArrowLeft size={18} color="#9ca3af" strokeWidth={2} />
+          </Pressable>
+          <Text className="flex-1 text-lg font-semibold text-gray-100">Signing History</Text>
+          <IconButton
+            icon={<Share2 size={16} color="#9ca3af" strokeWidth={2} />}
+            variant="ghost"
+            size="md"
+            disabled={filteredEntries.length === 0}
+            onPress={handleExport}
+          />
+          <IconButton
+            icon={<Trash2 size={16} color="#9ca3af" strokeWidth={2} />}
+            variant="ghost"
+            size="md"
+            disabled={entries.length === 0}
+            onPress={handleClear}
+          />
+        </View>
+
+        <FlatList
+          data={filteredEntries}
+          renderItem={renderEntry}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={{ padding: 16 }}
+          ItemSeparatorComponent={() => <View className="h-2" />}
+          keyboardShouldPersistTaps="handled"
+          ListHeaderComponent={
+            <View className="mb-4">
+              <Input
+                value={filter.query}
+                onChangeText={(query) => setFilter({ query })}
+                placeholder="Search pubkey, event id, session id or kind"
+                autoCapitalize="none"
+                autoCorrect={false}
+                className="mb-3"
+              />
+
+              <FilterRow label="Range">
+                {RANGES.map((range) => (
+                  <FilterChip
+                    key={range.value}
+                    label={range.label}
+                    active={filter.range === range.value}
+                    onPress={() => setFilter({ range: range.value })}
+                  />
+                ))}
+              </FilterRow>
+
+              <FilterRow label="Result">
+                {OUTCOMES.map((outcome) => (
+                  <FilterChip
+                    key={outcome}
+                    label={outcome}
+                    active={filter.outcomes.includes(outcome)}
+                    onPress={() => toggleOutcome(outcome)}
+                  />
+                ))}
+              </FilterRow>
+
+              {shares.length > 1 && (
+                <FilterRow label="Share">
+                  <FilterChip
+                    label="All"
+                    active={filter.shareId === null}
+                    onPress={() => setFilter({ shareId: null })}
+                  />
+                  {shares.map((share) => (
+                    <FilterChip
+                      key={share.id}
+                      label={share.name}
+                      active={filter.shareId === share.id}
+                      onPress={() => setFilter({ shareId: share.id })}
+                    />
+                  ))}
+                </FilterRow>
+              )}
+
+              <View className="flex-row items-center justify-between mb-3">
+                <Text className="text-xs text-gray-500">
+                  {filteredEntries.length} / {entries.length} requests
+                </Text>
+                {hasActiveFilter && (
+                  <Pressable onPress={resetFilter} hitSlop={8}>
+                    <Text className="text-xs text-blue-400">Clear filters</Text>
+                  </Pressable>
+                )}
+              </View>
+
+              {filteredEntries.length > 0 && (
+                <HistoryStats
+                  dayStats={dayStats.slice(0, STATS_DAYS)}
+                  peerStats={peerStats.slice(0, STATS_PEERS)}
+                />
+              )}
+            </View>
+          }
+          ListEmptyComponent={
+            <View className="py-12 items-center">
+              <History size={32} color="#9ca3af" strokeWidth={1.5} />
+              <Text className="text-gray-400 mt-2">
+                {entries.length === 0 ? 'No signing requests yet' : 'No matching requests'}
+              </Text>
+              <Text className="text-sm text-gray-500 mt-1">
+                {entries.length === 0
+                  ? 'Every request your shares receive is recorded here'
+                  : 'Try a different search or filter'}
+              </Text>
+            </View>
+          }
+        />
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
+
+function FilterRow({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <View className="flex-row items-start mb-2">
+      <Text className="text-xs text-gray-400 mr-2 w-12 mt-1">{label}</Text>
+      <View className="flex-1 flex-row flex-wrap gap-1">{children}</View>
+    </View>
+  );
+}
+
+function FilterChip({
+  label,
+  active,
+  onPress,
+}: {
+  label: string;
+  active: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      className={`px-2 py-1 rounded ${active ? 'bg-blue-900/30' : 'bg-gray-800'}`}
+    >
+      <Text className={`text-xs capitalize ${active ? 'text-blue-400' : 'text-gray-400'}`}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+function HistoryStats({
+  dayStats,
+  peerStats,
+}: {
+  dayStats: SigningHistoryDayStats[];
+  peerStats: SigningHistoryPeerStats[];
+}) {
+  const maxDayTotal = Math.max(...dayStats.map((day) => day.total), 1);
+
+  return (
+    <Card>
+      <View className="flex-row items-center gap-2 mb-3">
+        <BarChart3 size={16} color="#9ca3af" strokeWidth={2} />
+        <Text className="text-sm font-medium text-gray-400">Statistics</Text>
+      </View>
+
+      <Text className="text-xs font-medium text-gray-500 uppercase mb-2">By day</Text>
+      {dayStats.map((day) => (
+        <View key={day.day} className="flex-row items-center gap-2 mb-1.5">
+          <Text className="text-xs font-mono text-gray-400 w-20">{day.day}</Text>
+          <View className="flex-1 h-2 rounded-full bg-gray-800 overflow-hidden flex-row">
+            <View
+              className="h-2 bg-green-500"
+              style={{ width: `${(day.completed / maxDayTotal) * 100}%` }}
+            />
+            <View
+              className="h-2 bg-red-500"
+              style={{ width: `${(day.failed / maxDayTotal) * 100}%` }}
+            />
+          </View>
+          <Text className="text-xs text-gray-400 w-14 text-right">
+            {day.completed}/{day.total}
+          </Text>
+        </View>
+      ))}
+
+      <Text className="text-xs font-medium text-gray-500 uppercase mt-3 mb-2">By peer</Text>
+      {peerStats.map((peer) => (
+        <View key={peer.pubkey} className="flex-row items-center justify-between mb-1.5">
+          <Text className="text-xs font-mono text-gray-300 flex-1">
+            {truncatePubkey(peer.pubkey)}
+          </Text>
+          <Text className="text-xs text-gray-400">
+            {peer.completed}/{peer.total} signed
+            {peer.averageLatency !== null ? ` · ${formatLatency(peer.averageLatency)}` : ''}
+          </Text>
+        </View>
+      ))}
+    </Card>
+  );
+}
+
+function HistoryEntryItem({
+  entry,
+  shareName,
+  expanded,
+  onToggle,
+}: {
+  entry: SigningHistoryEntry;
+  shareName?: string;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <Pressable onPress={onToggle}>
+      <Card padding="sm">
+        <View className="flex-row items-center justify-between">
+          <View className="flex-1">
+            <Text className="text-sm text-gray-100 font-mono">
+              {truncatePubkey(entry.requesterPubkey)}
+            </Text>
+            <Text className="text-xs text-gray-400">
+              {formatDateTime(entry.receivedAt)}
+              {entry.requestType === 'ecdh'
+                ? ' · ECDH'
+                : entry.eventKind !== null
+                  ? ` · kind ${entry.eventKind}`
+                  : ''}
+              {shareName ? ` · ${shareName}` : ''}
+            </Text>
+          </View>
+          <Badge
+            label={entry.outcome}
+            variant={getOutcomeVariant(entry.outcome)}
+            size="sm"
+          />
+        </View>
+
+        {expanded && (
+          <View className="mt-2 pt-2 border-t border-gray-700/30 gap-1">
+            <DetailRow label="Requester" value={entry.requesterPubkey} />
+            {entry.ecdhPubkey && <DetailRow label="ECDH with" value={entry.ecdhPubkey} />}
+            {entry.eventId && <DetailRow label="Event" value={entry.eventId} />}
+            {entry.sessionId && (
+              <Pressable onPress={() => router.push(`/signing-session/${entry.sessionId}`)}>
+                <DetailRow label="Session" value={entry.sessionId} />
+                <Text className="text-xs text-blue-400 ml-20">View timeline</Text>
+              </Pressable>
+            )}
+            {entry.policyAction && <DetailRow label="Policy" value={entry.policyAction} />}
+            {entry.latency !== null && (
+              <DetailRow label="Latency" value={formatLatency(entry.latency)} />
+            )}
+            {entry.resolvedAt && (
+              <DetailRow label="Resolved" value={formatDateTime(entry.resolvedAt)} />
+            )}
+            {entry.error && <DetailRow label="Error" value={entry.error} />}
+          </View>
+        )}
+      </Card>
+    </Pressable>
+  );
+}
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <View className="flex-row">
+      <Text className="text-xs text-gray-500 w-20">{label}</Text>
+      <Text className="text-xs text-gray-300 font-mono flex-1" selectable>
+        {value}
+      </Text>
+    </View>
+  );
+}
+
+function getOutcomeVariant(
+  outcome: SigningOutcome
+): 'default' | 'success' | 'warning' | 'error' | 'info' {
+  switch (outcome) {
+    case 'completed':
+      return 'success';
+    case 'pending':
+    case 'held':
+      return 'warning';
+    case 'approved':
+      return 'info';
+    case 'expired':
+      return 'default';
+    default:
+      return 'error';
+  }
+}
+
+function truncatePubkey(pubkey: string): string {
+  if (pubkey.length <= 16) return pubkey;
+  return `${pubkey.slice(0, 8)}...${pubkey.slice(-4)}`;
+}
+
+function formatDateTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString('en-US', {
+    hour12: false,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })}`;
+}
+
+function formatLatency(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { BackHandler, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Lock } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { PinPad, getPinAttemptMessage } from '@/components/ui';
+import { useAppLock } from '@/hooks';
+import { PIN_LENGTH } from '@/services/lock';
+
+export default function LockScreen() {
+  const { unlock, lockedUntil, wipeAfterFailures, failedAttempts } = useAppLock();
+  const [message, setMessage] = useState<string>();
+  const [isChecking, setIsChecking] = useState(false);
+
+  // The lock screen can only be left by unlocking
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => true);
+    return () => subscription.remove();
+  }, []);
+
+  const handleComplete = async (pin: string) => {
+    setIsChecking(true);
+    try {
+      const result = await unlock(pin);
+      if (result.status === 'unlocked') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        if (router.canGoBack()) {
+          router.back();
+        } else {
+          router.replace('/(tabs)/signer');
+        }
+        return;
+      }
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      // On wipe the root layout routes to onboarding once credentials are gone
+      setMessage(getPinAttemptMessage(result));
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to check PIN');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const wipeWarning =
+    wipeAfterFailures !== null && failedAttempts > 0 && !message
+      ? `${wipeAfterFailures - failedAttempts} attempt(s) left before erase`
+      : undefined;
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-950">
+      <View className="flex-1 items-center justify-center px-6">
+        <View className="w-20 h-20 bg-blue-900/30 rounded-full items-center justify-center mb-6">
+          <Lock size={36} color="#60a5fa" strokeWidth={1.5} />
+        </View>
+        <Text className="text-2xl font-bold text-gray-100 mb-2">Igloo is Locked</Text>
+        <Text className="text-base text-gray-400 text-center mb-8">
+          Enter your PIN to continue. Running signers keep signing while locked.
+        </Text>
+
+        <PinPad
+          length={PIN_LENGTH}
+          onComplete={handleComplete}
+          message={message ?? wipeWarning}
+          disabledUntil={lockedUntil}
+          disabled={isChecking}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
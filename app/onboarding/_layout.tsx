@@ -12,6 +12,8 @@ export default function OnboardingLayout() {
       <Stack.Screen name="howto" />
       <Stack.Screen name="scan" />
       <Stack.Screen name="manual" />
+      <Stack.Screen name="restore" />
+      <Stack.Screen name="pin" options={{ gestureEnabled: false }} />
     </Stack>
   );
 }
@@ -1,7 +1,7 @@
 import { Alert, Button } from '@/components/ui';
 import * as Linking from 'expo-linking';
 import { router } from 'expo-router';
-import { ArrowLeft, ExternalLink, Keyboard, QrCode, Radio } from 'lucide-react-native';
+import { ArchiveRestore, ArrowLeft, ExternalLink, Keyboard, QrCode, Radio } from 'lucide-react-native';
 import { androidForegroundSignerService } from '@/services/background';
 import { Platform, Pressable, Alert as RNAlert, ScrollView, Text, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -151,6 +151,13 @@ export default function OnboardingHowto() {
           icon={<Keyboard size={20} color="#9ca3af" strokeWidth={2} />}
           onPress={() => router.push('/onboarding/manual')}
         />
+        <Button
+          title="Restore from Backup"
+          variant="secondary"
+          size="lg"
+          icon={<ArchiveRestore size={20} color="#9ca3af" strokeWidth={2} />}
+          onPress={() => router.push('/onboarding/restore')}
+        />
         <Button
           title="Enter Demo Mode"
           variant="outline"
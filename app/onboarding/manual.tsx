@@ -2,11 +2,11 @@ import { useEffect, useRef, useState } from 'react';
 import { View, Text, ScrollView, Alert, Pressable, KeyboardAvoidingView, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useLocalSearchParams } from 'expo-router';
-import { ArrowLeft, Info, ClipboardPaste } from 'lucide-react-native';
+import { ArrowLeft, Info, ClipboardPaste, Link2 } from 'lucide-react-native';
 import * as Clipboard from 'expo-clipboard';
 import * as Haptics from 'expo-haptics';
 import { Button, Input, Card } from '@/components/ui';
-import { useCredentials } from '@/hooks';
+import { useAppLock, useCredentials } from '@/hooks';
 import { DEMO_CREDENTIALS } from '@/constants/demoCredentials';
 
 export default function OnboardingManual() {
@@ -16,9 +16,19 @@ export default function OnboardingManual() {
   const [groupError, setGroupError] = useState<string>();
   const [isLoading, setIsLoading] = useState(false);
   const { validate, saveCredentials } = useCredentials();
-  const { demo } = useLocalSearchParams<{ demo?: string }>();
+  const { isPinSet } = useAppLock();
+  // New installs set a PIN before reaching the signer
+  const nextRoute = isPinSet ? '/(tabs)/signer' : '/onboarding/pin';
+  const { demo, source, share, group } = useLocalSearchParams<{
+    demo?: string;
+    source?: string;
+    share?: string;
+    group?: string;
+  }>();
   const hasPrefilledDemo = useRef(false);
   const isDemoMode = demo === '1' || demo === 'true';
+  // Opened from an igloo://import link; saving is the confirmation
+  const isFromLink = source === 'link';
 
   useEffect(() => {
     if (!isDemoMode || hasPrefilledDemo.current) {
@@ -32,6 +42,14 @@ export default function OnboardingManual() {
     hasPrefilledDemo.current = true;
   }, [isDemoMode]);
 
+  useEffect(() => {
+    if (!isFromLink) return;
+    if (share) setShareCredential(share);
+    if (group) setGroupCredential(group);
+    setShareError(undefined);
+    setGroupError(undefined);
+  }, [isFromLink, share, group]);
+
   const validateInputs = (shareValue = shareCredential, groupValue = groupCredential) => {
     let hasError = false;
 
@@ -108,13 +126,13 @@ export default function OnboardingManual() {
 
       if (result.echoSent) {
         Alert.alert('Success', 'Credentials saved and echo sent to your group!', [
-          { text: 'OK', onPress: () => router.replace('/(tabs)/signer') },
+          { text: 'OK', onPress: () => router.replace(nextRoute) },
         ]);
       } else {
         Alert.alert(
           'Credentials Saved',
           'Your credentials were saved but echo could not be sent. You can still use the signer.',
-          [{ text: 'OK', onPress: () => router.replace('/(tabs)/signer') }]
+          [{ text: 'OK', onPress: () => router.replace(nextRoute) }]
         );
       }
     } catch (error) {
@@ -163,6 +181,19 @@ export default function OnboardingManual() {
             </Card>
           )}
 
+          {isFromLink && (
+            <Card variant="outlined" className="mb-4 bg-amber-900/20 border-amber-800">
+              <View className="flex-row items-start">
+                <Link2 size={18} color="#fbbf24" strokeWidth={2} />
+                <Text className="flex-1 ml-3 text-sm text-amber-300">
+                  These credentials came from a link. Only save them if you sent the link
+                  yourself, e.g. from Igloo on your computer.
+                  {!share || !group ? ' Paste the missing credential below.' : ''}
+                </Text>
+              </View>
+            </Card>
+          )}
+
           {/* Info Card */}
           <Card variant="outlined" className="mb-6 bg-blue-900/20 border-blue-800">
             <View className="flex-row items-start">
@@ -0,0 +1,113 @@
+import { useCallback, useState } from 'react';
+import { Alert, BackHandler, Pressable, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, KeyRound } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { PinPad } from '@/components/ui';
+import { useAppLock } from '@/hooks';
+import { PIN_LENGTH } from '@/services/lock';
+
+export default function OnboardingPin() {
+  const { mode } = useLocalSearchParams<{ mode?: string }>();
+  const isChange = mode === 'change';
+  // Onboarding offers the PIN as an optional last step; settings opens this screen to set or change it
+  const isOnboarding = mode !== 'change' && mode !== 'set';
+  const { setPin } = useAppLock();
+  const [firstPin, setFirstPin] = useState<string | null>(null);
+  const [message, setMessage] = useState<string>();
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The share is already saved at the end of onboarding, so going back would re-run the import
+  useFocusEffect(
+    useCallback(() => {
+      if (!isOnboarding) return;
+      const subscription = BackHandler.addEventListener('hardwareBackPress', () => true);
+      return () => subscription.remove();
+    }, [isOnboarding])
+  );
+
+  const handleComplete = async (pin: string) => {
+    if (firstPin === null) {
+      setFirstPin(pin);
+      setMessage(undefined);
+      return;
+    }
+
+    if (pin !== firstPin) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setFirstPin(null);
+      setMessage('PINs did not match. Try again.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await setPin(pin);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (isOnboarding) {
+        router.replace('/(tabs)/signer');
+      } else {
+        router.back();
+      }
+    } catch (error) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setFirstPin(null);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save PIN');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-950">
+      {/* Header */}
+      <View className="flex-row items-center px-4 py-3 border-b border-blue-900/30">
+        {!isOnboarding ? (
+          <Pressable
+            onPress={() => router.back()}
+            className="w-10 h-10 items-center justify-center -ml-2"
+          >
+            <ArrowLeft size={18} color="#9ca3af" strokeWidth={2} />
+          </Pressable>
+        ) : (
+          <View className="w-10 h-10 -ml-2" />
+        )}
+        <Text className="flex-1 text-lg font-semibold text-gray-100 text-center mr-10">
+          {isChange ? 'Change PIN' : 'Set a PIN'}
+        </Text>
+      </View>
+
+      <View className="flex-1 items-center justify-center px-6">
+        <View className="w-20 h-20 bg-blue-900/30 rounded-full items-center justify-center mb-6">
+          <KeyRound size={36} color="#60a5fa" strokeWidth={1.5} />
+        </View>
+        <Text className="text-xl font-bold text-gray-100 mb-2">
+          {firstPin === null ? `Choose a ${PIN_LENGTH}-digit PIN` : 'Confirm your PIN'}
+        </Text>
+        <Text className="text-base text-gray-400 text-center mb-8">
+          The PIN unlocks Igloo and is required to view your share, start the signer or clear
+          credentials.{isOnboarding ? ' You can also set one later in Settings.' : ''}
+        </Text>
+
+        <PinPad
+          key={firstPin === null ? 'enter' : 'confirm'}
+          length={PIN_LENGTH}
+          onComplete={handleComplete}
+          message={message}
+          disabled={isSaving}
+        />
+
+        {isOnboarding && (
+          <Pressable
+            onPress={() => router.replace('/(tabs)/signer')}
+            disabled={isSaving}
+            className="mt-6 py-2"
+          >
+            <Text className="text-blue-400 text-center">Skip for now</Text>
+          </Pressable>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { View, Text, ScrollView, Alert, Pressable, KeyboardAvoidingView, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, Info, ClipboardPaste, ScanLine } from 'lucide-react-native';
+import * as Clipboard from 'expo-clipboard';
+import * as Haptics from 'expo-haptics';
+import { Button, Input, Card, QRScannerModal } from '@/components/ui';
+import { useAppLock, useBackup } from '@/hooks';
+
+export default function OnboardingRestore() {
+  const [backupText, setBackupText] = useState('');
+  const [password, setPassword] = useState('');
+  const [backupError, setBackupError] = useState<string>();
+  const [passwordError, setPasswordError] = useState<string>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const { restoreBackup, isBackup } = useBackup();
+  const { isPinSet } = useAppLock();
+  // New installs set a PIN before reaching the signer
+  const nextRoute = isPinSet ? '/(tabs)/signer' : '/onboarding/pin';
+
+  const handlePaste = async () => {
+    try {
+      const text = await Clipboard.getStringAsync();
+      if (text) {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        setBackupText(text.trim());
+        setBackupError(undefined);
+      }
+    } catch {
+      // Clipboard access denied
+    }
+  };
+
+  const handleScan = (value: string) => {
+    setIsScannerOpen(false);
+    setBackupText(value);
+    setBackupError(isBackup(value) ? undefined : 'This QR code is not an Igloo backup');
+  };
+
+  const handleSubmit = async () => {
+    const backupValue = backupText.trim();
+
+    if (!isBackup(backupValue)) {
+      setBackupError('This is not an Igloo backup');
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const result = await restoreBackup(backupValue, password);
+
+      if (result.restored === 0) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        Alert.alert(
+          'Nothing Restored',
+          'Every share in this backup is already on this device or could not be read.'
+        );
+        return;
+      }
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      const skippedNote =
+        result.skipped > 0 ? ` ${result.skipped} share(s) were already on this device.` : '';
+      Alert.alert(
+        'Backup Restored',
+        `Restored ${result.restored} share(s) with their relays and peer policies.${skippedNote}`,
+        [{ text: 'OK', onPress: () => router.replace(nextRoute) }]
+      );
+    } catch (error) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setPasswordError(error instanceof Error ? error.message : 'Failed to restore backup');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const canSubmit = backupText.trim() && password && !isLoading;
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-950">
+      <KeyboardAvoidingView
+        className="flex-1"
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        {/* Header */}
+        <View className="flex-row items-center px-4 py-3 border-b border-blue-900/30">
+          <Pressable
+            onPress={() => router.back()}
+            className="w-10 h-10 items-center justify-center -ml-2"
+          >
+            <ArrowLeft size={18} color="#9ca3af" strokeWidth={2} />
+          </Pressable>
+          <Text className="flex-1 text-lg font-semibold text-gray-100 text-center mr-10">
+            Restore Backup
+          </Text>
+        </View>
+
+        <ScrollView
+          className="flex-1"
+          contentContainerClassName="p-4"
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Info Card */}
+          <Card variant="outlined" className="mb-6 bg-blue-900/20 border-blue-800">
+            <View className="flex-row items-start">
+              <Info size={18} color="#60a5fa" strokeWidth={2} />
+              <Text className="flex-1 ml-3 text-sm text-blue-300">
+                Paste the encrypted backup you exported from Igloo and enter the password you
+                chose. Your shares, relays, peer policies and audio settings will be restored.
+              </Text>
+            </View>
+          </Card>
+
+          {/* Backup Input */}
+          <View className="mb-4">
+            <View className="flex-row items-center justify-between mb-1.5">
+              <Text className="text-sm font-medium text-gray-300">
+                Backup
+              </Text>
+              <View className="flex-row items-center">
+                <Pressable
+                  onPress={() => setIsScannerOpen(true)}
+                  className="flex-row items-center px-2 py-1"
+                >
+                  <ScanLine size={14} color="#60a5fa" strokeWidth={2} />
+                  <Text className="text-blue-400 text-sm ml-1">Scan</Text>
+                </Pressable>
+                <Pressable
+                  onPress={handlePaste}
+                  className="flex-row items-center px-2 py-1"
+                >
+                  <ClipboardPaste size={14} color="#60a5fa" strokeWidth={2} />
+                  <Text className="text-blue-400 text-sm ml-1">Paste</Text>
+                </Pressable>
+              </View>
+            </View>
+            <Input
+              placeholder='{"format":"igloo-backup",...}'
+              value={backupText}
+              onChangeText={(text) => {
+                setBackupText(text);
+                setBackupError(undefined);
+              }}
+              error={backupError}
+              multiline
+              numberOfLines={4}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+
+          {/* Password Input */}
+          <View className="mb-6">
+            <Input
+              label="Backup Password"
+              placeholder="Password"
+              value={password}
+              onChangeText={(text) => {
+                setPassword(text);
+                setPasswordError(undefined);
+              }}
+              error={passwordError}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+
+          {/* Submit Button */}
+          <Button
+            title={isLoading ? 'Decrypting...' : 'Restore Backup'}
+            size="lg"
+            loading={isLoading}
+            disabled={!canSubmit}
+            onPress={handleSubmit}
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      <QRScannerModal
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onScan={handleScan}
+        title="Scan Backup"
+        hint="Point the camera at the backup QR code shown in Settings on your other device."
+      />
+    </SafeAreaView>
+  );
+}
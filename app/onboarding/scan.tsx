@@ -1,5 +1,6 @@
 import { Badge, Button } from '@/components/ui';
-import { useCredentials } from '@/hooks';
+import { useAppLock, useCredentials } from '@/hooks';
+import { MultipartQRDecoder } from '@/services/qr';
 import { Camera, ArrowLeft, Check, Users, Key } from 'lucide-react-native';
 import { CameraView, useCameraPermissions } from 'expo-camera';
 import * as Haptics from 'expo-haptics';
@@ -21,11 +22,20 @@ export default function OnboardingScan() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const { validate, saveCredentials } = useCredentials();
+  const { isPinSet } = useAppLock();
+  // New installs set a PIN before reaching the signer
+  const nextRoute = isPinSet ? '/(tabs)/signer' : '/onboarding/pin';
 
   // Cooldown to prevent rapid re-scans
   const lastScanTime = useRef<number>(0);
   const SCAN_COOLDOWN = 1500; // 1.5 seconds between scans
 
+  // Long credentials arrive as animated multi-part codes
+  const decoderRef = useRef(new MultipartQRDecoder());
+  const [partProgress, setPartProgress] = useState<{ received: number; total: number } | null>(
+    null
+  );
+
   // Animation for error message
   const errorOpacity = useMemo(() => new Animated.Value(0), []);
 
@@ -124,12 +134,24 @@ export default function OnboardingScan() {
   const handleBarCodeScanned = useCallback(async ({ data }: { data: string }) => {
     if (isProcessing || scanStep === 'transition') return;
 
+    // Parts of an animated code are collected without a cooldown
+    const scan = decoderRef.current.receive(data);
+    if (scan.status === 'partial') {
+      setPartProgress({ received: scan.received, total: scan.total });
+      return;
+    }
+    setPartProgress(null);
+    if (scan.status === 'invalid') {
+      showError(scan.reason);
+      return;
+    }
+
     // Cooldown check
     const now = Date.now();
     if (now - lastScanTime.current < SCAN_COOLDOWN) return;
     lastScanTime.current = now;
 
-    const trimmedData = data.trim();
+    const trimmedData = scan.value.trim();
 
     if (scanStep === 'group') {
       // Silently ignore non-group QR codes
@@ -166,13 +188,13 @@ export default function OnboardingScan() {
 
         if (result.echoSent) {
           Alert.alert('Success', 'Credentials saved and echo sent to your group!', [
-            { text: 'OK', onPress: () => router.replace('/(tabs)/signer') },
+            { text: 'OK', onPress: () => router.replace(nextRoute) },
           ]);
         } else {
           Alert.alert(
             'Credentials Saved',
             'Your credentials were saved but echo could not be sent. You can still use the signer.',
-            [{ text: 'OK', onPress: () => router.replace('/(tabs)/signer') }]
+            [{ text: 'OK', onPress: () => router.replace(nextRoute) }]
           );
         }
       } catch (error) {
@@ -180,7 +202,7 @@ export default function OnboardingScan() {
         setIsProcessing(false);
       }
     }
-  }, [scanStep, groupCredential, isProcessing, validate, saveCredentials, showError, showTransition]);
+  }, [scanStep, groupCredential, isProcessing, validate, saveCredentials, showError, showTransition, nextRoute]);
 
   if (!permission) {
     return (
@@ -311,6 +333,14 @@ export default function OnboardingScan() {
             </>
           )}
 
+          {partProgress && (
+            <View className="mt-4 bg-blue-900/40 px-3 py-1.5 rounded-full">
+              <Text className="text-blue-300 text-sm">
+                Reading animated code: {partProgress.received} of {partProgress.total} parts
+              </Text>
+            </View>
+          )}
+
           {scanStep === 'share' && groupCredential && (
             <View className="mt-4 bg-green-900/30 px-3 py-1.5 rounded-full">
               <Text className="text-green-400 text-sm">
@@ -0,0 +1,307 @@
+import { useState } from 'react';
+import { KeyboardAvoidingView, Platform, Pressable, ScrollView, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import * as Clipboard from 'expo-clipboard';
+import * as Haptics from 'expo-haptics';
+import {
+  ArrowLeft,
+  Check,
+  CheckCircle2,
+  ClipboardPaste,
+  Copy,
+  PenLine,
+  Send,
+  XCircle,
+} from 'lucide-react-native';
+import { Button, Card, GradientBackground, HelpTooltip, Input } from '@/components/ui';
+import { useCopyFeedback, useSenderSigning, useSigner } from '@/hooks';
+import { parseEventDraft } from '@/services/igloo';
+import type { RelayPublishResult } from '@/types';
+
+type ComposeMode = 'note' | 'json' | 'hash';
+
+const MODES: { value: ComposeMode; label: string }[] = [
+  { value: 'note', label: 'Note' },
+  { value: 'json', label: 'Event JSON' },
+  { value: 'hash', label: 'Message hash' },
+];
+
+export default function SignScreen() {
+  const { isRunning } = useSigner();
+  const {
+    result,
+    isSigning,
+    error,
+    publishResults,
+    isPublishing,
+    relays,
+    signEvent,
+    signHash,
+    publish,
+    reset,
+  } = useSenderSigning();
+
+  const [mode, setMode] = useState<ComposeMode>('note');
+  const [kind, setKind] = useState('1');
+  const [content, setContent] = useState('');
+  const [eventJson, setEventJson] = useState('');
+  const [sighash, setSighash] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  const changeMode = (next: ComposeMode) => {
+    setMode(next);
+    setInputError(null);
+    reset();
+  };
+
+  const handlePaste = async () => {
+    const text = await Clipboard.getStringAsync();
+    if (mode === 'json') {
+      setEventJson(text);
+    } else if (mode === 'hash') {
+      setSighash(text.trim());
+    } else {
+      setContent(text);
+    }
+  };
+
+  const handleSign = async () => {
+    setInputError(null);
+    let signed;
+    if (mode === 'hash') {
+      if (!/^[0-9a-fA-F]{64}$/.test(sighash.trim())) {
+        setInputError('Enter 32 bytes as 64 hex characters');
+        return;
+      }
+      signed = await signHash(sighash);
+    } else {
+      let draft;
+      try {
+        draft =
+          mode === 'json'
+            ? parseEventDraft(eventJson)
+            : { kind: parseKind(kind), content, tags: [] };
+      } catch (err) {
+        setInputError(err instanceof Error ? err.message : 'Invalid event');
+        return;
+      }
+      signed = await signEvent(draft);
+    }
+    Haptics.notificationAsync(
+      signed ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Error
+    );
+  };
+
+  const handlePublish = async () => {
+    const results = await publish();
+    if (results) {
+      Haptics.notificationAsync(
+        results.some((item) => item.ok)
+          ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Error
+      );
+    }
+  };
+
+  return (
+    <GradientBackground>
+      <SafeAreaView className="flex-1" edges={['top']}>
+        {/* Header */}
+        <View className="flex-row items-center px-4 py-3 border-b border-blue-900/30">
+          <Pressable
+            onPress={() => router.back()}
+            className="w-10 h-10 items-center justify-center -ml-2"
+          >
+            <ArrowLeft size={18} color="#9ca3af" strokeWidth={2} />
+          </Pressable>
+          <Text className="flex-1 text-lg font-semibold text-gray-100">Sign as Group</Text>
+          <HelpTooltip
+            title="Sign as Group"
+            content="Starts a FROSTR signing round from this device. Enough co-signers must be online and allow signing for the round to complete. The signature is made with the group key."
+            size={16}
+          />
+        </View>
+
+        <KeyboardAvoidingView
+          className="flex-1"
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <ScrollView contentContainerStyle={{ padding: 16 }} keyboardShouldPersistTaps="handled">
+            {!isRunning && (
+              <Card className="mb-4 border-amber-500/40">
+                <Text className="text-sm text-amber-300">
+                  Start the signer to run a signing round.
+                </Text>
+              </Card>
+            )}
+
+            {/* Mode */}
+            <View className="flex-row gap-2 mb-3">
+              {MODES.map((item) => (
+                <Pressable
+                  key={item.value}
+                  onPress={() => changeMode(item.value)}
+                  className={`px-3 py-1 rounded-full ${
+                    mode === item.value ? 'bg-blue-900/40' : 'bg-gray-800'
+                  }`}
+                >
+                  <Text
+                    className={`text-xs font-medium ${
+                      mode === item.value ? 'text-blue-300' : 'text-gray-400'
+                    }`}
+                  >
+                    {item.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            {/* Composer */}
+            <Card className="mb-4">
+              {mode === 'note' && (
+                <>
+                  <Input
+                    label="Kind"
+                    value={kind}
+                    onChangeText={setKind}
+                    keyboardType="number-pad"
+                    className="mb-3"
+                  />
+                  <Input
+                    label="Content"
+                    value={content}
+                    onChangeText={setContent}
+                    placeholder="What should the group sign?"
+                    multiline
+                  />
+                </>
+              )}
+              {mode === 'json' && (
+                <Input
+                  label="Event"
+                  value={eventJson}
+                  onChangeText={setEventJson}
+                  placeholder='{"kind": 1, "content": "...", "tags": []}'
+                  hint="id, pubkey and sig are replaced; the group pubkey is the author"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  multiline
+                />
+              )}
+              {mode === 'hash' && (
+                <Input
+                  label="Message hash"
+                  value={sighash}
+                  onChangeText={setSighash}
+                  placeholder="64 hex characters"
+                  hint="Signed as-is with BIP-340 Schnorr; nothing is published"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              )}
+
+              <Pressable onPress={handlePaste} className="flex-row items-center mt-2" hitSlop={8}>
+                <ClipboardPaste size={12} color="#60a5fa" strokeWidth={2} />
+                <Text className="text-xs text-blue-400 ml-1">Paste from clipboard</Text>
+              </Pressable>
+
+              {(inputError || error) && (
+                <Text className="text-sm text-red-400 mt-3">{inputError ?? error}</Text>
+              )}
+
+              <Button
+                title={isSigning ? 'Waiting for co-signers...' : 'Sign'}
+                icon={<PenLine size={16} color="#dbeafe" strokeWidth={2} />}
+                loading={isSigning}
+                disabled={!isRunning || isSigning}
+                onPress={handleSign}
+                className="mt-4"
+              />
+            </Card>
+
+            {/* Result */}
+            {result && (
+              <Card>
+                <View className="flex-row items-center gap-2 mb-3">
+                  <CheckCircle2 size={16} color="#4ade80" strokeWidth={2} />
+                  <Text className="text-sm font-medium text-gray-300">Signature</Text>
+                </View>
+                <CopyField label="Signature" value={result.signature.signature} />
+                <CopyField label="Message hash" value={result.signature.sighash} />
+                <CopyField label="Group pubkey" value={result.signature.pubkey} />
+                {result.event && (
+                  <>
+                    <CopyField label="Signed event" value={JSON.stringify(result.event)} />
+                    <Button
+                      title={`Publish to ${relays.length} relay${relays.length === 1 ? '' : 's'}`}
+                      variant="outline"
+                      icon={<Send size={16} color="#60a5fa" strokeWidth={2} />}
+                      loading={isPublishing}
+                      disabled={isPublishing || relays.length === 0}
+                      onPress={handlePublish}
+                      className="mt-2"
+                    />
+                  </>
+                )}
+                {publishResults && <PublishResults results={publishResults} />}
+              </Card>
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
+
+function CopyField({ label, value }: { label: string; value: string }) {
+  const { copied, copy } = useCopyFeedback({ duration: 1500 });
+
+  return (
+    <Pressable onPress={() => copy(value)} className="mb-3">
+      <View className="flex-row items-center justify-between mb-1">
+        <Text className="text-xs text-gray-500">{label}</Text>
+        {copied ? (
+          <Check size={12} color="#4ade80" strokeWidth={2} />
+        ) : (
+          <Copy size={12} color="#9ca3af" strokeWidth={2} />
+        )}
+      </View>
+      <Text className="text-xs text-gray-300 font-mono" numberOfLines={4}>
+        {value}
+      </Text>
+    </Pressable>
+  );
+}
+
+function PublishResults({ results }: { results: RelayPublishResult[] }) {
+  return (
+    <View className="mt-3 gap-1">
+      {results.map((item) => (
+        <View key={item.url} className="flex-row items-start">
+          <View className="mt-0.5 mr-2">
+            {item.ok ? (
+              <CheckCircle2 size={12} color="#4ade80" strokeWidth={2} />
+            ) : (
+              <XCircle size={12} color="#ef4444" strokeWidth={2} />
+            )}
+          </View>
+          <View className="flex-1">
+            <Text className="text-xs text-gray-300">{item.url.replace(/^wss:\/\//, '')}</Text>
+            {item.message && !item.ok && (
+              <Text className="text-xs text-gray-500">{item.message}</Text>
+            )}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function parseKind(value: string): number {
+  const kind = Number(value.trim());
+  if (!Number.isInteger(kind) || kind < 0) {
+    throw new Error('Kind must be a non-negative integer');
+  }
+  return kind;
+}
@@ -0,0 +1,231 @@
+import { ActivityIndicator, Pressable, ScrollView, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, GitCommitVertical, Users } from 'lucide-react-native';
+import { Badge, Card, GradientBackground, HelpTooltip } from '@/components/ui';
+import { useSigningSession } from '@/hooks';
+import type { SigningSessionOutcome, SigningSessionStep, SigningSessionTimeline } from '@/types';
+
+export default function SigningSessionScreen() {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const { timeline, isFromArchive, isLoading } = useSigningSession(id);
+
+  return (
+    <GradientBackground>
+      <SafeAreaView className="flex-1" edges={['top']}>
+        {/* Header */}
+        <View className="flex-row items-center px-4 py-3 border-b border-blue-900/30">
+          <Pressable
+            onPress={() => router.back()}
+            className="w-10 h-10 items-center justify-center -ml-2"
+          >
+            <ArrowLeft size={18} color="#9ca3af" strokeWidth={2} />
+          </Pressable>
+          <Text className="flex-1 text-lg font-semibold text-gray-100">Signing Session</Text>
+        </View>
+
+        {timeline ? (
+          <ScrollView contentContainerStyle={{ padding: 16 }}>
+            <SummaryCard timeline={timeline} isFromArchive={isFromArchive} />
+            <ParticipantsCard timeline={timeline} />
+            <TimelineCard steps={timeline.steps} />
+          </ScrollView>
+        ) : (
+          <View className="flex-1 items-center justify-center px-8">
+            {isLoading ? (
+              <ActivityIndicator size="small" color="#60a5fa" />
+            ) : (
+              <>
+                <Text className="text-gray-400">Session not found</Text>
+                <Text className="text-sm text-gray-500 mt-1 text-center">
+                  Its log entries may have been cleared or rotated out of the saved logs
+                </Text>
+              </>
+            )}
+          </View>
+        )}
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
+
+function SummaryCard({
+  timeline,
+  isFromArchive,
+}: {
+  timeline: SigningSessionTimeline;
+  isFromArchive: boolean;
+}) {
+  return (
+    <Card className="mb-4">
+      <View className="flex-row items-center justify-between mb-3">
+        <Text className="text-sm text-gray-400 capitalize">{timeline.role}</Text>
+        <Badge label={timeline.outcome} variant={getOutcomeVariant(timeline.outcome)} size="sm" />
+      </View>
+      <View className="gap-1">
+        <DetailRow label="Session" value={timeline.sessionId} />
+        <DetailRow label="Started" value={formatDateTime(timeline.startedAt)} />
+        <DetailRow label="Duration" value={formatDuration(timeline.durationMs)} />
+        {timeline.sessionType && <DetailRow label="Type" value={timeline.sessionType} />}
+        {timeline.eventKind !== null && (
+          <DetailRow label="Kind" value={String(timeline.eventKind)} />
+        )}
+        {timeline.hashCount !== null && (
+          <DetailRow label="Hashes" value={String(timeline.hashCount)} />
+        )}
+        {timeline.hashPreview && <DetailRow label="Sighash" value={timeline.hashPreview} />}
+        {timeline.error && <DetailRow label="Error" value={timeline.error} />}
+      </View>
+      {isFromArchive && <Text className="text-xs text-gray-500 mt-3">Rebuilt from saved logs</Text>}
+    </Card>
+  );
+}
+
+function ParticipantsCard({ timeline }: { timeline: SigningSessionTimeline }) {
+  return (
+    <>
+      <View className="flex-row items-center gap-2 mb-2">
+        <Users size={14} color="#9ca3af" strokeWidth={2} />
+        <Text className="text-sm font-medium text-gray-400 uppercase tracking-wide">
+          Participants
+        </Text>
+        <HelpTooltip
+          title="Participants"
+          content="Share indexes the session was started with, and the peers whose responses this device received. Responses are only tracked when this device started the session."
+          size={14}
+        />
+      </View>
+      <Card className="mb-4">
+        <DetailRow
+          label="Members"
+          value={timeline.members.length > 0 ? timeline.members.join(', ') : 'Unknown'}
+        />
+        {timeline.role === 'initiator' && (
+          <View className="mt-2">
+            <Text className="text-xs text-gray-500 mb-1">
+              Responses ({timeline.responders.length}
+              {timeline.members.length > 0 ? ` of ${timeline.members.length - 1}` : ''})
+            </Text>
+            {timeline.responders.length === 0 ? (
+              <Text className="text-xs text-gray-400">No responses received</Text>
+            ) : (
+              timeline.responders.map((pubkey) => (
+                <Text key={pubkey} className="text-xs text-gray-300 font-mono" selectable>
+                  {truncatePubkey(pubkey)}
+                </Text>
+              ))
+            )}
+          </View>
+        )}
+      </Card>
+    </>
+  );
+}
+
+function TimelineCard({ steps }: { steps: SigningSessionStep[] }) {
+  return (
+    <>
+      <View className="flex-row items-center gap-2 mb-2">
+        <GitCommitVertical size={14} color="#9ca3af" strokeWidth={2} />
+        <Text className="text-sm font-medium text-gray-400 uppercase tracking-wide">Timeline</Text>
+      </View>
+      <Card>
+        {steps.map((step, index) => (
+          <TimelineStep
+            key={step.entryId}
+            step={step}
+            previousOffsetMs={index > 0 ? steps[index - 1].offsetMs : null}
+            isLast={index === steps.length - 1}
+          />
+        ))}
+      </Card>
+    </>
+  );
+}
+
+function TimelineStep({
+  step,
+  previousOffsetMs,
+  isLast,
+}: {
+  step: SigningSessionStep;
+  previousOffsetMs: number | null;
+  isLast: boolean;
+}) {
+  const dotColor =
+    step.level === 'error' ? 'bg-red-500' : step.level === 'warn' ? 'bg-amber-500' : 'bg-blue-500';
+
+  return (
+    <View className="flex-row">
+      <View className="items-center mr-3">
+        <View className={`w-2.5 h-2.5 rounded-full mt-1 ${dotColor}`} />
+        {!isLast && <View className="w-px flex-1 bg-gray-700" />}
+      </View>
+      <View className={`flex-1 ${isLast ? '' : 'pb-4'}`}>
+        <View className="flex-row items-center justify-between">
+          <Text className="text-sm text-gray-100 flex-1">{step.label}</Text>
+          <Text className="text-xs text-gray-400 font-mono ml-2">
+            +{formatDuration(step.offsetMs)}
+          </Text>
+        </View>
+        {step.tag && <Text className="text-[11px] text-gray-500 font-mono">{step.tag}</Text>}
+        {step.pubkey && (
+          <Text className="text-[11px] text-gray-400 font-mono">
+            peer {truncatePubkey(step.pubkey)}
+          </Text>
+        )}
+        {previousOffsetMs !== null && step.offsetMs > previousOffsetMs && (
+          <Text className="text-[11px] text-gray-500">
+            {formatDuration(step.offsetMs - previousOffsetMs)} after previous step
+          </Text>
+        )}
+        {step.error && <Text className="text-xs text-red-400 mt-0.5">{step.error}</Text>}
+      </View>
+    </View>
+  );
+}
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <View className="flex-row">
+      <Text className="text-xs text-gray-500 w-20">{label}</Text>
+      <Text className="text-xs text-gray-300 font-mono flex-1" selectable>
+        {value}
+      </Text>
+    </View>
+  );
+}
+
+function getOutcomeVariant(
+  outcome: SigningSessionOutcome
+): 'default' | 'success' | 'warning' | 'error' | 'info' {
+  switch (outcome) {
+    case 'completed':
+      return 'success';
+    case 'responded':
+      return 'info';
+    case 'pending':
+      return 'warning';
+    default:
+      return 'error';
+  }
+}
+
+function truncatePubkey(pubkey: string): string {
+  if (pubkey.length <= 16) return pubkey;
+  return `${pubkey.slice(0, 8)}...${pubkey.slice(-4)}`;
+}
+
+function formatDateTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString('en-US', {
+    hour12: false,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })}`;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
@@ -0,0 +1,178 @@
+import { Alert, Pressable, Text, View } from 'react-native';
+import { Plus, Trash2, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { describePermissionRisk, formatPermission } from '@/services/bunker';
+import { Button } from './Button';
+import type { BunkerClient } from '@/types';
+
+interface BunkerClientListProps {
+  clients: BunkerClient[];
+  onRevoke: (client: BunkerClient) => void;
+  onPermissionsChange: (client: BunkerClient, permissions: string[]) => void;
+  onResolvePermissionRequest: (client: BunkerClient, grant: boolean) => void;
+}
+
+/**
+ * Nostr clients paired with the bunker, with their NIP-46 permissions and any
+ * permissions they asked for that are waiting for review.
+ */
+export function BunkerClientList({
+  clients,
+  onRevoke,
+  onPermissionsChange,
+  onResolvePermissionRequest,
+}: BunkerClientListProps) {
+  if (clients.length === 0) {
+    return (
+      <Text className="text-sm text-gray-500">
+        No apps connected. Scan the bunker URI in a Nostr app to pair it.
+      </Text>
+    );
+  }
+
+  return (
+    <View className="gap-3">
+      {clients.map((client) => (
+        <BunkerClientRow
+          key={client.pubkey}
+          client={client}
+          onRevoke={() => onRevoke(client)}
+          onPermissionsChange={(permissions) => onPermissionsChange(client, permissions)}
+          onResolvePermissionRequest={(grant) => onResolvePermissionRequest(client, grant)}
+        />
+      ))}
+    </View>
+  );
+}
+
+function BunkerClientRow({
+  client,
+  onRevoke,
+  onPermissionsChange,
+  onResolvePermissionRequest,
+}: {
+  client: BunkerClient;
+  onRevoke: () => void;
+  onPermissionsChange: (permissions: string[]) => void;
+  onResolvePermissionRequest: (grant: boolean) => void;
+}) {
+  const canSignAnyKind = client.permissions.includes('sign_event');
+  const requested = client.requestedPermissions ?? [];
+
+  const removePermission = (permission: string) => {
+    Haptics.selectionAsync();
+    onPermissionsChange(client.permissions.filter((item) => item !== permission));
+  };
+
+  const allowAnyKind = () => {
+    Haptics.selectionAsync();
+    Alert.alert('Sign Any Kind', describePermissionRisk('sign_event') ?? '', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Allow', onPress: () => onPermissionsChange([...client.permissions, 'sign_event']) },
+    ]);
+  };
+
+  return (
+    <View className="bg-gray-800/50 rounded-lg p-3">
+      <View className="flex-row items-start justify-between">
+        <View className="flex-1 mr-2">
+          <Text className="text-sm text-gray-100" numberOfLines={1}>
+            {client.name ?? truncatePubkey(client.pubkey)}
+          </Text>
+          <Text className="text-xs text-gray-500 mt-0.5">
+            Paired {new Date(client.connectedAt).toLocaleDateString()} · {client.requestCount}{' '}
+            request{client.requestCount === 1 ? '' : 's'}
+          </Text>
+        </View>
+        <Pressable onPress={onRevoke} className="p-1 active:opacity-70" hitSlop={8}>
+          <Trash2 size={14} color="#f87171" strokeWidth={2} />
+        </Pressable>
+      </View>
+
+      {requested.length > 0 && (
+        <View className="bg-amber-900/20 border border-amber-800/50 rounded-lg p-2.5 mt-2">
+          <Text className="text-xs text-amber-300 mb-1.5">
+            Asked for these permissions when it paired. It can&apos;t use them until you grant them.
+          </Text>
+          <View className="flex-row flex-wrap gap-1.5 mb-1.5">
+            {requested.map((permission) => (
+              <Text
+                key={permission}
+                className="text-xs text-amber-200 bg-amber-900/40 rounded-full px-2 py-0.5"
+              >
+                {formatPermission(permission)}
+              </Text>
+            ))}
+          </View>
+          <PermissionRisks permissions={requested} />
+          <View className="flex-row gap-2 mt-1">
+            <Button
+              title="Dismiss"
+              variant="ghost"
+              size="sm"
+              onPress={() => onResolvePermissionRequest(false)}
+              className="flex-1"
+            />
+            <Button
+              title="Grant"
+              variant="secondary"
+              size="sm"
+              onPress={() => onResolvePermissionRequest(true)}
+              className="flex-1"
+            />
+          </View>
+        </View>
+      )}
+
+      <View className="flex-row flex-wrap gap-1.5 mt-2">
+        {client.permissions.length === 0 && (
+          <Text className="text-xs text-gray-500 py-0.5">Can only read the group pubkey</Text>
+        )}
+        {client.permissions.map((permission) => (
+          <Pressable
+            key={permission}
+            onPress={() => removePermission(permission)}
+            className="flex-row items-center bg-blue-900/30 rounded-full px-2 py-0.5 active:opacity-70"
+          >
+            <Text className="text-xs text-blue-300 mr-1">{formatPermission(permission)}</Text>
+            <X size={10} color="#93c5fd" strokeWidth={2} />
+          </Pressable>
+        ))}
+        {!canSignAnyKind && (
+          <Pressable
+            onPress={allowAnyKind}
+            className="flex-row items-center bg-gray-700/50 rounded-full px-2 py-0.5 active:opacity-70"
+          >
+            <Plus size={10} color="#9ca3af" strokeWidth={2} />
+            <Text className="text-xs text-gray-400 ml-1">Sign any kind</Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+}
+
+/**
+ * Warnings for requested permissions that reach beyond a single kind of event.
+ */
+export function PermissionRisks({ permissions }: { permissions: string[] }) {
+  const risks = permissions
+    .map((permission) => describePermissionRisk(permission))
+    .filter((risk): risk is string => risk !== null);
+  if (risks.length === 0) return null;
+
+  return (
+    <View className="gap-1 mb-1.5">
+      {risks.map((risk) => (
+        <Text key={risk} className="text-xs text-red-300">
+          {risk}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+function truncatePubkey(pubkey: string): string {
+  if (pubkey.length <= 16) return pubkey;
+  return `${pubkey.slice(0, 8)}...${pubkey.slice(-4)}`;
+}
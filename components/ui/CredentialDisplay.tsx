@@ -27,6 +27,10 @@ interface CredentialDisplayProps {
   helpContent?: string;
   /** Whether to show QR code button. Default: true */
   showQR?: boolean;
+  /** Hide the value entirely; copy, QR and expand call onReveal instead */
+  concealed?: boolean;
+  /** Called when a concealed credential is interacted with (e.g. to ask for the PIN) */
+  onReveal?: () => void;
   /** Optional className */
   className?: string;
 }
@@ -46,6 +50,8 @@ export function CredentialDisplay({
   visibleChars = 24,
   helpContent,
   showQR = true,
+  concealed = false,
+  onReveal,
   className = '',
 }: CredentialDisplayProps) {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -53,17 +59,34 @@ export function CredentialDisplay({
   const { copied, copy } = useCopyFeedback();
 
   const handleToggleExpand = useCallback(() => {
+    if (concealed) {
+      onReveal?.();
+      return;
+    }
     LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
     setIsExpanded(!isExpanded);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-  }, [isExpanded]);
+  }, [concealed, onReveal, isExpanded]);
 
   const handleCopy = useCallback(() => {
+    if (concealed) {
+      onReveal?.();
+      return;
+    }
     copy(credential);
-  }, [copy, credential]);
+  }, [concealed, onReveal, copy, credential]);
+
+  const handleShowQR = useCallback(() => {
+    if (concealed) {
+      onReveal?.();
+      return;
+    }
+    setShowQRModal(true);
+  }, [concealed, onReveal]);
 
   // Format the credential for display
   const formatCredential = (cred: string) => {
+    if (concealed) return '•'.repeat(24);
     if (cred.length <= visibleChars) return cred;
     if (masked) {
       return `${cred.slice(0, visibleChars)}${'•'.repeat(12)}`;
@@ -102,7 +125,7 @@ export function CredentialDisplay({
               icon={<QrCode size={14} color="#9ca3af" strokeWidth={2} />}
               variant="ghost"
               size="sm"
-              onPress={() => setShowQRModal(true)}
+              onPress={handleShowQR}
             />
           )}
           {/* Copy Button */}
@@ -143,12 +166,12 @@ export function CredentialDisplay({
           numberOfLines={isExpanded ? undefined : 1}
           selectable={isExpanded}
         >
-          {isExpanded ? credential : formatCredential(credential)}
+          {isExpanded && !concealed ? credential : formatCredential(credential)}
         </Text>
       </Pressable>
 
       {/* Expanded Decoded View */}
-      {isExpanded && decodedData && (
+      {isExpanded && !concealed && decodedData && (
         <View className="px-3 pb-3">
           <View className="bg-gray-900/50 rounded p-3 mt-1">
             <Text className="text-xs text-gray-400 mb-2 font-medium">
@@ -167,7 +190,7 @@ export function CredentialDisplay({
       {/* QR Code Modal */}
       {showQR && (
         <QRCodeModal
-          isOpen={showQRModal}
+          isOpen={showQRModal && !concealed}
           onClose={() => setShowQRModal(false)}
           value={credential}
           title={label}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Text, View } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+
+interface PassphrasePromptModalProps {
+  isOpen: boolean;
+  title: string;
+  /** Why the passphrase is needed */
+  description: string;
+  /** Ask for the passphrase twice, for choosing a new one */
+  confirm: boolean;
+  /** Minimum length when choosing a new passphrase */
+  minLength: number;
+  submitLabel: string;
+  /** Uses the passphrase; a thrown error is shown under the field and keeps the modal open */
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Modal passphrase entry for a passphrase-protected share.
+ */
+export function PassphrasePromptModal({
+  isOpen,
+  title,
+  description,
+  confirm,
+  minLength,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: PassphrasePromptModalProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [submitError, setSubmitError] = useState<string>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const lengthError =
+    confirm && passphrase.length > 0 && passphrase.length < minLength
+      ? `Use at least ${minLength} characters`
+      : undefined;
+  const confirmError =
+    confirm && confirmPassphrase.length > 0 && confirmPassphrase !== passphrase
+      ? 'Passphrases do not match'
+      : undefined;
+  const canSubmit = confirm
+    ? passphrase.length >= minLength && confirmPassphrase === passphrase && !isSubmitting
+    : passphrase.length > 0 && !isSubmitting;
+
+  const reset = () => {
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setSubmitError(undefined);
+  };
+
+  const handleClose = () => {
+    if (isSubmitting) return;
+    reset();
+    onCancel();
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(passphrase);
+      reset();
+    } catch (error) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setSubmitError(error instanceof Error ? error.message : 'Failed to use passphrase');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={title} maxWidth="sm">
+      <Text className="text-sm text-gray-400 mb-3">{description}</Text>
+      <Input
+        label="Passphrase"
+        value={passphrase}
+        onChangeText={(text) => {
+          setPassphrase(text);
+          setSubmitError(undefined);
+        }}
+        error={lengthError ?? (confirm ? undefined : submitError)}
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoFocus
+        className={confirm ? 'mb-3' : 'mb-4'}
+      />
+      {confirm && (
+        <Input
+          label="Confirm Passphrase"
+          value={confirmPassphrase}
+          onChangeText={(text) => {
+            setConfirmPassphrase(text);
+            setSubmitError(undefined);
+          }}
+          error={confirmError ?? submitError}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+          className="mb-4"
+        />
+      )}
+      <View className="flex-row gap-3">
+        <Button title="Cancel" variant="ghost" onPress={handleClose} className="flex-1" />
+        <Button
+          title={submitLabel}
+          onPress={handleSubmit}
+          loading={isSubmitting}
+          disabled={!canSubmit}
+          className="flex-1"
+        />
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { Pressable, Text, View } from 'react-native';
+import { Delete } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import type { PinAttemptResult } from '@/types';
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'delete'] as const;
+
+interface PinPadProps {
+  /** Number of digits to collect before calling onComplete */
+  length: number;
+  /** Called with the full PIN; the pad clears itself afterwards */
+  onComplete: (pin: string) => void;
+  /** Message shown under the dots (errors, attempts left) */
+  message?: string;
+  /** Epoch ms until which input is blocked; shows a countdown */
+  disabledUntil?: number | null;
+  /** Block input, e.g. while a PIN is being checked */
+  disabled?: boolean;
+}
+
+/**
+ * Numeric keypad with PIN dots, used by the lock screen, PIN setup and PIN prompts.
+ */
+export function PinPad({ length, onComplete, message, disabledUntil, disabled = false }: PinPadProps) {
+  const [digits, setDigits] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+
+  const isThrottled = disabledUntil != null && disabledUntil > now;
+  const isDisabled = disabled || isThrottled;
+
+  // Tick once a second while throttled so the countdown updates
+  useEffect(() => {
+    if (disabledUntil == null || disabledUntil <= Date.now()) return;
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= disabledUntil) {
+        clearInterval(interval);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [disabledUntil]);
+
+  const handleKey = (key: (typeof KEYS)[number]) => {
+    if (isDisabled || key === '') return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    if (key === 'delete') {
+      setDigits((current) => current.slice(0, -1));
+      return;
+    }
+
+    const next = digits + key;
+    if (next.length < length) {
+      setDigits(next);
+      return;
+    }
+    setDigits('');
+    onComplete(next);
+  };
+
+  const statusText = isThrottled
+    ? `Too many attempts. Try again in ${Math.ceil((disabledUntil - now) / 1000)}s`
+    : message;
+
+  return (
+    <View className="items-center">
+      {/* PIN dots */}
+      <View className="flex-row gap-3 mb-3">
+        {Array.from({ length }, (_, index) => (
+          <View
+            key={index}
+            className={`w-3.5 h-3.5 rounded-full border border-blue-400 ${
+              index < digits.length ? 'bg-blue-400' : 'bg-transparent'
+            }`}
+          />
+        ))}
+      </View>
+
+      <Text className="text-sm text-red-400 text-center h-5 mb-4">{statusText ?? ''}</Text>
+
+      {/* Keypad */}
+      <View className="flex-row flex-wrap justify-center w-64">
+        {KEYS.map((key, index) => (
+          <Pressable
+            key={`${key}-${index}`}
+            onPress={() => handleKey(key)}
+            disabled={isDisabled || key === ''}
+            className={`w-20 h-16 items-center justify-center rounded-full m-0.5 ${
+              key === '' || key === 'delete' ? '' : 'active:bg-gray-800'
+            } ${isDisabled ? 'opacity-40' : ''}`}
+          >
+            {key === 'delete' ? (
+              <Delete size={22} color="#9ca3af" strokeWidth={2} />
+            ) : (
+              <Text className="text-2xl text-gray-100">{key}</Text>
+            )}
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+/**
+ * User-facing message for a failed PIN attempt.
+ */
+export function getPinAttemptMessage(result: PinAttemptResult): string | undefined {
+  if (result.status === 'unlocked' || result.status === 'throttled') return undefined;
+  if (result.status === 'wipe') return 'Too many failed attempts. Credentials were erased.';
+  if (result.attemptsBeforeWipe !== undefined) {
+    return `Incorrect PIN. ${result.attemptsBeforeWipe} attempt(s) left before erase.`;
+  }
+  return 'Incorrect PIN';
+}
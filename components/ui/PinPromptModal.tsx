@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Text } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { Modal } from './Modal';
+import { PinPad, getPinAttemptMessage } from './PinPad';
+import type { PinAttemptResult } from '@/types';
+
+interface PinPromptModalProps {
+  isOpen: boolean;
+  /** Why the PIN is needed, e.g. "Unlock to reveal your share" */
+  title: string;
+  /** Checks the PIN (and applies throttling) */
+  onSubmit: (pin: string) => Promise<PinAttemptResult>;
+  onSuccess: () => void;
+  onCancel: () => void;
+  /** Number of PIN digits */
+  length: number;
+}
+
+/**
+ * Modal PIN check before a sensitive action (revealing a share, starting the signer, clearing data).
+ */
+export function PinPromptModal({
+  isOpen,
+  title,
+  onSubmit,
+  onSuccess,
+  onCancel,
+  length,
+}: PinPromptModalProps) {
+  const [message, setMessage] = useState<string>();
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleClose = () => {
+    setMessage(undefined);
+    onCancel();
+  };
+
+  const handleComplete = async (pin: string) => {
+    setIsChecking(true);
+    try {
+      const result = await onSubmit(pin);
+      if (result.status === 'unlocked') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        setMessage(undefined);
+        setRetryAt(null);
+        onSuccess();
+        return;
+      }
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      if (result.status === 'wipe') {
+        handleClose();
+        return;
+      }
+      setMessage(getPinAttemptMessage(result));
+      setRetryAt(result.retryAt ?? null);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Enter PIN" maxWidth="sm">
+      <Text className="text-sm text-gray-400 text-center mb-4">{title}</Text>
+      <PinPad
+        length={length}
+        onComplete={handleComplete}
+        message={message}
+        disabledUntil={retryAt}
+        disabled={isChecking}
+      />
+    </Modal>
+  );
+}
@@ -1,9 +1,10 @@
-import { useCallback } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { View, Text, Modal, Pressable, useWindowDimensions } from 'react-native';
 import { X, Copy, Check } from 'lucide-react-native';
 import QRCode from 'react-native-qrcode-svg';
 import { Button } from './Button';
 import { useCopyFeedback } from '@/hooks';
+import { encodeMultipartQR, FRAME_INTERVAL_MS } from '@/services/qr';
 
 interface QRCodeModalProps {
   isOpen: boolean;
@@ -11,10 +12,13 @@ interface QRCodeModalProps {
   value: string;
   title?: string;
   subtitle?: string;
+  /** Split long values into an animated sequence; only Igloo's own scanner can read it */
+  animated?: boolean;
 }
 
 /**
  * Modal that displays a QR code for sharing credentials.
+ * With `animated`, long values are shown as a sequence of smaller codes.
  * Includes copy and share functionality.
  */
 export function QRCodeModal({
@@ -23,6 +27,7 @@ export function QRCodeModal({
   value,
   title = 'QR Code',
   subtitle,
+  animated = false,
 }: QRCodeModalProps) {
   const { width } = useWindowDimensions();
   const { copied, copy } = useCopyFeedback();
@@ -30,6 +35,19 @@ export function QRCodeModal({
   // QR code size - responsive to screen width
   const qrSize = Math.min(width - 80, 280);
 
+  const frames = useMemo(() => (animated ? encodeMultipartQR(value) : [value]), [animated, value]);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const isAnimated = frames.length > 1;
+
+  // Loop through the parts while the modal is open
+  useEffect(() => {
+    if (!isOpen || !isAnimated) return;
+    const interval = setInterval(() => {
+      setFrameIndex((index) => (index + 1) % frames.length);
+    }, FRAME_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOpen, isAnimated, frames.length]);
+
   const handleCopy = useCallback(async () => {
     await copy(value);
   }, [copy, value]);
@@ -73,13 +91,20 @@ export function QRCodeModal({
           {/* QR Code */}
           <View className="bg-white rounded-xl p-4 items-center justify-center mb-4">
             <QRCode
-              value={value}
+              value={frames[frameIndex % frames.length]}
               size={qrSize}
               backgroundColor="white"
               color="#1f2937"
             />
           </View>
 
+          {isAnimated && (
+            <Text className="text-xs text-gray-400 text-center -mt-2 mb-4">
+              Animated code, part {(frameIndex % frames.length) + 1} of {frames.length}. Keep
+              the camera on it until every part is read.
+            </Text>
+          )}
+
           {/* Truncated Value Preview */}
           <View className="bg-gray-800 rounded-lg p-3 mb-4">
             <Text className="text-xs font-mono text-gray-400 text-center" numberOfLines={2}>
@@ -0,0 +1,135 @@
+import { useCallback, useRef, useState } from 'react';
+import { Linking, Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import * as Haptics from 'expo-haptics';
+import { Camera, X } from 'lucide-react-native';
+import { Button } from './Button';
+import { MultipartQRDecoder } from '@/services/qr';
+
+interface QRScannerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called once with the scanned text; animated codes are reassembled first */
+  onScan: (value: string) => void;
+  title?: string;
+  hint?: string;
+}
+
+/**
+ * Full-screen camera that reads a QR code, including animated multi-part codes.
+ */
+export function QRScannerModal({
+  isOpen,
+  onClose,
+  onScan,
+  title = 'Scan QR Code',
+  hint,
+}: QRScannerModalProps) {
+  return (
+    <Modal visible={isOpen} animationType="slide" onRequestClose={onClose}>
+      {isOpen && <Scanner onClose={onClose} onScan={onScan} title={title} hint={hint} />}
+    </Modal>
+  );
+}
+
+function Scanner({
+  onClose,
+  onScan,
+  title,
+  hint,
+}: Omit<QRScannerModalProps, 'isOpen' | 'title'> & { title: string }) {
+  const [permission, requestPermission] = useCameraPermissions();
+  const decoderRef = useRef(new MultipartQRDecoder());
+  const doneRef = useRef(false);
+  const [progress, setProgress] = useState<{ received: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleScanned = useCallback(
+    ({ data }: { data: string }) => {
+      if (doneRef.current) return;
+      const scan = decoderRef.current.receive(data);
+      if (scan.status === 'partial') {
+        setProgress({ received: scan.received, total: scan.total });
+        return;
+      }
+      if (scan.status === 'invalid') {
+        setProgress(null);
+        setError(scan.reason);
+        return;
+      }
+      doneRef.current = true;
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onScan(scan.value.trim());
+    },
+    [onScan]
+  );
+
+  if (!permission?.granted) {
+    const canAsk = permission?.canAskAgain ?? true;
+    return (
+      <SafeAreaView className="flex-1 bg-gray-950">
+        <View className="flex-1 px-6 items-center justify-center">
+          <Camera size={48} color="#9ca3af" strokeWidth={1.5} />
+          <Text className="text-lg font-semibold text-gray-100 mt-4 mb-2">
+            Camera Access Required
+          </Text>
+          <Text className="text-base text-gray-400 text-center mb-6">
+            {canAsk
+              ? 'Allow camera access to scan the QR code.'
+              : 'Camera access is turned off. Enable it in Settings to scan QR codes.'}
+          </Text>
+          <Button
+            title={canAsk ? 'Continue' : 'Open Settings'}
+            onPress={canAsk ? requestPermission : () => Linking.openSettings()}
+          />
+          <Pressable onPress={onClose} className="mt-4 py-2">
+            <Text className="text-blue-400">Cancel</Text>
+          </Pressable>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <CameraView
+        style={StyleSheet.absoluteFillObject}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+        onBarcodeScanned={handleScanned}
+      />
+
+      <SafeAreaView className="absolute top-0 left-0 right-0" pointerEvents="box-none">
+        <View className="flex-row items-center justify-between px-4 py-2">
+          <Text className="text-lg font-semibold text-white">{title}</Text>
+          <Pressable
+            onPress={onClose}
+            className="w-10 h-10 bg-black/50 rounded-full items-center justify-center"
+          >
+            <X size={18} color="white" strokeWidth={2} />
+          </Pressable>
+        </View>
+      </SafeAreaView>
+
+      <View className="absolute bottom-0 left-0 right-0 bg-black/70 px-6 pt-6 pb-12 items-center">
+        {hint && <Text className="text-gray-300 text-center">{hint}</Text>}
+        {progress && (
+          <View className="mt-4 bg-blue-900/40 px-3 py-1.5 rounded-full">
+            <Text className="text-blue-300 text-sm">
+              Reading animated code: {progress.received} of {progress.total} parts
+            </Text>
+          </View>
+        )}
+        {error && <Text className="text-red-300 text-sm text-center mt-4">{error}</Text>}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+});
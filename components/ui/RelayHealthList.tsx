@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Pressable, Text, View } from 'react-native';
+import { RefreshCw } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { StatusIndicator } from './StatusIndicator';
+import type { RelayConnectionStatus, RelayHealth } from '@/types';
+
+interface RelayHealthListProps {
+  /** Configured relays, in display order */
+  relays: string[];
+  /** Latest health per relay URL */
+  health: Record<string, RelayHealth>;
+  /** Whether a signer node is running; health is only probed while it is */
+  isActive: boolean;
+  /** Probe every relay now */
+  onRefresh?: () => Promise<void>;
+}
+
+const statusIndicator: Record<
+  RelayConnectionStatus,
+  { status: 'success' | 'error' | 'warning' | 'idle'; label: string }
+> = {
+  connected: { status: 'success', label: 'Connected' },
+  connecting: { status: 'warning', label: 'Connecting' },
+  disconnected: { status: 'idle', label: 'Disconnected' },
+  error: { status: 'error', label: 'Unreachable' },
+};
+
+/**
+ * Per-relay connection state, latency, last activity, errors and reconnect attempts.
+ */
+export function RelayHealthList({ relays, health, isActive, onRefresh }: RelayHealthListProps) {
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const handleRefresh = async () => {
+    if (!onRefresh || isRefreshing) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setIsRefreshing(true);
+    try {
+      await onRefresh();
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const connectedCount = relays.filter((url) => health[url]?.status === 'connected').length;
+
+  return (
+    <View>
+      <View className="flex-row items-center justify-between mb-2">
+        <Text className="text-sm font-medium text-gray-300">Relay Status</Text>
+        {isActive && onRefresh && (
+          <Pressable
+            onPress={handleRefresh}
+            disabled={isRefreshing}
+            className="flex-row items-center gap-1 active:opacity-70"
+            hitSlop={8}
+          >
+            <RefreshCw size={12} color={isRefreshing ? '#6b7280' : '#60a5fa'} strokeWidth={2} />
+            <Text className={`text-xs ${isRefreshing ? 'text-gray-500' : 'text-blue-400'}`}>
+              {isRefreshing ? 'Checking...' : 'Check now'}
+            </Text>
+          </Pressable>
+        )}
+      </View>
+
+      {!isActive ? (
+        <Text className="text-xs text-gray-500">
+          Start the signer to check relay connectivity and latency.
+        </Text>
+      ) : (
+        <>
+          <Text className="text-xs text-gray-500 mb-2">
+            {connectedCount} of {relays.length} relays responding
+          </Text>
+          {relays.map((url, index) => (
+            <RelayHealthRow
+              key={url}
+              url={url}
+              health={health[url]}
+              isLast={index === relays.length - 1}
+            />
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
+
+function RelayHealthRow({
+  url,
+  health,
+  isLast,
+}: {
+  url: string;
+  health: RelayHealth | undefined;
+  isLast: boolean;
+}) {
+  const indicator = statusIndicator[health?.status ?? 'connecting'];
+
+  return (
+    <View className={`py-2 ${isLast ? '' : 'border-b border-blue-900/20'}`}>
+      <View className="flex-row items-center justify-between gap-2">
+        <Text className="text-xs font-mono text-gray-300 flex-1" numberOfLines={1}>
+          {url.replace(/^wss?:\/\//, '')}
+        </Text>
+        <StatusIndicator status={indicator.status} label={indicator.label} size="sm" />
+      </View>
+      {health && (
+        <View className="flex-row flex-wrap gap-x-3 mt-1">
+          <Text className="text-xs text-gray-500">
+            {health.latency !== null ? `${health.latency}ms` : '—'}
+          </Text>
+          <Text className="text-xs text-gray-500">
+            Last event {health.lastEventAt ? formatLastEvent(health.lastEventAt) : 'never'}
+          </Text>
+          {health.errorCount > 0 && (
+            <Text className="text-xs text-red-400">
+              {health.errorCount} {health.errorCount === 1 ? 'error' : 'errors'}
+            </Text>
+          )}
+          {health.reconnectAttempts > 0 && (
+            <Text className="text-xs text-yellow-400">
+              {health.reconnectAttempts} {health.reconnectAttempts === 1 ? 'reconnect' : 'reconnects'}
+            </Text>
+          )}
+        </View>
+      )}
+      {health?.lastError && health.status !== 'connected' && (
+        <Text className="text-xs text-red-400/80 mt-1" numberOfLines={2}>
+          {health.lastError}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+function formatLastEvent(timestamp: string): string {
+  const diffMs = Date.now() - new Date(timestamp).getTime();
+  const diffSecs = Math.floor(diffMs / 1000);
+
+  if (diffSecs < 10) return 'just now';
+  if (diffSecs < 60) return `${diffSecs}s ago`;
+  const diffMins = Math.floor(diffSecs / 60);
+  if (diffMins < 60) return `${diffMins}m ago`;
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
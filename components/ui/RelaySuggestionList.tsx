@@ -0,0 +1,134 @@
+import { Pressable, Text, View } from 'react-native';
+import { Plus, Search, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Button } from './Button';
+import type { RelaySuggestion } from '@/types';
+
+interface RelaySuggestionListProps {
+  suggestions: RelaySuggestion[];
+  /** Whether a discovery has completed for the active share */
+  hasDiscovered: boolean;
+  /** Number of NIP-65 relay lists the last discovery found */
+  relayListsFound: number;
+  isDiscovering: boolean;
+  error: string | null;
+  onDiscover: () => void;
+  onAccept: (url: string) => void;
+  onAcceptAll: () => void;
+  onDismiss: (url: string) => void;
+}
+
+/**
+ * Relays the rest of the signing group uses, with actions to add or dismiss them.
+ */
+export function RelaySuggestionList({
+  suggestions,
+  hasDiscovered,
+  relayListsFound,
+  isDiscovering,
+  error,
+  onDiscover,
+  onAccept,
+  onAcceptAll,
+  onDismiss,
+}: RelaySuggestionListProps) {
+  const handleAccept = (url: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onAccept(url);
+  };
+
+  const handleAcceptAll = () => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onAcceptAll();
+  };
+
+  return (
+    <View>
+      <Text className="text-sm font-medium text-gray-300 mb-1">Suggested Relays</Text>
+      <Text className="text-xs text-gray-500 mb-3">
+        {getSummary(hasDiscovered, relayListsFound, suggestions.length)}
+      </Text>
+
+      {suggestions.map((suggestion) => (
+        <View
+          key={suggestion.url}
+          className="flex-row items-center gap-2 py-2 border-b border-blue-900/20"
+        >
+          <View className="flex-1">
+            <Text className="text-xs font-mono text-gray-300" numberOfLines={1}>
+              {suggestion.url.replace(/^wss:\/\//, '')}
+            </Text>
+            <Text className="text-xs text-gray-500">{describeSources(suggestion)}</Text>
+          </View>
+          <Pressable
+            onPress={() => handleAccept(suggestion.url)}
+            className="p-1.5 rounded-lg bg-blue-600/20 active:opacity-70"
+            hitSlop={6}
+            accessibilityLabel={`Add ${suggestion.url}`}
+          >
+            <Plus size={14} color="#60a5fa" strokeWidth={2} />
+          </Pressable>
+          <Pressable
+            onPress={() => onDismiss(suggestion.url)}
+            className="p-1.5 rounded-lg active:opacity-70"
+            hitSlop={6}
+            accessibilityLabel={`Dismiss ${suggestion.url}`}
+          >
+            <X size={14} color="#6b7280" strokeWidth={2} />
+          </Pressable>
+        </View>
+      ))}
+
+      {error && <Text className="text-xs text-red-400 mt-2">{error}</Text>}
+
+      <View className="flex-row gap-3 mt-3">
+        <Button
+          title={hasDiscovered ? 'Search Again' : 'Find Group Relays'}
+          variant="secondary"
+          size="sm"
+          icon={<Search size={14} color="#93c5fd" strokeWidth={2} />}
+          onPress={onDiscover}
+          loading={isDiscovering}
+          className="flex-1"
+        />
+        {suggestions.length > 1 && (
+          <Button
+            title="Add All"
+            size="sm"
+            onPress={handleAcceptAll}
+            disabled={isDiscovering}
+            className="flex-1"
+          />
+        )}
+      </View>
+    </View>
+  );
+}
+
+function getSummary(hasDiscovered: boolean, relayListsFound: number, count: number): string {
+  if (!hasDiscovered) {
+    return 'Look up the relay lists (NIP-65) published for your group and co-signers. Signing only works when everyone shares at least one relay.';
+  }
+  if (relayListsFound === 0 && count === 0) {
+    return 'No relay lists were found for your group or co-signers.';
+  }
+  if (count === 0) {
+    return 'You already use every relay your group publishes.';
+  }
+  return `${count} ${count === 1 ? 'relay' : 'relays'} used by your group ${count === 1 ? 'is' : 'are'} missing from your list.`;
+}
+
+function describeSources(suggestion: RelaySuggestion): string {
+  const parts: string[] = [];
+  if (suggestion.sources.includes('group')) {
+    parts.push('Group relay list');
+  }
+  if (suggestion.peerPubkeys.length > 0) {
+    const count = suggestion.peerPubkeys.length;
+    parts.push(`${count} ${count === 1 ? 'co-signer' : 'co-signers'}`);
+  }
+  if (suggestion.sources.includes('keyring')) {
+    parts.push('Another share on this device');
+  }
+  return parts.join(' · ');
+}
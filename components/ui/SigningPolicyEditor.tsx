@@ -0,0 +1,527 @@
+import * as Haptics from 'expo-haptics';
+import { ChevronDown, ChevronUp, Pencil, Plus, ShieldCheck, Trash2 } from 'lucide-react-native';
+import { useState } from 'react';
+import { Alert, Pressable, ScrollView, Text, View } from 'react-native';
+import type { SigningPolicyAction, SigningPolicyRule } from '@/types';
+import {
+  compileContentPattern,
+  describeRuleConditions,
+  formatMinuteOfDay,
+  getSigningPolicyActionLabel,
+  parseMinuteOfDay,
+} from '@/services/policy';
+import { Badge } from './Badge';
+import { Button } from './Button';
+import { IconButton } from './IconButton';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { Switch } from './Switch';
+
+type RuleDraft = Omit<SigningPolicyRule, 'id'>;
+
+interface SigningPolicyEditorProps {
+  defaultAction: SigningPolicyAction;
+  rules: SigningPolicyRule[];
+  onDefaultActionChange: (action: SigningPolicyAction) => void;
+  onAddRule: (rule: RuleDraft) => void;
+  onUpdateRule: (id: string, update: Partial<RuleDraft>) => void;
+  onRemoveRule: (id: string) => void;
+  onMoveRule: (id: string, direction: 'up' | 'down') => void;
+  approvalTimeoutSeconds: number;
+  onApprovalTimeoutChange: (seconds: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const ACTIONS: SigningPolicyAction[] = ['allow', 'deny', 'ask'];
+const APPROVAL_TIMEOUT_OPTIONS = [15, 30, 60, 120];
+
+const actionBadgeVariant: Record<SigningPolicyAction, 'success' | 'error' | 'warning'> = {
+  allow: 'success',
+  deny: 'error',
+  ask: 'warning',
+};
+
+const actionChipColors: Record<SigningPolicyAction, string> = {
+  allow: 'bg-green-600/20 border-green-500',
+  deny: 'bg-red-600/20 border-red-500',
+  ask: 'bg-yellow-600/20 border-yellow-500',
+};
+
+/**
+ * Row of allow/deny/ask chips
+ */
+function ActionChips({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: SigningPolicyAction;
+  onChange: (action: SigningPolicyAction) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <View className="flex-row gap-2">
+      {ACTIONS.map((action) => {
+        const isSelected = action === value;
+        return (
+          <Pressable
+            key={action}
+            disabled={disabled}
+            onPress={() => {
+              Haptics.selectionAsync();
+              onChange(action);
+            }}
+            className={`flex-1 py-2 rounded-lg border-2 items-center ${
+              isSelected ? actionChipColors[action] : 'bg-gray-800/50 border-gray-700/50'
+            }`}
+          >
+            <Text className={`text-sm font-medium ${isSelected ? 'text-gray-100' : 'text-gray-400'}`}>
+              {getSigningPolicyActionLabel(action)}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+interface RuleFormState {
+  name: string;
+  action: SigningPolicyAction;
+  eventKinds: string;
+  peers: string;
+  startTime: string;
+  endTime: string;
+  contentPattern: string;
+  rateMax: string;
+  rateWindowSeconds: string;
+}
+
+const EMPTY_FORM: RuleFormState = {
+  name: '',
+  action: 'deny',
+  eventKinds: '',
+  peers: '',
+  startTime: '',
+  endTime: '',
+  contentPattern: '',
+  rateMax: '',
+  rateWindowSeconds: '',
+};
+
+function ruleToForm(rule: SigningPolicyRule): RuleFormState {
+  return {
+    name: rule.name,
+    action: rule.action,
+    eventKinds: rule.eventKinds?.join(', ') ?? '',
+    peers: rule.peers?.join('\n') ?? '',
+    startTime: rule.timeWindow ? formatMinuteOfDay(rule.timeWindow.startMinute) : '',
+    endTime: rule.timeWindow ? formatMinuteOfDay(rule.timeWindow.endMinute) : '',
+    contentPattern: rule.contentPattern ?? '',
+    rateMax: rule.rateLimit ? String(rule.rateLimit.maxRequests) : '',
+    rateWindowSeconds: rule.rateLimit ? String(Math.round(rule.rateLimit.windowMs / 1000)) : '',
+  };
+}
+
+/**
+ * Convert the form into a rule draft, or return field errors.
+ */
+function formToRule(
+  form: RuleFormState,
+  enabled: boolean
+): { rule?: RuleDraft; errors: Partial<Record<keyof RuleFormState, string>> } {
+  const errors: Partial<Record<keyof RuleFormState, string>> = {};
+
+  const name = form.name.trim();
+  if (!name) errors.name = 'Name is required';
+
+  const kindTokens = form.eventKinds.split(/[\s,]+/).filter(Boolean);
+  const eventKinds = kindTokens.map(Number);
+  if (eventKinds.some((kind) => !Number.isInteger(kind) || kind < 0)) {
+    errors.eventKinds = 'Use comma-separated event kind numbers';
+  }
+
+  const peers = form.peers.split(/[\s,]+/).filter(Boolean);
+
+  let timeWindow: RuleDraft['timeWindow'];
+  if (form.startTime.trim() || form.endTime.trim()) {
+    const startMinute = parseMinuteOfDay(form.startTime);
+    const endMinute = parseMinuteOfDay(form.endTime);
+    if (startMinute === null) errors.startTime = 'Use HH:MM';
+    if (endMinute === null) errors.endTime = 'Use HH:MM';
+    if (startMinute !== null && endMinute !== null) {
+      timeWindow = { startMinute, endMinute };
+    }
+  }
+
+  const contentPattern = form.contentPattern.trim();
+  if (contentPattern && !compileContentPattern(contentPattern)) {
+    errors.contentPattern = 'Invalid regular expression';
+  }
+
+  let rateLimit: RuleDraft['rateLimit'];
+  if (form.rateMax.trim() || form.rateWindowSeconds.trim()) {
+    const maxRequests = Number(form.rateMax);
+    const windowSeconds = Number(form.rateWindowSeconds);
+    if (!Number.isInteger(maxRequests) || maxRequests < 0) {
+      errors.rateMax = 'Whole number';
+    }
+    if (!Number.isFinite(windowSeconds) || windowSeconds <= 0) {
+      errors.rateWindowSeconds = 'Seconds > 0';
+    }
+    if (!errors.rateMax && !errors.rateWindowSeconds) {
+      rateLimit = { maxRequests, windowMs: Math.round(windowSeconds * 1000) };
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return {
+    rule: {
+      name,
+      enabled,
+      action: form.action,
+      eventKinds: eventKinds.length > 0 ? eventKinds : undefined,
+      peers: peers.length > 0 ? peers : undefined,
+      timeWindow,
+      contentPattern: contentPattern || undefined,
+      rateLimit,
+    },
+    errors,
+  };
+}
+
+/**
+ * Modal form for creating or editing a single rule
+ */
+function RuleFormModal({
+  isOpen,
+  rule,
+  onClose,
+  onSave,
+}: {
+  isOpen: boolean;
+  rule: SigningPolicyRule | null;
+  onClose: () => void;
+  onSave: (draft: RuleDraft) => void;
+}) {
+  const [form, setForm] = useState<RuleFormState>(rule ? ruleToForm(rule) : EMPTY_FORM);
+  const [errors, setErrors] = useState<Partial<Record<keyof RuleFormState, string>>>({});
+
+  const updateField = (field: keyof RuleFormState) => (value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleSave = () => {
+    const result = formToRule(form, rule?.enabled ?? true);
+    if (!result.rule) {
+      setErrors(result.errors);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+    onSave(result.rule);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={rule ? 'Edit Rule' : 'New Rule'}>
+      <ScrollView className="max-h-[480px]" keyboardShouldPersistTaps="handled">
+        <Input
+          label="Name"
+          value={form.name}
+          onChangeText={updateField('name')}
+          placeholder="Block DMs at night"
+          error={errors.name}
+          className="mb-3"
+        />
+
+        <Text className="text-sm font-medium text-gray-300 mb-1.5">Action</Text>
+        <View className="mb-3">
+          <ActionChips
+            value={form.action}
+            onChange={(action) => setForm((prev) => ({ ...prev, action }))}
+          />
+        </View>
+
+        <Text className="text-xs text-gray-500 mb-3">
+          Leave a condition empty to match any request. All filled conditions must match.
+        </Text>
+
+        <Input
+          label="Event kinds"
+          value={form.eventKinds}
+          onChangeText={updateField('eventKinds')}
+          placeholder="1, 4, 7"
+          keyboardType="numbers-and-punctuation"
+          error={errors.eventKinds}
+          className="mb-3"
+        />
+
+        <Input
+          label="Peers"
+          value={form.peers}
+          onChangeText={updateField('peers')}
+          placeholder="Peer pubkeys, one per line"
+          autoCapitalize="none"
+          autoCorrect={false}
+          multiline
+          className="mb-3"
+        />
+
+        <View className="flex-row gap-2 mb-3">
+          <Input
+            label="From"
+            value={form.startTime}
+            onChangeText={updateField('startTime')}
+            placeholder="22:00"
+            keyboardType="numbers-and-punctuation"
+            error={errors.startTime}
+            className="flex-1"
+          />
+          <Input
+            label="Until"
+            value={form.endTime}
+            onChangeText={updateField('endTime')}
+            placeholder="06:00"
+            keyboardType="numbers-and-punctuation"
+            error={errors.endTime}
+            className="flex-1"
+          />
+        </View>
+
+        <Input
+          label="Content pattern"
+          value={form.contentPattern}
+          onChangeText={updateField('contentPattern')}
+          placeholder="Regular expression (case-insensitive)"
+          autoCapitalize="none"
+          autoCorrect={false}
+          error={errors.contentPattern}
+          className="mb-3"
+        />
+
+        <View className="flex-row gap-2 mb-1">
+          <Input
+            label="More than"
+            value={form.rateMax}
+            onChangeText={updateField('rateMax')}
+            placeholder="10"
+            keyboardType="number-pad"
+            error={errors.rateMax}
+            className="flex-1"
+          />
+          <Input
+            label="Per seconds"
+            value={form.rateWindowSeconds}
+            onChangeText={updateField('rateWindowSeconds')}
+            placeholder="60"
+            keyboardType="number-pad"
+            error={errors.rateWindowSeconds}
+            className="flex-1"
+          />
+        </View>
+        <Text className="text-xs text-gray-500 mb-4">
+          With a rate set, the rule only applies once a peer exceeds it.
+        </Text>
+      </ScrollView>
+
+      <View className="flex-row gap-2">
+        <Button title="Cancel" variant="ghost" onPress={onClose} className="flex-1" />
+        <Button title="Save" onPress={handleSave} className="flex-1" />
+      </View>
+    </Modal>
+  );
+}
+
+export function SigningPolicyEditor({
+  defaultAction,
+  rules,
+  onDefaultActionChange,
+  onAddRule,
+  onUpdateRule,
+  onRemoveRule,
+  onMoveRule,
+  approvalTimeoutSeconds,
+  onApprovalTimeoutChange,
+  disabled = false,
+  className,
+}: SigningPolicyEditorProps) {
+  const [editingRule, setEditingRule] = useState<SigningPolicyRule | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const openNewRule = () => {
+    setEditingRule(null);
+    setIsFormOpen(true);
+  };
+
+  const openEditRule = (rule: SigningPolicyRule) => {
+    setEditingRule(rule);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingRule(null);
+  };
+
+  const handleSave = (draft: RuleDraft) => {
+    if (editingRule) {
+      onUpdateRule(editingRule.id, draft);
+    } else {
+      onAddRule(draft);
+    }
+    closeForm();
+  };
+
+  const handleRemoveRule = (rule: SigningPolicyRule) => {
+    Alert.alert('Remove Rule', `Remove "${rule.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => {
+          onRemoveRule(rule.id);
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View className={className}>
+      {/* Default Action */}
+      <Text className="text-sm font-medium text-gray-300 mb-1.5">When no rule matches</Text>
+      <View className="mb-4">
+        <ActionChips value={defaultAction} onChange={onDefaultActionChange} disabled={disabled} />
+      </View>
+
+      {/* Rule List */}
+      <Text className="text-sm font-medium text-gray-300 mb-1.5">Rules (first match wins)</Text>
+      <View className="mb-3">
+        {rules.length === 0 ? (
+          <View className="py-4 items-center">
+            <ShieldCheck size={24} color="#6b7280" strokeWidth={1.5} />
+            <Text className="text-gray-500 text-sm mt-2">No rules configured</Text>
+          </View>
+        ) : (
+          rules.map((rule, index) => (
+            <View
+              key={rule.id}
+              className={`py-2.5 px-3 bg-gray-800/30 rounded-lg ${
+                index < rules.length - 1 ? 'mb-2' : ''
+              }`}
+            >
+              <View className="flex-row items-center justify-between">
+                <View className="flex-row items-center flex-1 mr-2">
+                  <Badge
+                    label={getSigningPolicyActionLabel(rule.action)}
+                    variant={actionBadgeVariant[rule.action]}
+                    size="sm"
+                  />
+                  <Text
+                    className={`text-sm ml-2 flex-1 ${rule.enabled ? 'text-gray-200' : 'text-gray-500'}`}
+                    numberOfLines={1}
+                  >
+                    {rule.name}
+                  </Text>
+                </View>
+                <Switch
+                  value={rule.enabled}
+                  onValueChange={(enabled) => onUpdateRule(rule.id, { enabled })}
+                  disabled={disabled}
+                />
+              </View>
+              <Text className="text-gray-500 text-xs mt-1" numberOfLines={2}>
+                {describeRuleConditions(rule)}
+              </Text>
+              <View className="flex-row items-center justify-end mt-1 gap-1">
+                <IconButton
+                  icon={<ChevronUp size={16} color="#9ca3af" strokeWidth={2} />}
+                  variant="ghost"
+                  size="sm"
+                  onPress={() => onMoveRule(rule.id, 'up')}
+                  disabled={disabled || index === 0}
+                />
+                <IconButton
+                  icon={<ChevronDown size={16} color="#9ca3af" strokeWidth={2} />}
+                  variant="ghost"
+                  size="sm"
+                  onPress={() => onMoveRule(rule.id, 'down')}
+                  disabled={disabled || index === rules.length - 1}
+                />
+                <IconButton
+                  icon={<Pencil size={16} color="#9ca3af" strokeWidth={2} />}
+                  variant="ghost"
+                  size="sm"
+                  onPress={() => openEditRule(rule)}
+                  disabled={disabled}
+                />
+                <IconButton
+                  icon={<Trash2 size={16} color="#f87171" strokeWidth={2} />}
+                  variant="destructive"
+                  size="sm"
+                  onPress={() => handleRemoveRule(rule)}
+                  disabled={disabled}
+                />
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+
+      <Button
+        title="Add Rule"
+        variant="outline"
+        size="sm"
+        icon={<Plus size={16} color="#9ca3af" strokeWidth={2} />}
+        onPress={openNewRule}
+        disabled={disabled}
+      />
+
+      {/* Approval Timeout */}
+      <Text className="text-sm font-medium text-gray-300 mt-4 mb-1.5">Approval timeout</Text>
+      <View className="flex-row gap-2">
+        {APPROVAL_TIMEOUT_OPTIONS.map((seconds) => {
+          const isSelected = seconds === approvalTimeoutSeconds;
+          return (
+            <Pressable
+              key={seconds}
+              disabled={disabled}
+              onPress={() => {
+                Haptics.selectionAsync();
+                onApprovalTimeoutChange(seconds);
+              }}
+              className={`flex-1 py-2 rounded-lg border-2 items-center ${
+                isSelected ? 'bg-blue-600/20 border-blue-500' : 'bg-gray-800/50 border-gray-700/50'
+              }`}
+            >
+              <Text className={`text-sm ${isSelected ? 'text-gray-100' : 'text-gray-400'}`}>
+                {seconds}s
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      <Text className="text-xs text-gray-500 mt-1.5">
+        How long an ask request stays open for you to answer. The requesting peer only waits about
+        5 seconds, so its request is declined right away; approving signs that exact request if the
+        peer sends it again within 2 minutes.
+      </Text>
+
+      {isFormOpen && (
+        <RuleFormModal
+          isOpen={isFormOpen}
+          rule={editingRule}
+          onClose={closeForm}
+          onSave={handleSave}
+        />
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,113 @@
+import { View } from 'react-native';
+import Svg, { Polyline, Rect } from 'react-native-svg';
+
+interface SparklineProps {
+  /** Points oldest first; null leaves a gap in the line */
+  values: (number | null)[];
+  width: number;
+  height: number;
+  color?: string;
+  strokeWidth?: number;
+}
+
+/**
+ * Minimal line chart without axes. The range is scaled to the values shown.
+ */
+export function Sparkline({
+  values,
+  width,
+  height,
+  color = '#60a5fa',
+  strokeWidth = 1.5,
+}: SparklineProps) {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) {
+    return <View style={{ width, height }} />;
+  }
+
+  const min = Math.min(...present);
+  const range = Math.max(...present) - min || 1;
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  const inset = strokeWidth / 2;
+
+  // Split at gaps so missing data isn't drawn as a straight line across it
+  const runs: { x: number; y: number }[][] = [[]];
+  values.forEach((value, index) => {
+    if (value === null) {
+      if (runs[runs.length - 1].length > 0) runs.push([]);
+      return;
+    }
+    runs[runs.length - 1].push({
+      x: index * step,
+      y: inset + (1 - (value - min) / range) * (height - strokeWidth),
+    });
+  });
+
+  return (
+    <Svg width={width} height={height}>
+      {runs.map((points, index) => {
+        if (points.length === 0) return null;
+        // A lone point has no line to draw; show it as a dot
+        if (points.length === 1) {
+          return (
+            <Rect
+              key={index}
+              x={points[0].x - inset}
+              y={points[0].y - inset}
+              width={strokeWidth}
+              height={strokeWidth}
+              fill={color}
+            />
+          );
+        }
+        return (
+          <Polyline
+            key={index}
+            points={points.map((point) => `${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ')}
+            fill="none"
+            stroke={color}
+            strokeWidth={strokeWidth}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+          />
+        );
+      })}
+    </Svg>
+  );
+}
+
+interface AvailabilityStripProps {
+  /** Success rate 0-1 per slot, oldest first; null means no pings */
+  values: (number | null)[];
+  width: number;
+  height: number;
+}
+
+/**
+ * One bar per slot: green when every ping succeeded, amber when some failed, red when all did.
+ */
+export function AvailabilityStrip({ values, width, height }: AvailabilityStripProps) {
+  const slotWidth = values.length > 0 ? width / values.length : 0;
+
+  return (
+    <Svg width={width} height={height}>
+      {values.map((value, index) => (
+        <Rect
+          key={index}
+          x={index * slotWidth}
+          y={0}
+          width={Math.max(slotWidth - 0.5, 0.5)}
+          height={height}
+          fill={getAvailabilityColor(value)}
+        />
+      ))}
+    </Svg>
+  );
+}
+
+function getAvailabilityColor(value: number | null): string {
+  if (value === null) return '#1f2937'; // gray-800
+  if (value >= 1) return '#22c55e'; // green-500
+  if (value > 0) return '#f59e0b'; // amber-500
+  return '#ef4444'; // red-500
+}
@@ -9,12 +9,21 @@ export { IconButton, getIconButtonColor, getIconButtonSize } from './IconButton'
 export { StatusIndicator, statusColors, statusTextColors } from './StatusIndicator';
 export { Collapsible, CollapsibleSection } from './Collapsible';
 export { Tooltip, HelpTooltip } from './Tooltip';
+export { RelayHealthList } from './RelayHealthList';
+export { Sparkline, AvailabilityStrip } from './Sparkline';
+export { RelaySuggestionList } from './RelaySuggestionList';
 export { RelayInput, validateRelayUrl, normalizeRelayUrl } from './RelayInput';
 export { Alert } from './Alert';
 export { Modal, ConfirmModal } from './Modal';
 export { QRCodeModal } from './QRCodeModal';
+export { QRScannerModal } from './QRScannerModal';
 export { CredentialDisplay, CompactCredential } from './CredentialDisplay';
 export { StepIndicator, StepBadge } from './StepIndicator';
 export { GradientBackground, SubtleGradient } from './GradientBackground';
 export { VolumeControl, MIN_MUTED_VOLUME, normalizeVolume, isMutedVolume } from './VolumeControl';
 export { SoundscapeSelector } from './SoundscapeSelector';
+export { SigningPolicyEditor } from './SigningPolicyEditor';
+export { PinPad, getPinAttemptMessage } from './PinPad';
+export { PinPromptModal } from './PinPromptModal';
+export { PassphrasePromptModal } from './PassphrasePromptModal';
+export { BunkerClientList, PermissionRisks } from './BunkerClientList';
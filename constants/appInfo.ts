@@ -0,0 +1,6 @@
+import pkg from '../package.json';
+
+export const APP_VERSION = pkg.version;
+
+export const IGLOO_CORE_VERSION =
+  pkg.dependencies['@frostr/igloo-core']?.replace(/^[\^~]/, '') ?? 'unknown';
@@ -15,6 +15,9 @@ const sharedGlobals = {
   setTimeout: 'readonly',
   clearTimeout: 'readonly',
   URL: 'readonly',
+  atob: 'readonly',
+  btoa: 'readonly',
+  __DEV__: 'readonly',
   global: 'readonly',
   window: 'readonly',
 };
@@ -63,6 +66,21 @@ export default [
       globals: sharedGlobals,
     },
   },
+  {
+    files: ['**/__tests__/**/*.{ts,tsx}'],
+    languageOptions: {
+      globals: {
+        describe: 'readonly',
+        it: 'readonly',
+        expect: 'readonly',
+        beforeAll: 'readonly',
+        afterAll: 'readonly',
+        beforeEach: 'readonly',
+        afterEach: 'readonly',
+        jest: 'readonly',
+      },
+    },
+  },
   {
     ignores: ['node_modules/', '.expo/', 'dist/', 'build/'],
   },
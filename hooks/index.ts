@@ -2,5 +2,21 @@
 export { useIgloo } from './useIgloo';
 export { useSigner } from './useSigner';
 export { usePeers } from './usePeers';
+export { usePeerHealth } from './usePeerHealth';
+export { useQuorum, useQuorumAlert } from './useQuorum';
 export { useCredentials } from './useCredentials';
+export { useKeyring } from './useKeyring';
+export { useBackup } from './useBackup';
+export { useAppLock, usePinPrompt, useAutoLock } from './useAppLock';
+export { usePassphrasePrompt } from './usePassphrasePrompt';
+export { useRelayDiscovery } from './useRelayDiscovery';
+export { useSigningHistory } from './useSigningHistory';
+export { useLogArchive } from './useLogArchive';
+export { useDiagnostics } from './useDiagnostics';
+export { useSigningSession } from './useSigningSession';
+export { useSenderSigning } from './useSenderSigning';
+export { useGroupDecryption } from './useGroupDecryption';
+export { useBunker } from './useBunker';
+export { useForegroundSigner } from './useForegroundSigner';
+export { useNotifications } from './useNotifications';
 export { useCopyFeedback, useMultiCopyFeedback } from './useCopyFeedback';
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState, type AppStateStatus } from 'react-native';
+import {
+  useBunkerStore,
+  useCredentialStore,
+  useLockStore,
+  useLogStore,
+  usePeerHealthStore,
+  usePeerStore,
+  useRelayStore,
+  useSignerStore,
+} from '@/stores';
+import { PIN_LENGTH } from '@/services/lock';
+import { logArchive } from '@/services/storage/logArchive';
+import { useIgloo } from './useIgloo';
+import type { PinAttemptResult } from '@/types';
+
+// Sensitive actions skip the PIN prompt if the PIN was entered this recently
+const PIN_GRACE_MS = 60 * 1000;
+const INACTIVITY_CHECK_INTERVAL_MS = 10 * 1000;
+
+interface PinRequest {
+  title: string;
+  resolve: (verified: boolean) => void;
+}
+
+/**
+ * Hook for the app lock: PIN entry, throttling and the wipe after too many failures.
+ */
+export function useAppLock() {
+  const { stopAllSigners } = useIgloo();
+
+  const isPinSet = useLockStore((s) => s.isPinSet);
+  const isLocked = useLockStore((s) => s.isLocked);
+  const isHydrated = useLockStore((s) => s.isHydrated);
+  const autoLockSeconds = useLockStore((s) => s.autoLockSeconds);
+  const wipeAfterFailures = useLockStore((s) => s.wipeAfterFailures);
+  const failedAttempts = useLockStore((s) => s.failedAttempts);
+  const lockedUntil = useLockStore((s) => s.lockedUntil);
+
+  const setPin = useLockStore((s) => s.setPin);
+  const removePin = useLockStore((s) => s.removePin);
+  const lock = useLockStore((s) => s.lock);
+  const verifyPin = useLockStore((s) => s.verifyPin);
+  const setAutoLockSeconds = useLockStore((s) => s.setAutoLockSeconds);
+  const setWipeAfterFailures = useLockStore((s) => s.setWipeAfterFailures);
+
+  /**
+   * Stop every signer, delete all shares and reset session data and the PIN.
+   * Used both for "Clear Credentials" and the wipe after too many failed PINs.
+   */
+  const wipeKeyring = useCallback(async () => {
+    await stopAllSigners();
+    await useCredentialStore.getState().clearCredentials();
+
+    useLogStore.getState().clearLogs();
+    await logArchive.clear();
+    usePeerStore.getState().clearPeers();
+    usePeerHealthStore.getState().clearHistory();
+    useSignerStore.getState().resetSession();
+    useRelayStore.getState().resetToDefaults();
+    useBunkerStore.getState().reset();
+
+    await useLockStore.getState().removePin();
+  }, [stopAllSigners]);
+
+  /**
+   * Try a PIN. Wipes the keyring when the configured failure limit is reached.
+   */
+  const unlock = useCallback(
+    async (pin: string): Promise<PinAttemptResult> => {
+      const result = await verifyPin(pin);
+      if (result.status === 'wipe') {
+        await wipeKeyring();
+      }
+      return result;
+    },
+    [verifyPin, wipeKeyring]
+  );
+
+  return {
+    // State
+    isPinSet,
+    isLocked,
+    isHydrated,
+    autoLockSeconds,
+    wipeAfterFailures,
+    failedAttempts,
+    lockedUntil,
+
+    // Actions
+    setPin,
+    removePin,
+    lock,
+    unlock,
+    wipeKeyring,
+    setAutoLockSeconds,
+    setWipeAfterFailures,
+  };
+}
+
+/**
+ * Ask for the PIN before a sensitive action.
+ * Render `<PinPromptModal {...pinPrompt} />` on the same screen.
+ */
+export function usePinPrompt() {
+  const { unlock } = useAppLock();
+  const [request, setRequest] = useState<PinRequest | null>(null);
+
+  const requestPin = useCallback((title: string): Promise<boolean> => {
+    const { isPinSet, lastVerifiedAt } = useLockStore.getState();
+    if (!isPinSet) return Promise.resolve(true);
+    if (lastVerifiedAt !== null && Date.now() - lastVerifiedAt < PIN_GRACE_MS) {
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => setRequest({ title, resolve }));
+  }, []);
+
+  const finish = useCallback(
+    (verified: boolean) => {
+      request?.resolve(verified);
+      setRequest(null);
+    },
+    [request]
+  );
+
+  return {
+    requestPin,
+    pinPrompt: {
+      isOpen: request !== null,
+      title: request?.title ?? '',
+      onSubmit: unlock,
+      onSuccess: () => finish(true),
+      onCancel: () => finish(false),
+      length: PIN_LENGTH,
+    },
+  };
+}
+
+/**
+ * Lock the app after `autoLockSeconds` in the background or without any touches.
+ * Returns a handler to call on user activity.
+ */
+export function useAutoLock() {
+  const isPinSet = useLockStore((s) => s.isPinSet);
+  const isLocked = useLockStore((s) => s.isLocked);
+  const autoLockSeconds = useLockStore((s) => s.autoLockSeconds);
+  const lock = useLockStore((s) => s.lock);
+
+  const lastActivityRef = useRef(0);
+  const backgroundedAtRef = useRef<number | null>(null);
+
+  const recordActivity = useCallback(() => {
+    lastActivityRef.current = Date.now();
+  }, []);
+
+  useEffect(() => {
+    if (!isPinSet || isLocked || autoLockSeconds === null) return;
+
+    const timeoutMs = autoLockSeconds * 1000;
+    lastActivityRef.current = Date.now();
+
+    const handleAppStateChange = (nextState: AppStateStatus) => {
+      if (nextState === 'background') {
+        backgroundedAtRef.current = Date.now();
+        return;
+      }
+      if (nextState === 'active') {
+        const backgroundedAt = backgroundedAtRef.current;
+        backgroundedAtRef.current = null;
+        if (backgroundedAt !== null && Date.now() - backgroundedAt >= timeoutMs) {
+          lock();
+        } else {
+          lastActivityRef.current = Date.now();
+        }
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    const interval = setInterval(() => {
+      if (AppState.currentState !== 'active') return;
+      if (Date.now() - lastActivityRef.current >= timeoutMs) {
+        lock();
+      }
+    }, INACTIVITY_CHECK_INTERVAL_MS);
+
+    return () => {
+      subscription.remove();
+      clearInterval(interval);
+    };
+  }, [isPinSet, isLocked, autoLockSeconds, lock]);
+
+  return { recordActivity };
+}
@@ -0,0 +1,167 @@
+import { useCallback } from 'react';
+import { Share } from 'react-native';
+import { nanoid } from 'nanoid';
+import { useAudioStore, useCredentialStore } from '@/stores';
+import { secureStorage } from '@/services/storage/secureStorage';
+import { shareEncryption } from '@/services/storage/shareEncryption';
+import { credentialBackup } from '@/services/backup';
+import { SOUNDSCAPE_REGISTRY } from '@/services/audio';
+import { useIgloo } from './useIgloo';
+import { useKeyring } from './useKeyring';
+import type { BackupPayload, BackupRestoreResult, BackupShare, ShareDetails } from '@/types';
+
+/**
+ * Hook for exporting the keyring to an encrypted backup and restoring from one.
+ */
+export function useBackup() {
+  const { validateCredentials, getShareDetails } = useIgloo();
+  const { snapshotActiveShare, switchShare } = useKeyring();
+
+  /**
+   * Collect every keyring share with its credentials, relays and peer policies.
+   */
+  const buildPayload = useCallback(async (): Promise<BackupPayload> => {
+    // Make sure the active share's entry has its latest relays and policies
+    snapshotActiveShare();
+
+    const { shares } = useCredentialStore.getState();
+    const backupShares: BackupShare[] = [];
+    for (const entry of shares) {
+      const credentials = await secureStorage.getCredentials(entry.id);
+      if (!credentials) {
+        console.warn(`[useBackup] Skipping share "${entry.name}" with no stored credentials`);
+        continue;
+      }
+      backupShares.push({
+        name: entry.name,
+        share: credentials.share,
+        group: credentials.group,
+        relays: entry.relays,
+        peerPolicies: entry.peerPolicies,
+        shareDetails: entry.shareDetails ?? undefined,
+      });
+    }
+
+    if (backupShares.length === 0) {
+      throw new Error('No credentials to back up');
+    }
+
+    const { volume, soundscapeId } = useAudioStore.getState();
+    return {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      shares: backupShares,
+      audio: { volume, soundscapeId },
+    };
+  }, [snapshotActiveShare]);
+
+  /**
+   * Encrypt the keyring with a password, e.g. to show it as a QR code.
+   */
+  const createBackup = useCallback(
+    async (password: string): Promise<string> => {
+      const payload = await buildPayload();
+      return credentialBackup.encrypt(payload, password);
+    },
+    [buildPayload]
+  );
+
+  /**
+   * Encrypt the keyring with a password and open the share sheet.
+   * Returns false if the user dismissed the share sheet.
+   */
+  const exportBackup = useCallback(
+    async (password: string): Promise<boolean> => {
+      const serialized = await createBackup(password);
+
+      const result = await Share.share({
+        title: 'Igloo Backup',
+        message: serialized,
+      });
+      return result.action !== Share.dismissedAction;
+    },
+    [createBackup]
+  );
+
+  /**
+   * Decrypt a backup and add its shares to the keyring.
+   * Shares already in the keyring are skipped; the first restored share becomes active.
+   */
+  const restoreBackup = useCallback(
+    async (serialized: string, password: string): Promise<BackupRestoreResult> => {
+      const payload = await credentialBackup.decrypt(serialized, password);
+      const credentialStore = useCredentialStore.getState();
+
+      let firstRestoredId: string | null = null;
+      let skipped = 0;
+
+      for (const backupShare of payload.shares) {
+        // Passphrase-protected shares stay encrypted; their details travel with the backup
+        const passphraseProtected = shareEncryption.isEncrypted(backupShare.share);
+        const validation = validateCredentials(backupShare.share, backupShare.group);
+        let details: ShareDetails | null = null;
+        if (passphraseProtected) {
+          details = validation.groupValid ? (backupShare.shareDetails ?? null) : null;
+        } else if (validation.isValid) {
+          details = getShareDetails(backupShare.share, backupShare.group);
+        }
+        if (!details) {
+          console.warn(`[useBackup] Skipping invalid share "${backupShare.name}" in backup`);
+          skipped += 1;
+          continue;
+        }
+
+        const isDuplicate = useCredentialStore
+          .getState()
+          .shares.some(
+            (entry) =>
+              entry.shareDetails?.groupPubkey === details.groupPubkey &&
+              entry.shareDetails?.idx === details.idx
+          );
+        if (isDuplicate) {
+          skipped += 1;
+          continue;
+        }
+
+        const id = nanoid();
+        await secureStorage.saveCredentials(id, backupShare.share, backupShare.group);
+        credentialStore.addShare({
+          id,
+          name: backupShare.name || `Share #${details.idx}`,
+          shareDetails: details,
+          relays: backupShare.relays,
+          peerPolicies: backupShare.peerPolicies,
+          createdAt: new Date().toISOString(),
+          passphraseProtected,
+        });
+        firstRestoredId ??= id;
+      }
+
+      const restored = payload.shares.length - skipped;
+      if (firstRestoredId) {
+        switchShare(firstRestoredId);
+        credentialStore.setOnboardingComplete(true);
+      }
+
+      if (restored > 0 && payload.audio) {
+        const audioStore = useAudioStore.getState();
+        if (typeof payload.audio.volume === 'number') {
+          audioStore.setVolume(payload.audio.volume);
+        }
+        if (payload.audio.soundscapeId in SOUNDSCAPE_REGISTRY) {
+          audioStore.setSoundscape(payload.audio.soundscapeId);
+        }
+      }
+
+      return { restored, skipped };
+    },
+    [validateCredentials, getShareDetails, switchShare]
+  );
+
+  return {
+    createBackup,
+    exportBackup,
+    restoreBackup,
+    isBackup: credentialBackup.isBackup,
+  };
+}
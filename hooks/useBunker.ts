@@ -0,0 +1,469 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { verifyEvent, type Event } from 'nostr-tools/pure';
+import {
+  NostrConnectBunker,
+  buildBunkerUri,
+  createBunkerKeys,
+  createConnectSecret,
+  getBunkerPubkey,
+  isMethodAllowed,
+  parsePermissions,
+} from '@/services/bunker';
+import { redactLogData } from '@/services/diagnostics';
+import {
+  buildGroupEvent,
+  decryptWithSharedSecret,
+  encryptWithSharedSecret,
+  iglooKeyring,
+  parseEventDraft,
+  toXOnlyPubkey,
+} from '@/services/igloo';
+import { secureStorage } from '@/services/storage/secureStorage';
+import { logArchive } from '@/services/storage/logArchive';
+import {
+  useBunkerStore,
+  useCredentialStore,
+  useLogStore,
+  useRelayStore,
+  useSignerStore,
+} from '@/stores';
+import type {
+  BunkerClient,
+  BunkerKeys,
+  LogCategory,
+  LogLevel,
+  NostrCipher,
+  NostrConnectInvite,
+  NostrConnectRequest,
+} from '@/types';
+
+// Module-level ref count so the bunker follows the signer while any useBunker() is mounted.
+let lifecycleRefCount = 0;
+let unsubscribeStores: (() => void)[] = [];
+// Share the bunker is answering for, and the share + relays it was started with.
+let bunkerShareId: string | null = null;
+let listeningKey: string | null = null;
+// Bumped on every sync so a slow key read can't start a bunker that is no longer wanted.
+let syncSeq = 0;
+
+const logBunker = (
+  level: LogLevel,
+  category: LogCategory,
+  message: string,
+  data?: Record<string, unknown>
+) => {
+  const entry = { level, category, message, data: data ? redactLogData(data) : undefined };
+  useLogStore.getState().addEntry(entry);
+  logArchive.append(entry, bunkerShareId);
+};
+
+const bunker = new NostrConnectBunker({
+  onRequest: (clientPubkey, request) => handleRequest(clientPubkey, request),
+  log: (level, message, data) => logBunker(level, 'relay', message, data),
+});
+
+async function getOrCreateBunkerKeys(shareId: string): Promise<BunkerKeys> {
+  const existing = await secureStorage.getBunkerKeys(shareId);
+  if (existing) return existing;
+  const keys = createBunkerKeys();
+  await secureStorage.saveBunkerKeys(shareId, keys);
+  return keys;
+}
+
+/**
+ * The share's relays plus any a paired client asked to be reached on.
+ */
+function getListenRelays(shareId: string): string[] {
+  const clientRelays = useBunkerStore
+    .getState()
+    .clients.filter((client) => client.shareId === shareId)
+    .flatMap((client) => client.relays ?? []);
+  return Array.from(new Set([...useRelayStore.getState().relays, ...clientRelays]));
+}
+
+function getGroupPubkey(shareId: string): string {
+  const share = useCredentialStore.getState().shares.find((item) => item.id === shareId);
+  if (!share?.shareDetails) {
+    throw new Error('Group key unavailable');
+  }
+  return toXOnlyPubkey(share.shareDetails.groupPubkey);
+}
+
+async function handleRequest(clientPubkey: string, request: NostrConnectRequest): Promise<string> {
+  const shareId = bunkerShareId;
+  if (!shareId) {
+    throw new Error('Bunker is not running');
+  }
+
+  if (request.method === 'connect') {
+    return connectClient(shareId, clientPubkey, request.params);
+  }
+
+  const store = useBunkerStore.getState();
+  const client = store.clients.find(
+    (item) => item.shareId === shareId && item.pubkey === clientPubkey
+  );
+  if (!client) {
+    logBunker('warn', 'signing', 'Bunker request from unpaired client rejected', {
+      client: clientPubkey,
+      method: request.method,
+    });
+    throw new Error('Not connected; pair with the bunker URI first');
+  }
+  store.recordClientRequest(shareId, clientPubkey);
+
+  switch (request.method) {
+    case 'ping':
+      return 'pong';
+    case 'get_public_key':
+      return getGroupPubkey(shareId);
+    case 'sign_event':
+      return signEvent(shareId, client, request.params[0]);
+    case 'nip04_encrypt':
+    case 'nip44_encrypt':
+    case 'nip04_decrypt':
+    case 'nip44_decrypt':
+      return runCipher(shareId, client, request.method, request.params);
+    default:
+      throw new Error(`Unsupported method: ${request.method}`);
+  }
+}
+
+/**
+ * Pair a client that presents the connect secret. The secret is single use;
+ * a paired client may reconnect without it and keeps its permissions.
+ * Nobody has reviewed what the client asks for yet, so it starts with no permissions and
+ * its request waits in Settings for the user to grant it.
+ */
+async function connectClient(
+  shareId: string,
+  clientPubkey: string,
+  params: string[]
+): Promise<string> {
+  const [, secret, perms] = params;
+  const store = useBunkerStore.getState();
+  const isPaired = store.clients.some(
+    (item) => item.shareId === shareId && item.pubkey === clientPubkey
+  );
+  if (isPaired && !secret) {
+    return 'ack';
+  }
+
+  const keys = await getOrCreateBunkerKeys(shareId);
+  if (!secret || secret !== keys.connectSecret) {
+    logBunker('warn', 'signing', 'Bunker connect rejected: invalid secret', {
+      client: clientPubkey,
+    });
+    throw new Error('Invalid connect secret');
+  }
+
+  await secureStorage.saveBunkerKeys(shareId, { ...keys, connectSecret: createConnectSecret() });
+  const client: BunkerClient = {
+    pubkey: clientPubkey,
+    shareId,
+    name: null,
+    permissions: [],
+    requestedPermissions: parsePermissions(perms),
+    connectedAt: new Date().toISOString(),
+    lastRequestAt: null,
+    requestCount: 0,
+  };
+  store.addClient(client);
+  logBunker('info', 'signing', 'Bunker client connected; permissions await review', {
+    client: clientPubkey,
+    requestedPermissions: client.requestedPermissions,
+  });
+  return 'ack';
+}
+
+async function signEvent(
+  shareId: string,
+  client: BunkerClient,
+  eventJson: string | undefined
+): Promise<string> {
+  const draft = parseEventDraft(eventJson ?? '');
+  if (!isMethodAllowed(client, 'sign_event', draft.kind)) {
+    logBunker('warn', 'signing', 'Bunker sign request denied by client permissions', {
+      client: client.pubkey,
+      kind: draft.kind,
+    });
+    throw new Error(`Not allowed to sign kind ${draft.kind}`);
+  }
+
+  const unsigned = buildGroupEvent(draft, getGroupPubkey(shareId));
+  logBunker('info', 'signing', 'Bunker sign request', {
+    client: client.pubkey,
+    kind: draft.kind,
+    eventId: unsigned.id,
+  });
+  // Co-signers see the event they are asked to sign, and their policies can check its kind
+  const signature = await iglooKeyring
+    .getService(shareId)
+    .requestSignature(unsigned.id, JSON.stringify(unsigned));
+  const event: Event = { ...unsigned, sig: signature.signature };
+  if (!verifyEvent(event)) {
+    throw new Error('Aggregated signature does not verify against the group pubkey');
+  }
+  return JSON.stringify(event);
+}
+
+/**
+ * NIP-04/NIP-44 encrypt or decrypt for a client, keyed by a threshold ECDH round
+ * with the third party. Co-signers' policies decide whether the round is allowed.
+ */
+async function runCipher(
+  shareId: string,
+  client: BunkerClient,
+  method: string,
+  params: string[]
+): Promise<string> {
+  const [pubkey, text] = params;
+  if (!isMethodAllowed(client, method)) {
+    logBunker('warn', 'signing', 'Bunker request denied by client permissions', {
+      client: client.pubkey,
+      method,
+    });
+    throw new Error(`Not allowed to call ${method}`);
+  }
+  if (!pubkey || text === undefined) {
+    throw new Error(`${method} expects a pubkey and a text`);
+  }
+
+  const cipher = method.slice(0, 5) as NostrCipher;
+  logBunker('info', 'signing', 'Bunker cipher request', {
+    client: client.pubkey,
+    method,
+    ecdhPubkey: pubkey,
+  });
+  const secret = await iglooKeyring.getService(shareId).requestEcdh(pubkey);
+  return method.endsWith('_encrypt')
+    ? encryptWithSharedSecret(secret, text, cipher)
+    : decryptWithSharedSecret(secret, text, cipher);
+}
+
+function stopBunker() {
+  bunker.stop();
+  bunkerShareId = null;
+  listeningKey = null;
+  useBunkerStore.getState().setStatus('stopped');
+}
+
+/**
+ * Listen while the bunker is enabled and the active share's signer is up;
+ * restart when the share or relays change.
+ */
+async function syncBunker() {
+  const seq = ++syncSeq;
+  const shareId = useCredentialStore.getState().activeShareId;
+  const status = useSignerStore.getState().status;
+  const shouldListen =
+    useBunkerStore.getState().enabled &&
+    shareId !== null &&
+    (status === 'running' || status === 'reconnecting');
+  const relays = shouldListen ? getListenRelays(shareId) : [];
+  const key = shouldListen ? `${shareId}|${relays.join(',')}` : null;
+
+  if (key === listeningKey) return;
+  if (!key || !shareId) {
+    if (bunker.isListening() || useBunkerStore.getState().status !== 'stopped') {
+      stopBunker();
+    }
+    return;
+  }
+
+  try {
+    const keys = await getOrCreateBunkerKeys(shareId);
+    if (seq !== syncSeq) return;
+    bunkerShareId = shareId;
+    bunker.start(keys.secretKey, relays);
+    listeningKey = key;
+    useBunkerStore.getState().setStatus('listening');
+  } catch (error) {
+    if (seq !== syncSeq) return;
+    bunker.stop();
+    bunkerShareId = null;
+    listeningKey = null;
+    const message = error instanceof Error ? error.message : 'Failed to start bunker';
+    useBunkerStore.getState().setStatus('error', message);
+    logBunker('error', 'relay', 'Bunker failed to start', { error: message });
+  }
+}
+
+/**
+ * Hook for the NIP-46 bunker of the active keyring share.
+ * The first mounted instance starts and stops the bunker with the signer.
+ */
+export function useBunker() {
+  const enabled = useBunkerStore((s) => s.enabled);
+  const status = useBunkerStore((s) => s.status);
+  const lastError = useBunkerStore((s) => s.lastError);
+  const allClients = useBunkerStore((s) => s.clients);
+  const activeShareId = useCredentialStore((s) => s.activeShareId);
+
+  useEffect(() => {
+    lifecycleRefCount += 1;
+
+    if (lifecycleRefCount === 1) {
+      const sync = () => {
+        void syncBunker();
+      };
+      unsubscribeStores = [
+        useBunkerStore.subscribe((state, prevState) => {
+          // Clients can bring their own relays
+          if (state.enabled !== prevState.enabled || state.clients !== prevState.clients) sync();
+        }),
+        useSignerStore.subscribe((state, prevState) => {
+          if (state.status !== prevState.status) sync();
+        }),
+        useCredentialStore.subscribe((state, prevState) => {
+          if (state.activeShareId !== prevState.activeShareId) sync();
+        }),
+        useRelayStore.subscribe((state, prevState) => {
+          if (state.relays !== prevState.relays) sync();
+        }),
+      ];
+      sync();
+    }
+
+    return () => {
+      lifecycleRefCount -= 1;
+
+      if (lifecycleRefCount === 0) {
+        unsubscribeStores.forEach((unsubscribe) => unsubscribe());
+        unsubscribeStores = [];
+        syncSeq += 1;
+        if (bunker.isListening()) {
+          stopBunker();
+        }
+      }
+    };
+  }, []);
+
+  const clients = useMemo(
+    () => allClients.filter((client) => client.shareId === activeShareId),
+    [allClients, activeShareId]
+  );
+
+  const setEnabled = useCallback((next: boolean) => {
+    useBunkerStore.getState().setEnabled(next);
+  }, []);
+
+  /**
+   * bunker:// URI with the current connect secret, for a client to pair with.
+   */
+  const getBunkerUri = useCallback(async () => {
+    if (!activeShareId) {
+      throw new Error('No active share');
+    }
+    const keys = await getOrCreateBunkerKeys(activeShareId);
+    return buildBunkerUri(keys, useRelayStore.getState().relays);
+  }, [activeShareId]);
+
+  /**
+   * Invalidate the connect secret in a URI that was shown but not used.
+   */
+  const rotateSecret = useCallback(async () => {
+    if (!activeShareId) return;
+    const keys = await getOrCreateBunkerKeys(activeShareId);
+    await secureStorage.saveBunkerKeys(activeShareId, {
+      ...keys,
+      connectSecret: createConnectSecret(),
+    });
+    logBunker('info', 'signing', 'Bunker connect secret rotated', {
+      bunker: getBunkerPubkey(keys),
+    });
+  }, [activeShareId]);
+
+  const revokeClient = useCallback((client: BunkerClient) => {
+    useBunkerStore.getState().removeClient(client.shareId, client.pubkey);
+    logBunker('info', 'signing', 'Bunker client revoked', { client: client.pubkey });
+  }, []);
+
+  const setClientPermissions = useCallback((client: BunkerClient, permissions: string[]) => {
+    useBunkerStore.getState().setClientPermissions(client.shareId, client.pubkey, permissions);
+  }, []);
+
+  /**
+   * Grant or dismiss the permissions a client asked for when it paired with the bunker URI.
+   */
+  const resolvePermissionRequest = useCallback((client: BunkerClient, grant: boolean) => {
+    useBunkerStore.getState().resolvePermissionRequest(client.shareId, client.pubkey, grant);
+    logBunker(
+      'info',
+      'signing',
+      grant ? 'Bunker client permissions granted' : 'Bunker client permissions dismissed',
+      {
+        client: client.pubkey,
+        permissions: client.requestedPermissions,
+      }
+    );
+  }, []);
+
+  /**
+   * Pair the client behind a nostrconnect:// link: enable the bunker, listen on the
+   * client's relays and send it the link's secret to complete the handshake.
+   */
+  const approveConnection = useCallback(
+    async (invite: NostrConnectInvite) => {
+      const status = useSignerStore.getState().status;
+      if (!activeShareId || (status !== 'running' && status !== 'reconnecting')) {
+        throw new Error('Start the signer to connect apps');
+      }
+
+      const store = useBunkerStore.getState();
+      store.setEnabled(true);
+      store.addClient({
+        pubkey: invite.clientPubkey,
+        shareId: activeShareId,
+        name: invite.name,
+        permissions: invite.permissions,
+        connectedAt: new Date().toISOString(),
+        lastRequestAt: null,
+        requestCount: 0,
+        relays: invite.relays,
+      });
+
+      try {
+        await syncBunker();
+        if (!bunker.isListening()) {
+          throw new Error(useBunkerStore.getState().lastError ?? 'Bunker is not running');
+        }
+        const accepted = await bunker.sendResponse(
+          invite.clientPubkey,
+          { id: createConnectSecret(), result: invite.secret },
+          invite.relays
+        );
+        if (!accepted) {
+          throw new Error("No relay accepted the reply; check the app's relays and try again");
+        }
+      } catch (error) {
+        useBunkerStore.getState().removeClient(activeShareId, invite.clientPubkey);
+        throw error;
+      }
+
+      logBunker('info', 'signing', 'Bunker client connected from link', {
+        client: invite.clientPubkey,
+        name: invite.name,
+        permissions: invite.permissions,
+      });
+    },
+    [activeShareId]
+  );
+
+  return {
+    // State
+    enabled,
+    status,
+    lastError,
+    clients,
+
+    // Actions
+    setEnabled,
+    getBunkerUri,
+    rotateSecret,
+    revokeClient,
+    setClientPermissions,
+    resolvePermissionRequest,
+    approveConnection,
+  };
+}
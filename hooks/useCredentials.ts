@@ -1,8 +1,10 @@
 import { useCallback } from 'react';
 import { getRandomValues } from 'expo-crypto';
+import { nanoid } from 'nanoid';
 import { useCredentialStore, useRelayStore } from '@/stores';
 import { secureStorage } from '@/services/storage/secureStorage';
 import { useIgloo } from './useIgloo';
+import { useKeyring } from './useKeyring';
 import type { ValidationResult, ShareDetails } from '@/types';
 
 /**
@@ -22,6 +24,7 @@ function generateHexChallenge(byteLength: number = 32): string {
  */
 export function useCredentials() {
   const { validateCredentials, getShareDetails, sendEcho } = useIgloo();
+  const { switchShare } = useKeyring();
 
   // Credential state
   const hasCredentials = useCredentialStore((s) => s.hasCredentials);
@@ -29,10 +32,13 @@ export function useCredentials() {
   const onboardingComplete = useCredentialStore((s) => s.onboardingComplete);
   const echoSent = useCredentialStore((s) => s.echoSent);
   const isHydrated = useCredentialStore((s) => s.isHydrated);
+  const shares = useCredentialStore((s) => s.shares);
+  const activeShareId = useCredentialStore((s) => s.activeShareId);
 
   // Actions
   const setCredentialsExist = useCredentialStore((s) => s.setCredentialsExist);
   const setShareDetails = useCredentialStore((s) => s.setShareDetails);
+  const addShare = useCredentialStore((s) => s.addShare);
   const setOnboardingComplete = useCredentialStore((s) => s.setOnboardingComplete);
   const setEchoSent = useCredentialStore((s) => s.setEchoSent);
   const clearCredentials = useCredentialStore((s) => s.clearCredentials);
@@ -52,7 +58,7 @@ export function useCredentials() {
   );
 
   /**
-   * Save credentials and complete onboarding.
+   * Save credentials as a new keyring share, make it active and complete onboarding.
    * Returns true if echo was sent successfully.
    */
   const saveCredentials = useCallback(
@@ -72,8 +78,27 @@ export function useCredentials() {
         throw new Error('Failed to decode credentials - they may be corrupted');
       }
 
+      const duplicate = shares.find(
+        (entry) =>
+          entry.shareDetails?.groupPubkey === details.groupPubkey &&
+          entry.shareDetails?.idx === details.idx
+      );
+      if (duplicate) {
+        throw new Error(`This share is already in your keyring as "${duplicate.name}"`);
+      }
+
       // Only persist after decode succeeds
-      await secureStorage.saveCredentials(share, group);
+      const id = nanoid();
+      await secureStorage.saveCredentials(id, share, group);
+      addShare({
+        id,
+        name: `Share #${details.idx}`,
+        shareDetails: details,
+        relays: [...relays],
+        peerPolicies: [],
+        createdAt: new Date().toISOString(),
+      });
+      switchShare(id);
       setCredentialsExist(true);
       setShareDetails(details);
 
@@ -98,6 +123,9 @@ export function useCredentials() {
       getShareDetails,
       sendEcho,
       relays,
+      shares,
+      addShare,
+      switchShare,
       setCredentialsExist,
       setShareDetails,
       setEchoSent,
@@ -106,27 +134,28 @@ export function useCredentials() {
   );
 
   /**
-   * Delete all credentials and reset state.
+   * Delete every share in the keyring and reset state.
    */
   const deleteCredentials = useCallback(async () => {
     await clearCredentials();
   }, [clearCredentials]);
 
   /**
-   * Get stored credentials (for starting signer).
+   * Get stored credentials for the active share (for starting signer).
    */
   const getCredentials = useCallback(async () => {
-    return secureStorage.getCredentials();
-  }, []);
+    if (!activeShareId) return null;
+    return secureStorage.getCredentials(activeShareId);
+  }, [activeShareId]);
 
   /**
-   * Check if credentials exist in storage.
+   * Check if credentials for the active share exist in storage.
    */
   const checkCredentials = useCallback(async () => {
-    const exists = await secureStorage.hasCredentials();
+    const exists = activeShareId ? await secureStorage.hasCredentials(activeShareId) : false;
     setCredentialsExist(exists);
     return exists;
-  }, [setCredentialsExist]);
+  }, [activeShareId, setCredentialsExist]);
 
   return {
     // State
@@ -0,0 +1,37 @@
+import { useCallback } from 'react';
+import { Share } from 'react-native';
+import { useCredentialStore, usePeerStore, useRelayStore, useSignerStore } from '@/stores';
+import { buildDiagnosticsBundle } from '@/services/diagnostics';
+import type { LogEntry } from '@/types';
+
+/**
+ * Hook for exporting a redacted diagnostics bundle for bug reports.
+ */
+export function useDiagnostics() {
+  /**
+   * Share the given log entries as JSONL, with the current signer, relay and peer state.
+   * Returns false if the user dismissed the share sheet.
+   */
+  const exportDiagnostics = useCallback(async (entries: LogEntry[]): Promise<boolean> => {
+    const signer = useSignerStore.getState();
+    const bundle = buildDiagnosticsBundle(entries, {
+      signerStatus: signer.status,
+      lastError: signer.lastError,
+      sessionStartTime: signer.sessionStartTime?.toISOString() ?? null,
+      shareDetails: useCredentialStore.getState().shareDetails,
+      relays: useRelayStore.getState().relays,
+      connectedRelays: signer.connectedRelays,
+      relayHealth: Object.values(signer.relayHealth),
+      peers: Object.values(usePeerStore.getState().peers),
+    });
+    const result = await Share.share({
+      title: 'Igloo Diagnostics',
+      message: bundle,
+    });
+    return result.action !== Share.dismissedAction;
+  }, []);
+
+  return {
+    exportDiagnostics,
+  };
+}
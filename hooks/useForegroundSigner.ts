@@ -0,0 +1,50 @@
+import { useEffect } from 'react';
+import { Alert } from 'react-native';
+import { getPeerPolicies, useCredentialStore, usePeerStore, useRelayStore } from '@/stores';
+import { androidForegroundSignerService } from '@/services/background';
+import { secureStorage } from '@/services/storage/secureStorage';
+import { shareEncryption } from '@/services/storage/shareEncryption';
+import { useIgloo } from './useIgloo';
+
+/**
+ * Hook that answers the Stop and Start buttons on the Android signer notification.
+ * Stop keeps the notification up so the signer can be started again from it.
+ * Mount once, in the root layout.
+ */
+export function useForegroundSigner() {
+  const { startSigner, stopAllSigners } = useIgloo();
+
+  useEffect(() => {
+    const startActiveShare = async () => {
+      const { activeShareId } = useCredentialStore.getState();
+      const credentials = activeShareId ? await secureStorage.getCredentials(activeShareId) : null;
+      if (!credentials) {
+        throw new Error('No credentials found');
+      }
+      // The notification can't ask for a passphrase
+      if (shareEncryption.isEncrypted(credentials.share)) {
+        throw new Error('Open Igloo and enter the share passphrase to start the signer');
+      }
+      await startSigner(credentials.group, credentials.share, useRelayStore.getState().relays, {
+        peerPolicies: getPeerPolicies(usePeerStore.getState().peers),
+      });
+    };
+
+    const subscription = androidForegroundSignerService.addActionListener((action) => {
+      if (action === 'stop') {
+        stopAllSigners({ keepForegroundService: true }).catch((error) => {
+          console.warn('[useForegroundSigner] Failed to stop signers:', error);
+        });
+      } else if (action === 'start') {
+        startActiveShare().catch((error) => {
+          Alert.alert(
+            'Signer Not Started',
+            error instanceof Error ? error.message : 'Failed to start the signer'
+          );
+        });
+      }
+    });
+
+    return () => subscription?.remove();
+  }, [startSigner, stopAllSigners]);
+}
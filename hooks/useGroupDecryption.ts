@@ -0,0 +1,86 @@
+import { useCallback, useState } from 'react';
+import { nip19 } from 'nostr-tools';
+import { decryptWithSharedSecret, detectCipher } from '@/services/igloo';
+import { useIgloo } from './useIgloo';
+import type { NostrCipher } from '@/types';
+
+interface GroupDecryptionResult {
+  plaintext: string;
+  cipher: NostrCipher;
+  /** Counterparty pubkey the ECDH round ran against, hex */
+  pubkey: string;
+}
+
+/**
+ * Hook for decrypting DMs sent to the group key with a threshold ECDH round.
+ */
+export function useGroupDecryption() {
+  const { requestEcdh } = useIgloo();
+
+  const [result, setResult] = useState<GroupDecryptionResult | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Decrypt a NIP-04 or NIP-44 payload from `sender` (npub or hex pubkey).
+   */
+  const decrypt = useCallback(
+    async (sender: string, payload: string) => {
+      setIsDecrypting(true);
+      setError(null);
+      setResult(null);
+      try {
+        const pubkey = parsePubkey(sender);
+        const trimmed = payload.trim();
+        const cipher = detectCipher(trimmed);
+        const secret = await requestEcdh(pubkey);
+        const next = {
+          plaintext: decryptWithSharedSecret(secret, trimmed, cipher),
+          cipher,
+          pubkey,
+        };
+        setResult(next);
+        return next;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Decryption failed');
+        return null;
+      } finally {
+        setIsDecrypting(false);
+      }
+    },
+    [requestEcdh]
+  );
+
+  const reset = useCallback(() => {
+    setResult(null);
+    setError(null);
+  }, []);
+
+  return {
+    // State
+    result,
+    isDecrypting,
+    error,
+
+    // Actions
+    decrypt,
+    reset,
+  };
+}
+
+function parsePubkey(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('npub1')) {
+    try {
+      const decoded = nip19.decode(trimmed);
+      if (decoded.type === 'npub') return decoded.data;
+    } catch {
+      // Fall through to the error below
+    }
+    throw new Error('Invalid npub');
+  }
+  if (!/^[0-9a-fA-F]{64}$/.test(trimmed)) {
+    throw new Error('Enter an npub or a 64 character hex pubkey');
+  }
+  return trimmed.toLowerCase();
+}
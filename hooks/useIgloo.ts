@@ -1,11 +1,57 @@
 import type { StartSignerOptions, StopSignerOptions } from '@/services/igloo/types';
 import { useEffect, useCallback } from 'react';
-import { iglooService } from '@/services/igloo';
-import { useSignerStore, useLogStore, usePeerStore } from '@/stores';
-import type { AudioStatus, SignerStatus, PeerStatus, LogEntry, SigningRequest } from '@/types';
+import { iglooKeyring, type IglooService } from '@/services/igloo';
+import { logArchive } from '@/services/storage/logArchive';
+import { notificationService } from '@/services/notifications';
+import {
+  useSignerStore,
+  useLogStore,
+  usePeerStore,
+  usePeerHealthStore,
+  useSigningPolicyStore,
+  useSigningHistoryStore,
+  useCredentialStore,
+} from '@/stores';
+import type {
+  AudioStatus,
+  SignerStatus,
+  PeerStatus,
+  PeerPolicy,
+  RelayHealth,
+  LogEntry,
+  SigningApprovalDecision,
+  SigningRequest,
+  SigningResult,
+} from '@/types';
 
 // Module-level ref count to keep event listeners alive while any useIgloo() instance is mounted.
 let listenersRefCount = 0;
+// Unsubscribe handles for store subscriptions that push state into the services.
+let unsubscribeSigningPolicy: (() => void) | null = null;
+let unsubscribeActiveShare: (() => void) | null = null;
+// Service for the active share; its events drive the signer, peer and request stores.
+let boundService: IglooService | null = null;
+// Per-share handlers so background shares still report their running state and signing history.
+const shareHandlers: Map<string, ShareServiceHandlers> = new Map();
+
+interface ShareServiceHandlers {
+  status: (status: SignerStatus) => void;
+  log: (entry: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  signingRequest: (request: SigningRequest) => void;
+  signingComplete: (result: SigningResult) => void;
+  signingError: (error: Error, requestId?: string) => void;
+  signingHeld: (request: SigningRequest) => void;
+  signingApproval: (requestId: string, decision: SigningApprovalDecision) => void;
+  lost: (reason: string) => void;
+}
+
+const getActiveService = () => iglooKeyring.getService(useCredentialStore.getState().activeShareId);
+
+const getShareName = (shareId: string) =>
+  useCredentialStore.getState().shares.find((share) => share.id === shareId)?.name ?? 'Signer';
+
+const getRequestLabel = (request: SigningRequest) =>
+  request.type === 'ecdh' ? 'ECDH request' : 'Signing request';
 
 // Stable handlers so on/off always use the same references.
 const handleStatusChange = (status: SignerStatus) => {
@@ -14,14 +60,25 @@ const handleStatusChange = (status: SignerStatus) => {
 
 const handleAudioStatus = (status: AudioStatus) => {
   useSignerStore.getState().setAudioStatus(status);
+  if (status === 'interrupted' || status === 'error') {
+    void notificationService.notify(
+      'audioInterrupted',
+      'Background Audio Stopped',
+      'The signer may stop answering in the background. Open Igloo to resume it.'
+    );
+  }
 };
 
 const handleRelayConnected = () => {
-  useSignerStore.getState().setConnectedRelays([...iglooService.getConnectedRelays()]);
+  useSignerStore.getState().setConnectedRelays(boundService?.getConnectedRelays() ?? []);
 };
 
 const handleRelayDisconnected = () => {
-  useSignerStore.getState().setConnectedRelays([...iglooService.getConnectedRelays()]);
+  useSignerStore.getState().setConnectedRelays(boundService?.getConnectedRelays() ?? []);
+};
+
+const handleRelayHealth = (health: RelayHealth) => {
+  useSignerStore.getState().setRelayHealth(health);
 };
 
 const handleSigningRequest = (request: SigningRequest) => {
@@ -40,26 +97,201 @@ const handleSigningError = (error: Error, requestId?: string) => {
   }
 };
 
+const handleSigningHeld = (request: SigningRequest) => {
+  useSignerStore.getState().holdSigningRequest(request);
+};
+
+const handleSigningApproval = (requestId: string, decision: SigningApprovalDecision) => {
+  useSignerStore.getState().resolveHeldRequest(requestId, decision);
+};
+
 const handlePeerStatus = (pubkey: string, status: PeerStatus, latency?: number) => {
   usePeerStore.getState().updatePeerStatus(pubkey, status, latency);
+  if (status !== 'unknown') {
+    usePeerHealthStore.getState().recordPing(pubkey, status === 'online', latency);
+  }
 };
 
-const handleLog = (entry: Omit<LogEntry, 'id' | 'timestamp'>) => {
+const recordLog = (entry: Omit<LogEntry, 'id' | 'timestamp'>, shareId: string | null) => {
   useLogStore.getState().addEntry(entry);
+  logArchive.append(entry, shareId);
+};
+
+// Logs of the service used before any share is in the keyring
+const handleLog = (entry: Omit<LogEntry, 'id' | 'timestamp'>) => {
+  recordLog(entry, null);
 };
 
 const handleError = (error: Error) => {
   useSignerStore.getState().setError(error.message);
 };
 
+const applySigningPolicy = (service: IglooService) => {
+  const { defaultAction, rules, approvalTimeoutSeconds } = useSigningPolicyStore.getState();
+  service.setSigningPolicy({ defaultAction, rules });
+  service.setApprovalTimeout(approvalTimeoutSeconds * 1000);
+};
+
+const syncSigningPolicy = () => {
+  for (const [, service] of iglooKeyring.getServices()) {
+    applySigningPolicy(service);
+  }
+};
+
+/**
+ * Track running state, logs and signing history for a keyring share's service.
+ */
+const attachShareService = (shareId: string, service: IglooService) => {
+  if (shareHandlers.has(shareId)) return;
+
+  const history = () => useSigningHistoryStore.getState();
+  const handlers: ShareServiceHandlers = {
+    status: (status) => {
+      useSignerStore.getState().setShareStatus(shareId, status);
+      // A session spans connect to stop; a reconnect stays in the session it interrupted
+      if (status === 'connecting' || status === 'running') {
+        logArchive.startSession(shareId);
+      } else if (status === 'stopped' || status === 'error') {
+        logArchive.endSession(shareId, status);
+      }
+    },
+    log: (entry) => {
+      recordLog(entry, shareId);
+    },
+    signingRequest: (request) => {
+      history().recordRequest(shareId, request);
+      void notificationService.notify(
+        'signingActivity',
+        `${getRequestLabel(request)} received`,
+        `${getShareName(shareId)} is answering a request from ${request.pubkey.slice(0, 8)}…`
+      );
+    },
+    signingComplete: (result) => {
+      history().updateOutcome(
+        result.requestId,
+        result.success ? 'completed' : 'failed',
+        result.error
+      );
+      void notificationService.notify(
+        'signingActivity',
+        result.success ? 'Request completed' : 'Request failed',
+        result.success
+          ? `${getShareName(shareId)} finished a signing round`
+          : `${getShareName(shareId)}: ${result.error ?? 'the signing round failed'}`
+      );
+    },
+    signingError: (error, requestId) => {
+      if (!requestId) return;
+      const entry = history().entries.find((item) => item.id === requestId);
+      history().updateOutcome(
+        requestId,
+        entry?.policyAction === 'deny' ? 'denied' : 'failed',
+        error.message
+      );
+    },
+    signingHeld: (request) => {
+      history().updateOutcome(request.id, 'held');
+    },
+    signingApproval: (requestId, decision) => {
+      history().updateOutcome(requestId, decision);
+    },
+    lost: (reason) => {
+      void notificationService.notify(
+        'signerStopped',
+        'Signer Stopped',
+        `${getShareName(shareId)} stopped unexpectedly: ${reason}. Open Igloo to start it again.`
+      );
+    },
+  };
+
+  service.on('status:changed', handlers.status);
+  service.on('signing:request', handlers.signingRequest);
+  service.on('signing:complete', handlers.signingComplete);
+  service.on('signing:error', handlers.signingError);
+  service.on('signing:held', handlers.signingHeld);
+  service.on('signing:approval', handlers.signingApproval);
+  service.on('log', handlers.log);
+  service.on('signer:lost', handlers.lost);
+  shareHandlers.set(shareId, handlers);
+  applySigningPolicy(service);
+};
+
+const detachShareService = (shareId: string) => {
+  const handlers = shareHandlers.get(shareId);
+  const service = iglooKeyring.peekService(shareId);
+  if (handlers && service) {
+    service.off('status:changed', handlers.status);
+    service.off('signing:request', handlers.signingRequest);
+    service.off('signing:complete', handlers.signingComplete);
+    service.off('signing:error', handlers.signingError);
+    service.off('signing:held', handlers.signingHeld);
+    service.off('signing:approval', handlers.signingApproval);
+    service.off('log', handlers.log);
+    service.off('signer:lost', handlers.lost);
+  }
+  shareHandlers.delete(shareId);
+};
+
+const bindServiceEvents = (service: IglooService) => {
+  service.on('status:changed', handleStatusChange);
+  service.on('audio:status', handleAudioStatus);
+  service.on('relay:connected', handleRelayConnected);
+  service.on('relay:disconnected', handleRelayDisconnected);
+  service.on('relay:health', handleRelayHealth);
+  service.on('signing:request', handleSigningRequest);
+  service.on('signing:complete', handleSigningComplete);
+  service.on('signing:error', handleSigningError);
+  service.on('signing:held', handleSigningHeld);
+  service.on('signing:approval', handleSigningApproval);
+  service.on('peer:status', handlePeerStatus);
+  service.on('error', handleError);
+};
+
+const unbindServiceEvents = (service: IglooService) => {
+  service.off('status:changed', handleStatusChange);
+  service.off('audio:status', handleAudioStatus);
+  service.off('relay:connected', handleRelayConnected);
+  service.off('relay:disconnected', handleRelayDisconnected);
+  service.off('relay:health', handleRelayHealth);
+  service.off('signing:request', handleSigningRequest);
+  service.off('signing:complete', handleSigningComplete);
+  service.off('signing:error', handleSigningError);
+  service.off('signing:held', handleSigningHeld);
+  service.off('signing:approval', handleSigningApproval);
+  service.off('peer:status', handlePeerStatus);
+  service.off('error', handleError);
+};
+
 /**
- * Main hook for interacting with the IglooService.
+ * Point the signer UI stores at the active share's service.
+ * Other shares keep running; only their status is tracked.
+ */
+const bindActiveService = () => {
+  const shareId = useCredentialStore.getState().activeShareId;
+  const service = iglooKeyring.getService(shareId);
+  if (service === boundService) return;
+
+  if (boundService) {
+    unbindServiceEvents(boundService);
+  }
+  boundService = service;
+  bindServiceEvents(service);
+
+  const signerStore = useSignerStore.getState();
+  signerStore.resetSession();
+  signerStore.setStatus(shareId ? (signerStore.shareStatuses[shareId] ?? 'stopped') : 'stopped');
+  signerStore.setConnectedRelays(service.getConnectedRelays());
+  signerStore.replaceRelayHealth(service.getRelayHealth());
+};
+
+/**
+ * Main hook for interacting with the IglooService of the active keyring share.
  * Sets up event listeners and provides methods to control the signer.
  */
 export function useIgloo() {
   // Set up event listeners once on mount.
   // Uses empty dependency array because:
-  // - iglooService is a singleton (stable reference)
+  // - iglooKeyring is a singleton (stable reference)
   // - Zustand store selectors are stable references
   // This prevents duplicate listener registration from effect re-runs.
   // Module-level ref count prevents duplicates across multiple useIgloo() calls.
@@ -68,16 +300,30 @@ export function useIgloo() {
 
     if (listenersRefCount === 1) {
       // Subscribe to events
-      iglooService.on('status:changed', handleStatusChange);
-      iglooService.on('audio:status', handleAudioStatus);
-      iglooService.on('relay:connected', handleRelayConnected);
-      iglooService.on('relay:disconnected', handleRelayDisconnected);
-      iglooService.on('signing:request', handleSigningRequest);
-      iglooService.on('signing:complete', handleSigningComplete);
-      iglooService.on('signing:error', handleSigningError);
-      iglooService.on('peer:status', handlePeerStatus);
-      iglooService.on('log', handleLog);
-      iglooService.on('error', handleError);
+      for (const [shareId, service] of iglooKeyring.getServices()) {
+        attachShareService(shareId, service);
+      }
+      iglooKeyring.on('service:created', attachShareService);
+      iglooKeyring.on('service:removed', detachShareService);
+      iglooKeyring.getService(null).on('log', handleLog);
+
+      bindActiveService();
+      unsubscribeActiveShare = useCredentialStore.subscribe((state, prevState) => {
+        if (state.activeShareId !== prevState.activeShareId) {
+          bindActiveService();
+        }
+      });
+
+      syncSigningPolicy();
+      unsubscribeSigningPolicy = useSigningPolicyStore.subscribe((state, prevState) => {
+        if (
+          state.defaultAction !== prevState.defaultAction ||
+          state.rules !== prevState.rules ||
+          state.approvalTimeoutSeconds !== prevState.approvalTimeoutSeconds
+        ) {
+          syncSigningPolicy();
+        }
+      });
     }
 
     // Cleanup on unmount
@@ -85,16 +331,21 @@ export function useIgloo() {
       listenersRefCount -= 1;
 
       if (listenersRefCount === 0) {
-        iglooService.off('status:changed', handleStatusChange);
-        iglooService.off('audio:status', handleAudioStatus);
-        iglooService.off('relay:connected', handleRelayConnected);
-        iglooService.off('relay:disconnected', handleRelayDisconnected);
-        iglooService.off('signing:request', handleSigningRequest);
-        iglooService.off('signing:complete', handleSigningComplete);
-        iglooService.off('signing:error', handleSigningError);
-        iglooService.off('peer:status', handlePeerStatus);
-        iglooService.off('log', handleLog);
-        iglooService.off('error', handleError);
+        if (boundService) {
+          unbindServiceEvents(boundService);
+          boundService = null;
+        }
+        for (const shareId of Array.from(shareHandlers.keys())) {
+          detachShareService(shareId);
+        }
+        iglooKeyring.off('service:created', attachShareService);
+        iglooKeyring.off('service:removed', detachShareService);
+        iglooKeyring.getService(null).off('log', handleLog);
+
+        unsubscribeActiveShare?.();
+        unsubscribeActiveShare = null;
+        unsubscribeSigningPolicy?.();
+        unsubscribeSigningPolicy = null;
       }
     };
   }, []);
@@ -102,64 +353,100 @@ export function useIgloo() {
   // Expose service methods
   const startSigner = useCallback(
     (group: string, share: string, relays: string[], options?: StartSignerOptions) => {
-      return iglooService.startSigner(group, share, relays, options);
+      return getActiveService().startSigner(group, share, relays, options);
     },
     []
   );
 
   const stopSigner = useCallback((options?: StopSignerOptions) => {
-    return iglooService.stopSigner(options);
+    return getActiveService().stopSigner(options);
   }, []);
 
   const validateCredentials = useCallback((share: string, group: string) => {
-    return iglooService.validateCredentials(share, group);
+    return getActiveService().validateCredentials(share, group);
   }, []);
 
   const getShareDetails = useCallback((share: string, group: string) => {
-    return iglooService.getShareDetails(share, group);
+    return getActiveService().getShareDetails(share, group);
   }, []);
 
   const getPeers = useCallback((group?: string, share?: string) => {
-    return iglooService.getPeers(group, share);
+    return getActiveService().getPeers(group, share);
   }, []);
 
   const getSelfPubkey = useCallback((group?: string, share?: string) => {
-    return iglooService.getSelfPubkey(group, share);
+    return getActiveService().getSelfPubkey(group, share);
+  }, []);
+
+  const getGroupMembers = useCallback((group: string, shareIdx: number) => {
+    return getActiveService().getGroupMembers(group, shareIdx);
   }, []);
 
   const pingAllPeers = useCallback((timeout?: number) => {
-    return iglooService.pingAllPeers(timeout);
+    return getActiveService().pingAllPeers(timeout);
   }, []);
 
   const pingSinglePeer = useCallback((pubkey: string, timeout?: number) => {
-    return iglooService.pingSinglePeer(pubkey, timeout);
+    return getActiveService().pingSinglePeer(pubkey, timeout);
   }, []);
 
   const sendEcho = useCallback(
     (challenge: string, relays: string[], group?: string, share?: string) => {
-      return iglooService.sendEchoSignal(challenge, relays, group, share);
+      return getActiveService().sendEchoSignal(challenge, relays, group, share);
     },
     []
   );
 
-  const updatePolicies = useCallback((policies: Parameters<typeof iglooService.updatePeerPolicies>[0]) => {
-    return iglooService.updatePeerPolicies(policies);
+  const updatePolicies = useCallback((policies: PeerPolicy[]) => {
+    return getActiveService().updatePeerPolicies(policies);
+  }, []);
+
+  const approveSigningRequest = useCallback((requestId: string) => {
+    getActiveService().approveSigningRequest(requestId);
+  }, []);
+
+  const rejectSigningRequest = useCallback((requestId: string) => {
+    getActiveService().rejectSigningRequest(requestId);
   }, []);
 
   const isRunning = useCallback(() => {
-    return iglooService.isRunning();
+    return getActiveService().isRunning();
+  }, []);
+
+  const stopShareSigner = useCallback(async (shareId: string) => {
+    await iglooKeyring.peekService(shareId)?.stopSigner();
+  }, []);
+
+  const removeShareService = useCallback((shareId: string) => {
+    return iglooKeyring.removeService(shareId);
+  }, []);
+
+  const stopAllSigners = useCallback((options?: StopSignerOptions) => {
+    return iglooKeyring.stopAll(options);
   }, []);
 
   const decodeGroupCredential = useCallback((group: string) => {
-    return iglooService.decodeGroupCredential(group);
+    return getActiveService().decodeGroupCredential(group);
   }, []);
 
   const decodeShareCredential = useCallback((share: string) => {
-    return iglooService.decodeShareCredential(share);
+    return getActiveService().decodeShareCredential(share);
+  }, []);
+
+  const refreshRelayHealth = useCallback(() => {
+    return getActiveService().refreshRelayHealth();
+  }, []);
+
+  const requestSignature = useCallback((sighash: string, content?: string | null) => {
+    return getActiveService().requestSignature(sighash, content);
+  }, []);
+
+  const requestEcdh = useCallback((pubkey: string) => {
+    return getActiveService().requestEcdh(pubkey);
   }, []);
 
   const getLoadedCredentialState = useCallback(() => {
-    return iglooService.getLoadedCredentialState();
+    return getActiveService().getLoadedCredentialState();
   }, []);
 
   return {
@@ -170,13 +457,22 @@ export function useIgloo() {
     getShareDetails,
     getPeers,
     getSelfPubkey,
+    getGroupMembers,
     pingAllPeers,
     pingSinglePeer,
     sendEcho,
     updatePolicies,
+    approveSigningRequest,
+    rejectSigningRequest,
     isRunning,
+    stopShareSigner,
+    removeShareService,
+    stopAllSigners,
     decodeGroupCredential,
     decodeShareCredential,
     getLoadedCredentialState,
+    refreshRelayHealth,
+    requestSignature,
+    requestEcdh,
   };
 }
@@ -0,0 +1,169 @@
+import { useCallback } from 'react';
+import {
+  getPeerPolicies,
+  useCredentialStore,
+  usePeerStore,
+  useRelayStore,
+  useSignerStore,
+} from '@/stores';
+import { secureStorage } from '@/services/storage/secureStorage';
+import { shareEncryption } from '@/services/storage/shareEncryption';
+import { useIgloo } from './useIgloo';
+import { DEFAULT_RELAYS, type Peer } from '@/types';
+
+/**
+ * Hook for managing the shares held in the keyring.
+ * Relays and peer policies are swapped in and out of their stores as the active share changes.
+ */
+export function useKeyring() {
+  const { stopShareSigner, removeShareService } = useIgloo();
+
+  const shares = useCredentialStore((s) => s.shares);
+  const activeShareId = useCredentialStore((s) => s.activeShareId);
+  const shareStatuses = useSignerStore((s) => s.shareStatuses);
+
+  /**
+   * Save the active share's relays and peer policies back into its keyring entry.
+   */
+  const snapshotActiveShare = useCallback(() => {
+    const { activeShareId: currentId, updateShare } = useCredentialStore.getState();
+    if (!currentId) return;
+
+    updateShare(currentId, {
+      relays: [...useRelayStore.getState().relays],
+      peerPolicies: getPeerPolicies(usePeerStore.getState().peers),
+    });
+  }, []);
+
+  /**
+   * Make a share active, loading its relays and peer policies.
+   * Signers for other shares keep running.
+   */
+  const switchShare = useCallback(
+    (id: string) => {
+      const credentialStore = useCredentialStore.getState();
+      if (id === credentialStore.activeShareId) return;
+
+      const entry = credentialStore.shares.find((share) => share.id === id);
+      if (!entry) return;
+
+      snapshotActiveShare();
+      credentialStore.setActiveShare(id);
+
+      useRelayStore
+        .getState()
+        .setRelays(entry.relays.length > 0 ? entry.relays : [...DEFAULT_RELAYS]);
+
+      const peerStore = usePeerStore.getState();
+      peerStore.clearPeers();
+      peerStore.setPeers(
+        entry.peerPolicies.map(
+          (policy): Peer => ({
+            pubkey: policy.pubkey,
+            displayName: policy.label,
+            note: policy.note,
+            status: 'unknown',
+            lastSeen: null,
+            latency: null,
+            allowSend: policy.allowSend,
+            allowReceive: policy.allowReceive,
+          })
+        )
+      );
+    },
+    [snapshotActiveShare]
+  );
+
+  const renameShare = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    useCredentialStore.getState().updateShare(id, { name: trimmed });
+  }, []);
+
+  /**
+   * Stop a share's signer without switching to it.
+   */
+  const stopShare = useCallback(
+    async (id: string) => {
+      await stopShareSigner(id);
+    },
+    [stopShareSigner]
+  );
+
+  /**
+   * Stop a share's signer and delete it from the keyring.
+   */
+  const removeShare = useCallback(
+    async (id: string) => {
+      await removeShareService(id);
+
+      const { shares: currentShares, activeShareId: currentId } = useCredentialStore.getState();
+      if (id === currentId) {
+        const next = currentShares.find((share) => share.id !== id);
+        if (next) {
+          switchShare(next.id);
+        }
+      }
+
+      await useCredentialStore.getState().removeShare(id);
+    },
+    [removeShareService, switchShare]
+  );
+
+  /**
+   * Encrypt a share at rest under a passphrase.
+   * A running signer keeps its decrypted share; the passphrase is needed on the next start.
+   */
+  const setSharePassphrase = useCallback(async (id: string, passphrase: string) => {
+    const credentials = await secureStorage.getCredentials(id);
+    if (!credentials) {
+      throw new Error('No credentials found');
+    }
+
+    const encrypted = await shareEncryption.encrypt(credentials.share, passphrase);
+    await secureStorage.saveCredentials(id, encrypted, credentials.group);
+    useCredentialStore.getState().updateShare(id, { passphraseProtected: true });
+  }, []);
+
+  /**
+   * Decrypt a passphrase-protected share and store it without the passphrase again.
+   */
+  const removeSharePassphrase = useCallback(async (id: string, passphrase: string) => {
+    const credentials = await secureStorage.getCredentials(id);
+    if (!credentials) {
+      throw new Error('No credentials found');
+    }
+
+    const share = await shareEncryption.decrypt(credentials.share, passphrase);
+    await secureStorage.saveCredentials(id, share, credentials.group);
+    useCredentialStore.getState().updateShare(id, { passphraseProtected: false });
+  }, []);
+
+  /**
+   * Decrypt a share for display. Plain shares are returned as stored.
+   */
+  const revealShare = useCallback(async (id: string, passphrase: string) => {
+    const share = await secureStorage.getShare(id);
+    if (!share) {
+      throw new Error('No credentials found');
+    }
+    return shareEncryption.decrypt(share, passphrase);
+  }, []);
+
+  return {
+    // State
+    shares,
+    activeShareId,
+    shareStatuses,
+
+    // Actions
+    switchShare,
+    renameShare,
+    stopShare,
+    removeShare,
+    snapshotActiveShare,
+    setSharePassphrase,
+    removeSharePassphrase,
+    revealShare,
+  };
+}
@@ -0,0 +1,81 @@
+import { useCallback, useRef, useState } from 'react';
+import { logArchive } from '@/services/storage/logArchive';
+import type { ArchivedLogEntry, LogSession } from '@/types';
+
+/**
+ * Hook for paging through the on-device log archive, one signer session at a time.
+ */
+export function useLogArchive() {
+  const [sessions, setSessions] = useState<LogSession[]>([]);
+  // undefined shows entries of every session
+  const [sessionId, setSessionId] = useState<string | undefined>(undefined);
+  const [entries, setEntries] = useState<ArchivedLogEntry[]>([]);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [usage, setUsage] = useState<{ bytes: number; entries: number } | null>(null);
+  // Ignore pages that arrive after the user switched sessions
+  const requestRef = useRef(0);
+
+  /**
+   * Load the session list and the newest page of the given session.
+   */
+  const open = useCallback(async (nextSessionId?: string) => {
+    const request = ++requestRef.current;
+    setSessionId(nextSessionId);
+    setIsLoading(true);
+    try {
+      const [nextSessions, page, nextUsage] = await Promise.all([
+        logArchive.getSessions(),
+        logArchive.readPage(nextSessionId, null),
+        logArchive.getUsage(),
+      ]);
+      if (request !== requestRef.current) return;
+      setSessions(nextSessions);
+      setEntries(page.entries);
+      setCursor(page.nextCursor);
+      setUsage(nextUsage);
+    } finally {
+      if (request === requestRef.current) setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Append the next older page.
+   */
+  const loadMore = useCallback(async () => {
+    if (cursor === null || isLoading) return;
+    const request = requestRef.current;
+    setIsLoading(true);
+    try {
+      const page = await logArchive.readPage(sessionId, cursor);
+      if (request !== requestRef.current) return;
+      setEntries((current) => [...current, ...page.entries]);
+      setCursor(page.nextCursor);
+    } finally {
+      if (request === requestRef.current) setIsLoading(false);
+    }
+  }, [cursor, isLoading, sessionId]);
+
+  /**
+   * Delete every archived entry.
+   */
+  const clear = useCallback(async () => {
+    await logArchive.clear();
+    await open(undefined);
+  }, [open]);
+
+  return {
+    // State
+    sessions,
+    sessionId,
+    entries,
+    hasMore: cursor !== null,
+    isLoading,
+    usage,
+
+    // Actions
+    open,
+    loadMore,
+    clear,
+  };
+}
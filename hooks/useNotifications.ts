@@ -0,0 +1,37 @@
+import { useCallback, useEffect } from 'react';
+import { useNotificationStore, useSignerStore } from '@/stores';
+import { notificationService } from '@/services/notifications';
+import type { NotificationCategory } from '@/types';
+
+/**
+ * Hook for the notification settings. Keeps the notification service in step with them and
+ * asks for permission once a signer runs with any category enabled. Mount once, in the root layout.
+ */
+export function useNotifications() {
+  const categories = useNotificationStore((s) => s.categories);
+  const setCategoryEnabled = useNotificationStore((s) => s.setCategoryEnabled);
+  const isRunning = useSignerStore((s) => s.status === 'running');
+  const anyEnabled = Object.values(categories).some(Boolean);
+
+  useEffect(() => {
+    notificationService.setCategories(categories);
+  }, [categories]);
+
+  useEffect(() => {
+    if (isRunning && anyEnabled) {
+      void notificationService.requestPermission();
+    }
+  }, [isRunning, anyEnabled]);
+
+  const setEnabled = useCallback(
+    (category: NotificationCategory, enabled: boolean) => {
+      setCategoryEnabled(category, enabled);
+      if (enabled) {
+        void notificationService.requestPermission();
+      }
+    },
+    [setCategoryEnabled]
+  );
+
+  return { categories, setEnabled };
+}
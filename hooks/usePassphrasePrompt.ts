@@ -0,0 +1,59 @@
+import { useCallback, useState } from 'react';
+import { MIN_SHARE_PASSPHRASE_LENGTH } from '@/services/storage/shareEncryption';
+
+interface PassphraseRequestOptions {
+  title: string;
+  description: string;
+  /** Ask twice, for choosing a new passphrase */
+  confirm?: boolean;
+  submitLabel?: string;
+  /** Runs with the entered passphrase; throwing keeps the prompt open with the error */
+  onPassphrase: (passphrase: string) => Promise<void>;
+}
+
+interface PassphraseRequest extends PassphraseRequestOptions {
+  resolve: (completed: boolean) => void;
+}
+
+/**
+ * Ask for a share passphrase.
+ * Render `<PassphrasePromptModal {...passphrasePrompt} />` on the same screen.
+ */
+export function usePassphrasePrompt() {
+  const [request, setRequest] = useState<PassphraseRequest | null>(null);
+
+  /**
+   * Resolves true once `onPassphrase` succeeds, or false if the prompt is cancelled.
+   */
+  const requestPassphrase = useCallback(
+    (options: PassphraseRequestOptions): Promise<boolean> =>
+      new Promise((resolve) => setRequest({ ...options, resolve })),
+    []
+  );
+
+  const finish = useCallback(
+    (completed: boolean) => {
+      request?.resolve(completed);
+      setRequest(null);
+    },
+    [request]
+  );
+
+  return {
+    requestPassphrase,
+    passphrasePrompt: {
+      isOpen: request !== null,
+      title: request?.title ?? '',
+      description: request?.description ?? '',
+      confirm: request?.confirm ?? false,
+      minLength: MIN_SHARE_PASSPHRASE_LENGTH,
+      submitLabel: request?.submitLabel ?? 'Continue',
+      onSubmit: async (passphrase: string) => {
+        if (!request) return;
+        await request.onPassphrase(passphrase);
+        finish(true);
+      },
+      onCancel: () => finish(false),
+    },
+  };
+}
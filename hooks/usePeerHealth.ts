@@ -0,0 +1,12 @@
+import { useMemo } from 'react';
+import { getPeerHealthSummary, usePeerHealthStore } from '@/stores';
+import type { PeerHealthSummary } from '@/types';
+
+/**
+ * Hook for a peer's ping history: availability over 1h/24h/7d and the last day's
+ * latency and success rate per 15 minutes.
+ */
+export function usePeerHealth(pubkey: string): PeerHealthSummary {
+  const buckets = usePeerHealthStore((s) => s.history[pubkey.toLowerCase()]);
+  return useMemo(() => getPeerHealthSummary(buckets), [buckets]);
+}
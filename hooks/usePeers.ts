@@ -1,9 +1,10 @@
 import { useCallback, useEffect, useRef } from 'react';
 import { AppState, type AppStateStatus } from 'react-native';
-import { usePeerStore, useCredentialStore, useSignerStore } from '@/stores';
+import { usePeerStore, useCredentialStore, useSignerStore, getPeerPolicies } from '@/stores';
 import { secureStorage } from '@/services/storage/secureStorage';
+import { shareEncryption } from '@/services/storage/shareEncryption';
 import { useIgloo } from './useIgloo';
-import type { Peer, PeerPolicy } from '@/types';
+import type { Peer, PeerPolicyUpdate } from '@/types';
 
 const AUTO_PING_INTERVAL_MS = 15000;
 const AUTO_PING_TIMEOUT_MS = 5000;
@@ -16,6 +17,7 @@ export function usePeers() {
   const {
     getPeers,
     getSelfPubkey,
+    getGroupMembers,
     pingAllPeers,
     pingSinglePeer,
     updatePolicies,
@@ -34,6 +36,7 @@ export function usePeers() {
 
   // Credential state
   const hasCredentials = useCredentialStore((s) => s.hasCredentials);
+  const activeShareId = useCredentialStore((s) => s.activeShareId);
   const signerStatus = useSignerStore((s) => s.status);
 
   const autoPingTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -52,18 +55,33 @@ export function usePeers() {
   const onlineCount = peers.filter((p) => p.status === 'online').length;
 
   /**
-   * Load peers from credentials.
+   * Load peers from the active share's credentials.
    */
   const loadPeers = useCallback(async () => {
-    const credentials = await secureStorage.getCredentials();
+    const credentials = activeShareId ? await secureStorage.getCredentials(activeShareId) : null;
     if (!credentials) {
       console.warn('[usePeers] No credentials found in secure storage');
       return;
     }
 
     try {
-      const peerPubkeys = getPeers(credentials.group, credentials.share);
-      const self = getSelfPubkey(credentials.group, credentials.share);
+      let peerPubkeys: string[];
+      let self: string | null;
+      if (shareEncryption.isEncrypted(credentials.share)) {
+        // The share can't be read without its passphrase; the group and our index are enough
+        const { shareDetails } = useCredentialStore.getState();
+        if (!shareDetails) {
+          console.warn('[usePeers] No share details for passphrase-protected share');
+          return;
+        }
+        ({ peers: peerPubkeys, selfPubkey: self } = getGroupMembers(
+          credentials.group,
+          shareDetails.idx
+        ));
+      } else {
+        peerPubkeys = getPeers(credentials.group, credentials.share);
+        self = getSelfPubkey(credentials.group, credentials.share);
+      }
 
       if (self) {
         setSelfPubkey(self);
@@ -93,7 +111,7 @@ export function usePeers() {
       // Still clear peers to avoid stale data
       setPeers([]);
     }
-  }, [getPeers, getSelfPubkey, setSelfPubkey, setPeers]);
+  }, [activeShareId, getPeers, getSelfPubkey, getGroupMembers, setSelfPubkey, setPeers]);
 
   /**
    * Ping all peers and update their status.
@@ -131,26 +149,30 @@ export function usePeers() {
 
   /**
    * Update policy for a specific peer.
+   * Saved on the active keyring share, so it survives restarts and share switches.
    */
   const setPeerPolicy = useCallback(
-    async (pubkey: string, policy: { allowSend?: boolean; allowReceive?: boolean }) => {
+    async (pubkey: string, policy: PeerPolicyUpdate) => {
       // Update local state
       updatePeerPolicy(pubkey, policy);
 
+      const { peers: updatedPeers } = usePeerStore.getState();
+      const { activeShareId: shareId, updateShare } = useCredentialStore.getState();
+      if (shareId) {
+        updateShare(shareId, { peerPolicies: getPeerPolicies(updatedPeers) });
+      }
+
       // If signer is running, also update on the node
       if (isServiceRunning()) {
-        const peer = peersRecord[pubkey];
-        if (peer) {
-          const updatedPolicy: PeerPolicy = {
-            pubkey,
-            allowSend: policy.allowSend ?? peer.allowSend,
-            allowReceive: policy.allowReceive ?? peer.allowReceive,
-          };
+        const updatedPolicy = getPeerPolicies(updatedPeers).find(
+          (peerPolicy) => peerPolicy.pubkey === pubkey
+        );
+        if (updatedPolicy) {
           await updatePolicies([updatedPolicy]);
         }
       }
     },
-    [updatePeerPolicy, peersRecord, isServiceRunning, updatePolicies]
+    [updatePeerPolicy, isServiceRunning, updatePolicies]
   );
 
   /**
@@ -159,16 +181,10 @@ export function usePeers() {
   const syncPoliciesToNode = useCallback(async () => {
     if (!isServiceRunning()) return;
 
-    const policies: PeerPolicy[] = peers.map((peer) => ({
-      pubkey: peer.pubkey,
-      allowSend: peer.allowSend,
-      allowReceive: peer.allowReceive,
-    }));
-
-    await updatePolicies(policies);
-  }, [isServiceRunning, peers, updatePolicies]);
+    await updatePolicies(getPeerPolicies(peersRecord));
+  }, [isServiceRunning, peersRecord, updatePolicies]);
 
-  // Load peers when credentials become available
+  // Load peers when credentials become available or the active share changes
   useEffect(() => {
     if (hasCredentials) {
       loadPeers();
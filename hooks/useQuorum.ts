@@ -0,0 +1,65 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { Alert } from 'react-native';
+import {
+  getQuorumStatus,
+  useCredentialStore,
+  useLogStore,
+  usePeerStore,
+  useSignerStore,
+} from '@/stores';
+import { logArchive } from '@/services/storage/logArchive';
+import { notificationService } from '@/services/notifications';
+import type { LogEntry, QuorumStatus } from '@/types';
+
+/**
+ * Hook for the live quorum state of the active share: this device plus online peers
+ * it may send requests to, against the group threshold. Null until share details load.
+ */
+export function useQuorum(): QuorumStatus | null {
+  const peers = usePeerStore((s) => s.peers);
+  const selfPubkey = usePeerStore((s) => s.selfPubkey);
+  const shareDetails = useCredentialStore((s) => s.shareDetails);
+
+  return useMemo(
+    () => (shareDetails ? getQuorumStatus(peers, shareDetails, selfPubkey) : null),
+    [peers, shareDetails, selfPubkey]
+  );
+}
+
+/**
+ * Hook that logs a warning and shows an alert when the running signer loses its quorum, plus a
+ * notification if that happens in the background. Logs again once enough peers are back.
+ * Mount once, in the root layout.
+ */
+export function useQuorumAlert() {
+  const quorum = useQuorum();
+  const isRunning = useSignerStore((s) => s.status === 'running');
+  const isBelowThreshold = isRunning && quorum?.state === 'unreachable';
+  const wasBelowThreshold = useRef(false);
+
+  useEffect(() => {
+    if (isBelowThreshold === wasBelowThreshold.current) return;
+    wasBelowThreshold.current = isBelowThreshold;
+    // Stopping the signer also clears the flag; only a reachable quorum is a recovery
+    if (!quorum || !isRunning) return;
+    if (!isBelowThreshold && quorum.state !== 'reachable') return;
+
+    const data = {
+      available: quorum.available,
+      threshold: quorum.threshold,
+      totalMembers: quorum.totalMembers,
+    };
+    const { activeShareId } = useCredentialStore.getState();
+    const entry: Omit<LogEntry, 'id' | 'timestamp'> = isBelowThreshold
+      ? { level: 'warn', category: 'peer', message: 'Signing quorum lost', data }
+      : { level: 'info', category: 'peer', message: 'Signing quorum restored', data };
+    useLogStore.getState().addEntry(entry);
+    logArchive.append(entry, activeShareId);
+
+    if (isBelowThreshold) {
+      const message = `Only ${quorum.available} of the ${quorum.threshold} signers needed are reachable. Requests can't be signed until more peers come online.`;
+      Alert.alert('Quorum Lost', message);
+      void notificationService.notify('quorumLost', 'Quorum Lost', message);
+    }
+  }, [isBelowThreshold, isRunning, quorum]);
+}
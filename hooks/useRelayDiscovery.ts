@@ -0,0 +1,122 @@
+import { useCallback, useState } from 'react';
+import { useCredentialStore, useRelayStore } from '@/stores';
+import { secureStorage } from '@/services/storage/secureStorage';
+import { relayDiscovery } from '@/services/relay';
+import { useIgloo } from './useIgloo';
+import type { RelayDiscoveryResult } from '@/types';
+
+interface DiscoveryState {
+  /** Share the result was found for; a result for another share is ignored */
+  shareId: string;
+  result: RelayDiscoveryResult;
+}
+
+/**
+ * Hook for finding relays the rest of the active share's group uses and
+ * accepting them into the relay list.
+ */
+export function useRelayDiscovery() {
+  const { getGroupMembers } = useIgloo();
+
+  const relays = useRelayStore((s) => s.relays);
+  const setRelays = useRelayStore((s) => s.setRelays);
+  const activeShareId = useCredentialStore((s) => s.activeShareId);
+
+  const [discovery, setDiscovery] = useState<DiscoveryState | null>(null);
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch the NIP-65 relay lists of the group and its co-signers.
+   */
+  const discover = useCallback(async () => {
+    const { shares, activeShareId: shareId } = useCredentialStore.getState();
+    const entry = shares.find((share) => share.id === shareId);
+    if (!shareId || !entry?.shareDetails) {
+      setError('No share details available');
+      return;
+    }
+
+    setIsDiscovering(true);
+    setError(null);
+    try {
+      const credentials = await secureStorage.getCredentials(shareId);
+      if (!credentials) {
+        throw new Error('No credentials found');
+      }
+
+      // The group credential is never encrypted, so this works for locked shares too
+      const { peers } = getGroupMembers(credentials.group, entry.shareDetails.idx);
+      const groupPubkey = entry.shareDetails.groupPubkey;
+      const keyringRelays = shares
+        .filter(
+          (share) =>
+            share.id !== shareId && share.shareDetails?.groupPubkey === groupPubkey
+        )
+        .flatMap((share) => share.relays);
+
+      const result = await relayDiscovery.discover({
+        groupPubkey,
+        peerPubkeys: peers,
+        currentRelays: useRelayStore.getState().relays,
+        keyringRelays,
+      });
+      setDiscovery({ shareId, result });
+      setDismissed([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Relay discovery failed');
+    } finally {
+      setIsDiscovering(false);
+    }
+  }, [getGroupMembers]);
+
+  const result = discovery?.shareId === activeShareId ? discovery.result : null;
+  const suggestions = (result?.suggestions ?? []).filter(
+    (suggestion) => !relays.includes(suggestion.url) && !dismissed.includes(suggestion.url)
+  );
+
+  /**
+   * Add a suggested relay to the active share's relay list.
+   */
+  const accept = useCallback(
+    (url: string) => {
+      if (!relays.includes(url)) {
+        setRelays([...relays, url]);
+      }
+    },
+    [relays, setRelays]
+  );
+
+  /**
+   * Add every remaining suggestion.
+   */
+  const acceptAll = useCallback(() => {
+    const additions = suggestions.map((suggestion) => suggestion.url);
+    if (additions.length > 0) {
+      setRelays([...relays, ...additions]);
+    }
+  }, [relays, setRelays, suggestions]);
+
+  /**
+   * Hide a suggestion until the next discovery.
+   */
+  const dismiss = useCallback((url: string) => {
+    setDismissed((current) => (current.includes(url) ? current : [...current, url]));
+  }, []);
+
+  return {
+    // State
+    suggestions,
+    relayListsFound: result?.relayListsFound ?? 0,
+    hasDiscovered: result !== null,
+    isDiscovering,
+    error,
+
+    // Actions
+    discover,
+    accept,
+    acceptAll,
+    dismiss,
+  };
+}
@@ -0,0 +1,112 @@
+import { useCallback, useState } from 'react';
+import { verifyEvent, type Event } from 'nostr-tools/pure';
+import { useCredentialStore, useRelayStore } from '@/stores';
+import { buildGroupEvent } from '@/services/igloo';
+import { relayPublisher } from '@/services/relay';
+import { useIgloo } from './useIgloo';
+import type { EventDraft, RelayPublishResult, SenderSignature } from '@/types';
+
+interface SenderSigningResult {
+  signature: SenderSignature;
+  /** Signed event; null when a raw message hash was signed */
+  event: Event | null;
+}
+
+/**
+ * Hook for running signing rounds from this device as the sender.
+ */
+export function useSenderSigning() {
+  const { requestSignature } = useIgloo();
+  const shareDetails = useCredentialStore((s) => s.shareDetails);
+  const relays = useRelayStore((s) => s.relays);
+
+  const [result, setResult] = useState<SenderSigningResult | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [publishResults, setPublishResults] = useState<RelayPublishResult[] | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const run = useCallback(async (sign: () => Promise<SenderSigningResult>) => {
+    setIsSigning(true);
+    setError(null);
+    setResult(null);
+    setPublishResults(null);
+    try {
+      const next = await sign();
+      setResult(next);
+      return next;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Signing failed');
+      return null;
+    } finally {
+      setIsSigning(false);
+    }
+  }, []);
+
+  /**
+   * Sign a Nostr event as the group.
+   */
+  const signEvent = useCallback(
+    (draft: EventDraft) =>
+      run(async () => {
+        if (!shareDetails) {
+          throw new Error('No share loaded');
+        }
+        const unsigned = buildGroupEvent(draft, shareDetails.groupPubkey);
+        // Co-signers see the event they are asked to sign, and their policies can check its kind
+        const signature = await requestSignature(unsigned.id, JSON.stringify(unsigned));
+        const event: Event = { ...unsigned, sig: signature.signature };
+        if (!verifyEvent(event)) {
+          throw new Error('Aggregated signature does not verify against the group pubkey');
+        }
+        return { signature, event };
+      }),
+    [requestSignature, run, shareDetails]
+  );
+
+  /**
+   * Sign an arbitrary 32-byte message hash.
+   */
+  const signHash = useCallback(
+    (sighash: string) =>
+      run(async () => ({ signature: await requestSignature(sighash), event: null })),
+    [requestSignature, run]
+  );
+
+  /**
+   * Publish the signed event to the configured relays.
+   */
+  const publish = useCallback(async () => {
+    if (!result?.event) return null;
+    setIsPublishing(true);
+    try {
+      const results = await relayPublisher.publish(result.event, relays);
+      setPublishResults(results);
+      return results;
+    } finally {
+      setIsPublishing(false);
+    }
+  }, [relays, result]);
+
+  const reset = useCallback(() => {
+    setResult(null);
+    setError(null);
+    setPublishResults(null);
+  }, []);
+
+  return {
+    // State
+    result,
+    isSigning,
+    error,
+    publishResults,
+    isPublishing,
+    relays,
+
+    // Actions
+    signEvent,
+    signHash,
+    publish,
+    reset,
+  };
+}
@@ -1,7 +1,15 @@
 import { useCallback } from 'react';
 import { Platform } from 'react-native';
-import { useSignerStore, useRelayStore, useCredentialStore, useAudioStore } from '@/stores';
+import {
+  useSignerStore,
+  useRelayStore,
+  useCredentialStore,
+  useAudioStore,
+  usePeerStore,
+  getPeerPolicies,
+} from '@/stores';
 import { secureStorage } from '@/services/storage/secureStorage';
+import { shareEncryption } from '@/services/storage/shareEncryption';
 import { audioService } from '@/services/audio';
 import { useIgloo } from './useIgloo';
 
@@ -9,50 +17,72 @@ import { useIgloo } from './useIgloo';
  * Hook for signer state and control.
  */
 export function useSigner() {
-  const { startSigner, stopSigner, isRunning } = useIgloo();
+  const {
+    startSigner,
+    stopSigner,
+    isRunning,
+    approveSigningRequest,
+    rejectSigningRequest,
+    refreshRelayHealth,
+  } = useIgloo();
 
   // Signer state
   const status = useSignerStore((s) => s.status);
   const audioStatus = useSignerStore((s) => s.audioStatus);
   const connectedRelays = useSignerStore((s) => s.connectedRelays);
+  const relayHealth = useSignerStore((s) => s.relayHealth);
   const lastError = useSignerStore((s) => s.lastError);
   const signingRequestsReceived = useSignerStore((s) => s.signingRequestsReceived);
   const signingRequestsCompleted = useSignerStore((s) => s.signingRequestsCompleted);
   const sessionStartTime = useSignerStore((s) => s.sessionStartTime);
   const recentRequests = useSignerStore((s) => s.recentRequests);
+  const heldRequests = useSignerStore((s) => s.heldRequests);
   const resetSession = useSignerStore((s) => s.resetSession);
 
   // Related stores
   const relays = useRelayStore((s) => s.relays);
   const shareDetails = useCredentialStore((s) => s.shareDetails);
+  const activeShareId = useCredentialStore((s) => s.activeShareId);
 
   // Audio preferences (for applying on start)
   const storedVolume = useAudioStore((s) => s.volume);
   const storedSoundscape = useAudioStore((s) => s.soundscapeId);
 
   /**
-   * Start the signer with stored credentials and configured relays.
+   * Start the active share's signer with stored credentials and configured relays.
+   * A passphrase-protected share is decrypted in memory only, for the node's lifetime.
+   * Saved peer policies are applied as the node is created.
    * Also applies stored audio preferences.
    */
-  const start = useCallback(async () => {
-    const credentials = await secureStorage.getCredentials();
+  const start = useCallback(async (passphrase?: string) => {
+    const credentials = activeShareId ? await secureStorage.getCredentials(activeShareId) : null;
     if (!credentials) {
       throw new Error('No credentials found');
     }
 
+    let share = credentials.share;
+    if (shareEncryption.isEncrypted(share)) {
+      if (!passphrase) {
+        throw new Error('Enter the share passphrase to start the signer');
+      }
+      share = await shareEncryption.decrypt(share, passphrase);
+    }
+
     const isIOS = Platform.OS === 'ios';
 
     // Configure the selected soundscape before signer startup.
     // On iOS this prepares native background audio; on Android it syncs JS state.
     await audioService.setSoundscape(storedSoundscape);
 
-    await startSigner(credentials.group, credentials.share, relays);
+    await startSigner(credentials.group, share, relays, {
+      peerPolicies: getPeerPolicies(usePeerStore.getState().peers),
+    });
 
     if (isIOS) {
       // Apply iOS playback volume after native player initialization.
       await audioService.setVolume(storedVolume);
     }
-  }, [startSigner, relays, storedVolume, storedSoundscape]);
+  }, [startSigner, activeShareId, relays, storedVolume, storedSoundscape]);
 
   /**
    * Stop the signer.
@@ -85,16 +115,19 @@ export function useSigner() {
     status,
     audioStatus,
     connectedRelays,
+    relayHealth,
     lastError,
     signingRequestsReceived,
     signingRequestsCompleted,
     sessionStartTime,
     recentRequests,
+    heldRequests,
     shareDetails,
 
     // Computed
     isRunning: status === 'running',
     isConnecting: status === 'connecting',
+    isReconnecting: status === 'reconnecting',
     isStopped: status === 'stopped',
     hasError: status === 'error',
     isAudioPlaying: audioStatus === 'playing',
@@ -103,6 +136,9 @@ export function useSigner() {
     start,
     stop,
     toggle,
+    approveRequest: approveSigningRequest,
+    rejectRequest: rejectSigningRequest,
+    refreshRelayHealth,
     resetSession,
     getUptime,
   };
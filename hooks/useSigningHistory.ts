@@ -0,0 +1,86 @@
+import { useCallback, useMemo } from 'react';
+import { Share } from 'react-native';
+import {
+  getFilteredHistory,
+  getHistoryDayStats,
+  getHistoryPeerStats,
+  useCredentialStore,
+  useSigningHistoryStore,
+} from '@/stores';
+import type { SigningHistoryEntry } from '@/types';
+
+const CSV_COLUMNS: (keyof SigningHistoryEntry)[] = [
+  'receivedAt',
+  'resolvedAt',
+  'shareId',
+  'sessionId',
+  'requesterPubkey',
+  'requestType',
+  'eventKind',
+  'ecdhPubkey',
+  'eventId',
+  'outcome',
+  'policyAction',
+  'latency',
+  'error',
+];
+
+function toCsvValue(value: SigningHistoryEntry[keyof SigningHistoryEntry]): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Hook for the persistent signing journal: filtered entries, statistics and export.
+ */
+export function useSigningHistory() {
+  const entries = useSigningHistoryStore((s) => s.entries);
+  const filter = useSigningHistoryStore((s) => s.filter);
+  const setFilter = useSigningHistoryStore((s) => s.setFilter);
+  const resetFilter = useSigningHistoryStore((s) => s.resetFilter);
+  const clearHistory = useSigningHistoryStore((s) => s.clearHistory);
+  const shares = useCredentialStore((s) => s.shares);
+
+  const filteredEntries = useMemo(() => getFilteredHistory(entries, filter), [entries, filter]);
+  const dayStats = useMemo(() => getHistoryDayStats(filteredEntries), [filteredEntries]);
+  const peerStats = useMemo(() => getHistoryPeerStats(filteredEntries), [filteredEntries]);
+
+  const getShareName = useCallback(
+    (shareId: string) => shares.find((share) => share.id === shareId)?.name ?? 'Removed share',
+    [shares]
+  );
+
+  /**
+   * Share the filtered entries as CSV, e.g. for an audit.
+   * Returns false if the user dismissed the share sheet.
+   */
+  const exportHistory = useCallback(async (): Promise<boolean> => {
+    const rows = filteredEntries.map((entry) =>
+      CSV_COLUMNS.map((column) => toCsvValue(entry[column])).join(',')
+    );
+    const csv = [CSV_COLUMNS.join(','), ...rows].join('\n');
+    const result = await Share.share({
+      title: 'Igloo Signing History',
+      message: csv,
+    });
+    return result.action !== Share.dismissedAction;
+  }, [filteredEntries]);
+
+  return {
+    // State
+    entries,
+    filteredEntries,
+    filter,
+    dayStats,
+    peerStats,
+    shares,
+
+    // Actions
+    setFilter,
+    resetFilter,
+    clearHistory,
+    exportHistory,
+    getShareName,
+  };
+}
@@ -0,0 +1,51 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useLogStore } from '@/stores';
+import { buildSigningSessionTimeline } from '@/services/igloo';
+import { logArchive } from '@/services/storage/logArchive';
+import type { LogEntry } from '@/types';
+
+/**
+ * Hook for the timeline of one bifrost signing session.
+ * Built from the live log buffer, or from the on-device archive once the session has
+ * rotated out of it.
+ */
+export function useSigningSession(sessionId: string | undefined) {
+  const entries = useLogStore((s) => s.entries);
+  const [archived, setArchived] = useState<{ sessionId: string; entries: LogEntry[] } | null>(null);
+
+  const liveTimeline = useMemo(
+    () => (sessionId ? buildSigningSessionTimeline(sessionId, entries) : null),
+    [entries, sessionId]
+  );
+  const needsArchive = !!sessionId && !liveTimeline;
+
+  useEffect(() => {
+    if (!needsArchive || !sessionId) return;
+    let cancelled = false;
+    logArchive
+      .find((entry) => entry.category === 'signing' && entry.data?.sessionId === sessionId)
+      .then((found) => {
+        if (!cancelled) setArchived({ sessionId, entries: found });
+      })
+      .catch(() => {
+        if (!cancelled) setArchived({ sessionId, entries: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [needsArchive, sessionId]);
+
+  const archivedTimeline = useMemo(
+    () =>
+      sessionId && archived?.sessionId === sessionId
+        ? buildSigningSessionTimeline(sessionId, archived.entries)
+        : null,
+    [archived, sessionId]
+  );
+
+  return {
+    timeline: liveTimeline ?? archivedTimeline,
+    isFromArchive: !liveTimeline && !!archivedTimeline,
+    isLoading: needsArchive && archived?.sessionId !== sessionId,
+  };
+}
@@ -0,0 +1,58 @@
+package expo.modules.foregroundsigner
+
+import android.content.Context
+import android.content.Intent
+import androidx.core.content.ContextCompat
+import expo.modules.kotlin.exception.Exceptions
+import expo.modules.kotlin.modules.Module
+import expo.modules.kotlin.modules.ModuleDefinition
+
+// Event name constant
+private const val ON_ACTION = "onAction"
+
+class ForegroundSignerModule : Module() {
+  private val context: Context
+    get() = appContext.reactContext ?: throw Exceptions.ReactContextLost()
+
+  override fun definition() = ModuleDefinition {
+    Name("ForegroundSigner")
+
+    // Register events that can be sent to JS
+    Events(ON_ACTION)
+
+    OnCreate {
+      ForegroundSignerService.actionListener = { action ->
+        sendEvent(ON_ACTION, mapOf("action" to action))
+      }
+    }
+
+    OnDestroy {
+      ForegroundSignerService.actionListener = null
+    }
+
+    AsyncFunction("start") { content: SignerContent ->
+      ForegroundSignerService.content = content
+      // Starting again from the background is restricted on Android 12+; refresh instead
+      if (!ForegroundSignerService.refresh()) {
+        ContextCompat.startForegroundService(
+          context,
+          Intent(context, ForegroundSignerService::class.java)
+        )
+      }
+      true
+    }
+
+    AsyncFunction("update") { content: SignerContent ->
+      ForegroundSignerService.content = content
+      ForegroundSignerService.refresh()
+    }
+
+    AsyncFunction("stop") {
+      context.stopService(Intent(context, ForegroundSignerService::class.java))
+    }
+
+    AsyncFunction("isRunning") {
+      ForegroundSignerService.isRunning
+    }
+  }
+}
@@ -0,0 +1,235 @@
+package expo.modules.foregroundsigner
+
+import android.app.Notification
+import android.app.NotificationChannel
+import android.app.NotificationManager
+import android.app.PendingIntent
+import android.app.Service
+import android.content.Context
+import android.content.Intent
+import android.content.pm.ServiceInfo
+import android.os.Build
+import android.os.IBinder
+import android.os.PowerManager
+import android.util.Log
+import androidx.core.app.NotificationCompat
+import androidx.core.app.ServiceCompat
+import expo.modules.kotlin.records.Field
+import expo.modules.kotlin.records.Record
+
+private const val TAG = "ForegroundSigner"
+private const val CHANNEL_ID = "igloo-signer"
+private const val NOTIFICATION_ID = 7301
+private const val WAKE_LOCK_TAG = "Igloo:ForegroundSigner"
+
+private const val ACTION_STOP_SIGNER = "expo.modules.foregroundsigner.STOP_SIGNER"
+private const val ACTION_START_SIGNER = "expo.modules.foregroundsigner.START_SIGNER"
+private const val ACTION_CLOSE = "expo.modules.foregroundsigner.CLOSE"
+
+// Statuses where the signer still needs the CPU: answering requests or retrying relays
+private val AWAKE_STATUSES = setOf("connecting", "running", "reconnecting")
+
+// Debug logging helper - only logs in debug builds
+private fun debugLog(message: String) {
+  if (BuildConfig.DEBUG) {
+    Log.d(TAG, message)
+  }
+}
+
+/** Notification content pushed from JS (see ForegroundSignerContent in TypeScript) */
+class SignerContent : Record {
+  @Field
+  val status: String = "stopped"
+
+  @Field
+  val runningSigners: Int = 0
+
+  @Field
+  val requestsReceived: Int = 0
+
+  @Field
+  val requestsCompleted: Int = 0
+}
+
+/**
+ * Keeps the process (and so the JS signer) alive while the app is in the background.
+ * Shows signer status and request counts, with Stop/Start buttons, and holds a partial
+ * wake lock while a signer is connecting, running or reconnecting.
+ */
+class ForegroundSignerService : Service() {
+  companion object {
+    @Volatile
+    var content = SignerContent()
+
+    /** Set by ForegroundSignerModule to forward notification buttons to JS */
+    @Volatile
+    var actionListener: ((String) -> Unit)? = null
+
+    @Volatile
+    private var instance: ForegroundSignerService? = null
+
+    val isRunning: Boolean
+      get() = instance != null
+
+    /**
+     * Redraw the notification from [content]. Returns false if the service is not running.
+     */
+    fun refresh(): Boolean {
+      val service = instance ?: return false
+      service.showContent()
+      return true
+    }
+  }
+
+  private var wakeLock: PowerManager.WakeLock? = null
+
+  override fun onBind(intent: Intent?): IBinder? = null
+
+  override fun onStartCommand(intent: Intent?, flags: Int, startId: Int): Int {
+    when (intent?.action) {
+      ACTION_STOP_SIGNER, ACTION_START_SIGNER -> {
+        val action = if (intent.action == ACTION_STOP_SIGNER) "stop" else "start"
+        val listener = actionListener
+        if (listener != null) {
+          debugLog("Notification action: $action")
+          listener(action)
+        } else {
+          // JS is gone, so there is no signer to stop or start
+          debugLog("No JS listener for '$action', stopping service")
+          stopSelf()
+        }
+      }
+      ACTION_CLOSE -> {
+        debugLog("Notification action: close")
+        stopSelf()
+        actionListener?.invoke("close")
+      }
+      else -> {
+        // Every startForegroundService() call must be followed by startForeground()
+        instance = this
+        createChannel()
+        ServiceCompat.startForeground(
+          this,
+          NOTIFICATION_ID,
+          buildNotification(),
+          if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.UPSIDE_DOWN_CAKE) {
+            ServiceInfo.FOREGROUND_SERVICE_TYPE_SPECIAL_USE
+          } else {
+            0
+          }
+        )
+        updateWakeLock()
+        debugLog("Service started")
+      }
+    }
+    // If the process dies the JS signer is gone too; don't come back without it
+    return START_NOT_STICKY
+  }
+
+  override fun onDestroy() {
+    debugLog("Service destroyed - cleaning up")
+    instance = null
+    releaseWakeLock()
+    ServiceCompat.stopForeground(this, ServiceCompat.STOP_FOREGROUND_REMOVE)
+    super.onDestroy()
+  }
+
+  private fun showContent() {
+    val manager = getSystemService(Context.NOTIFICATION_SERVICE) as NotificationManager
+    manager.notify(NOTIFICATION_ID, buildNotification())
+    updateWakeLock()
+  }
+
+  private fun createChannel() {
+    if (Build.VERSION.SDK_INT < Build.VERSION_CODES.O) return
+    val channel = NotificationChannel(
+      CHANNEL_ID,
+      "Signer status",
+      NotificationManager.IMPORTANCE_LOW
+    ).apply {
+      description = "Shown while Igloo keeps signing in the background"
+      setShowBadge(false)
+    }
+    val manager = getSystemService(Context.NOTIFICATION_SERVICE) as NotificationManager
+    manager.createNotificationChannel(channel)
+  }
+
+  private fun buildNotification(): Notification {
+    val current = content
+    val isStopped = current.status == "stopped"
+    val title = when (current.status) {
+      "running" ->
+        if (current.runningSigners > 1) "${current.runningSigners} signers running" else "Signer running"
+      "connecting" -> "Signer connecting"
+      "reconnecting" -> "Signer reconnecting"
+      "error" -> "Signer error"
+      else -> "Signer stopped"
+    }
+    val text = if (isStopped) {
+      "Tap Start to sign again, or Close to dismiss."
+    } else {
+      "${current.requestsReceived} requests received, ${current.requestsCompleted} completed"
+    }
+
+    val builder = NotificationCompat.Builder(this, CHANNEL_ID)
+      .setSmallIcon(applicationInfo.icon)
+      .setContentTitle(title)
+      .setContentText(text)
+      .setOngoing(!isStopped)
+      .setOnlyAlertOnce(true)
+      .setSilent(true)
+      .setCategory(NotificationCompat.CATEGORY_SERVICE)
+      .setForegroundServiceBehavior(NotificationCompat.FOREGROUND_SERVICE_IMMEDIATE)
+
+    packageManager.getLaunchIntentForPackage(packageName)?.let { launchIntent ->
+      builder.setContentIntent(
+        PendingIntent.getActivity(this, 0, launchIntent, PendingIntent.FLAG_IMMUTABLE)
+      )
+    }
+
+    if (isStopped) {
+      builder.addAction(0, "Start", actionIntent(ACTION_START_SIGNER))
+      builder.addAction(0, "Close", actionIntent(ACTION_CLOSE))
+    } else {
+      builder.addAction(0, "Stop", actionIntent(ACTION_STOP_SIGNER))
+    }
+    return builder.build()
+  }
+
+  private fun actionIntent(action: String): PendingIntent {
+    val intent = Intent(this, ForegroundSignerService::class.java).setAction(action)
+    return PendingIntent.getService(
+      this,
+      action.hashCode(),
+      intent,
+      PendingIntent.FLAG_IMMUTABLE or PendingIntent.FLAG_UPDATE_CURRENT
+    )
+  }
+
+  @Synchronized
+  private fun updateWakeLock() {
+    if (content.status !in AWAKE_STATUSES) {
+      releaseWakeLock()
+      return
+    }
+    if (wakeLock?.isHeld == true) return
+
+    val powerManager = getSystemService(Context.POWER_SERVICE) as PowerManager
+    wakeLock = powerManager.newWakeLock(PowerManager.PARTIAL_WAKE_LOCK, WAKE_LOCK_TAG).apply {
+      setReferenceCounted(false)
+      acquire()
+    }
+    debugLog("Wake lock acquired")
+  }
+
+  @Synchronized
+  private fun releaseWakeLock() {
+    wakeLock?.let {
+      if (it.isHeld) {
+        it.release()
+        debugLog("Wake lock released")
+      }
+    }
+    wakeLock = null
+  }
+}
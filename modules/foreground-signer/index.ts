@@ -0,0 +1,8 @@
+import ForegroundSignerModule from './src/ForegroundSignerModule';
+
+export { ForegroundSignerModule };
+export type {
+  ForegroundSignerAction,
+  ForegroundSignerActionEvent,
+  ForegroundSignerContent,
+} from './src/ForegroundSignerModule';
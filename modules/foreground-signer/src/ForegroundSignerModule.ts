@@ -0,0 +1,62 @@
+import { NativeModule, requireNativeModule } from 'expo-modules-core';
+import { Platform } from 'react-native';
+
+/** Notification content pushed from JS whenever the signers change */
+export interface ForegroundSignerContent {
+  /** Aggregate signer status; 'stopped' swaps the Stop action for Start */
+  status: 'stopped' | 'connecting' | 'running' | 'reconnecting' | 'error';
+  /** Number of shares with a running signer */
+  runningSigners: number;
+  requestsReceived: number;
+  requestsCompleted: number;
+}
+
+/**
+ * Buttons on the notification. 'close' is sent after the service has already
+ * stopped itself; 'stop' and 'start' are left to JS.
+ */
+export type ForegroundSignerAction = 'stop' | 'start' | 'close';
+
+export interface ForegroundSignerActionEvent {
+  action: ForegroundSignerAction;
+}
+
+type ForegroundSignerEvents = {
+  onAction: (event: ForegroundSignerActionEvent) => void;
+};
+
+declare class ForegroundSignerModuleType extends NativeModule<ForegroundSignerEvents> {
+  /**
+   * Start the foreground service (or refresh it if already running) and take a partial wake lock
+   * while the status is not 'stopped'.
+   */
+  start(content: ForegroundSignerContent): Promise<boolean>;
+
+  /** Refresh the notification. No-op if the service is not running. */
+  update(content: ForegroundSignerContent): Promise<boolean>;
+
+  /** Stop the service, remove the notification and release the wake lock. */
+  stop(): Promise<boolean>;
+
+  /** Check if the foreground service is running. */
+  isRunning(): Promise<boolean>;
+}
+
+// Gracefully handle missing native module (e.g., when running in Expo Go)
+let ForegroundSignerModule: ForegroundSignerModuleType | null = null;
+
+if (Platform.OS === 'android') {
+  try {
+    ForegroundSignerModule = requireNativeModule<ForegroundSignerModuleType>('ForegroundSigner');
+  } catch (error) {
+    if (__DEV__) {
+      console.warn(
+        '[ForegroundSigner] Native module not available. ' +
+          'This is expected in Expo Go. Use `npx expo run:android` for a development build.',
+        error
+      );
+    }
+  }
+}
+
+export default ForegroundSignerModule;
@@ -1,20 +1,83 @@
+import { PermissionsAndroid, Platform } from 'react-native';
+import type { EventSubscription } from 'expo-modules-core';
+import {
+  ForegroundSignerModule,
+  type ForegroundSignerAction,
+  type ForegroundSignerContent,
+} from '@/modules/foreground-signer';
+
+/**
+ * AndroidForegroundSignerService - Keeps signing alive in the background on Android
+ * with a foreground service, its persistent notification and a partial wake lock.
+ */
 class AndroidForegroundSignerService {
-  // TODO: Replace this stub with a native Android foreground service module.
-  // Until then, Android signer keepalive is explicitly disabled by isAvailable().
-  async start(): Promise<void> {
-    if (!this.isAvailable()) return;
+  private running = false;
+  private notificationPermissionRequested = false;
+
+  /**
+   * Start the service, or refresh its notification if it is already showing.
+   */
+  async start(content: ForegroundSignerContent): Promise<void> {
+    if (!ForegroundSignerModule) return;
+
+    await this.requestNotificationPermission();
+    await ForegroundSignerModule.start(content);
+    this.running = true;
+  }
+
+  /**
+   * Refresh the notification with the latest signer status and request counts.
+   */
+  async update(content: ForegroundSignerContent): Promise<void> {
+    if (!ForegroundSignerModule || !this.running) return;
+    await ForegroundSignerModule.update(content);
   }
 
   async stop(): Promise<void> {
-    if (!this.isAvailable()) return;
+    if (!ForegroundSignerModule || !this.running) return;
+    this.running = false;
+    await ForegroundSignerModule.stop();
   }
 
   isRunning(): boolean {
-    return false;
+    return this.running;
   }
 
   isAvailable(): boolean {
-    return false;
+    return Platform.OS === 'android' && ForegroundSignerModule !== null;
+  }
+
+  /**
+   * Listen for the notification's Stop, Start and Close buttons.
+   */
+  addActionListener(listener: (action: ForegroundSignerAction) => void): EventSubscription | null {
+    if (!ForegroundSignerModule) return null;
+
+    return ForegroundSignerModule.addListener('onAction', ({ action }) => {
+      // Close stops the service natively before JS hears about it
+      if (action === 'close') {
+        this.running = false;
+      }
+      listener(action);
+    });
+  }
+
+  /**
+   * Android 13+ hides the notification (and its buttons) without this permission.
+   * The service runs either way, so a denial is not an error.
+   */
+  private async requestNotificationPermission(): Promise<void> {
+    if (this.notificationPermissionRequested || Number(Platform.Version) < 33) return;
+    this.notificationPermissionRequested = true;
+
+    try {
+      await PermissionsAndroid.request(PermissionsAndroid.PERMISSIONS.POST_NOTIFICATIONS);
+    } catch (error) {
+      console.warn(
+        '[AndroidForegroundSignerService] Notification permission request failed:',
+        error
+      );
+    }
   }
 }
 
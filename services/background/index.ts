@@ -1 +1,2 @@
 export { androidForegroundSignerService } from './AndroidForegroundSignerService';
+export type { ForegroundSignerAction, ForegroundSignerContent } from '@/modules/foreground-signer';
@@ -0,0 +1,110 @@
+import { shareEncryption } from '@/services/storage/shareEncryption';
+import type { BackupPayload, EncryptedBackup } from '@/types';
+import { credentialBackup } from '../credentialBackup';
+
+const PASSWORD = 'correct horse battery';
+
+const PAYLOAD: BackupPayload = {
+  version: 1,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  shares: [
+    {
+      name: 'Phone',
+      share: 'bfshare1qqqsyqcyq5rqwzq',
+      group: 'bfgroup1qqqsyqcyq5rqwzq',
+      relays: ['wss://relay.example.com'],
+      peerPolicies: [],
+    },
+  ],
+  audio: { volume: 0.3, soundscapeId: 'ocean-waves' },
+};
+
+function tamper(serialized: string, change: (backup: EncryptedBackup) => void): string {
+  const backup = JSON.parse(serialized) as EncryptedBackup;
+  change(backup);
+  return JSON.stringify(backup);
+}
+
+describe('credentialBackup', () => {
+  let sealed: string;
+
+  beforeAll(async () => {
+    sealed = await credentialBackup.encrypt(PAYLOAD, PASSWORD);
+  });
+
+  it('round-trips a payload', async () => {
+    expect(credentialBackup.isBackup(sealed)).toBe(true);
+    expect(sealed).not.toContain('bfshare1');
+    await expect(credentialBackup.decrypt(sealed, PASSWORD)).resolves.toEqual(PAYLOAD);
+  });
+
+  it('rejects short passwords', async () => {
+    await expect(credentialBackup.encrypt(PAYLOAD, 'short')).rejects.toThrow(
+      'at least 8 characters'
+    );
+  });
+
+  it('rejects the wrong password', async () => {
+    await expect(credentialBackup.decrypt(sealed, 'wrong password')).rejects.toThrow(
+      'Wrong password or damaged backup'
+    );
+  });
+
+  it('rejects a modified nonce or ciphertext', async () => {
+    const modifiedNonce = tamper(sealed, (backup) => {
+      backup.nonce = `${backup.nonce.slice(0, -2)}00`;
+    });
+    const modifiedCiphertext = tamper(sealed, (backup) => {
+      backup.ciphertext = `00${backup.ciphertext.slice(2)}`;
+    });
+
+    await expect(credentialBackup.decrypt(modifiedNonce, PASSWORD)).rejects.toThrow(
+      'Wrong password or damaged backup'
+    );
+    await expect(credentialBackup.decrypt(modifiedCiphertext, PASSWORD)).rejects.toThrow(
+      'Wrong password or damaged backup'
+    );
+  });
+
+  it('binds the container format, so a share envelope cannot pass as a backup', async () => {
+    const share = await shareEncryption.encrypt(JSON.stringify(PAYLOAD), PASSWORD);
+    const relabeled = tamper(share, (backup) => {
+      (backup as { format: string }).format = 'igloo-backup';
+    });
+
+    expect(credentialBackup.isBackup(relabeled)).toBe(true);
+    await expect(credentialBackup.decrypt(relabeled, PASSWORD)).rejects.toThrow(
+      'Wrong password or damaged backup'
+    );
+  });
+
+  it('rejects unsupported versions', async () => {
+    const future = tamper(sealed, (backup) => {
+      (backup as { version: number }).version = 2;
+    });
+
+    await expect(credentialBackup.decrypt(future, PASSWORD)).rejects.toThrow(
+      'Unsupported backup version 2'
+    );
+  });
+
+  it('refuses scrypt parameters above the limits before deriving a key', async () => {
+    const limits: Partial<EncryptedBackup['kdf']>[] = [{ N: 2 ** 20 }, { r: 32 }, { p: 8 }];
+
+    for (const kdf of limits) {
+      const expensive = tamper(sealed, (backup) => {
+        Object.assign(backup.kdf, kdf);
+      });
+      await expect(credentialBackup.decrypt(expensive, PASSWORD)).rejects.toThrow(
+        'unsupported key derivation parameters'
+      );
+    }
+  });
+
+  it('does not recognize text that is not a backup', async () => {
+    expect(credentialBackup.isBackup('bfshare1qqqsyqcyq5rqwzq')).toBe(false);
+    await expect(credentialBackup.decrypt('{"format":"other"}', PASSWORD)).rejects.toThrow(
+      'This is not an Igloo backup'
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { isPasswordEnvelope, openWithPassword, sealWithPassword } from '@/services/crypto';
+import type { BackupPayload, EncryptedBackup } from '@/types';
+
+const BACKUP_FORMAT = 'igloo-backup';
+const BACKUP_VERSION = 1;
+
+export const MIN_BACKUP_PASSWORD_LENGTH = 8;
+
+/**
+ * The format and version are bound into the associated data with the rest of the envelope.
+ */
+function getContext(backup: Pick<EncryptedBackup, 'format' | 'version'>): string {
+  return [backup.format, backup.version].join('|');
+}
+
+function isEncryptedBackup(value: unknown): value is EncryptedBackup {
+  if (!isPasswordEnvelope(value)) return false;
+  const backup = value as Partial<EncryptedBackup>;
+  return backup.format === BACKUP_FORMAT && typeof backup.version === 'number';
+}
+
+function isBackupPayload(value: unknown): value is BackupPayload {
+  if (!value || typeof value !== 'object') return false;
+  const payload = value as Partial<BackupPayload>;
+  return (
+    payload.version === BACKUP_VERSION &&
+    Array.isArray(payload.shares) &&
+    payload.shares.every(
+      (share) =>
+        typeof share?.share === 'string' &&
+        typeof share.group === 'string' &&
+        typeof share.name === 'string' &&
+        Array.isArray(share.relays) &&
+        Array.isArray(share.peerPolicies)
+    )
+  );
+}
+
+/**
+ * Password-encrypted backups of the keyring (scrypt + XChaCha20-Poly1305).
+ * The serialized envelope is plain JSON so it can travel through the share sheet as text.
+ */
+export const credentialBackup = {
+  /**
+   * Encrypt a backup payload and serialize the envelope.
+   */
+  async encrypt(payload: BackupPayload, password: string): Promise<string> {
+    if (password.length < MIN_BACKUP_PASSWORD_LENGTH) {
+      throw new Error(`Backup password must be at least ${MIN_BACKUP_PASSWORD_LENGTH} characters`);
+    }
+
+    const header = { format: BACKUP_FORMAT, version: BACKUP_VERSION } as const;
+    const envelope = await sealWithPassword(JSON.stringify(payload), password, getContext(header));
+    const backup: EncryptedBackup = { ...header, ...envelope };
+    return JSON.stringify(backup);
+  },
+
+  /**
+   * Parse and decrypt a serialized backup.
+   * Throws if the text is not a backup, the password is wrong, or the contents were modified.
+   */
+  async decrypt(serialized: string, password: string): Promise<BackupPayload> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(serialized.trim());
+    } catch {
+      throw new Error('This is not an Igloo backup');
+    }
+
+    if (!isEncryptedBackup(parsed)) {
+      throw new Error('This is not an Igloo backup');
+    }
+    if (parsed.version !== BACKUP_VERSION) {
+      throw new Error(`Unsupported backup version ${parsed.version}`);
+    }
+
+    let plaintext: string;
+    try {
+      plaintext = await openWithPassword(parsed, password, getContext(parsed));
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Unsupported')) {
+        throw new Error('Backup uses unsupported key derivation parameters');
+      }
+      throw new Error('Wrong password or damaged backup');
+    }
+
+    const payload: unknown = JSON.parse(plaintext);
+    if (!isBackupPayload(payload)) {
+      throw new Error('Backup contents are not recognized');
+    }
+    return payload;
+  },
+
+  /**
+   * Quick check for pasted text, without decrypting.
+   */
+  isBackup(serialized: string): boolean {
+    try {
+      return isEncryptedBackup(JSON.parse(serialized.trim()));
+    } catch {
+      return false;
+    }
+  },
+};
+
+export default credentialBackup;
@@ -0,0 +1 @@
+export { credentialBackup, MIN_BACKUP_PASSWORD_LENGTH } from './credentialBackup';
@@ -0,0 +1,191 @@
+import { hexToBytes } from '@noble/ciphers/utils';
+import { NostrConnect } from 'nostr-tools/kinds';
+import * as nip04 from 'nostr-tools/nip04';
+import * as nip44 from 'nostr-tools/nip44';
+import { SimplePool } from 'nostr-tools/pool';
+import { finalizeEvent, getPublicKey, type Event } from 'nostr-tools/pure';
+import type { SubCloser } from 'nostr-tools/abstract-pool';
+import type { LogLevel, NostrConnectRequest } from '@/types';
+
+type Encryption = 'nip44' | 'nip04';
+
+interface NostrConnectResponse {
+  id: string;
+  result?: string;
+  error?: string;
+}
+
+interface NostrConnectBunkerCallbacks {
+  /** Answer a request with its result; throw to reply with the error message */
+  onRequest: (clientPubkey: string, request: NostrConnectRequest) => Promise<string>;
+  log: (level: LogLevel, message: string, data?: Record<string, unknown>) => void;
+}
+
+/**
+ * NostrConnectBunker - NIP-46 remote signer transport.
+ *
+ * Listens on the relays for kind 24133 requests addressed to the bunker key, decrypts them
+ * (NIP-44, or NIP-04 for older clients) and replies with whatever `onRequest` returns,
+ * encrypted the same way. What a request may do is decided by the callback.
+ */
+class NostrConnectBunker {
+  private pool: SimplePool | null = null;
+  private subscription: SubCloser | null = null;
+  private secretKey: Uint8Array | null = null;
+  private relays: string[] = [];
+
+  constructor(private readonly callbacks: NostrConnectBunkerCallbacks) {}
+
+  /**
+   * Start answering requests for a bunker key. Restarts if already listening.
+   */
+  start(secretKey: string, relays: string[]): void {
+    this.stop();
+    if (relays.length === 0) {
+      throw new Error('No relays to listen on');
+    }
+
+    this.secretKey = hexToBytes(secretKey);
+    this.relays = relays;
+    this.pool = new SimplePool();
+    const pubkey = getPublicKey(this.secretKey);
+
+    this.subscription = this.pool.subscribeMany(
+      relays,
+      // Requests sent while the bunker was stopped have already timed out on the client
+      { kinds: [NostrConnect], '#p': [pubkey], since: Math.floor(Date.now() / 1000) },
+      {
+        onevent: (event) => {
+          void this.handleEvent(event);
+        },
+        onclose: (reasons) => {
+          if (this.pool) {
+            this.callbacks.log('warn', 'Bunker subscription closed', { reasons });
+          }
+        },
+      }
+    );
+    this.callbacks.log('info', 'Bunker listening', { pubkey, relayCount: relays.length });
+  }
+
+  stop(): void {
+    if (!this.pool) return;
+    const pool = this.pool;
+    this.pool = null;
+    this.subscription?.close();
+    this.subscription = null;
+    pool.destroy();
+    this.secretKey = null;
+    this.callbacks.log('info', 'Bunker stopped');
+  }
+
+  isListening(): boolean {
+    return this.pool !== null;
+  }
+
+  /**
+   * Send a response no request asked for, e.g. the reply that completes a nostrconnect://
+   * pairing. Published to `relays` as well as the bunker's own.
+   * @returns Whether any relay accepted it
+   */
+  async sendResponse(
+    clientPubkey: string,
+    response: NostrConnectResponse,
+    relays: string[] = []
+  ): Promise<boolean> {
+    if (!this.pool) {
+      throw new Error('Bunker is not running');
+    }
+    return this.reply(clientPubkey, 'nip44', JSON.stringify(response), relays);
+  }
+
+  private async handleEvent(event: Event): Promise<void> {
+    const secretKey = this.secretKey;
+    if (!secretKey) return;
+
+    let request: NostrConnectRequest;
+    let encryption: Encryption;
+    try {
+      ({ request, encryption } = decryptRequest(secretKey, event));
+    } catch (error) {
+      this.callbacks.log('debug', 'Ignoring unreadable bunker request', {
+        client: event.pubkey,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    let response: NostrConnectResponse;
+    try {
+      const result = await this.callbacks.onRequest(event.pubkey, request);
+      response = { id: request.id, result };
+    } catch (error) {
+      response = {
+        id: request.id,
+        error: error instanceof Error ? error.message : 'Request failed',
+      };
+    }
+
+    // The bunker may have been stopped or rekeyed while the request was handled
+    if (this.secretKey !== secretKey) return;
+    await this.reply(event.pubkey, encryption, JSON.stringify(response));
+  }
+
+  private async reply(
+    clientPubkey: string,
+    encryption: Encryption,
+    payload: string,
+    extraRelays: string[] = []
+  ): Promise<boolean> {
+    const secretKey = this.secretKey;
+    const pool = this.pool;
+    if (!secretKey || !pool) return false;
+
+    const content =
+      encryption === 'nip44'
+        ? nip44.encrypt(payload, nip44.getConversationKey(secretKey, clientPubkey))
+        : nip04.encrypt(secretKey, clientPubkey, payload);
+    const event = finalizeEvent(
+      {
+        kind: NostrConnect,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [['p', clientPubkey]],
+        content,
+      },
+      secretKey
+    );
+
+    const relays = Array.from(new Set([...this.relays, ...extraRelays]));
+    const settled = await Promise.allSettled(pool.publish(relays, event));
+    if (settled.every((result) => result.status === 'rejected')) {
+      this.callbacks.log('warn', 'Bunker reply was not accepted by any relay', {
+        client: clientPubkey,
+      });
+      return false;
+    }
+    return true;
+  }
+}
+
+function decryptRequest(
+  secretKey: Uint8Array,
+  event: Event
+): { request: NostrConnectRequest; encryption: Encryption } {
+  // NIP-04 payloads carry an "?iv=" suffix; NIP-44 payloads are plain base64
+  const encryption: Encryption = event.content.includes('?iv=') ? 'nip04' : 'nip44';
+  const plaintext =
+    encryption === 'nip44'
+      ? nip44.decrypt(event.content, nip44.getConversationKey(secretKey, event.pubkey))
+      : nip04.decrypt(secretKey, event.pubkey, event.content);
+
+  const parsed = JSON.parse(plaintext) as Partial<NostrConnectRequest>;
+  if (typeof parsed.id !== 'string' || typeof parsed.method !== 'string') {
+    throw new Error('Malformed request');
+  }
+  const params = Array.isArray(parsed.params)
+    ? parsed.params.map((param) => (typeof param === 'string' ? param : JSON.stringify(param)))
+    : [];
+  return { request: { id: parsed.id, method: parsed.method, params }, encryption };
+}
+
+export { NostrConnectBunker };
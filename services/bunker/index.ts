@@ -0,0 +1,13 @@
+export { NostrConnectBunker } from './NostrConnectBunker';
+export {
+  buildBunkerUri,
+  createBunkerKeys,
+  createConnectSecret,
+  describePermissionRisk,
+  formatPermission,
+  getBunkerPubkey,
+  isMethodAllowed,
+  parseNostrConnectInvite,
+  parsePermissions,
+  DEFAULT_CLIENT_PERMISSIONS,
+} from './nip46';
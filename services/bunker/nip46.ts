@@ -0,0 +1,111 @@
+import { bytesToHex, hexToBytes } from '@noble/ciphers/utils';
+import { getRandomBytes } from 'expo-crypto';
+import { generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { parseNostrConnectURI, toBunkerURL } from 'nostr-tools/nip46';
+import type { BunkerClient, BunkerKeys, NostrConnectInvite } from '@/types';
+
+const CONNECT_SECRET_LENGTH = 16;
+
+/** Granted to clients that don't request permissions when connecting: nothing beyond the pubkey */
+export const DEFAULT_CLIENT_PERMISSIONS: string[] = [];
+
+/** Methods a paired client may always call */
+const ALWAYS_ALLOWED_METHODS = new Set(['connect', 'ping', 'get_public_key']);
+
+export function createBunkerKeys(): BunkerKeys {
+  return {
+    secretKey: bytesToHex(generateSecretKey()),
+    connectSecret: createConnectSecret(),
+  };
+}
+
+export function createConnectSecret(): string {
+  return bytesToHex(getRandomBytes(CONNECT_SECRET_LENGTH));
+}
+
+export function getBunkerPubkey(keys: BunkerKeys): string {
+  return getPublicKey(hexToBytes(keys.secretKey));
+}
+
+/**
+ * bunker:// URI a client pastes or scans to pair with the bunker.
+ */
+export function buildBunkerUri(keys: BunkerKeys, relays: string[]): string {
+  return toBunkerURL({
+    pubkey: getBunkerPubkey(keys),
+    relays,
+    secret: keys.connectSecret,
+  });
+}
+
+/**
+ * Parse a nostrconnect:// link, with which a client asks the bunker to pair with it.
+ */
+export function parseNostrConnectInvite(uri: string): NostrConnectInvite {
+  const parsed = parseNostrConnectURI(uri.trim());
+  if (!/^[0-9a-f]{64}$/.test(parsed.clientPubkey)) {
+    throw new Error('Invalid nostrconnect URI: client pubkey must be 64 hex characters');
+  }
+  const relays = parsed.params.relays.filter((relay) => /^wss?:\/\//.test(relay));
+  if (relays.length === 0) {
+    throw new Error('Invalid nostrconnect URI: no websocket relays');
+  }
+  return {
+    clientPubkey: parsed.clientPubkey,
+    relays,
+    secret: parsed.params.secret,
+    permissions: parsePermissions(parsed.params.perms?.join(',')),
+    name: parsed.params.name ?? null,
+    url: parsed.params.url ?? null,
+  };
+}
+
+/**
+ * Parse the comma separated permissions of a connect request, e.g. "sign_event:1,nip44_encrypt".
+ */
+export function parsePermissions(perms: string | undefined): string[] {
+  if (!perms) return [...DEFAULT_CLIENT_PERMISSIONS];
+  const parsed = perms
+    .split(',')
+    .map((perm) => perm.trim())
+    .filter((perm) => /^[a-z0-9_]+(:\d+)?$/.test(perm) && !ALWAYS_ALLOWED_METHODS.has(perm));
+  return parsed.length > 0 ? Array.from(new Set(parsed)) : [...DEFAULT_CLIENT_PERMISSIONS];
+}
+
+/**
+ * Human readable label for a permission chip.
+ */
+export function formatPermission(permission: string): string {
+  if (permission === 'sign_event') return 'Sign any kind';
+  if (permission.startsWith('sign_event:')) return `Sign kind ${permission.split(':')[1]}`;
+  if (/^nip(04|44)_(en|de)crypt$/.test(permission)) {
+    const [nip, action] = permission.split('_');
+    return `${action === 'encrypt' ? 'Encrypt' : 'Decrypt'} ${nip.toUpperCase()}`;
+  }
+  return permission;
+}
+
+/**
+ * What granting a permission exposes, for the ones that reach beyond a single kind of event.
+ * Null for narrow permissions.
+ */
+export function describePermissionRisk(permission: string): string | null {
+  if (permission === 'sign_event') {
+    return 'Sign any kind: the app can publish anything as your group key, including profile changes and deletions.';
+  }
+  if (/^nip(04|44)_decrypt$/.test(permission)) {
+    return `${formatPermission(permission)}: the app can read messages between your group key and any pubkey it names.`;
+  }
+  return null;
+}
+
+/**
+ * Whether a paired client may call a method; `kind` narrows sign_event checks.
+ * A bare permission allows every kind, `method:<kind>` allows one.
+ */
+export function isMethodAllowed(client: BunkerClient, method: string, kind?: number): boolean {
+  if (ALWAYS_ALLOWED_METHODS.has(method)) return true;
+  return client.permissions.some(
+    (perm) => perm === method || (kind !== undefined && perm === `${method}:${kind}`)
+  );
+}
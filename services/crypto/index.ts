@@ -0,0 +1 @@
+export { sealWithPassword, openWithPassword, isPasswordEnvelope } from './passwordEnvelope';
@@ -0,0 +1,115 @@
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { getRandomBytes } from 'expo-crypto';
+import type { PasswordEnvelope } from '@/types';
+
+// scrypt cost tuned for phones: ~32 MiB of memory, a second or two on recent hardware
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 } as const;
+// Refuse to derive with parameters a crafted envelope could use to exhaust memory
+const MAX_SCRYPT_N = 2 ** 18;
+const MAX_SCRYPT_R = 16;
+const MAX_SCRYPT_P = 4;
+
+const SALT_LENGTH = 16;
+const NONCE_LENGTH = 24;
+const KEY_LENGTH = 32;
+
+function deriveKey(password: string, salt: Uint8Array, kdf: PasswordEnvelope['kdf']) {
+  return scryptAsync(password.normalize('NFKC'), salt, {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    dkLen: KEY_LENGTH,
+  });
+}
+
+/**
+ * The context string (format and version of the outer container) and every envelope
+ * field except the ciphertext are bound as associated data, so tampering fails decryption.
+ */
+function getAssociatedData(context: string, envelope: Omit<PasswordEnvelope, 'ciphertext'>) {
+  const { kdf } = envelope;
+  return utf8ToBytes(
+    [context, kdf.name, kdf.N, kdf.r, kdf.p, kdf.salt, envelope.cipher, envelope.nonce].join('|')
+  );
+}
+
+/**
+ * Shape check for an envelope parsed from JSON.
+ */
+export function isPasswordEnvelope(value: unknown): value is PasswordEnvelope {
+  if (!value || typeof value !== 'object') return false;
+  const envelope = value as Partial<PasswordEnvelope>;
+  return (
+    envelope.cipher === 'xchacha20-poly1305' &&
+    typeof envelope.nonce === 'string' &&
+    typeof envelope.ciphertext === 'string' &&
+    !!envelope.kdf &&
+    envelope.kdf.name === 'scrypt' &&
+    typeof envelope.kdf.salt === 'string' &&
+    Number.isInteger(envelope.kdf.N) &&
+    Number.isInteger(envelope.kdf.r) &&
+    Number.isInteger(envelope.kdf.p)
+  );
+}
+
+/**
+ * Encrypt text under a password.
+ */
+export async function sealWithPassword(
+  plaintext: string,
+  password: string,
+  context: string
+): Promise<PasswordEnvelope> {
+  const salt = getRandomBytes(SALT_LENGTH);
+  const nonce = getRandomBytes(NONCE_LENGTH);
+  const header: Omit<PasswordEnvelope, 'ciphertext'> = {
+    kdf: { name: 'scrypt', ...SCRYPT_PARAMS, salt: bytesToHex(salt) },
+    cipher: 'xchacha20-poly1305',
+    nonce: bytesToHex(nonce),
+  };
+
+  const key = await deriveKey(password, salt, header.kdf);
+  try {
+    const cipher = xchacha20poly1305(key, nonce, getAssociatedData(context, header));
+    const ciphertext = cipher.encrypt(utf8ToBytes(plaintext));
+    return { ...header, ciphertext: bytesToHex(ciphertext) };
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * Decrypt an envelope. Throws if the password is wrong or the envelope was modified.
+ */
+export async function openWithPassword(
+  envelope: PasswordEnvelope,
+  password: string,
+  context: string
+): Promise<string> {
+  const { kdf } = envelope;
+  if (kdf.N > MAX_SCRYPT_N || kdf.r > MAX_SCRYPT_R || kdf.p > MAX_SCRYPT_P) {
+    throw new Error('Unsupported key derivation parameters');
+  }
+
+  let plaintext: Uint8Array;
+  const key = await deriveKey(password, hexToBytes(kdf.salt), kdf);
+  try {
+    const { ciphertext, ...header } = envelope;
+    const cipher = xchacha20poly1305(
+      key,
+      hexToBytes(envelope.nonce),
+      getAssociatedData(context, header)
+    );
+    plaintext = cipher.decrypt(hexToBytes(ciphertext));
+  } catch {
+    throw new Error('Wrong password or damaged data');
+  } finally {
+    key.fill(0);
+  }
+
+  const text = bytesToUtf8(plaintext);
+  plaintext.fill(0);
+  return text;
+}
@@ -0,0 +1,131 @@
+import { redactLogData, redactString } from '../redaction';
+
+const hex = (char: string) => char.repeat(64);
+
+const PEER_PUBKEY = `02${hex('a')}`;
+const SESSION_ID = hex('b');
+const SIGHASH = hex('c');
+const PSIG = hex('d');
+const HIDDEN_PN = `03${hex('e')}`;
+const BINDER_PN = `02${hex('f')}`;
+const KEYSHARE = `03${hex('1')}`;
+
+// A nostr-p2p signed message as bifrost logs it: the package is serialized into `data`
+function signedMessage(tag: string, pkg: Record<string, unknown>) {
+  return {
+    data: JSON.stringify(pkg),
+    env: { id: hex('9'), kind: 20004, pubkey: PEER_PUBKEY.slice(2), created_at: 1700000000 },
+    id: hex('8'),
+    tag,
+  };
+}
+
+function parseData(entry: unknown): Record<string, unknown> {
+  return JSON.parse((entry as { data: string }).data) as Record<string, unknown>;
+}
+
+describe('redactString', () => {
+  it('redacts credential and private key encodings', () => {
+    expect(redactString('share bfshare1qqqsyqcyq5rqwzq is here')).toBe(
+      'share bfshare1[redacted] is here'
+    );
+    expect(redactString('nsec1vl029mgpspedva04g90vltkh6fvh240zqtv9k0')).toBe('nsec1[redacted]');
+  });
+});
+
+describe('redactLogData', () => {
+  it('redacts secret keys and keeps public fields', () => {
+    const redacted = redactLogData({ share: 'x', pubkey: PEER_PUBKEY, nested: { seckey: 'y' } });
+
+    expect(redacted).toEqual({
+      share: '[redacted]',
+      pubkey: PEER_PUBKEY,
+      nested: { seckey: '[redacted]' },
+    });
+  });
+
+  it('redacts partial signatures in a /sign/sender/res payload', () => {
+    const payload = [
+      signedMessage('/sign/res', {
+        idx: 2,
+        pubkey: PEER_PUBKEY,
+        psigs: [[SIGHASH, PSIG]],
+        sid: SESSION_ID,
+      }),
+    ];
+
+    const redacted = redactLogData({ payload }).payload as unknown[];
+    const pkg = parseData(redacted[0]);
+
+    expect(pkg).toEqual({ idx: 2, pubkey: PEER_PUBKEY, psigs: '[redacted]', sid: SESSION_ID });
+    expect(JSON.stringify(redacted)).not.toContain(PSIG);
+  });
+
+  it('redacts nonces in a received signing commit', () => {
+    const message = signedMessage('/sign/req', {
+      idx: 1,
+      pubkey: PEER_PUBKEY,
+      hidden_pn: HIDDEN_PN,
+      binder_pn: BINDER_PN,
+      bind_hash: hex('2'),
+      sid: SESSION_ID,
+      sighash: SIGHASH,
+    });
+
+    const redacted = redactLogData(message);
+    const pkg = parseData(redacted);
+
+    expect(pkg.hidden_pn).toBe('[redacted]');
+    expect(pkg.binder_pn).toBe('[redacted]');
+    expect(pkg.sighash).toBe(SIGHASH);
+    expect(redacted.tag).toBe('/sign/req');
+    expect(JSON.stringify(redacted)).not.toContain(HIDDEN_PN);
+  });
+
+  it('redacts the key share in an ECDH response', () => {
+    const message = signedMessage('/ecdh/res', {
+      idx: 3,
+      keyshare: KEYSHARE,
+      members: [1, 3],
+      ecdh_pk: PEER_PUBKEY,
+    });
+
+    const pkg = parseData(redactLogData(message));
+
+    expect(pkg).toEqual({ idx: 3, keyshare: '[redacted]', members: [1, 3], ecdh_pk: PEER_PUBKEY });
+  });
+
+  it('keeps pubkeys and sighashes in arrays', () => {
+    const data = { peers: [PEER_PUBKEY], hashes: [[SIGHASH]], members: [1, 3] };
+
+    expect(redactLogData(data)).toEqual(data);
+  });
+
+  it('redacts the shared secret of the aggregated ECDH result by its message', () => {
+    const secret = `03${hex('7')}`;
+    // '/ecdh/sender/ret' is emitted with [ecdh_pk, secret]
+    const payload = [PEER_PUBKEY, secret] as unknown as Record<string, unknown>;
+
+    const redacted = redactLogData(payload, { message: '/ecdh/sender/ret' });
+
+    expect(redacted).toEqual([PEER_PUBKEY, '[redacted]']);
+    expect(JSON.stringify(redacted)).not.toContain(secret);
+    expect(redactLogData({ result: secret }, { message: 'ECDH shares aggregated' })).toEqual({
+      result: '[redacted]',
+    });
+  });
+
+  it('leaves plain strings that are not JSON alone', () => {
+    expect(redactLogData({ data: 'not json {' })).toEqual({ data: 'not json {' });
+  });
+
+  it('redacts event content only when asked', () => {
+    const data = { sessionContent: JSON.stringify({ kind: 4, content: 'hello' }) };
+
+    expect(redactLogData(data)).toEqual(data);
+    expect(JSON.parse(redactLogData(data, { content: true }).sessionContent as string)).toEqual({
+      kind: 4,
+      content: '[redacted 5 chars]',
+    });
+  });
+});
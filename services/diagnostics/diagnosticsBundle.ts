@@ -0,0 +1,57 @@
+import { Platform } from 'react-native';
+import { APP_VERSION, IGLOO_CORE_VERSION } from '@/constants/appInfo';
+import type { DiagnosticsSnapshot, LogEntry } from '@/types';
+import { redactLogData, redactString } from './redaction';
+
+export const DIAGNOSTICS_FORMAT_VERSION = 1;
+
+/**
+ * Build a redacted diagnostics bundle as JSONL, one record per line.
+ * The first records describe the app, device, signer, relays and peers; the rest are log
+ * entries in the order given. Every record has a `type` field.
+ */
+export function buildDiagnosticsBundle(entries: LogEntry[], snapshot: DiagnosticsSnapshot): string {
+  const records: Record<string, unknown>[] = [
+    {
+      type: 'meta',
+      format: DIAGNOSTICS_FORMAT_VERSION,
+      generatedAt: new Date().toISOString(),
+      appVersion: APP_VERSION,
+      iglooCoreVersion: IGLOO_CORE_VERSION,
+      platform: Platform.OS,
+      osVersion: String(Platform.Version),
+      logCount: entries.length,
+    },
+    {
+      type: 'signer',
+      status: snapshot.signerStatus,
+      lastError: snapshot.lastError ? redactString(snapshot.lastError) : null,
+      sessionStartTime: snapshot.sessionStartTime,
+      shareIndex: snapshot.shareDetails?.idx ?? null,
+      threshold: snapshot.shareDetails?.threshold ?? null,
+      totalMembers: snapshot.shareDetails?.totalMembers ?? null,
+      groupPubkey: snapshot.shareDetails?.groupPubkey ?? null,
+    },
+    {
+      type: 'relays',
+      configured: snapshot.relays,
+      connected: snapshot.connectedRelays,
+      health: snapshot.relayHealth,
+    },
+    {
+      type: 'peers',
+      // Notes are free text the user wrote about a co-signer; they stay on the device
+      peers: snapshot.peers.map(({ note: _note, ...peer }) => peer),
+    },
+    ...entries.map((entry) => ({
+      type: 'log',
+      ...entry,
+      message: redactString(entry.message),
+      data: entry.data
+        ? redactLogData(entry.data, { content: true, message: entry.message })
+        : undefined,
+    })),
+  ];
+
+  return records.map((record) => JSON.stringify(record)).join('\n');
+}
@@ -0,0 +1,3 @@
+export { buildDiagnosticsBundle, DIAGNOSTICS_FORMAT_VERSION } from './diagnosticsBundle';
+export { redactLogData, redactString } from './redaction';
+export type { RedactionOptions } from './redaction';
@@ -0,0 +1,139 @@
+// Bech32 encodings of secret material: share, group and onboarding credentials and private keys
+const SECRET_ENCODINGS = /\b(bfshare1|bfgroup1|bfcred1|nsec1|ncryptsec1)[02-9ac-hj-np-z]+/gi;
+
+// Keys whose values are secret, compared lowercase
+const SECRET_KEYS = new Set([
+  'share',
+  'group',
+  'credential',
+  'credentials',
+  'seckey',
+  'secret',
+  'secretkey',
+  'privkey',
+  'privatekey',
+  'nsec',
+  'password',
+  'passphrase',
+  'pin',
+  // Bifrost share packages and ECDH responses
+  'binder_sn',
+  'hidden_sn',
+  'keyshare',
+  // Bifrost signing nonces and partial signatures
+  'binder_pn',
+  'hidden_pn',
+  'nonce',
+  'nonces',
+  'psig',
+  'psigs',
+]);
+
+// Keys whose values may hold private event content, e.g. a DM being signed
+const CONTENT_KEYS = new Set(['content', 'sessioncontent', 'plaintext', 'ciphertext']);
+
+// Messages whose data is the aggregated ECDH result, [ecdh_pk, shared secret], compared lowercase
+const ECDH_RESULT_MESSAGES = ['/ecdh/sender/ret', 'ecdh shares aggregated'];
+
+const MAX_DEPTH = 8;
+
+export interface RedactionOptions {
+  /** Also redact event content; off for the Logs tab, which previews events being signed */
+  content?: boolean;
+  /** Message of the log entry; some messages are only recognizable by it, not by field names */
+  message?: string;
+}
+
+/**
+ * Replace any credential or private key encodings in a string.
+ */
+export function redactString(value: string): string {
+  return value.replace(SECRET_ENCODINGS, (_match, prefix: string) => `${prefix}[redacted]`);
+}
+
+function redactContent(value: unknown, options: RedactionOptions): unknown {
+  if (typeof value !== 'string') return '[redacted]';
+  // Keep the shape of a serialized event, without its content
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return JSON.stringify(redactValue(parsed, 0, options));
+    }
+  } catch {
+    // Not JSON
+  }
+  return `[redacted ${value.length} chars]`;
+}
+
+/**
+ * Redact a string holding serialized JSON, e.g. the `data` of a bifrost message,
+ * which carries nonces and partial signatures. Null when it isn't a JSON object or array.
+ */
+function redactJsonString(value: string, depth: number, options: RedactionOptions): string | null {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return null;
+  try {
+    const parsed = JSON.parse(trimmed) as unknown;
+    if (!parsed || typeof parsed !== 'object') return null;
+    return JSON.stringify(redactValue(parsed, depth, options));
+  } catch {
+    return null;
+  }
+}
+
+function redactValue(value: unknown, depth: number, options: RedactionOptions): unknown {
+  if (typeof value === 'string') {
+    return redactJsonString(value, depth + 1, options) ?? redactString(value);
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[truncated]';
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, depth + 1, options));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const lowerKey = key.toLowerCase();
+    if (SECRET_KEYS.has(lowerKey)) {
+      result[key] = '[redacted]';
+    } else if (options.content && CONTENT_KEYS.has(lowerKey)) {
+      result[key] = redactContent(item, options);
+    } else {
+      result[key] = redactValue(item, depth + 1, options);
+    }
+  }
+  return result;
+}
+
+function isEcdhResult(message: string | undefined): boolean {
+  const normalized = message?.toLowerCase() ?? '';
+  return ECDH_RESULT_MESSAGES.some((ecdhMessage) => normalized.includes(ecdhMessage));
+}
+
+/**
+ * The ECDH result is an unnamed array; keep the counterparty pubkey and drop everything else.
+ */
+function redactEcdhResult(data: Record<string, unknown>): Record<string, unknown> {
+  if (Array.isArray(data)) {
+    return data.map((item, index) =>
+      index === 0 && typeof item === 'string' ? item : '[redacted]'
+    ) as unknown as Record<string, unknown>;
+  }
+  return Object.fromEntries(Object.keys(data).map((key) => [key, '[redacted]']));
+}
+
+/**
+ * Redact secrets from log data: credential encodings, secret keys, nonces and partial signatures,
+ * and the shared secret of an ECDH result (recognized by `options.message`).
+ * Public keys, event ids and kinds are kept so the data stays useful for debugging.
+ */
+export function redactLogData(
+  data: Record<string, unknown>,
+  options: RedactionOptions = {}
+): Record<string, unknown> {
+  if (isEcdhResult(options.message)) {
+    return redactEcdhResult(data);
+  }
+  return redactValue(data, 0, options) as Record<string, unknown>;
+}
@@ -0,0 +1,87 @@
+import EventEmitter from 'eventemitter3';
+import { IglooService } from './IglooService';
+import type { StopSignerOptions } from './types';
+
+interface IglooKeyringEvents {
+  'service:created': (shareId: string, service: IglooService) => void;
+  'service:removed': (shareId: string) => void;
+}
+
+/**
+ * IglooKeyring - Owns one IglooService (and so one BifrostNode) per keyring share,
+ * so signers for several groups can run at the same time.
+ */
+class IglooKeyring extends EventEmitter<IglooKeyringEvents> {
+  private services: Map<string, IglooService> = new Map();
+  // Used for credential helpers (validation, decoding, echo) before a share exists
+  private utilityService = new IglooService();
+
+  /**
+   * Get the service for a share, creating it on first use.
+   * Passing null returns a service that is not bound to any share.
+   */
+  getService(shareId: string | null): IglooService {
+    if (!shareId) return this.utilityService;
+
+    let service = this.services.get(shareId);
+    if (!service) {
+      service = new IglooService();
+      this.services.set(shareId, service);
+      this.emit('service:created', shareId, service);
+    }
+    return service;
+  }
+
+  /**
+   * Get the service for a share without creating one.
+   */
+  peekService(shareId: string): IglooService | undefined {
+    return this.services.get(shareId);
+  }
+
+  /**
+   * All shares that currently have a service, with the service.
+   */
+  getServices(): Array<[string, IglooService]> {
+    return Array.from(this.services.entries());
+  }
+
+  /**
+   * Shares whose signer node is currently running.
+   */
+  getRunningShareIds(): string[] {
+    return this.getServices()
+      .filter(([, service]) => service.isRunning())
+      .map(([shareId]) => shareId);
+  }
+
+  /**
+   * Stop and forget the service for a share (used when the share is deleted).
+   */
+  async removeService(shareId: string): Promise<void> {
+    const service = this.services.get(shareId);
+    if (!service) return;
+
+    await service.stopSigner();
+    this.services.delete(shareId);
+    this.emit('service:removed', shareId);
+    service.dispose();
+  }
+
+  /**
+   * Stop every running signer.
+   */
+  async stopAll(options?: StopSignerOptions): Promise<void> {
+    await Promise.all(
+      this.getServices()
+        .filter(([, service]) => service.isRunning())
+        .map(([, service]) => service.stopSigner(options))
+    );
+  }
+}
+
+// Export singleton instance
+export const iglooKeyring = new IglooKeyring();
+
+// Export class for testing
+export { IglooKeyring };
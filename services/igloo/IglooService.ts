@@ -1,5 +1,11 @@
 import { audioService } from '@/services/audio';
-import { androidForegroundSignerService } from '@/services/background';
+import {
+  androidForegroundSignerService,
+  type ForegroundSignerContent,
+} from '@/services/background';
+import { SigningPolicyEngine } from '@/services/policy';
+import { RelayHealthMonitor } from '@/services/relay';
+import { redactLogData, redactString } from '@/services/diagnostics';
 import type {
   SigningRequest,
   SigningResult,
@@ -12,6 +18,14 @@ import type {
   LogCategory,
   LogEntry,
   IglooServiceEvents,
+  SigningPolicyConfig,
+  SigningPolicyContext,
+  SigningPolicyDecision,
+  SigningApprovalDecision,
+  SignerStatus,
+  RelayHealth,
+  SenderSignature,
+  SigningRequestType,
 } from '@/types';
 import type { BifrostNode } from '@frostr/bifrost';
 import type { NodeEventConfig, PingResult as IglooPingResult } from '@frostr/igloo-core';
@@ -31,6 +45,7 @@ import {
 } from '@frostr/igloo-core';
 import EventEmitter from 'eventemitter3';
 import { Platform } from 'react-native';
+import { getVerifiedSessionEvent } from './nostrEvent';
 import type { StartSignerOptions, StopSignerOptions } from './types';
 
 // Background audio soundscape is iOS-only because:
@@ -40,6 +55,59 @@ const ENABLE_BACKGROUND_AUDIO = Platform.OS === 'ios';
 const ENABLE_ANDROID_FOREGROUND_SERVICE =
   Platform.OS === 'android' && androidForegroundSignerService.isAvailable();
 
+// Prefix on errors thrown from the sign middleware so rejections can be told apart
+// from protocol failures when they come back through '/sign/handler/rej'.
+const POLICY_REJECTION_PREFIX = 'Rejected by signing policy';
+// Prefix on errors thrown for 'ask' decisions; the request is parked until the user answers.
+const APPROVAL_HOLD_PREFIX = 'Held for user approval';
+const DEFAULT_APPROVAL_TIMEOUT_MS = 30000;
+// The requester stops waiting after nostr-p2p's 5s req_timeout, long before anyone can answer,
+// so an 'ask' request is declined at once. Approving it lets the same peer's next request of
+// that kind through within this window instead.
+const PREAUTHORIZATION_TTL_MS = 2 * 60 * 1000;
+
+const DEFAULT_CONNECTION_TIMEOUT_MS = 15000;
+// Reconnect backoff: 2s, 4s, 8s ... capped at 60s, each with up to 30% jitter
+const RECONNECT_BASE_DELAY_MS = 2000;
+const RECONNECT_MAX_DELAY_MS = 60000;
+const RECONNECT_JITTER_RATIO = 0.3;
+const RECONNECT_MAX_ATTEMPTS = 10;
+
+// Order in which instance statuses win when summarizing them for the Android notification
+const FOREGROUND_STATUS_PRIORITY: SignerStatus[] = [
+  'running',
+  'reconnecting',
+  'connecting',
+  'error',
+  'stopped',
+];
+
+
+// Every live IglooService. Keyring shares each run their own instance, but the
+// iOS audio and Android foreground service keepalive is shared by the process.
+const signerInstances = new Set<IglooService>();
+
+interface ReconnectState {
+  groupCredential: string;
+  // Decrypted share, held only until reconnecting succeeds, gives up or is cancelled
+  shareCredential: string | null;
+  relays: string[];
+  options: StartSignerOptions;
+  attempt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * A user approval waiting for the peer to retry the exact request: the same sighash,
+ * or the same ECDH counterparty
+ */
+interface Preauthorization {
+  pubkey: string;
+  type: SigningRequestType;
+  target: string;
+  expiresAt: number;
+}
+
 class StartCancelledError extends Error {
   constructor(stage: string) {
     super(`Signer start cancelled (${stage})`);
@@ -56,6 +124,17 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
   private groupCredential: string | null = null;
   private shareCredential: string | null = null;
   private currentRelays: string[] = [];
+  // Relays and options the running node was started with, reused when reconnecting
+  private requestedRelays: string[] = [];
+  private startOptions: StartSignerOptions = {};
+  // Set while waiting to reconnect after the node closed unexpectedly
+  private reconnectState: ReconnectState | null = null;
+  // Per-relay connection state, latency and error counts for the running node
+  private relayHealth = new RelayHealthMonitor({
+    onUpdate: (health) => this.emit('relay:health', health),
+    onConnectionChange: (relay, connected) => this.handleRelayConnectionChange(relay, connected),
+    log: (level, message, data) => this.log(level, 'relay', message, data),
+  });
   private peerExtractionMode: 'igloo-core' | 'manual' = 'igloo-core';
   private peerExtractionFallbackLogged = false;
   private peerExtractionKey: string | null = null;
@@ -75,6 +154,47 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
   private cancelledStartAttemptId = 0;
   // Preserve iOS audio during restart, but roll it back if the replacement start never succeeds.
   private keepAudioDuringRestart = false;
+  // Approval policy applied to inbound signing requests before a partial signature is produced
+  private signingPolicy = new SigningPolicyEngine();
+  // Requests declined by an 'ask' decision, waiting for approve/reject or timeout
+  private heldRequests: Map<
+    string,
+    { request: SigningRequest; timer: ReturnType<typeof setTimeout> }
+  > = new Map();
+  // Approvals waiting for the peer to send the request again; each one is used once
+  private preauthorizations: Preauthorization[] = [];
+  private approvalTimeoutMs = DEFAULT_APPROVAL_TIMEOUT_MS;
+  // Last emitted status and this session's request counts, shown in the Android notification
+  private status: SignerStatus = 'stopped';
+  private requestCounts = { received: 0, completed: 0 };
+
+  constructor() {
+    super();
+    signerInstances.add(this);
+
+    this.on('status:changed', (status) => {
+      this.status = status;
+      this.updateForegroundNotification();
+    });
+    this.on('signing:request', () => {
+      this.requestCounts.received += 1;
+      this.updateForegroundNotification();
+    });
+    this.on('signing:complete', () => {
+      this.requestCounts.completed += 1;
+      this.updateForegroundNotification();
+    });
+  }
+
+  /**
+   * Release this instance once its keyring share is removed.
+   */
+  dispose(): void {
+    this.cancelReconnect('disposed');
+    this.relayHealth.reset();
+    signerInstances.delete(this);
+    this.removeAllListeners();
+  }
 
   /**
    * Start the signer node and connect to relays.
@@ -83,7 +203,24 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
     groupCredential: string,
     shareCredential: string,
     relays: string[],
-    _options: StartSignerOptions = {}
+    options: StartSignerOptions = {}
+  ): Promise<void> {
+    this.cancelReconnect('manual-start');
+    this.relayHealth.reset();
+    this.requestCounts = { received: 0, completed: 0 };
+    await this.connectSigner(groupCredential, shareCredential, relays, options, false);
+  }
+
+  /**
+   * Shared start path for manual starts and reconnect attempts.
+   * A reconnect keeps the audio and foreground service keepalive from the closed node.
+   */
+  private async connectSigner(
+    groupCredential: string,
+    shareCredential: string,
+    relays: string[],
+    options: StartSignerOptions,
+    isReconnect: boolean
   ): Promise<void> {
     const startAttemptId = this.beginStartAttempt();
     let connectedNode: BifrostNode | null = null;
@@ -104,11 +241,11 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
         this.throwIfStartCancelled(startAttemptId, 'after-restart-stop');
       }
 
-      this.emit('status:changed', 'connecting');
+      this.emit('status:changed', isReconnect ? 'reconnecting' : 'connecting');
       this.log('info', 'system', 'Starting signer node...', { relays });
 
       this.throwIfStartCancelled(startAttemptId, 'before-foreground-service-start');
-      if (ENABLE_ANDROID_FOREGROUND_SERVICE) {
+      if (ENABLE_ANDROID_FOREGROUND_SERVICE && !isReconnect) {
         await this.startAndroidForegroundService();
         this.throwIfStartCancelled(startAttemptId, 'after-foreground-service-start');
       }
@@ -125,6 +262,18 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
             return;
           }
           const tag = extractSignedMessageTag(data);
+          // The aggregated ECDH result is the shared secret itself; never log it
+          if (
+            normalizedMessage.includes('ecdh shares aggregated') ||
+            normalizedMessage.includes('/ecdh/sender/ret')
+          ) {
+            return;
+          }
+          // Other ECDH payloads carry key shares; keep the line without them
+          if (normalizedMessage.includes('ecdh') || tag?.startsWith('/ecdh/')) {
+            this.log(level as LogLevel, 'system', message);
+            return;
+          }
           if (tag?.startsWith('/sign/')) {
             const session = extractSigningSessionDetails(data);
             const pubkey = extractSignedMessagePubkey(data);
@@ -146,13 +295,17 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
         },
       };
 
-      const connection = await createConnectedNode(
-        {
-          group: groupCredential,
-          share: shareCredential,
-          relays,
-        },
-        eventConfig
+      const connection = await this.withConnectionTimeout(
+        createConnectedNode(
+          {
+            group: groupCredential,
+            share: shareCredential,
+            relays,
+            policies: this.getStartPolicies(options.peerPolicies),
+          },
+          eventConfig
+        ),
+        options.connectionTimeout ?? DEFAULT_CONNECTION_TIMEOUT_MS
       );
       if (this.isStartCancelled(startAttemptId)) {
         cleanupBifrostNode(connection.node);
@@ -161,26 +314,31 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
 
       const { node, state } = connection;
       connectedNode = node;
+      this.installSigningPolicyMiddleware(node);
 
       this.node = node;
       this.groupCredential = groupCredential;
       this.shareCredential = shareCredential;
       this.currentRelays = state.connectedRelays;
+      this.requestedRelays = [...relays];
+      this.startOptions = options;
 
       // Fail fast if no relays connected
       if (this.currentRelays.length === 0) {
         cleanupBifrostNode(this.node);
         this.resetRuntimeState();
-        this.emit('status:changed', 'error');
+        // The catch below reports the error; a reconnect stays 'reconnecting' until it gives up
         throw new Error('Failed to connect to any relays');
       }
 
       this.setupNodeEventListeners();
+      this.relayHealth.attach(node, relays, state.connectedRelays);
 
       this.emit('status:changed', 'running');
 
-      // Start background audio to keep app alive in iOS background mode
-      if (ENABLE_BACKGROUND_AUDIO) {
+      // Start background audio to keep app alive in iOS background mode.
+      // A reconnect finds it still playing from before the node closed.
+      if (ENABLE_BACKGROUND_AUDIO && !isReconnect) {
         this.throwIfStartCancelled(startAttemptId, 'before-audio-start');
         try {
           // Set up callback to receive native audio status changes (interruptions, etc.)
@@ -254,6 +412,11 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
         return;
       }
 
+      // The supervisor schedules the next attempt; keep the keepalive and status as they are
+      if (isReconnect) {
+        throw error;
+      }
+
       if (this.isCurrentStartAttempt(startAttemptId)) {
         await this.stopAndroidForegroundService();
       }
@@ -282,6 +445,7 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
     if (options.cancelPendingStart !== false) {
       this.cancelPendingStart('manual-stop');
     }
+    this.cancelReconnect('manual-stop');
 
     this.log('info', 'system', 'Stopping signer node...', {
       keepAudio: options.keepAudio,
@@ -305,7 +469,7 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
     if (!ENABLE_ANDROID_FOREGROUND_SERVICE) return;
 
     try {
-      await androidForegroundSignerService.start();
+      await androidForegroundSignerService.start(this.getForegroundContent());
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.log('error', 'system', 'Failed to start Android foreground service', {
@@ -315,11 +479,54 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
     }
   }
 
+  /**
+   * Show the latest status and request counts in the Android foreground service notification.
+   */
+  private updateForegroundNotification(): void {
+    if (!ENABLE_ANDROID_FOREGROUND_SERVICE) return;
+
+    androidForegroundSignerService.update(this.getForegroundContent()).catch((error) => {
+      this.log('warn', 'system', 'Failed to update Android foreground service notification', {
+        error: error instanceof Error ? error.message : 'Unknown',
+      });
+    });
+  }
+
+  /**
+   * Summarize every signer in the process; the notification is shared like the keepalive.
+   */
+  private getForegroundContent(): ForegroundSignerContent {
+    const content: ForegroundSignerContent = {
+      status: 'stopped',
+      runningSigners: 0,
+      requestsReceived: 0,
+      requestsCompleted: 0,
+    };
+    for (const instance of signerInstances) {
+      if (
+        FOREGROUND_STATUS_PRIORITY.indexOf(instance.status) <
+        FOREGROUND_STATUS_PRIORITY.indexOf(content.status)
+      ) {
+        content.status = instance.status;
+      }
+      if (instance.status === 'running') {
+        content.runningSigners += 1;
+      }
+      content.requestsReceived += instance.requestCounts.received;
+      content.requestsCompleted += instance.requestCounts.completed;
+    }
+    return content;
+  }
+
   /**
    * Stop audio-related keepalive resources.
    */
   private async stopBackgroundAudio(): Promise<void> {
     if (!ENABLE_BACKGROUND_AUDIO) return;
+    if (this.isKeepaliveSharedWithOtherSigner()) {
+      this.log('debug', 'system', 'Keeping background audio for other running signers');
+      return;
+    }
 
     audioService.stopHealthCheck();
     audioService.unsubscribeFromNativeEvents();
@@ -340,6 +547,7 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
    */
   private async stopAndroidForegroundService(): Promise<void> {
     if (!ENABLE_ANDROID_FOREGROUND_SERVICE) return;
+    if (this.isKeepaliveSharedWithOtherSigner()) return;
 
     try {
       await androidForegroundSignerService.stop();
@@ -350,18 +558,44 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
     }
   }
 
+  /**
+   * True when another instance is running or starting and still needs the keepalive.
+   */
+  private isKeepaliveSharedWithOtherSigner(): boolean {
+    for (const instance of signerInstances) {
+      if (instance === this) continue;
+      if (
+        instance.node !== null ||
+        instance.currentStartAttemptId !== null ||
+        instance.reconnectState !== null
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * Reset in-memory signer state to a fully stopped baseline.
    */
   private resetRuntimeState(): void {
     this.node = null;
-    this.groupCredential = null;
+    // A passphrase-protected share is only held decrypted while the node runs, or a
+    // reconnect is pending (see releaseReconnectState()).
+    // JS strings can't be overwritten in place, so drop every reference to the
+    // share (including the extraction cache key built from it) for the GC to reclaim.
     this.shareCredential = null;
+    this.peerExtractionKey = null;
+    this.groupCredential = null;
     this.currentRelays = [];
+    this.requestedRelays = [];
+    this.startOptions = {};
     this.peerExtractionMode = 'igloo-core';
     this.peerExtractionFallbackLogged = false;
-    this.peerExtractionKey = null;
     this.pendingRequests.clear();
+    this.signingPolicy.resetRateHistory();
+    this.expireHeldRequests();
+    this.preauthorizations = [];
   }
 
   /**
@@ -474,6 +708,7 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
     keepAudio?: boolean;
     keepForegroundService?: boolean;
     reason: string;
+    status?: SignerStatus;
   }): Promise<boolean> {
     if (this.teardownPromise) {
       this.log('debug', 'system', 'Signer teardown already in progress', { reason: options.reason });
@@ -495,6 +730,7 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
 
       // Remove handlers before destroying the node to prevent duplicate close/error events.
       this.cleanupNodeEventListeners();
+      this.relayHealth.detach();
 
       if (this.node) {
         cleanupBifrostNode(this.node);
@@ -508,7 +744,7 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
     } finally {
       try {
         this.resetRuntimeState();
-        this.emit('status:changed', 'stopped');
+        this.emit('status:changed', options.status ?? 'stopped');
         if (!options.keepAudio) {
           await this.stopBackgroundAudio();
         }
@@ -530,10 +766,181 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
   private async handleUnexpectedNodeClosure(): Promise<void> {
     this.log('warn', 'system', 'Node connection closed');
     this.cancelPendingStart('node-closed');
-    await this.teardownSigner({
-      keepAudio: false,
-      keepForegroundService: false,
+
+    // Capture what is needed to reconnect before teardown clears the runtime state
+    const { groupCredential, shareCredential } = this;
+    const reconnectState: ReconnectState | null =
+      this.startOptions.autoReconnect !== false && groupCredential && shareCredential
+        ? {
+            groupCredential,
+            shareCredential,
+            relays: [...this.requestedRelays],
+            options: this.startOptions,
+            attempt: 0,
+            timer: null,
+          }
+        : null;
+    const shouldReconnect = reconnectState !== null;
+
+    const didTeardown = await this.teardownSigner({
+      keepAudio: shouldReconnect,
+      keepForegroundService: shouldReconnect,
       reason: 'node-closed',
+      status: shouldReconnect ? 'reconnecting' : 'stopped',
+    });
+    if (!didTeardown) return;
+    if (!reconnectState) {
+      this.emit('signer:lost', 'Node connection closed');
+      return;
+    }
+
+    this.reconnectState = reconnectState;
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Exponential backoff with jitter, so many phones dropping off a relay don't retry in lockstep.
+   */
+  private getReconnectDelay(attempt: number): number {
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+    const jitter = delay * RECONNECT_JITTER_RATIO * Math.random();
+    return Math.round(delay - jitter);
+  }
+
+  /**
+   * Queue the next reconnect attempt, or give up once the attempt cap is reached.
+   */
+  private scheduleReconnect(): void {
+    const state = this.reconnectState;
+    if (!state) return;
+
+    if (state.attempt >= RECONNECT_MAX_ATTEMPTS) {
+      void this.giveUpReconnect();
+      return;
+    }
+
+    state.attempt += 1;
+    const delayMs = this.getReconnectDelay(state.attempt);
+    this.log(
+      'info',
+      'relay',
+      `Reconnecting in ${Math.ceil(delayMs / 1000)}s (attempt ${state.attempt}/${RECONNECT_MAX_ATTEMPTS})`,
+      { attempt: state.attempt, delayMs, relays: state.relays }
+    );
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      void this.attemptReconnect(state);
+    }, delayMs);
+  }
+
+  private async attemptReconnect(state: ReconnectState): Promise<void> {
+    const { shareCredential } = state;
+    if (this.reconnectState !== state || !shareCredential) return;
+
+    this.log('info', 'relay', `Reconnect attempt ${state.attempt}/${RECONNECT_MAX_ATTEMPTS}`, {
+      attempt: state.attempt,
+      relays: state.relays,
+    });
+    this.relayHealth.recordReconnectAttempt();
+
+    try {
+      await this.connectSigner(
+        state.groupCredential,
+        shareCredential,
+        state.relays,
+        state.options,
+        true
+      );
+    } catch (error) {
+      if (this.reconnectState !== state) return;
+      this.log('warn', 'relay', `Reconnect attempt ${state.attempt} failed`, {
+        attempt: state.attempt,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      this.scheduleReconnect();
+      return;
+    }
+
+    // A manual stop or start during the attempt replaced this supervisor
+    if (this.reconnectState !== state) return;
+    this.releaseReconnectState(state);
+    if (this.node) {
+      this.log('info', 'relay', `Reconnected after ${state.attempt} attempt(s)`, {
+        attempt: state.attempt,
+      });
+    }
+  }
+
+  /**
+   * Stop retrying and release the keepalive, leaving the signer in the error state.
+   */
+  private async giveUpReconnect(): Promise<void> {
+    const state = this.reconnectState;
+    if (!state) return;
+    this.releaseReconnectState(state);
+
+    const message = `Could not reconnect after ${state.attempt} attempts`;
+    this.log('error', 'relay', message, { relays: state.relays });
+    await this.stopBackgroundAudio();
+    await this.stopAndroidForegroundService();
+    this.emit('status:changed', 'error');
+    this.emit('error', new Error(message));
+    this.emit('signer:lost', message);
+  }
+
+  /**
+   * Cancel a pending reconnect. The share held for reconnecting is dropped with it.
+   */
+  private cancelReconnect(reason: string): void {
+    const state = this.reconnectState;
+    if (!state) return;
+    this.releaseReconnectState(state);
+    this.log('debug', 'relay', 'Cancelled reconnect', { reason, attempt: state.attempt });
+  }
+
+  /**
+   * Detach a reconnect supervisor and drop the decrypted share it held, like resetRuntimeState().
+   */
+  private releaseReconnectState(state: ReconnectState): void {
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+    state.shareCredential = null;
+    if (this.reconnectState === state) {
+      this.reconnectState = null;
+    }
+  }
+
+  /**
+   * Reject if the relay connection takes longer than `timeoutMs`.
+   * A node that connects after the timeout is cleaned up instead of leaking.
+   */
+  private withConnectionTimeout<T extends { node: BifrostNode }>(
+    connection: Promise<T>,
+    timeoutMs: number
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        reject(new Error(`Relay connection timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+
+      connection.then(
+        (result) => {
+          clearTimeout(timer);
+          if (timedOut) {
+            cleanupBifrostNode(result.node);
+            return;
+          }
+          resolve(result);
+        },
+        (error) => {
+          clearTimeout(timer);
+          if (!timedOut) reject(error);
+        }
+      );
     });
   }
 
@@ -551,6 +958,34 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
     return [...this.currentRelays];
   }
 
+  /**
+   * Get health for each relay of the current or last session.
+   */
+  getRelayHealth(): RelayHealth[] {
+    return this.relayHealth.getSnapshot();
+  }
+
+  /**
+   * Probe every relay now instead of waiting for the next interval.
+   */
+  async refreshRelayHealth(): Promise<void> {
+    await this.relayHealth.probe();
+  }
+
+  /**
+   * Keep the connected relay list in step with what the health probes observe.
+   */
+  private handleRelayConnectionChange(relay: string, connected: boolean): void {
+    const isListed = this.currentRelays.includes(relay);
+    if (connected && !isListed) {
+      this.currentRelays = [...this.currentRelays, relay];
+      this.emit('relay:connected', relay);
+    } else if (!connected && isListed) {
+      this.currentRelays = this.currentRelays.filter((url) => url !== relay);
+      this.emit('relay:disconnected', relay);
+    }
+  }
+
   /**
    * Validate share and group credentials.
    */
@@ -731,12 +1166,23 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
    * Extracts peer pubkeys directly from group.commits, excluding self.
    */
   private extractPeersManually(groupCredential: string, shareCredential: string): string[] {
-    const decodedGroup = decodeGroup(groupCredential);
     const decodedShare = decodeShare(shareCredential);
+    return this.getGroupMembers(groupCredential, decodedShare.idx).peers;
+  }
+
+  /**
+   * Resolve self and peer pubkeys from the group alone, given our share index.
+   * Lets the peer list load while a passphrase-protected share is still encrypted.
+   */
+  getGroupMembers(
+    groupCredential: string,
+    shareIdx: number
+  ): { selfPubkey: string | null; peers: string[] } {
+    const decodedGroup = decodeGroup(groupCredential);
 
     // Find self pubkey by matching share index
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const selfCommit = decodedGroup.commits?.find((c: any) => c.idx === decodedShare.idx);
+    const selfCommit = decodedGroup.commits?.find((c: any) => c.idx === shareIdx);
     const selfPubkey = normalizePeerPubkey(selfCommit?.pubkey);
 
     // Extract all peer pubkeys, excluding self
@@ -747,12 +1193,12 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
 
     this.log('debug', 'peer', 'Manual peer extraction', {
       totalCommits: decodedGroup.commits?.length,
-      selfIdx: decodedShare.idx,
+      selfIdx: shareIdx,
       selfPubkey: selfPubkey ? truncatePubkey(selfPubkey) : 'not found',
       peerCount: peers.length,
     });
 
-    return Array.from(new Set(peers));
+    return { selfPubkey, peers: Array.from(new Set(peers)) };
   }
 
   /**
@@ -936,7 +1382,102 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
   }
 
   /**
-   * Update peer policies.
+   * Run a signing round with this device as the sender and return the aggregated signature.
+   * @param sighash - 32-byte message hash, hex
+   * @param content - What is being signed, shown to co-signers; e.g. the event JSON
+   */
+  async requestSignature(sighash: string, content: string | null = null): Promise<SenderSignature> {
+    if (!this.node) {
+      throw new Error('Signer not running');
+    }
+    const normalizedHash = sighash.trim().toLowerCase();
+    if (!/^[0-9a-f]{64}$/.test(normalizedHash)) {
+      throw new Error('Message hash must be 32 bytes of hex');
+    }
+
+    this.log('info', 'signing', 'Starting signing round', {
+      sighash: normalizedHash,
+      hasContent: content !== null,
+    });
+
+    const response = await this.node.req.sign(normalizedHash, { content });
+    if (!response.ok) {
+      this.log('error', 'signing', 'Signing round failed', {
+        sighash: normalizedHash,
+        error: response.err,
+      });
+      throw new Error(response.err);
+    }
+
+    const entry = response.data.find(([hash]) => hash === normalizedHash) ?? response.data[0];
+    if (!entry) {
+      throw new Error('Signing round returned no signature');
+    }
+    const [, pubkey, signature] = entry;
+
+    this.log('info', 'signing', 'Signing round completed', {
+      sighash: normalizedHash,
+      pubkey,
+    });
+    return { sighash: normalizedHash, pubkey, signature };
+  }
+
+  /**
+   * Run a threshold ECDH round with this device as the sender and return the shared secret.
+   * Bifrost caches secrets per pubkey, so repeat calls for the same peer don't reach the relays.
+   * @param pubkey - Counterparty pubkey, x-only or compressed hex
+   * @returns Compressed shared point, hex; its x coordinate is the NIP-04/NIP-44 shared secret
+   */
+  async requestEcdh(pubkey: string): Promise<string> {
+    if (!this.node) {
+      throw new Error('Signer not running');
+    }
+    const ecdhPubkey = pubkey.trim().toLowerCase();
+    if (!/^([0-9a-f]{64}|0[23][0-9a-f]{64})$/.test(ecdhPubkey)) {
+      throw new Error('Pubkey must be 32 or 33 bytes of hex');
+    }
+
+    this.log('info', 'signing', 'Starting ECDH round', { ecdhPubkey });
+
+    const response = await this.node.req.ecdh(ecdhPubkey);
+    if (!response.ok) {
+      this.log('error', 'signing', 'ECDH round failed', {
+        ecdhPubkey,
+        error: response.err,
+      });
+      throw new Error(response.err);
+    }
+
+    this.log('info', 'signing', 'ECDH round completed', { ecdhPubkey });
+    return response.data;
+  }
+
+  /**
+   * Saved peer policies for a new node. A policy with an unusable pubkey is skipped
+   * rather than failing the start.
+   */
+  private getStartPolicies(policies: PeerPolicy[] = []): ReturnType<typeof toNodePolicy>[] {
+    const nodePolicies: ReturnType<typeof toNodePolicy>[] = [];
+    let skipped = 0;
+    for (const policy of policies) {
+      try {
+        nodePolicies.push(toNodePolicy(policy));
+      } catch {
+        skipped += 1;
+      }
+    }
+
+    if (nodePolicies.length > 0 || skipped > 0) {
+      this.log('info', 'peer', 'Applying saved peer policies', {
+        count: nodePolicies.length,
+        skipped,
+      });
+    }
+    return nodePolicies;
+  }
+
+  /**
+   * Update peer policies on the running node, merged with the current ones.
    */
   async updatePeerPolicies(policies: PeerPolicy[]): Promise<void> {
     if (!this.node) {
@@ -946,22 +1487,26 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
     this.log('info', 'peer', 'Updating peer policies', { count: policies.length });
 
     try {
-      const normalizedPolicies = policies.map((p) => {
-        const normalizedPubkey = normalizePeerPubkey(p.pubkey);
-        if (!normalizedPubkey) {
-          throw new Error('Invalid peer policy pubkey');
-        }
-        return {
-          pubkey: normalizedPubkey,
-          allowSend: p.allowSend,
-          allowReceive: p.allowReceive,
-          label: p.label,
-          note: p.note,
-        };
-      });
+      const normalizedPolicies = policies.map(toNodePolicy);
 
       await setNodePolicies(this.node, normalizedPolicies, { merge: true });
 
+      // A reconnect builds a new node from startOptions; keep it in step with live edits
+      const updated = new Set(normalizedPolicies.map((policy) => policy.pubkey));
+      this.startOptions = {
+        ...this.startOptions,
+        peerPolicies: [
+          ...(this.startOptions.peerPolicies ?? []).filter((policy) => {
+            try {
+              return !updated.has(normalizePeerPubkey(policy.pubkey) ?? '');
+            } catch {
+              return false;
+            }
+          }),
+          ...normalizedPolicies,
+        ],
+      };
+
       this.log('info', 'peer', 'Peer policies updated successfully');
     } catch (error) {
       this.log('error', 'peer', 'Failed to update policies', {
@@ -971,6 +1516,245 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
     }
   }
 
+  /**
+   * Replace the signing approval policy. Takes effect for the next inbound request.
+   */
+  setSigningPolicy(config: SigningPolicyConfig): void {
+    this.signingPolicy.setConfig(config);
+    this.log('debug', 'signing', 'Signing policy updated', {
+      defaultAction: config.defaultAction,
+      ruleCount: config.rules.length,
+      enabledRuleCount: config.rules.filter((rule) => rule.enabled).length,
+    });
+  }
+
+  /**
+   * Set how long an "ask" request waits for the user before it is rejected.
+   */
+  setApprovalTimeout(timeoutMs: number): void {
+    this.approvalTimeoutMs = timeoutMs;
+  }
+
+  /**
+   * Approve a held signing request. Its round has already failed on the requester's side,
+   * so this pre-authorizes the same peer's retry of the same sighash or ECDH counterparty.
+   */
+  approveSigningRequest(requestId: string): void {
+    const held = this.heldRequests.get(requestId);
+    if (!held) {
+      throw new Error('Signing request is no longer awaiting approval');
+    }
+    if (!this.node) {
+      throw new Error('Signer not running');
+    }
+
+    const { request } = held;
+    const target = getPreauthorizationTarget(
+      request.type,
+      request.type === 'ecdh' ? request.ecdhPubkey : request.sighash
+    );
+    if (!target) {
+      throw new Error('This request has nothing to bind an approval to; ask the peer to send it again');
+    }
+
+    clearTimeout(held.timer);
+    this.heldRequests.delete(requestId);
+
+    this.preauthorizations.push({
+      pubkey: normalizeRequester(request.pubkey),
+      type: request.type,
+      target,
+      expiresAt: Date.now() + PREAUTHORIZATION_TTL_MS,
+    });
+
+    this.log('info', 'signing', 'Signing request approved; the peer\'s retry of it will be signed', {
+      requestId,
+      pubkey: request.pubkey,
+      kind: request.eventKind,
+      sighash: request.sighash,
+      ecdhPubkey: request.ecdhPubkey,
+      validForMs: PREAUTHORIZATION_TTL_MS,
+    });
+    this.emit('signing:approval', requestId, 'approved');
+  }
+
+  /**
+   * Reject a held signing request. No partial signature is sent.
+   */
+  rejectSigningRequest(requestId: string): void {
+    this.resolveHeldRequest(requestId, 'rejected');
+  }
+
+  /**
+   * Drop a held request and notify listeners of the outcome.
+   */
+  private resolveHeldRequest(
+    requestId: string,
+    decision: Exclude<SigningApprovalDecision, 'approved'>
+  ): void {
+    const held = this.heldRequests.get(requestId);
+    if (!held) return;
+
+    clearTimeout(held.timer);
+    this.heldRequests.delete(requestId);
+
+    const message =
+      decision === 'expired'
+        ? 'Signing request approval timed out'
+        : 'Signing request rejected by user';
+    this.log('warn', 'signing', message, {
+      requestId,
+      pubkey: held.request.pubkey,
+      kind: held.request.eventKind,
+    });
+    this.emit('signing:approval', requestId, decision);
+  }
+
+  /**
+   * Park a request that policy marked as "ask" until the user answers or it times out.
+   */
+  private holdSigningRequest(request: SigningRequest): void {
+    const expiresAt = new Date(Date.now() + this.approvalTimeoutMs);
+    const heldRequest: SigningRequest = { ...request, status: 'held', expiresAt };
+    const timer = setTimeout(() => {
+      this.resolveHeldRequest(request.id, 'expired');
+    }, this.approvalTimeoutMs);
+
+    this.heldRequests.set(request.id, { request: heldRequest, timer });
+
+    this.log('info', 'signing', 'Signing request awaiting approval', {
+      requestId: request.id,
+      type: request.type,
+      pubkey: request.pubkey,
+      kind: request.eventKind,
+      policyRule: request.policyDecision?.ruleName,
+      timeoutMs: this.approvalTimeoutMs,
+    });
+    this.emit('signing:held', heldRequest);
+  }
+
+  /**
+   * Expire every held request (used when the signer stops).
+   */
+  private expireHeldRequests(): void {
+    for (const requestId of Array.from(this.heldRequests.keys())) {
+      this.resolveHeldRequest(requestId, 'expired');
+    }
+  }
+
+  /**
+   * Evaluate an inbound sign session against the current policy.
+   * Bifrost signs every hash in the session, but the content can only vouch for one,
+   * so sessions with any other number of hashes are denied outright.
+   */
+  private evaluateSignSession(
+    pubkey: string | undefined,
+    session: { sessionContent?: string | null; sessionSighash?: string; sessionHashCount?: number },
+    timestamp: Date
+  ): SigningPolicyDecision {
+    if (session.sessionHashCount !== 1) {
+      return {
+        action: 'deny',
+        ruleId: null,
+        reason: `Signing sessions must carry exactly one hash; this one has ${session.sessionHashCount ?? 0}`,
+        evaluatedAt: timestamp.toISOString(),
+      };
+    }
+
+    // Kind and content rules only see an event that hashes to the sighash; otherwise a
+    // requester could label any hash as an allowed kind
+    const event = getVerifiedSessionEvent(session.sessionContent, session.sessionSighash);
+    return this.evaluateSigningPolicy(
+      'sign',
+      pubkey,
+      session.sessionSighash,
+      { eventKind: event?.kind, content: event?.content, unverified: !event },
+      timestamp
+    );
+  }
+
+  /**
+   * Evaluate an inbound signing request against the current policy.
+   * An 'ask' is allowed when the user approved an earlier request for the same target:
+   * the sighash of a sign request, or the counterparty of an ECDH request.
+   */
+  private evaluateSigningPolicy(
+    type: SigningRequestType,
+    pubkey: string | undefined,
+    target: string | undefined,
+    event: Pick<SigningPolicyContext, 'eventKind' | 'content' | 'unverified'>,
+    timestamp: Date
+  ): SigningPolicyDecision {
+    const requester = normalizeRequester(pubkey);
+    const decision = this.signingPolicy.evaluate({ pubkey: requester, ...event, timestamp });
+    if (
+      decision.action !== 'ask' ||
+      !this.consumePreauthorization(requester, type, getPreauthorizationTarget(type, target))
+    ) {
+      return decision;
+    }
+    return {
+      ...decision,
+      action: 'allow',
+      reason: `Approved by the user after an earlier request (${decision.reason})`,
+    };
+  }
+
+  /**
+   * Use up a matching approval, if there is one that hasn't expired.
+   */
+  private consumePreauthorization(
+    pubkey: string,
+    type: SigningRequestType,
+    target: string | null
+  ): boolean {
+    const now = Date.now();
+    this.preauthorizations = this.preauthorizations.filter((entry) => entry.expiresAt > now);
+    if (!target) return false;
+    const index = this.preauthorizations.findIndex(
+      (entry) => entry.pubkey === pubkey && entry.type === type && entry.target === target
+    );
+    if (index === -1) return false;
+    this.preauthorizations.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Install the sign and ECDH middleware that enforces policy decisions.
+   * Bifrost emits '/sign/handler/req' and '/ecdh/handler/req' before running the
+   * middleware, so the decision recorded by the request handler is normally already
+   * available. Throwing here aborts the session before a partial signature or ECDH
+   * share is created; 'ask' requests are aborted too and held until the user answers.
+   */
+  private installSigningPolicyMiddleware(node: BifrostNode): void {
+    const enforce = <T extends { id: string; env: { pubkey: string } }>(
+      type: SigningRequestType,
+      msg: T
+    ): T => {
+      const decision =
+        this.pendingRequests.get(msg.id)?.policyDecision ??
+        (type === 'sign'
+          ? this.evaluateSignSession(msg.env.pubkey, extractSigningSessionDetails(msg), new Date())
+          : this.evaluateSigningPolicy(
+              type,
+              msg.env.pubkey,
+              extractEcdhDetails(msg).ecdhPubkey,
+              {},
+              new Date()
+            ));
+
+      if (decision.action === 'ask') {
+        throw new Error(APPROVAL_HOLD_PREFIX);
+      }
+      if (decision.action !== 'allow') {
+        throw new Error(`${POLICY_REJECTION_PREFIX}: ${decision.reason}`);
+      }
+      return msg;
+    };
+    node.config.middleware.sign = (_client, msg) => enforce('sign', msg);
+    node.config.middleware.ecdh = (_client, msg) => enforce('ecdh', msg);
+  }
+
   /**
    * Clean up previously registered node event listeners.
    */
@@ -1018,13 +1802,24 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
     const handleSigningRequest = (data: unknown) => {
       const meta = extractSigningEventMeta(data);
       const session = extractSigningSessionDetails(data);
+
       const requestId = meta.id || generateRequestId();
+      const timestamp = new Date();
+      const event = getVerifiedSessionEvent(session.sessionContent, session.sessionSighash);
+      const policyDecision = this.evaluateSignSession(meta.pubkey, session, timestamp);
       const request: SigningRequest = {
         id: requestId,
+        type: 'sign',
         pubkey: meta.pubkey || 'unknown',
-        timestamp: new Date(),
-        eventKind: meta.kind,
+        timestamp,
+        // Only a verified event's kind, so it matches what the policy saw
+        eventKind: event?.kind,
+        eventId: event ? session.sessionSighash : undefined,
+        sighash: session.sessionSighash,
+        sessionId: session.sessionId,
         status: 'pending',
+        policyDecision,
+        content: session.sessionContent ?? undefined,
       };
 
       // Track pending request for correlation with completion
@@ -1034,6 +1829,8 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
         requestId: request.id,
         pubkey: request.pubkey,
         kind: request.eventKind,
+        policyAction: policyDecision.action,
+        policyRule: policyDecision.ruleName,
         sessionId: session.sessionId,
         sessionType: session.sessionType,
         sessionStamp: session.sessionStamp,
@@ -1084,6 +1881,23 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
           ? error.message
           : String(error);
       const errorObj = error instanceof Error ? error : new Error(errorMessage);
+      if (errorMessage.startsWith(APPROVAL_HOLD_PREFIX) && matchedRequest) {
+        this.holdSigningRequest(matchedRequest);
+        return;
+      }
+      if (errorMessage.startsWith(POLICY_REJECTION_PREFIX)) {
+        this.log('warn', 'signing', 'Signing request denied by policy', {
+          requestId: matchedRequest?.id || meta.id,
+          pubkey: meta.pubkey,
+          kind: matchedRequest?.eventKind ?? meta.kind,
+          policyAction: matchedRequest?.policyDecision?.action,
+          policyRule: matchedRequest?.policyDecision?.ruleName,
+          reason: matchedRequest?.policyDecision?.reason ?? errorMessage,
+          sessionId: session.sessionId,
+        });
+        this.emit('signing:error', errorObj, matchedRequest?.id || meta.id);
+        return;
+      }
       this.log('error', 'signing', 'Signing error', {
         requestId: matchedRequest?.id || meta.id,
         pubkey: meta.pubkey,
@@ -1175,6 +1989,148 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
     };
     registerHandler('/sign/sender/err', handleSigningSenderErr);
 
+    // ECDH request received
+    const handleEcdhRequest = (data: unknown) => {
+      const meta = extractSigningEventMeta(data);
+      const ecdh = extractEcdhDetails(data);
+
+      const timestamp = new Date();
+      const request: SigningRequest = {
+        id: meta.id || generateRequestId(),
+        type: 'ecdh',
+        pubkey: meta.pubkey || 'unknown',
+        timestamp,
+        ecdhPubkey: ecdh.ecdhPubkey,
+        status: 'pending',
+        // No event to inspect: only pubkey and time rules can match an ECDH request
+        policyDecision: this.evaluateSigningPolicy(
+          'ecdh',
+          meta.pubkey,
+          ecdh.ecdhPubkey,
+          {},
+          timestamp
+        ),
+      };
+
+      this.pendingRequests.set(request.id, request);
+
+      this.log('info', 'signing', 'Received ECDH request', {
+        requestId: request.id,
+        pubkey: request.pubkey,
+        ecdhPubkey: ecdh.ecdhPubkey,
+        members: ecdh.members,
+        policyAction: request.policyDecision?.action,
+        policyRule: request.policyDecision?.ruleName,
+      });
+
+      this.emit('signing:request', request);
+    };
+    registerHandler('/ecdh/handler/req', handleEcdhRequest);
+
+    // ECDH share sent
+    const handleEcdhComplete = (data: unknown) => {
+      const meta = extractSigningEventMeta(data);
+      const matchedRequest = this.findAndRemovePendingRequest(data, 'ecdh');
+      const result: SigningResult = {
+        requestId: matchedRequest?.id || meta.id || 'unknown',
+        success: true,
+      };
+
+      this.log('info', 'signing', 'ECDH request completed', {
+        requestId: result.requestId,
+        pubkey: matchedRequest?.pubkey ?? meta.pubkey,
+        ecdhPubkey: matchedRequest?.ecdhPubkey,
+      });
+      this.emit('signing:complete', result);
+    };
+    registerHandler('/ecdh/handler/res', handleEcdhComplete);
+
+    // ECDH request refused or failed
+    const handleEcdhError = (error: unknown) => {
+      const meta = extractSigningEventMeta(error);
+      const ecdh = extractEcdhDetails(error);
+      const matchedRequest = this.findAndRemovePendingRequest(error, 'ecdh');
+      const errorMessage = Array.isArray(error) ? String(error[0]) : String(error);
+      const errorObj = new Error(errorMessage);
+      if (errorMessage.startsWith(APPROVAL_HOLD_PREFIX) && matchedRequest) {
+        this.holdSigningRequest(matchedRequest);
+        return;
+      }
+      if (errorMessage.startsWith(POLICY_REJECTION_PREFIX)) {
+        this.log('warn', 'signing', 'ECDH request denied by policy', {
+          requestId: matchedRequest?.id || meta.id,
+          pubkey: meta.pubkey,
+          ecdhPubkey: ecdh.ecdhPubkey,
+          policyAction: matchedRequest?.policyDecision?.action,
+          policyRule: matchedRequest?.policyDecision?.ruleName,
+          reason: matchedRequest?.policyDecision?.reason ?? errorMessage,
+        });
+      } else {
+        this.log('error', 'signing', 'ECDH error', {
+          requestId: matchedRequest?.id || meta.id,
+          pubkey: meta.pubkey,
+          ecdhPubkey: ecdh.ecdhPubkey,
+          members: ecdh.members,
+          error: errorMessage,
+        });
+      }
+      this.emit('signing:error', errorObj, matchedRequest?.id || meta.id);
+    };
+    registerHandler('/ecdh/handler/rej', handleEcdhError);
+
+    // ECDH shares received from peers (sender)
+    const handleEcdhSenderRes = (payload: unknown) => {
+      const messages = Array.isArray(payload)
+        ? (payload as Array<{ env?: { pubkey?: string } }>)
+        : [];
+      const peerList = formatPubkeyList(messages.map((msg) => msg?.env?.pubkey));
+      this.log('debug', 'signing', 'Received ECDH shares from peers', {
+        ecdhPubkey: extractEcdhDetails(messages[0]).ecdhPubkey,
+        peerCount: messages.length,
+        peerPubkeys: peerList.sample,
+        peerPubkeysTruncated: peerList.truncated,
+      });
+    };
+    registerHandler('/ecdh/sender/res', handleEcdhSenderRes);
+
+    // ECDH secret derived (sender). The payload carries the secret; only the pubkey is logged.
+    const handleEcdhSenderRet = (payload: unknown) => {
+      const ecdhPubkey = Array.isArray(payload) ? payload[0] : undefined;
+      this.log('info', 'signing', 'ECDH secret derived', {
+        ecdhPubkey: typeof ecdhPubkey === 'string' ? ecdhPubkey : undefined,
+      });
+    };
+    registerHandler('/ecdh/sender/ret', handleEcdhSenderRet);
+
+    // ECDH request rejected before any shares were combined (sender)
+    const handleEcdhSenderRej = (payload: unknown) => {
+      const reason = Array.isArray(payload) ? payload[0] : payload;
+      const pkg = Array.isArray(payload) ? payload[1] : undefined;
+      const ecdh = extractEcdhDetails(pkg);
+      this.log('warn', 'signing', 'ECDH request rejected', {
+        reason: reason ? String(reason) : undefined,
+        ecdhPubkey: ecdh.ecdhPubkey,
+        members: ecdh.members,
+      });
+    };
+    registerHandler('/ecdh/sender/rej', handleEcdhSenderRej);
+
+    // ECDH shares could not be combined (sender)
+    const handleEcdhSenderErr = (payload: unknown) => {
+      const reason = Array.isArray(payload) ? payload[0] : payload;
+      const messages = Array.isArray(payload) && Array.isArray(payload[1]) ? payload[1] : [];
+      const peerList = formatPubkeyList(
+        messages.map((msg) => (msg as { env?: { pubkey?: string } } | undefined)?.env?.pubkey)
+      );
+      this.log('error', 'signing', 'ECDH request failed', {
+        reason: reason ? String(reason) : undefined,
+        ecdhPubkey: extractEcdhDetails(messages[0]).ecdhPubkey,
+        peerPubkeys: peerList.sample,
+        peerPubkeysTruncated: peerList.truncated,
+      });
+    };
+    registerHandler('/ecdh/sender/err', handleEcdhSenderErr);
+
     // Peer ping events (inbound/outbound)
     // Build known peers set once at registration time for efficient lookup.
     // This prevents unknown pubkeys from being added to the peer store.
@@ -1293,16 +2249,22 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
   }
 
   /**
-   * Find and remove a pending request that matches the completion/error data.
-   * Tries to match by pubkey if available. Falls back to FIFO only when there's
+   * Find and remove a pending request of the given type that matches the completion/error
+   * data. Tries to match by pubkey if available. Falls back to FIFO only when there's
    * exactly one pending request (unambiguous). Returns undefined if correlation
    * is ambiguous to avoid mis-matching requests.
    */
-  private findAndRemovePendingRequest(data: unknown): SigningRequest | undefined {
+  private findAndRemovePendingRequest(
+    data: unknown,
+    type: SigningRequestType = 'sign'
+  ): SigningRequest | undefined {
     // Clean up stale requests first to prevent memory leaks
     this.cleanupStaleRequests();
 
-    if (this.pendingRequests.size === 0) {
+    const candidates = Array.from(this.pendingRequests.values()).filter(
+      (request) => request.type === type
+    );
+    if (candidates.length === 0) {
       return undefined;
     }
 
@@ -1311,42 +2273,23 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
     const eventId = eventMeta.id;
     const eventPubkey = eventMeta.pubkey;
 
-    if (eventId && this.pendingRequests.has(eventId)) {
-      const request = this.pendingRequests.get(eventId);
-      if (request) {
-        this.pendingRequests.delete(eventId);
-        return request;
-      }
-    }
+    const match =
+      (eventId ? candidates.find((request) => request.id === eventId) : undefined) ??
+      (eventPubkey ? candidates.find((request) => request.pubkey === eventPubkey) : undefined) ??
+      // Only use FIFO when there's exactly one pending request (unambiguous)
+      (candidates.length === 1 ? candidates[0] : undefined);
 
-    if (eventPubkey) {
-      // Find a pending request with matching pubkey
-      for (const [id, request] of this.pendingRequests) {
-        if (request.pubkey === eventPubkey) {
-          this.pendingRequests.delete(id);
-          return request;
-        }
-      }
-    }
-
-    // Only use FIFO when there's exactly one pending request (unambiguous)
-    if (this.pendingRequests.size === 1) {
-      const oldestEntry = this.pendingRequests.entries().next().value;
-      if (oldestEntry) {
-        const [id, request] = oldestEntry;
-        this.pendingRequests.delete(id);
-        return request;
-      }
+    if (match) {
+      this.pendingRequests.delete(match.id);
+      return match;
     }
 
     // Multiple pending requests without pubkey match - cannot correlate safely
-    if (this.pendingRequests.size > 1) {
-      this.log('warn', 'signing', 'Cannot correlate signing completion - ambiguous pubkey match', {
-        pendingCount: this.pendingRequests.size,
-        hasEventPubkey: !!eventPubkey,
-      });
-    }
-
+    this.log('warn', 'signing', 'Cannot correlate signing completion - ambiguous pubkey match', {
+      type,
+      pendingCount: candidates.length,
+      hasEventPubkey: !!eventPubkey,
+    });
     return undefined;
   }
 
@@ -1399,11 +2342,12 @@ class IglooService extends EventEmitter<IglooServiceEvents> {
     message: string,
     data?: Record<string, unknown>
   ): void {
+    // Every entry passes through here, so bifrost payloads never reach listeners unredacted
     const entry: Omit<LogEntry, 'id' | 'timestamp'> = {
       level,
       category,
-      message,
-      data,
+      message: redactString(message),
+      data: data ? redactLogData(data, { message }) : undefined,
     };
     this.emit('log', entry);
   }
@@ -1422,6 +2366,47 @@ function normalizePeerPubkey(pubkey: string | null | undefined): string | null {
   return normalizePubkey(trimmed).toLowerCase();
 }
 
+/**
+ * Requester pubkey as policy rules and approvals compare it; the raw value if it can't be normalized.
+ */
+/**
+ * What an approval is bound to: the sighash of a sign request or the counterparty of an
+ * ECDH request. Null when the request doesn't carry one.
+ */
+function getPreauthorizationTarget(
+  type: SigningRequestType,
+  value: string | undefined
+): string | null {
+  const target = value?.trim().toLowerCase();
+  return target ? `${type}:${target}` : null;
+}
+
+function normalizeRequester(pubkey: string | undefined): string {
+  try {
+    return normalizePeerPubkey(pubkey) ?? pubkey ?? '';
+  } catch {
+    // Keep the raw pubkey; peer rules just won't match it
+    return pubkey ?? '';
+  }
+}
+
+/**
+ * Peer policy in igloo-core's format. Throws if the pubkey can't be normalized.
+ */
+function toNodePolicy(policy: PeerPolicy) {
+  const pubkey = normalizePeerPubkey(policy.pubkey);
+  if (!pubkey) {
+    throw new Error('Invalid peer policy pubkey');
+  }
+  return {
+    pubkey,
+    allowSend: policy.allowSend,
+    allowReceive: policy.allowReceive,
+    label: policy.label,
+    note: policy.note,
+  };
+}
+
 function extractPingPubkeyFromMessage(message: unknown): string | null {
   const pubkey = (message as { env?: { pubkey?: string } } | null)?.env?.pubkey;
   return normalizePeerPubkey(pubkey);
@@ -1486,6 +2471,16 @@ function extractSigningPayload(payload: unknown): unknown {
   return payload;
 }
 
+function extractEcdhDetails(payload: unknown): { ecdhPubkey?: string; members?: number[] } {
+  const data = extractSigningPayload(payload);
+  if (!data || typeof data !== 'object') return {};
+  const pkg = data as { ecdh_pk?: unknown; members?: unknown };
+  return {
+    ecdhPubkey: typeof pkg.ecdh_pk === 'string' ? pkg.ecdh_pk : undefined,
+    members: Array.isArray(pkg.members) ? (pkg.members as number[]) : undefined,
+  };
+}
+
 function findNestedKey(payload: unknown, key: string, maxDepth = 4): unknown {
   const seen = new WeakSet<object>();
 
@@ -1538,6 +2533,7 @@ function extractSigningSessionDetails(payload: unknown): {
   sessionMembers?: number[];
   sessionHashCount?: number;
   sessionHashPreview?: string;
+  sessionSighash?: string;
 } {
   const data = extractSigningPayload(payload);
   if (!data || typeof data !== 'object') return {};
@@ -1573,6 +2569,7 @@ function extractSigningSessionDetails(payload: unknown): {
     sessionMembers: Array.isArray(session.members) ? session.members : undefined,
     sessionHashCount: Array.isArray(session.hashes) ? session.hashes.length : undefined,
     sessionHashPreview: hashPreview,
+    sessionSighash: hashFromHashes,
   };
 }
 
@@ -1580,8 +2577,5 @@ function generateRequestId(): string {
   return `req_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
-// Export singleton instance
-export const iglooService = new IglooService();
-
-// Export class for testing
+// Export class for the keyring and for testing
 export { IglooService };
@@ -0,0 +1,77 @@
+// NIP-04 / NIP-44 encryption keyed by a threshold ECDH secret instead of a local secret key.
+
+import { cbc } from '@noble/ciphers/aes';
+import { bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
+import { extract } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha2';
+import { getRandomBytes } from 'expo-crypto';
+import * as nip44 from 'nostr-tools/nip44';
+import type { NostrCipher } from '@/types';
+
+const NIP04_IV_LENGTH = 16;
+
+/**
+ * Which cipher produced a payload. NIP-04 payloads carry an "?iv=" suffix.
+ */
+export function detectCipher(payload: string): NostrCipher {
+  return payload.includes('?iv=') ? 'nip04' : 'nip44';
+}
+
+/**
+ * Decrypt a DM payload with the secret from `IglooService.requestEcdh`.
+ * @param secret - Compressed shared point, hex
+ */
+export function decryptWithSharedSecret(
+  secret: string,
+  payload: string,
+  cipher: NostrCipher = detectCipher(payload)
+): string {
+  const sharedX = getSharedX(secret);
+  if (cipher === 'nip44') {
+    return nip44.decrypt(payload, getConversationKey(sharedX));
+  }
+
+  const [ciphertext, iv] = payload.split('?iv=');
+  if (!ciphertext || !iv) {
+    throw new Error('Malformed NIP-04 payload');
+  }
+  return bytesToUtf8(cbc(sharedX, base64ToBytes(iv)).decrypt(base64ToBytes(ciphertext)));
+}
+
+/**
+ * Encrypt a DM payload with the secret from `IglooService.requestEcdh`.
+ * @param secret - Compressed shared point, hex
+ */
+export function encryptWithSharedSecret(
+  secret: string,
+  plaintext: string,
+  cipher: NostrCipher
+): string {
+  const sharedX = getSharedX(secret);
+  if (cipher === 'nip44') {
+    return nip44.encrypt(plaintext, getConversationKey(sharedX));
+  }
+
+  const iv = getRandomBytes(NIP04_IV_LENGTH);
+  const ciphertext = cbc(sharedX, iv).encrypt(utf8ToBytes(plaintext));
+  return `${bytesToBase64(ciphertext)}?iv=${bytesToBase64(iv)}`;
+}
+
+function getSharedX(secret: string): Uint8Array {
+  if (!/^0[23][0-9a-f]{64}$/i.test(secret)) {
+    throw new Error('ECDH secret must be a compressed point');
+  }
+  return hexToBytes(secret.slice(2));
+}
+
+function getConversationKey(sharedX: Uint8Array): Uint8Array {
+  return extract(sha256, sharedX, 'nip44-v2');
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
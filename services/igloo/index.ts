@@ -1,4 +1,17 @@
-// Re-export IglooService and types
-export { iglooService, IglooService } from './IglooService';
+// Re-export IglooService, the keyring, and types
+export { IglooService } from './IglooService';
+export { iglooKeyring, IglooKeyring } from './IglooKeyring';
 export type { NodeEventConfig } from '@frostr/igloo-core';
 export type { StartSignerOptions } from './types';
+export {
+  parseNostrEvent,
+  extractNostrEventFromEntry,
+  getNostrEventId,
+  getVerifiedSessionEvent,
+  parseEventDraft,
+  buildGroupEvent,
+  toXOnlyPubkey,
+} from './nostrEvent';
+export type { ParsedNostrEvent, UnsignedNostrEvent } from './nostrEvent';
+export { buildSigningSessionTimeline } from './signingSession';
+export { detectCipher, decryptWithSharedSecret, encryptWithSharedSecret } from './ecdhCipher';
@@ -0,0 +1,176 @@
+// Helpers for reading Nostr events embedded in FROSTR signing session payloads.
+
+import { getEventHash } from 'nostr-tools';
+import type { EventDraft } from '@/types';
+
+/** An event ready for the group to sign: every field but sig */
+export interface UnsignedNostrEvent {
+  id: string;
+  pubkey: string;
+  created_at: number;
+  kind: number;
+  tags: string[][];
+  content: string;
+}
+
+export interface ParsedNostrEvent {
+  kind?: number;
+  pubkey?: string;
+  created_at?: number;
+  content?: string;
+  tags?: string[][];
+  id?: string;
+}
+
+/**
+ * Parse a JSON string into a Nostr event shape.
+ * Returns null unless the value has at least a numeric kind and string content.
+ */
+export function parseNostrEvent(content: string): ParsedNostrEvent | null {
+  try {
+    const parsed = JSON.parse(content);
+    if (!parsed || typeof parsed !== 'object') return null;
+    if (typeof parsed.kind !== 'number' || typeof parsed.content !== 'string') return null;
+    return parsed as ParsedNostrEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the Nostr event carried by a signing log entry's data, checking the
+ * session content first and then the raw envelope content.
+ */
+export function extractNostrEventFromEntry(
+  data: Record<string, unknown>
+): ParsedNostrEvent | null {
+  const sessionContent =
+    typeof data.sessionContent === 'string' ? data.sessionContent : undefined;
+  const fromSession = sessionContent ? parseNostrEvent(sessionContent) : null;
+  if (fromSession) return fromSession;
+
+  const payload = data.payload as { env?: { content?: string } } | undefined;
+  const envContent = payload?.env?.content;
+  if (typeof envContent === 'string') {
+    const fromEnv = parseNostrEvent(envContent);
+    if (fromEnv) return fromEnv;
+  }
+
+  return null;
+}
+
+/**
+ * The event id, computed from the event fields when the unsigned template has none.
+ */
+export function getNostrEventId(event: ParsedNostrEvent | null): string | undefined {
+  if (!event) return undefined;
+  if (typeof event.id === 'string') return event.id;
+  return computeNostrEventId(event);
+}
+
+/**
+ * Hash the event fields, ignoring any id the event claims to have.
+ */
+function computeNostrEventId(event: ParsedNostrEvent): string | undefined {
+  if (
+    typeof event.pubkey !== 'string' ||
+    typeof event.created_at !== 'number' ||
+    typeof event.kind !== 'number' ||
+    typeof event.content !== 'string'
+  ) {
+    return undefined;
+  }
+  const tags = Array.isArray(event.tags) ? event.tags : [];
+  try {
+    return getEventHash({
+      pubkey: event.pubkey,
+      created_at: event.created_at,
+      kind: event.kind,
+      tags,
+      content: event.content,
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The event carried in a signing session, only if it hashes to the sighash being signed.
+ * Session content is chosen by the requester, so anything else can't be trusted to
+ * describe what the partial signature is for.
+ */
+export function getVerifiedSessionEvent(
+  content: string | null | undefined,
+  sighash: string | undefined
+): ParsedNostrEvent | null {
+  if (!content || !sighash) return null;
+  const event = parseNostrEvent(content);
+  if (!event) return null;
+  return computeNostrEventId(event) === sighash.toLowerCase() ? event : null;
+}
+
+/**
+ * Parse pasted event JSON into a draft; id, pubkey and sig are ignored since the group signs it.
+ * Throws with a user-facing message if the JSON is not an event.
+ */
+export function parseEventDraft(json: string): EventDraft {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Expected an event object');
+  }
+
+  const event = parsed as Record<string, unknown>;
+  if (typeof event.kind !== 'number' || !Number.isInteger(event.kind) || event.kind < 0) {
+    throw new Error('kind must be a non-negative integer');
+  }
+  if (typeof event.content !== 'string') {
+    throw new Error('content must be a string');
+  }
+  const tags = event.tags ?? [];
+  if (
+    !Array.isArray(tags) ||
+    !tags.every((tag) => Array.isArray(tag) && tag.every((item) => typeof item === 'string'))
+  ) {
+    throw new Error('tags must be an array of string arrays');
+  }
+  if (event.created_at !== undefined && typeof event.created_at !== 'number') {
+    throw new Error('created_at must be a number');
+  }
+
+  return {
+    kind: event.kind,
+    content: event.content,
+    tags: tags as string[][],
+    created_at: event.created_at as number | undefined,
+  };
+}
+
+/**
+ * Nostr (x-only) form of a compressed or x-only pubkey.
+ */
+export function toXOnlyPubkey(pubkey: string): string {
+  const trimmed = pubkey.trim().toLowerCase();
+  return trimmed.length === 66 && (trimmed.startsWith('02') || trimmed.startsWith('03'))
+    ? trimmed.slice(2)
+    : trimmed;
+}
+
+/**
+ * The unsigned event for a draft, authored by the group, with its id.
+ * @param groupPubkey - Group pubkey, compressed or x-only
+ */
+export function buildGroupEvent(draft: EventDraft, groupPubkey: string): UnsignedNostrEvent {
+  const template = {
+    pubkey: toXOnlyPubkey(groupPubkey),
+    created_at: draft.created_at ?? Math.floor(Date.now() / 1000),
+    kind: draft.kind,
+    tags: draft.tags,
+    content: draft.content,
+  };
+  return { ...template, id: getEventHash(template) };
+}
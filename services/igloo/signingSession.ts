@@ -0,0 +1,132 @@
+// Stitches the log entries of one bifrost signing session into a timeline.
+
+import type {
+  LogEntry,
+  SigningSessionOutcome,
+  SigningSessionRole,
+  SigningSessionStep,
+  SigningSessionTimeline,
+} from '@/types';
+import { extractNostrEventFromEntry } from './nostrEvent';
+
+const TAG_LABELS: Record<string, string> = {
+  '/sign/handler/req': 'Request received',
+  '/sign/handler/res': 'Partial signature sent',
+  '/sign/sender/req': 'Request sent',
+  '/sign/sender/res': 'Response received',
+  '/sign/sender/ret': 'Signature aggregated',
+  '/sign/sender/rej': 'Rejected by peer',
+  '/sign/sender/err': 'Signing error',
+};
+
+/**
+ * Build the timeline of a signing session from log entries in any order.
+ * Returns null if none of the entries belong to the session.
+ */
+export function buildSigningSessionTimeline(
+  sessionId: string,
+  entries: LogEntry[]
+): SigningSessionTimeline | null {
+  const sessionEntries = entries
+    .filter((entry) => entry.category === 'signing' && entry.data?.sessionId === sessionId)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  if (sessionEntries.length === 0) return null;
+
+  const startedAt = sessionEntries[0].timestamp;
+  const endedAt = sessionEntries[sessionEntries.length - 1].timestamp;
+  const startMs = new Date(startedAt).getTime();
+
+  const steps: SigningSessionStep[] = sessionEntries.map((entry) => {
+    const data = entry.data ?? {};
+    const tag = typeof data.tag === 'string' ? data.tag : null;
+    const error =
+      typeof data.error === 'string'
+        ? data.error
+        : typeof data.reason === 'string' && entry.level !== 'info'
+          ? data.reason
+          : null;
+    return {
+      entryId: entry.id,
+      timestamp: entry.timestamp,
+      offsetMs: new Date(entry.timestamp).getTime() - startMs,
+      tag,
+      label: (tag && TAG_LABELS[tag]) ?? entry.message,
+      level: entry.level,
+      pubkey: typeof data.pubkey === 'string' ? data.pubkey : null,
+      error,
+    };
+  });
+
+  // Session fields are logged on some steps only; take the first value seen
+  const pick = <T>(read: (data: Record<string, unknown>) => T | undefined): T | null => {
+    for (const entry of sessionEntries) {
+      const value = entry.data ? read(entry.data) : undefined;
+      if (value !== undefined) return value;
+    }
+    return null;
+  };
+
+  const responders = Array.from(
+    new Set(
+      steps
+        .filter((step) => step.tag === '/sign/sender/res' && step.pubkey)
+        .map((step) => step.pubkey as string)
+    )
+  );
+
+  return {
+    sessionId,
+    role: getRole(steps),
+    outcome: getOutcome(steps),
+    sessionType: pick((data) => asString(data.sessionType)),
+    stamp: pick((data) => asNumber(data.sessionStamp)),
+    members: pick((data) => asNumbers(data.sessionMembers)) ?? [],
+    hashCount: pick((data) => asNumber(data.sessionHashCount)),
+    hashPreview: pick((data) => asString(data.sessionHashPreview)),
+    eventKind: pick(
+      (data) => asNumber(data.kind) ?? extractNostrEventFromEntry(data)?.kind ?? undefined
+    ),
+    responders,
+    steps,
+    startedAt,
+    endedAt,
+    durationMs: new Date(endedAt).getTime() - startMs,
+    error: steps.find((step) => step.error !== null)?.error ?? null,
+  };
+}
+
+function getRole(steps: SigningSessionStep[]): SigningSessionRole {
+  if (steps.some((step) => step.tag?.startsWith('/sign/sender/'))) return 'initiator';
+  if (steps.some((step) => step.tag?.startsWith('/sign/handler/'))) return 'responder';
+  return 'unknown';
+}
+
+function getOutcome(steps: SigningSessionStep[]): SigningSessionOutcome {
+  const has = (match: (step: SigningSessionStep) => boolean) => steps.some(match);
+
+  if (has((step) => step.tag === '/sign/sender/ret')) return 'completed';
+  if (has((step) => step.tag === '/sign/sender/err' || step.level === 'error')) return 'failed';
+  if (has((step) => step.tag === '/sign/sender/rej' || step.label.includes('denied'))) {
+    return 'rejected';
+  }
+  if (
+    has((step) => step.tag === '/sign/handler/res' || step.label === 'Signing request completed')
+  ) {
+    return 'responded';
+  }
+  return 'pending';
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function asNumbers(value: unknown): number[] | undefined {
+  return Array.isArray(value)
+    ? value.filter((item): item is number => typeof item === 'number')
+    : undefined;
+}
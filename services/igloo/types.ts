@@ -1,9 +1,15 @@
 // Service-specific types for IglooService
 // Note: NodeEventConfig is imported from @frostr/igloo-core
 
+import type { PeerPolicy } from '@/types';
+
 export interface StartSignerOptions {
+  /** Give up on a relay connection attempt after this many ms (default 15s) */
   connectionTimeout?: number;
+  /** Reconnect with backoff when the node closes unexpectedly (default true) */
   autoReconnect?: boolean;
+  /** Saved peer policies, applied when the node is created so they hold before it answers */
+  peerPolicies?: PeerPolicy[];
 }
 
 export interface StopSignerOptions {
@@ -0,0 +1,76 @@
+import { bech32m } from '@scure/base';
+import { PackageEncoder } from '@frostr/bifrost';
+import { DEMO_CREDENTIALS } from '@/constants/demoCredentials';
+import { decodeBfcred } from '../bfcred';
+import { getDeepLinkRoute, parseDeepLink } from '../deepLink';
+
+function encodeBfcred(share: string, group: string): string {
+  const shareData = PackageEncoder.share.serialize(PackageEncoder.share.decode(share));
+  const groupData = PackageEncoder.group.serialize(PackageEncoder.group.decode(group));
+  const bytes = new Uint8Array([...shareData, ...groupData]);
+  return bech32m.encode('bfcred', bech32m.toWords(bytes), false);
+}
+
+const { group, share } = DEMO_CREDENTIALS;
+const BFCRED = encodeBfcred(share, group);
+
+describe('decodeBfcred', () => {
+  it('splits a bfcred into its share and group', () => {
+    expect(decodeBfcred(BFCRED)).toEqual({ group, share });
+  });
+
+  it('rejects strings that are not a valid bfcred', () => {
+    expect(decodeBfcred(share)).toBeNull();
+    expect(decodeBfcred(`${BFCRED.slice(0, -1)}q`)).toBeNull();
+    expect(decodeBfcred('bfcred1qqqq')).toBeNull();
+  });
+});
+
+describe('parseDeepLink', () => {
+  it('parses import links with a share and group', () => {
+    const url = `igloo://import?group=${group}&share=${share}`;
+    expect(parseDeepLink(url)).toEqual({ type: 'credentials', group, share });
+  });
+
+  it('parses a bare bfcred', () => {
+    expect(parseDeepLink(`  ${BFCRED}\n`)).toEqual({ type: 'credentials', group, share });
+  });
+
+  it('parses a bfcred wrapped in igloo://', () => {
+    expect(parseDeepLink(`igloo://${BFCRED}`)).toEqual({ type: 'credentials', group, share });
+    expect(parseDeepLink(`igloo://${BFCRED}/`)).toEqual({ type: 'credentials', group, share });
+    expect(parseDeepLink(`igloo://import?cred=${BFCRED}`)).toEqual({
+      type: 'credentials',
+      group,
+      share,
+    });
+  });
+
+  it('ignores an invalid bfcred', () => {
+    expect(parseDeepLink('bfcred1qqqq')).toBeNull();
+    expect(parseDeepLink('igloo://bfcred1qqqq')).toBeNull();
+  });
+
+  it('routes a bfcred to the import screen', () => {
+    const link = parseDeepLink(`igloo://${BFCRED}`);
+    expect(link && getDeepLinkRoute(link)).toBe(
+      `/onboarding/manual?source=link&group=${group}&share=${share}`
+    );
+  });
+
+  it('parses log session and nostrconnect links', () => {
+    expect(parseDeepLink('igloo://logs?session=abc')).toEqual({
+      type: 'log-session',
+      sessionId: 'abc',
+    });
+    expect(parseDeepLink('nostrconnect://abc?relay=wss%3A%2F%2Frelay')).toEqual({
+      type: 'nostrconnect',
+      uri: 'nostrconnect://abc?relay=wss%3A%2F%2Frelay',
+    });
+  });
+
+  it('leaves plain routes and other URLs alone', () => {
+    expect(parseDeepLink('igloo://signing-session/abc')).toBeNull();
+    expect(parseDeepLink('https://example.com')).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+import { bech32m } from '@scure/base';
+import { CONST, PackageEncoder } from '@frostr/bifrost';
+
+export const BFCRED_PREFIX = 'bfcred1';
+
+/**
+ * Split a bfcred credential into the bfshare and bfgroup it bundles.
+ * The payload is the serialized share followed by the serialized group, bech32m encoded.
+ * Returns null when the string isn't a valid bfcred.
+ */
+export function decodeBfcred(credential: string): { group: string; share: string } | null {
+  const trimmed = credential.trim();
+  if (!trimmed.toLowerCase().startsWith(BFCRED_PREFIX)) return null;
+
+  try {
+    const { prefix, bytes } = bech32m.decodeToBytes(trimmed);
+    if (prefix !== 'bfcred' || bytes.length <= CONST.SHARE_DATA_SIZE) return null;
+
+    const share = PackageEncoder.share.deserialize(bytes.slice(0, CONST.SHARE_DATA_SIZE));
+    const group = PackageEncoder.group.deserialize(bytes.slice(CONST.SHARE_DATA_SIZE));
+    return {
+      group: PackageEncoder.group.encode(group),
+      share: PackageEncoder.share.encode(share),
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,91 @@
+import * as Linking from 'expo-linking';
+import type { DeepLink } from '@/types';
+import { BFCRED_PREFIX, decodeBfcred } from './bfcred';
+
+export const APP_SCHEME = 'igloo';
+export const NOSTR_CONNECT_SCHEME = 'nostrconnect';
+
+/**
+ * Parse an incoming URL into a deep link. Returns null for URLs that are plain
+ * routes (e.g. igloo://signing-session/<id>) or not meant for the app.
+ *
+ * - `igloo://import?group=bfgroup1...&share=bfshare1...` (either credential may be left out)
+ * - `igloo://import?cred=bfcred1...`, `igloo://bfcred1...` or the bare `bfcred1...` credential
+ * - `igloo://logs?session=<log session id>`
+ * - `igloo://connect?uri=<nostrconnect:// URI>` or the `nostrconnect://` URI itself
+ */
+export function parseDeepLink(url: string): DeepLink | null {
+  const trimmed = url.trim();
+  if (trimmed.startsWith(`${NOSTR_CONNECT_SCHEME}://`)) {
+    return { type: 'nostrconnect', uri: trimmed };
+  }
+  if (trimmed.toLowerCase().startsWith(BFCRED_PREFIX)) {
+    return parseBfcred(trimmed);
+  }
+  if (!trimmed.startsWith(`${APP_SCHEME}://`)) return null;
+
+  // A bfcred is too long for a hostname, so read it before parsing the URL
+  const rest = trimmed.slice(`${APP_SCHEME}://`.length);
+  if (rest.toLowerCase().startsWith(BFCRED_PREFIX)) {
+    return parseBfcred(rest.replace(/\/+$/, ''));
+  }
+
+  const { hostname, path, queryParams } = Linking.parse(trimmed);
+  const target = hostname ?? path?.split('/')[0];
+  const param = (key: string) => {
+    const value = queryParams?.[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+  };
+
+  switch (target) {
+    case 'import': {
+      const cred = param('cred');
+      if (cred) return parseBfcred(cred);
+      const group = param('group');
+      const share = param('share');
+      if (group && !group.startsWith('bfgroup')) return null;
+      if (share && !share.startsWith('bfshare')) return null;
+      return group || share ? { type: 'credentials', group, share } : null;
+    }
+    case 'logs': {
+      const sessionId = param('session');
+      return sessionId ? { type: 'log-session', sessionId } : null;
+    }
+    case 'connect': {
+      const uri = param('uri');
+      return uri?.startsWith(`${NOSTR_CONNECT_SCHEME}://`) ? { type: 'nostrconnect', uri } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function parseBfcred(credential: string): DeepLink | null {
+  const decoded = decodeBfcred(credential);
+  return decoded ? { type: 'credentials', ...decoded } : null;
+}
+
+/**
+ * The in-app route a deep link opens. Each target screen asks before acting on the link.
+ */
+export function getDeepLinkRoute(link: DeepLink): string {
+  switch (link.type) {
+    case 'credentials':
+      return `/onboarding/manual?${toQuery({
+        source: 'link',
+        group: link.group,
+        share: link.share,
+      })}`;
+    case 'log-session':
+      return `/logs?${toQuery({ session: link.sessionId })}`;
+    case 'nostrconnect':
+      return `/connect?${toQuery({ uri: link.uri })}`;
+  }
+}
+
+function toQuery(params: Record<string, string | null>): string {
+  return Object.entries(params)
+    .filter((entry): entry is [string, string] => entry[1] !== null)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+}
@@ -0,0 +1,2 @@
+export { APP_SCHEME, NOSTR_CONNECT_SCHEME, getDeepLinkRoute, parseDeepLink } from './deepLink';
+export { decodeBfcred } from './bfcred';
@@ -0,0 +1 @@
+export { pinLock, PIN_LENGTH, type PinAttemptState } from './pinLock';
@@ -0,0 +1,104 @@
+import { bytesToHex, hexToBytes } from '@noble/ciphers/utils';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { getRandomBytes } from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+
+const STORAGE_KEYS = {
+  PIN: 'igloo_pin',
+  ATTEMPTS: 'igloo_pin_attempts',
+} as const;
+
+// Lighter than the backup KDF: the PIN is checked on every unlock
+const SCRYPT_PARAMS = { N: 2 ** 14, r: 8, p: 1 } as const;
+const SALT_LENGTH = 16;
+const HASH_LENGTH = 32;
+
+export const PIN_LENGTH = 6;
+
+interface StoredPin {
+  salt: string; // hex
+  hash: string; // hex
+  N: number;
+  r: number;
+  p: number;
+}
+
+export interface PinAttemptState {
+  failedAttempts: number;
+  lockedUntil: number | null;
+}
+
+function hashPin(pin: string, salt: Uint8Array, params: Pick<StoredPin, 'N' | 'r' | 'p'>) {
+  return scryptAsync(pin, salt, { ...params, dkLen: HASH_LENGTH });
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * PIN storage for the app lock.
+ * Only a salted scrypt hash of the PIN is kept, alongside the failed attempt counter,
+ * both in secure storage so they survive an AsyncStorage reset.
+ */
+export const pinLock = {
+  async hasPin(): Promise<boolean> {
+    return (await SecureStore.getItemAsync(STORAGE_KEYS.PIN)) !== null;
+  },
+
+  async setPin(pin: string): Promise<void> {
+    if (!new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin)) {
+      throw new Error(`PIN must be ${PIN_LENGTH} digits`);
+    }
+
+    const salt = getRandomBytes(SALT_LENGTH);
+    const hash = await hashPin(pin, salt, SCRYPT_PARAMS);
+    const stored: StoredPin = { salt: bytesToHex(salt), hash: bytesToHex(hash), ...SCRYPT_PARAMS };
+    await SecureStore.setItemAsync(STORAGE_KEYS.PIN, JSON.stringify(stored));
+  },
+
+  /**
+   * Check a PIN against the stored hash. Returns false if no PIN is set.
+   */
+  async verifyPin(pin: string): Promise<boolean> {
+    const raw = await SecureStore.getItemAsync(STORAGE_KEYS.PIN);
+    if (!raw) return false;
+
+    const stored = JSON.parse(raw) as StoredPin;
+    const hash = await hashPin(pin, hexToBytes(stored.salt), stored);
+    return constantTimeEqual(hash, hexToBytes(stored.hash));
+  },
+
+  async clearPin(): Promise<void> {
+    await Promise.all([
+      SecureStore.deleteItemAsync(STORAGE_KEYS.PIN),
+      SecureStore.deleteItemAsync(STORAGE_KEYS.ATTEMPTS),
+    ]);
+  },
+
+  async getAttemptState(): Promise<PinAttemptState> {
+    const raw = await SecureStore.getItemAsync(STORAGE_KEYS.ATTEMPTS);
+    if (!raw) return { failedAttempts: 0, lockedUntil: null };
+
+    try {
+      const parsed = JSON.parse(raw) as Partial<PinAttemptState>;
+      return {
+        failedAttempts: typeof parsed.failedAttempts === 'number' ? parsed.failedAttempts : 0,
+        lockedUntil: typeof parsed.lockedUntil === 'number' ? parsed.lockedUntil : null,
+      };
+    } catch {
+      return { failedAttempts: 0, lockedUntil: null };
+    }
+  },
+
+  async saveAttemptState(state: PinAttemptState): Promise<void> {
+    await SecureStore.setItemAsync(STORAGE_KEYS.ATTEMPTS, JSON.stringify(state));
+  },
+};
+
+export default pinLock;
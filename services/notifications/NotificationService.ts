@@ -0,0 +1,83 @@
+import { AppState, Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import type { NotificationCategory } from '@/types';
+
+// Failures get a heads-up channel; routine signing activity stays quiet
+const ALERT_CHANNEL_ID = 'igloo-alerts';
+const ACTIVITY_CHANNEL_ID = 'igloo-activity';
+
+const CHANNEL_BY_CATEGORY: Record<NotificationCategory, string> = {
+  signingActivity: ACTIVITY_CHANNEL_ID,
+  signerStopped: ALERT_CHANNEL_ID,
+  audioInterrupted: ALERT_CHANNEL_ID,
+  quorumLost: ALERT_CHANNEL_ID,
+};
+
+/**
+ * NotificationService - Local notifications about the signer while the app is in the background.
+ * In the foreground the signer screens already show the same state, so nothing is posted.
+ * Each category keeps a single notification that newer ones replace.
+ */
+class NotificationService {
+  private enabled: Partial<Record<NotificationCategory, boolean>> = {};
+  private permissionRequested = false;
+  private channelsCreated = false;
+
+  /**
+   * Set which categories may post. Pushed from the notification store.
+   */
+  setCategories(categories: Record<NotificationCategory, boolean>): void {
+    this.enabled = { ...categories };
+  }
+
+  /**
+   * Ask once per launch. A denial is not an error; notifications are simply not shown.
+   */
+  async requestPermission(): Promise<boolean> {
+    try {
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted || this.permissionRequested || !current.canAskAgain) {
+        return current.granted;
+      }
+      this.permissionRequested = true;
+      const requested = await Notifications.requestPermissionsAsync();
+      return requested.granted;
+    } catch (error) {
+      console.warn('[NotificationService] Permission request failed:', error);
+      return false;
+    }
+  }
+
+  async notify(category: NotificationCategory, title: string, body: string): Promise<void> {
+    if (!this.enabled[category] || AppState.currentState === 'active') return;
+
+    try {
+      await this.createChannels();
+      await Notifications.scheduleNotificationAsync({
+        identifier: category,
+        content: { title, body, data: { category } },
+        trigger: Platform.OS === 'android' ? { channelId: CHANNEL_BY_CATEGORY[category] } : null,
+      });
+    } catch (error) {
+      console.warn(`[NotificationService] Failed to post ${category} notification:`, error);
+    }
+  }
+
+  private async createChannels(): Promise<void> {
+    if (this.channelsCreated || Platform.OS !== 'android') return;
+
+    await Notifications.setNotificationChannelAsync(ALERT_CHANNEL_ID, {
+      name: 'Signer alerts',
+      description: 'The signer stopped, lost background audio or lost its signing quorum',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+    await Notifications.setNotificationChannelAsync(ACTIVITY_CHANNEL_ID, {
+      name: 'Signing activity',
+      description: 'Signing requests received or completed in the background',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+    this.channelsCreated = true;
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1 @@
+export { notificationService } from './NotificationService';
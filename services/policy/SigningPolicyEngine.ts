@@ -0,0 +1,265 @@
+import type {
+  SigningPolicyAction,
+  SigningPolicyConfig,
+  SigningPolicyContext,
+  SigningPolicyDecision,
+  SigningPolicyRule,
+} from '@/types';
+
+export const DEFAULT_SIGNING_POLICY: SigningPolicyConfig = {
+  defaultAction: 'allow',
+  rules: [],
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * SigningPolicyEngine - Evaluates inbound signing requests against an ordered
+ * list of allow/deny/ask rules before the share produces a partial signature.
+ *
+ * Rules are checked in order and the first enabled rule whose conditions all
+ * match decides the outcome. Rate conditions count every request that matches
+ * the rule's other conditions, even when an earlier rule ends up deciding.
+ *
+ * Unverified requests fail closed: kind and content conditions on deny and ask
+ * rules count as matched, since the event might be of that kind, and never
+ * match on allow rules.
+ */
+class SigningPolicyEngine {
+  private config: SigningPolicyConfig = DEFAULT_SIGNING_POLICY;
+  // Request timestamps keyed by `${ruleId}:${pubkey}` for rate conditions
+  private rateHistory: Map<string, number[]> = new Map();
+  // Compiled content patterns keyed by rule id (null when the pattern is invalid)
+  private patternCache: Map<string, { source: string; regex: RegExp | null }> = new Map();
+
+  /**
+   * Replace the active policy configuration.
+   * Rate history is kept for rules that still exist so limits survive edits.
+   */
+  setConfig(config: SigningPolicyConfig): void {
+    this.config = {
+      defaultAction: config.defaultAction,
+      rules: [...config.rules],
+    };
+
+    const ruleIds = new Set(config.rules.map((rule) => rule.id));
+    for (const key of this.rateHistory.keys()) {
+      const ruleId = key.slice(0, key.indexOf(':'));
+      if (!ruleIds.has(ruleId)) {
+        this.rateHistory.delete(key);
+      }
+    }
+    for (const ruleId of this.patternCache.keys()) {
+      if (!ruleIds.has(ruleId)) {
+        this.patternCache.delete(ruleId);
+      }
+    }
+  }
+
+  getConfig(): SigningPolicyConfig {
+    return this.config;
+  }
+
+  /**
+   * Evaluate a signing request and return the decision to record on it.
+   */
+  evaluate(context: SigningPolicyContext): SigningPolicyDecision {
+    const now = context.timestamp.getTime();
+    let matchedRule: SigningPolicyRule | null = null;
+
+    for (const rule of this.config.rules) {
+      if (!rule.enabled || !this.matchesStaticConditions(rule, context)) continue;
+
+      const overLimit = rule.rateLimit ? this.recordAndCheckRate(rule, context.pubkey, now) : false;
+      if (matchedRule) continue;
+      if (rule.rateLimit && !overLimit) continue;
+
+      matchedRule = rule;
+    }
+
+    const evaluatedAt = context.timestamp.toISOString();
+
+    if (!matchedRule) {
+      return {
+        action: this.config.defaultAction,
+        ruleId: null,
+        reason: `No rule matched; default action is ${this.config.defaultAction}`,
+        evaluatedAt,
+      };
+    }
+
+    const unverifiedNote =
+      context.unverified && hasEventConditions(matchedRule)
+        ? '; the event could not be verified against the hash being signed'
+        : '';
+    return {
+      action: matchedRule.action,
+      ruleId: matchedRule.id,
+      ruleName: matchedRule.name,
+      reason: `Matched rule "${matchedRule.name}" (${describeRuleConditions(matchedRule)})${unverifiedNote}`,
+      evaluatedAt,
+    };
+  }
+
+  /**
+   * Forget all rate counters (used when the signer stops).
+   */
+  resetRateHistory(): void {
+    this.rateHistory.clear();
+  }
+
+  private matchesStaticConditions(rule: SigningPolicyRule, context: SigningPolicyContext): boolean {
+    if (context.unverified && hasEventConditions(rule)) {
+      if (rule.action === 'allow') return false;
+    } else if (!this.matchesEventConditions(rule, context)) {
+      return false;
+    }
+
+    if (rule.peers && rule.peers.length > 0) {
+      const requester = context.pubkey.toLowerCase();
+      if (!rule.peers.some((peer) => peer.toLowerCase() === requester)) {
+        return false;
+      }
+    }
+
+    if (rule.timeWindow && !isWithinTimeWindow(rule.timeWindow, context.timestamp)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private matchesEventConditions(rule: SigningPolicyRule, context: SigningPolicyContext): boolean {
+    if (rule.eventKinds && rule.eventKinds.length > 0) {
+      if (context.eventKind === undefined || !rule.eventKinds.includes(context.eventKind)) {
+        return false;
+      }
+    }
+
+    if (rule.contentPattern) {
+      const regex = this.getPattern(rule);
+      if (!regex || context.content === undefined || !regex.test(context.content)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Record a request against a rule's rate window.
+   * Returns true when the request pushes the peer over the limit.
+   */
+  private recordAndCheckRate(rule: SigningPolicyRule, pubkey: string, now: number): boolean {
+    const limit = rule.rateLimit;
+    if (!limit) return false;
+
+    const key = `${rule.id}:${pubkey.toLowerCase()}`;
+    const windowStart = now - limit.windowMs;
+    const history = (this.rateHistory.get(key) ?? []).filter((time) => time > windowStart);
+    history.push(now);
+    this.rateHistory.set(key, history);
+
+    return history.length > limit.maxRequests;
+  }
+
+  private getPattern(rule: SigningPolicyRule): RegExp | null {
+    const source = rule.contentPattern ?? '';
+    const cached = this.patternCache.get(rule.id);
+    if (cached && cached.source === source) return cached.regex;
+
+    const regex = compileContentPattern(source);
+    this.patternCache.set(rule.id, { source, regex });
+    return regex;
+  }
+}
+
+/**
+ * Compile a rule content pattern. Returns null for invalid expressions so a
+ * broken rule never matches instead of throwing inside the signing path.
+ */
+export function compileContentPattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+function hasEventConditions(rule: SigningPolicyRule): boolean {
+  return (rule.eventKinds?.length ?? 0) > 0 || Boolean(rule.contentPattern);
+}
+
+function isWithinTimeWindow(
+  window: { startMinute: number; endMinute: number },
+  timestamp: Date
+): boolean {
+  const minute = timestamp.getHours() * 60 + timestamp.getMinutes();
+  const start = ((window.startMinute % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const end = ((window.endMinute % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+  if (start === end) return true;
+  if (start < end) return minute >= start && minute < end;
+  // Window wraps past midnight (e.g. 22:00 - 06:00)
+  return minute >= start || minute < end;
+}
+
+/**
+ * Format minutes since midnight as HH:MM.
+ */
+export function formatMinuteOfDay(minute: number): string {
+  const normalized = ((minute % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60);
+  const mins = normalized % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
+
+/**
+ * Parse HH:MM into minutes since midnight. Returns null for invalid input.
+ */
+export function parseMinuteOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const mins = Number(match[2]);
+  if (hours > 23 || mins > 59) return null;
+  return hours * 60 + mins;
+}
+
+/**
+ * Short human-readable summary of the conditions on a rule.
+ */
+export function describeRuleConditions(rule: SigningPolicyRule): string {
+  const parts: string[] = [];
+  if (rule.eventKinds && rule.eventKinds.length > 0) {
+    parts.push(`kind ${rule.eventKinds.join(', ')}`);
+  }
+  if (rule.peers && rule.peers.length > 0) {
+    parts.push(`${rule.peers.length} peer${rule.peers.length === 1 ? '' : 's'}`);
+  }
+  if (rule.timeWindow) {
+    parts.push(
+      `${formatMinuteOfDay(rule.timeWindow.startMinute)}-${formatMinuteOfDay(rule.timeWindow.endMinute)}`
+    );
+  }
+  if (rule.contentPattern) {
+    parts.push(`content /${rule.contentPattern}/`);
+  }
+  if (rule.rateLimit) {
+    parts.push(`>${rule.rateLimit.maxRequests} per ${Math.round(rule.rateLimit.windowMs / 1000)}s`);
+  }
+  return parts.length > 0 ? parts.join(', ') : 'any request';
+}
+
+export function getSigningPolicyActionLabel(action: SigningPolicyAction): string {
+  switch (action) {
+    case 'allow':
+      return 'Allow';
+    case 'deny':
+      return 'Deny';
+    case 'ask':
+      return 'Ask';
+  }
+}
+
+export { SigningPolicyEngine };
@@ -0,0 +1,160 @@
+import { SigningPolicyEngine, parseMinuteOfDay } from '../SigningPolicyEngine';
+import type { SigningPolicyContext, SigningPolicyRule } from '@/types';
+
+const PEER = 'a'.repeat(64);
+const OTHER_PEER = 'b'.repeat(64);
+const NOON = new Date(2026, 0, 1, 12, 0);
+
+function rule(overrides: Partial<SigningPolicyRule>): SigningPolicyRule {
+  return { id: 'rule', name: 'Rule', enabled: true, action: 'deny', ...overrides };
+}
+
+function createEngine(
+  rules: SigningPolicyRule[],
+  defaultAction: 'allow' | 'deny' | 'ask' = 'allow'
+) {
+  const engine = new SigningPolicyEngine();
+  engine.setConfig({ defaultAction, rules });
+  return engine;
+}
+
+function request(overrides: Partial<SigningPolicyContext> = {}): SigningPolicyContext {
+  return { pubkey: PEER, eventKind: 1, content: 'hello', timestamp: NOON, ...overrides };
+}
+
+describe('SigningPolicyEngine', () => {
+  it('falls back to the default action when no rule matches', () => {
+    const engine = createEngine([rule({ eventKinds: [0] })], 'ask');
+
+    expect(engine.evaluate(request())).toMatchObject({ action: 'ask', ruleId: null });
+  });
+
+  it('lets the first matching rule decide', () => {
+    const engine = createEngine([
+      rule({ id: 'disabled', action: 'allow', enabled: false }),
+      rule({ id: 'allow-notes', action: 'allow', eventKinds: [1] }),
+      rule({ id: 'deny-all', action: 'deny' }),
+    ]);
+
+    expect(engine.evaluate(request())).toMatchObject({ action: 'allow', ruleId: 'allow-notes' });
+    expect(engine.evaluate(request({ eventKind: 7 }))).toMatchObject({
+      action: 'deny',
+      ruleId: 'deny-all',
+    });
+  });
+
+  it('matches peers, time windows and content patterns', () => {
+    const engine = createEngine([
+      rule({ id: 'peer', action: 'ask', peers: [PEER.toUpperCase()] }),
+      rule({ id: 'night', timeWindow: { startMinute: 22 * 60, endMinute: 6 * 60 } }),
+      rule({ id: 'content', contentPattern: 'secret' }),
+    ]);
+
+    expect(engine.evaluate(request()).ruleId).toBe('peer');
+    expect(engine.evaluate(request({ pubkey: OTHER_PEER })).ruleId).toBeNull();
+    expect(
+      engine.evaluate(request({ pubkey: OTHER_PEER, timestamp: new Date(2026, 0, 1, 23, 30) }))
+        .ruleId
+    ).toBe('night');
+    expect(engine.evaluate(request({ pubkey: OTHER_PEER, content: 'A SECRET' })).ruleId).toBe(
+      'content'
+    );
+  });
+
+  it('never matches a rule with an invalid content pattern', () => {
+    const engine = createEngine([rule({ contentPattern: '(' })]);
+
+    expect(engine.evaluate(request({ content: '(' })).action).toBe('allow');
+  });
+
+  it('only applies a rate rule once the peer goes over the limit', () => {
+    const engine = createEngine([
+      rule({ action: 'deny', rateLimit: { maxRequests: 2, windowMs: 60_000 } }),
+    ]);
+    const at = (seconds: number) =>
+      request({ timestamp: new Date(NOON.getTime() + seconds * 1000) });
+
+    expect(engine.evaluate(at(0)).action).toBe('allow');
+    expect(engine.evaluate(at(1)).action).toBe('allow');
+    expect(engine.evaluate(at(2)).action).toBe('deny');
+    expect(
+      engine.evaluate(request({ pubkey: OTHER_PEER, timestamp: at(3).timestamp })).action
+    ).toBe('allow');
+    // The first two requests have left the window
+    expect(engine.evaluate(at(61)).action).toBe('allow');
+  });
+
+  it('counts requests against a rate rule even when an earlier rule decides', () => {
+    const engine = createEngine([
+      rule({ id: 'notes', action: 'allow', eventKinds: [1] }),
+      rule({ id: 'rate', action: 'ask', rateLimit: { maxRequests: 1, windowMs: 60_000 } }),
+    ]);
+
+    expect(engine.evaluate(request()).ruleId).toBe('notes');
+    expect(engine.evaluate(request({ eventKind: 7 })).ruleId).toBe('rate');
+  });
+
+  it('forgets rate history on reset and for deleted rules', () => {
+    const limited = rule({ rateLimit: { maxRequests: 1, windowMs: 60_000 } });
+    const engine = createEngine([limited]);
+
+    engine.evaluate(request());
+    expect(engine.evaluate(request()).action).toBe('deny');
+
+    engine.resetRateHistory();
+    expect(engine.evaluate(request()).action).toBe('allow');
+
+    engine.setConfig({ defaultAction: 'allow', rules: [] });
+    engine.setConfig({ defaultAction: 'allow', rules: [limited] });
+    expect(engine.evaluate(request()).action).toBe('allow');
+  });
+
+  describe('unverified events', () => {
+    const unverified = request({ eventKind: undefined, content: undefined, unverified: true });
+
+    it('match kind and content deny and ask rules', () => {
+      const engine = createEngine([
+        rule({ id: 'no-metadata', action: 'deny', eventKinds: [0, 5] }),
+      ]);
+
+      const decision = engine.evaluate(unverified);
+      expect(decision).toMatchObject({ action: 'deny', ruleId: 'no-metadata' });
+      expect(decision.reason).toContain('could not be verified');
+
+      const askEngine = createEngine([rule({ id: 'dm', action: 'ask', contentPattern: 'x' })]);
+      expect(askEngine.evaluate(unverified)).toMatchObject({ action: 'ask', ruleId: 'dm' });
+    });
+
+    it('never match kind or content allow rules', () => {
+      const engine = createEngine(
+        [rule({ id: 'allow-notes', action: 'allow', eventKinds: [1] })],
+        'deny'
+      );
+
+      expect(engine.evaluate(unverified)).toMatchObject({ action: 'deny', ruleId: null });
+    });
+
+    it('still respect the peer condition of a kind rule', () => {
+      const engine = createEngine([rule({ eventKinds: [0], peers: [OTHER_PEER] })]);
+
+      expect(engine.evaluate(unverified).action).toBe('allow');
+    });
+  });
+
+  it('does not treat a request without an event as unverified', () => {
+    // ECDH requests carry no event; kind rules don't apply to them
+    const engine = createEngine([rule({ eventKinds: [0] })]);
+
+    expect(engine.evaluate(request({ eventKind: undefined, content: undefined })).action).toBe(
+      'allow'
+    );
+  });
+});
+
+describe('parseMinuteOfDay', () => {
+  it('parses HH:MM and rejects anything else', () => {
+    expect(parseMinuteOfDay('06:30')).toBe(390);
+    expect(parseMinuteOfDay('24:00')).toBeNull();
+    expect(parseMinuteOfDay('6pm')).toBeNull();
+  });
+});
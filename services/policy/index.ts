@@ -0,0 +1,9 @@
+export {
+  SigningPolicyEngine,
+  DEFAULT_SIGNING_POLICY,
+  compileContentPattern,
+  describeRuleConditions,
+  formatMinuteOfDay,
+  parseMinuteOfDay,
+  getSigningPolicyActionLabel,
+} from './SigningPolicyEngine';
@@ -0,0 +1,94 @@
+import {
+  FRAGMENT_LENGTH,
+  MAX_SINGLE_FRAME_LENGTH,
+  MultipartQRDecoder,
+  encodeMultipartQR,
+  isMultipartQRPart,
+} from '../multipartQr';
+
+// A backup-sized payload that needs several frames
+const LONG_TEXT = JSON.stringify({ ciphertext: 'ab'.repeat(400), nonce: 'cd'.repeat(24) });
+
+function decodeAll(frames: string[]) {
+  const decoder = new MultipartQRDecoder();
+  return frames.map((frame) => decoder.receive(frame));
+}
+
+describe('encodeMultipartQR', () => {
+  it('keeps short text as a single plain frame', () => {
+    const text = 'x'.repeat(MAX_SINGLE_FRAME_LENGTH);
+
+    expect(encodeMultipartQR(text)).toEqual([text]);
+    expect(isMultipartQRPart(text)).toBe(false);
+  });
+
+  it('splits long text into numbered parts with a shared checksum', () => {
+    const frames = encodeMultipartQR(LONG_TEXT);
+
+    expect(frames).toHaveLength(Math.ceil(LONG_TEXT.length / FRAGMENT_LENGTH));
+    expect(frames.every(isMultipartQRPart)).toBe(true);
+    expect(frames[0]).toMatch(new RegExp(`^ur:igloo/1-${frames.length}/[0-9a-f]{8}/`));
+    const checksums = new Set(frames.map((frame) => frame.split('/')[2]));
+    expect(checksums.size).toBe(1);
+  });
+});
+
+describe('MultipartQRDecoder', () => {
+  it('reassembles frames in order', () => {
+    const results = decodeAll(encodeMultipartQR(LONG_TEXT));
+
+    expect(results[0]).toEqual({ status: 'partial', received: 1, total: results.length });
+    expect(results[results.length - 1]).toEqual({ status: 'complete', value: LONG_TEXT });
+  });
+
+  it('reassembles frames out of order and ignores repeats', () => {
+    const frames = encodeMultipartQR(LONG_TEXT);
+    const shuffled = [frames[2], frames[0], frames[2], ...frames.slice(3).reverse(), frames[1]];
+
+    const results = decodeAll(shuffled);
+
+    expect(results[2]).toEqual({ status: 'partial', received: 2, total: frames.length });
+    expect(results[results.length - 1]).toEqual({ status: 'complete', value: LONG_TEXT });
+  });
+
+  it('passes plain QR codes through', () => {
+    expect(new MultipartQRDecoder().receive('bfshare1qqqsyqcyq5rqwzq')).toEqual({
+      status: 'complete',
+      value: 'bfshare1qqqsyqcyq5rqwzq',
+    });
+  });
+
+  it('starts over when a part of another message arrives', () => {
+    const first = encodeMultipartQR(LONG_TEXT);
+    const other = `${LONG_TEXT}!`;
+    const second = encodeMultipartQR(other);
+
+    const results = decodeAll([first[0], first[1], ...second]);
+
+    expect(results[2]).toEqual({ status: 'partial', received: 1, total: second.length });
+    expect(results[results.length - 1]).toEqual({ status: 'complete', value: other });
+  });
+
+  it('rejects parts that do not match their checksum', () => {
+    const frames = encodeMultipartQR(LONG_TEXT);
+    // Keep the header, change the fragment
+    frames[0] = frames[0].replace(
+      /^(ur:igloo\/[^/]+\/[^/]+\/)(.*)$/,
+      (_match, header: string, fragment: string) => `${header}${fragment.replace(/a/g, 'b')}`
+    );
+
+    const results = decodeAll(frames);
+
+    expect(results[results.length - 1]).toEqual({
+      status: 'invalid',
+      reason: 'QR code parts did not match; scan again',
+    });
+  });
+
+  it('rejects part numbers outside the part count', () => {
+    expect(new MultipartQRDecoder().receive('ur:igloo/3-2/0123abcd/data')).toEqual({
+      status: 'invalid',
+      reason: 'Unreadable QR code part',
+    });
+  });
+});
@@ -0,0 +1,8 @@
+export {
+  MultipartQRDecoder,
+  encodeMultipartQR,
+  isMultipartQRPart,
+  FRAGMENT_LENGTH,
+  FRAME_INTERVAL_MS,
+  MAX_SINGLE_FRAME_LENGTH,
+} from './multipartQr';
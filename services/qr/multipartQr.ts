@@ -0,0 +1,101 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import type { MultipartQRScan } from '@/types';
+
+/** Longest text shown as a single static QR code */
+export const MAX_SINGLE_FRAME_LENGTH = 300;
+
+/** Characters of text per animated frame; small enough for older phone cameras */
+export const FRAGMENT_LENGTH = 200;
+
+/** How long each animated frame stays on screen */
+export const FRAME_INTERVAL_MS = 300;
+
+const PART_PATTERN = /^ur:igloo\/(\d+)-(\d+)\/([0-9a-f]{8})\/([\s\S]*)$/;
+
+/**
+ * Checksum of the whole text; identifies which message a part belongs to.
+ */
+function getChecksum(value: string): string {
+  return bytesToHex(sha256(utf8ToBytes(value))).slice(0, 8);
+}
+
+/**
+ * Split text into UR-style QR frames: `ur:igloo/<part>-<total>/<checksum>/<fragment>`.
+ * Text that fits one frame is returned as-is, so short codes stay readable by any scanner.
+ * Unlike BC-UR there are no fountain codes; frames loop until the scanner has them all.
+ */
+export function encodeMultipartQR(
+  value: string,
+  fragmentLength: number = FRAGMENT_LENGTH
+): string[] {
+  if (value.length <= MAX_SINGLE_FRAME_LENGTH) {
+    return [value];
+  }
+
+  const checksum = getChecksum(value);
+  const total = Math.ceil(value.length / fragmentLength);
+  return Array.from({ length: total }, (_, index) => {
+    const fragment = value.slice(index * fragmentLength, (index + 1) * fragmentLength);
+    return `ur:igloo/${index + 1}-${total}/${checksum}/${fragment}`;
+  });
+}
+
+export function isMultipartQRPart(text: string): boolean {
+  return PART_PATTERN.test(text);
+}
+
+/**
+ * MultipartQRDecoder - reassembles text from animated QR frames.
+ *
+ * Frames may arrive in any order and repeat. A part from a different message
+ * (another checksum or part count) starts over, e.g. when the user points the
+ * camera at another code.
+ */
+class MultipartQRDecoder {
+  private checksum: string | null = null;
+  private parts: (string | undefined)[] = [];
+
+  /**
+   * Add a scanned frame. Plain QR codes complete immediately.
+   */
+  receive(text: string): MultipartQRScan {
+    const match = PART_PATTERN.exec(text);
+    if (!match) {
+      this.reset();
+      return { status: 'complete', value: text };
+    }
+
+    const part = Number(match[1]);
+    const total = Number(match[2]);
+    const checksum = match[3];
+    if (total < 1 || part < 1 || part > total) {
+      return { status: 'invalid', reason: 'Unreadable QR code part' };
+    }
+
+    if (checksum !== this.checksum || total !== this.parts.length) {
+      this.checksum = checksum;
+      this.parts = new Array(total).fill(undefined);
+    }
+    this.parts[part - 1] = match[4];
+
+    const received = this.parts.filter((fragment) => fragment !== undefined).length;
+    if (received < total) {
+      return { status: 'partial', received, total };
+    }
+
+    const value = this.parts.join('');
+    this.reset();
+    if (getChecksum(value) !== checksum) {
+      return { status: 'invalid', reason: 'QR code parts did not match; scan again' };
+    }
+    return { status: 'complete', value };
+  }
+
+  reset(): void {
+    this.checksum = null;
+    this.parts = [];
+  }
+}
+
+export { MultipartQRDecoder };
@@ -0,0 +1,225 @@
+import type { BifrostNode } from '@frostr/bifrost';
+import type { LogLevel, RelayConnectionStatus, RelayHealth } from '@/types';
+
+const PROBE_INTERVAL_MS = 30000;
+const PROBE_TIMEOUT_MS = 8000;
+// The signer transport's ephemeral kind: relays keep nothing, so EOSE comes straight back
+const PROBE_FILTER = { kinds: [20004], limit: 0 };
+
+// Minimal shape of the nostr-tools pool and relays behind the node's client
+interface ProbeSubscription {
+  close: (reason?: string) => void;
+}
+
+interface ProbeRelay {
+  subscribe: (
+    filters: object[],
+    params: {
+      oneose?: () => void;
+      onclose?: (reason: string) => void;
+      eoseTimeout?: number;
+    }
+  ) => ProbeSubscription;
+}
+
+interface ProbePool {
+  ensureRelay: (url: string, params?: { connectionTimeout?: number }) => Promise<ProbeRelay>;
+}
+
+interface RelayHealthCallbacks {
+  /** A relay's health entry changed */
+  onUpdate: (health: RelayHealth) => void;
+  /** A relay went from connected to not connected, or back */
+  onConnectionChange: (url: string, connected: boolean) => void;
+  log: (level: LogLevel, message: string, data?: Record<string, unknown>) => void;
+}
+
+/**
+ * The relay pool is private to the nostr-p2p client, so read it defensively.
+ * Probing through it reuses the node's sockets instead of opening new ones.
+ */
+function getNodePool(node: BifrostNode): ProbePool | null {
+  const client = node.client as unknown as { _pool?: Partial<ProbePool> } | undefined;
+  const pool = client?._pool;
+  return pool && typeof pool.ensureRelay === 'function' ? (pool as ProbePool) : null;
+}
+
+function createRelayHealth(url: string, status: RelayConnectionStatus): RelayHealth {
+  return {
+    url,
+    status,
+    lastEventAt: null,
+    latency: null,
+    errorCount: 0,
+    reconnectAttempts: 0,
+    lastError: null,
+  };
+}
+
+/**
+ * RelayHealthMonitor - Tracks connection state, latency and errors for each relay of a
+ * running signer node by periodically timing a REQ → EOSE round trip on every relay.
+ *
+ * Counters survive detach/attach so a reconnected node keeps the history of its relays.
+ */
+class RelayHealthMonitor {
+  private health: Map<string, RelayHealth> = new Map();
+  private node: BifrostNode | null = null;
+  private probeTimer: ReturnType<typeof setInterval> | null = null;
+  private probeInFlight: Promise<void> | null = null;
+
+  constructor(private readonly callbacks: RelayHealthCallbacks) {}
+
+  /**
+   * Start monitoring a connected node.
+   */
+  attach(node: BifrostNode, relays: string[], connectedRelays: string[]): void {
+    this.detach();
+    this.node = node;
+
+    // Drop relays that are no longer configured
+    for (const url of this.health.keys()) {
+      if (!relays.includes(url)) {
+        this.health.delete(url);
+      }
+    }
+
+    const now = new Date().toISOString();
+    for (const url of relays) {
+      const isConnected = connectedRelays.includes(url);
+      this.update(url, {
+        status: isConnected ? 'connected' : 'error',
+        lastEventAt: isConnected ? now : (this.health.get(url)?.lastEventAt ?? null),
+      });
+    }
+
+    this.probeTimer = setInterval(() => {
+      void this.probe();
+    }, PROBE_INTERVAL_MS);
+    void this.probe();
+  }
+
+  /**
+   * Stop probing and mark every relay as disconnected. Counters are kept.
+   */
+  detach(): void {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = null;
+    }
+    this.node = null;
+
+    for (const entry of this.health.values()) {
+      if (entry.status !== 'disconnected') {
+        this.update(entry.url, { status: 'disconnected', latency: null });
+      }
+    }
+  }
+
+  /**
+   * Forget every relay, e.g. after a manual stop.
+   */
+  reset(): void {
+    this.detach();
+    this.health.clear();
+  }
+
+  /**
+   * Count a signer reconnect attempt against every tracked relay.
+   */
+  recordReconnectAttempt(): void {
+    for (const entry of this.health.values()) {
+      this.update(entry.url, {
+        status: 'connecting',
+        reconnectAttempts: entry.reconnectAttempts + 1,
+      });
+    }
+  }
+
+  getSnapshot(): RelayHealth[] {
+    return Array.from(this.health.values(), (entry) => ({ ...entry }));
+  }
+
+  /**
+   * Probe every relay now. Concurrent calls share the same probe.
+   */
+  probe(): Promise<void> {
+    if (this.probeInFlight) return this.probeInFlight;
+
+    const node = this.node;
+    const pool = node ? getNodePool(node) : null;
+    if (!node || !pool) return Promise.resolve();
+
+    this.probeInFlight = Promise.all(
+      Array.from(this.health.keys(), (url) => this.probeRelay(node, pool, url))
+    )
+      .then(() => undefined)
+      .finally(() => {
+        this.probeInFlight = null;
+      });
+    return this.probeInFlight;
+  }
+
+  private async probeRelay(node: BifrostNode, pool: ProbePool, url: string): Promise<void> {
+    const previous = this.health.get(url);
+    if (!previous) return;
+    const wasConnected = previous.status === 'connected';
+    const startedAt = Date.now();
+
+    try {
+      // Reopens the socket if the relay dropped it, which counts as a reconnect attempt
+      const relay = await pool.ensureRelay(url, { connectionTimeout: PROBE_TIMEOUT_MS });
+      await new Promise<void>((resolve, reject) => {
+        let settled = false;
+        const subscription = relay.subscribe([PROBE_FILTER], {
+          eoseTimeout: PROBE_TIMEOUT_MS,
+          oneose: () => {
+            settled = true;
+            subscription.close();
+            resolve();
+          },
+          onclose: (reason) => {
+            if (!settled) reject(new Error(reason || 'Subscription closed'));
+          },
+        });
+      });
+
+      if (this.node !== node) return;
+      const latency = Date.now() - startedAt;
+      const current = this.health.get(url) ?? previous;
+      this.update(url, {
+        status: 'connected',
+        latency,
+        lastEventAt: new Date().toISOString(),
+        reconnectAttempts: current.reconnectAttempts + (wasConnected ? 0 : 1),
+      });
+      if (!wasConnected) {
+        this.callbacks.log('info', 'Relay reachable again', { relay: url, latency });
+        this.callbacks.onConnectionChange(url, true);
+      }
+    } catch (error) {
+      if (this.node !== node) return;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const current = this.health.get(url) ?? previous;
+      this.update(url, {
+        status: 'error',
+        latency: null,
+        errorCount: current.errorCount + 1,
+        reconnectAttempts: current.reconnectAttempts + (wasConnected ? 0 : 1),
+        lastError: message,
+      });
+      if (wasConnected) {
+        this.callbacks.log('warn', 'Relay not responding', { relay: url, error: message });
+        this.callbacks.onConnectionChange(url, false);
+      }
+    }
+  }
+
+  private update(url: string, patch: Partial<Omit<RelayHealth, 'url'>>): void {
+    const entry = { ...(this.health.get(url) ?? createRelayHealth(url, 'connecting')), ...patch };
+    this.health.set(url, entry);
+    this.callbacks.onUpdate({ ...entry });
+  }
+}
+
+export { RelayHealthMonitor };
@@ -0,0 +1,3 @@
+export { RelayHealthMonitor } from './RelayHealthMonitor';
+export { relayDiscovery, DISCOVERY_RELAYS } from './relayDiscovery';
+export { relayPublisher } from './relayPublisher';
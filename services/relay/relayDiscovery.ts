@@ -0,0 +1,129 @@
+import { SimplePool } from 'nostr-tools/pool';
+import type { Event } from 'nostr-tools/core';
+import type { RelayDiscoveryResult, RelaySuggestion, RelaySuggestionSource } from '@/types';
+
+const RELAY_LIST_KIND = 10002;
+const DISCOVERY_TIMEOUT_MS = 8000;
+
+// Relays that index NIP-65 lists, asked alongside the configured ones
+export const DISCOVERY_RELAYS = ['wss://purplepag.es', 'wss://user.kindpag.es'] as const;
+
+interface DiscoverRelaysParams {
+  /** Group pubkey, compressed or x-only */
+  groupPubkey: string;
+  /** Co-signer pubkeys, compressed or x-only */
+  peerPubkeys: string[];
+  /** Our relay list; these are queried but never suggested */
+  currentRelays: string[];
+  /** Relays other shares of the same group use on this device */
+  keyringRelays?: string[];
+}
+
+/**
+ * Nostr authors are x-only; group commits carry 33-byte compressed keys.
+ */
+function toXOnly(pubkey: string): string {
+  const trimmed = pubkey.trim().toLowerCase();
+  return trimmed.length === 66 && (trimmed.startsWith('02') || trimmed.startsWith('03'))
+    ? trimmed.slice(2)
+    : trimmed;
+}
+
+/**
+ * Only wss:// relays are usable by the signer; match the relay store's trailing-slash rule.
+ */
+function normalizeListedRelay(url: string): string | null {
+  const trimmed = url.trim();
+  if (!/^wss:\/\/([^\s/?#:]+|\[[^\]]+\])(:\d+)?(\/[^\s?#]*)?$/i.test(trimmed)) return null;
+  return `wss://${trimmed.slice('wss://'.length)}`.replace(/\/+$/, '');
+}
+
+function getListedRelays(event: Event): string[] {
+  return event.tags
+    .filter((tag) => tag[0] === 'r' && typeof tag[1] === 'string')
+    .map((tag) => normalizeListedRelay(tag[1]))
+    .filter((url): url is string => url !== null);
+}
+
+/**
+ * Keep the newest relay list per author; kind 10002 is replaceable but relays may
+ * still return stale copies.
+ */
+function latestPerAuthor(events: Event[]): Map<string, Event> {
+  const latest = new Map<string, Event>();
+  for (const event of events) {
+    const current = latest.get(event.pubkey);
+    if (!current || event.created_at > current.created_at) {
+      latest.set(event.pubkey, event);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Relay discovery for a signing group.
+ * Looks up the NIP-65 relay lists of the group pubkey and every co-signer, and suggests
+ * the relays they publish that are missing from ours. Co-signers on different relay sets
+ * never see each other's requests.
+ */
+export const relayDiscovery = {
+  async discover({
+    groupPubkey,
+    peerPubkeys,
+    currentRelays,
+    keyringRelays = [],
+  }: DiscoverRelaysParams): Promise<RelayDiscoveryResult> {
+    const groupAuthor = toXOnly(groupPubkey);
+    const peerAuthors = Array.from(new Set(peerPubkeys.map(toXOnly))).filter(
+      (pubkey) => pubkey !== groupAuthor
+    );
+    const lookupRelays = Array.from(new Set([...currentRelays, ...DISCOVERY_RELAYS]));
+
+    const pool = new SimplePool();
+    let events: Event[];
+    try {
+      events = await pool.querySync(
+        lookupRelays,
+        { kinds: [RELAY_LIST_KIND], authors: [groupAuthor, ...peerAuthors] },
+        { maxWait: DISCOVERY_TIMEOUT_MS }
+      );
+    } finally {
+      pool.destroy();
+    }
+
+    const suggestions = new Map<string, RelaySuggestion>();
+    const addSuggestion = (url: string, source: RelaySuggestionSource, peerPubkey?: string) => {
+      if (currentRelays.includes(url)) return;
+      const suggestion = suggestions.get(url) ?? { url, sources: [], peerPubkeys: [] };
+      if (!suggestion.sources.includes(source)) suggestion.sources.push(source);
+      if (peerPubkey && !suggestion.peerPubkeys.includes(peerPubkey)) {
+        suggestion.peerPubkeys.push(peerPubkey);
+      }
+      suggestions.set(url, suggestion);
+    };
+
+    const relayLists = latestPerAuthor(events);
+    for (const [author, event] of relayLists) {
+      const isGroup = author === groupAuthor;
+      for (const url of getListedRelays(event)) {
+        addSuggestion(url, isGroup ? 'group' : 'peer', isGroup ? undefined : author);
+      }
+    }
+
+    for (const url of keyringRelays) {
+      const normalized = normalizeListedRelay(url);
+      if (normalized) addSuggestion(normalized, 'keyring');
+    }
+
+    // Group-listed relays first, then the ones most co-signers share
+    const ranked = Array.from(suggestions.values()).sort((a, b) => {
+      const groupDiff = Number(b.sources.includes('group')) - Number(a.sources.includes('group'));
+      if (groupDiff !== 0) return groupDiff;
+      const peerDiff = b.peerPubkeys.length - a.peerPubkeys.length;
+      if (peerDiff !== 0) return peerDiff;
+      return a.url.localeCompare(b.url);
+    });
+
+    return { suggestions: ranked, relayListsFound: relayLists.size };
+  },
+};
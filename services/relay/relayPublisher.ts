@@ -0,0 +1,44 @@
+import { SimplePool } from 'nostr-tools/pool';
+import type { Event } from 'nostr-tools/core';
+import type { RelayPublishResult } from '@/types';
+
+const PUBLISH_TIMEOUT_MS = 10000;
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Timed out')), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Publishes signed events to the configured relays.
+ */
+export const relayPublisher = {
+  /**
+   * Send an event to every relay and report each relay's answer.
+   * Never throws; a relay that refuses or times out is reported as not ok.
+   */
+  async publish(event: Event, relays: string[]): Promise<RelayPublishResult[]> {
+    const pool = new SimplePool();
+    try {
+      const attempts = pool
+        .publish(relays, event)
+        .map((attempt) => withTimeout(attempt, PUBLISH_TIMEOUT_MS));
+      const settled = await Promise.allSettled(attempts);
+      return settled.map((result, index) => ({
+        url: relays[index],
+        ok: result.status === 'fulfilled',
+        message:
+          result.status === 'fulfilled'
+            ? result.value || null
+            : result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason),
+      }));
+    } finally {
+      pool.destroy();
+    }
+  },
+};
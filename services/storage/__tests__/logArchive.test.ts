@@ -0,0 +1,152 @@
+import type AsyncStorageStatic from '@react-native-async-storage/async-storage';
+import type { LogEntry } from '@/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+// nanoid only ships ESM, which jest does not transform here
+jest.mock('nanoid', () => {
+  let nextId = 0;
+  return { nanoid: () => `id-${++nextId}` };
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2026-01-01T12:00:00Z').getTime();
+
+type Archive = typeof import('../logArchive');
+
+// The archive keeps its index and buffer in module state, so each test loads a fresh copy
+async function loadArchive(): Promise<{
+  archive: Archive['logArchive'];
+  storage: typeof AsyncStorageStatic;
+}> {
+  let archive!: Archive['logArchive'];
+  let storage!: typeof AsyncStorageStatic;
+  jest.isolateModules(() => {
+    archive = (require('../logArchive') as Archive).logArchive;
+    storage = require('@react-native-async-storage/async-storage');
+  });
+  await storage.clear();
+  jest.clearAllMocks();
+  return { archive, storage };
+}
+
+function entry(message: string): Omit<LogEntry, 'id' | 'timestamp'> {
+  return { level: 'info', category: 'signing', message };
+}
+
+function appendMany(archive: Archive['logArchive'], count: number): void {
+  for (let i = 0; i < count; i++) {
+    archive.append(entry(`entry ${i}`), 'share');
+  }
+}
+
+describe('logArchive', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('writes buffered entries on flush and reads them newest first', async () => {
+    const { archive } = await loadArchive();
+    archive.append(entry('first'), 'share');
+    archive.append(entry('second'), 'share');
+
+    await archive.flush();
+    const page = await archive.readPage(undefined, null);
+
+    expect(page.entries.map((item) => item.message)).toEqual(['second', 'first']);
+    expect(page.nextCursor).toBeNull();
+    expect(await archive.getUsage()).toMatchObject({ entries: 2 });
+  });
+
+  it('flushes on its own after a short delay', async () => {
+    const { archive, storage } = await loadArchive();
+    archive.append(entry('buffered'), 'share');
+    jest.advanceTimersByTime(1999);
+    await archive.getUsage();
+    expect(storage.multiSet).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(await archive.getUsage()).toMatchObject({ entries: 1 });
+  });
+
+  it('rolls over into a new segment every 200 entries', async () => {
+    const { archive, storage } = await loadArchive();
+    appendMany(archive, 250);
+    await archive.flush();
+
+    const keys = await storage.getAllKeys();
+    expect(keys.filter((key) => key.startsWith('igloo-log-archive:segment:'))).toHaveLength(2);
+    expect(await archive.getUsage()).toMatchObject({ entries: 250 });
+  });
+
+  it('drops the oldest segments over the size limit but keeps the newest', async () => {
+    const { archive } = await loadArchive();
+    appendMany(archive, 250);
+    await archive.flush();
+
+    await archive.setRetention({ maxAgeDays: 7, maxSizeKb: 1 });
+
+    expect(await archive.getUsage()).toMatchObject({ entries: 50 });
+  });
+
+  it('drops segments older than the age limit along with their sessions', async () => {
+    const { archive } = await loadArchive();
+    archive.startSession('share');
+    archive.append(entry('old'), 'share');
+    archive.endSession('share', 'stopped');
+    await archive.flush();
+
+    jest.setSystemTime(START + 8 * DAY_MS);
+    await archive.setRetention({ maxAgeDays: 7, maxSizeKb: 2048 });
+
+    expect(await archive.getUsage()).toEqual({ bytes: 0, entries: 0 });
+    expect(await archive.getSessions()).toEqual([]);
+  });
+
+  it('counts entries per session and records how it ended', async () => {
+    const { archive } = await loadArchive();
+    archive.startSession('share');
+    archive.append(entry('signed'), 'share');
+    archive.endSession('share', 'stopped');
+
+    const [session] = await archive.getSessions();
+    expect(session).toMatchObject({ shareId: 'share', entryCount: 3, endReason: 'stopped' });
+
+    const page = await archive.readPage(session.id, null);
+    expect(page.entries.map((item) => item.message)).toEqual([
+      'Signer session ended',
+      'signed',
+      'Signer session started',
+    ]);
+  });
+
+  it('keeps entries buffered when the write fails', async () => {
+    const { archive, storage } = await loadArchive();
+    jest.mocked(storage.multiSet).mockRejectedValueOnce(new Error('disk full'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    archive.append(entry('kept'), 'share');
+    await expect(archive.flush()).rejects.toThrow('disk full');
+    expect(await archive.getUsage()).toEqual({ bytes: 0, entries: 0 });
+
+    await archive.flush();
+    const page = await archive.readPage(undefined, null);
+    expect(page.entries.map((item) => item.message)).toEqual(['kept']);
+  });
+
+  it('clears buffered and archived entries', async () => {
+    const { archive } = await loadArchive();
+    archive.append(entry('archived'), 'share');
+    await archive.flush();
+    archive.append(entry('buffered'), 'share');
+
+    await archive.clear();
+
+    expect((await archive.readPage(undefined, null)).entries).toEqual([]);
+  });
+});
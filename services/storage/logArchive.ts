@@ -0,0 +1,441 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { nanoid } from 'nanoid';
+import type { ArchivedLogEntry, LogArchivePage, LogEntry, LogRetention, LogSession } from '@/types';
+
+const STORAGE_KEYS = {
+  INDEX: 'igloo-log-archive',
+  SEGMENT_PREFIX: 'igloo-log-archive:segment:',
+} as const;
+
+// Entries are written in fixed-size segments so rotation drops whole keys
+const SEGMENT_MAX_ENTRIES = 200;
+const FLUSH_DELAY_MS = 2000;
+const FLUSH_THRESHOLD = 50;
+const MAX_SESSIONS = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const LOG_ARCHIVE_PAGE_SIZE = 100;
+
+export const DEFAULT_LOG_RETENTION: LogRetention = {
+  maxAgeDays: 7,
+  maxSizeKb: 2048,
+};
+
+interface SegmentMeta {
+  id: number;
+  firstAt: string;
+  lastAt: string;
+  count: number;
+  bytes: number;
+}
+
+interface ArchiveIndex {
+  version: 1;
+  nextSegmentId: number;
+  segments: SegmentMeta[]; // Oldest first
+  sessions: LogSession[]; // Oldest first
+}
+
+let index: ArchiveIndex | null = null;
+let pending: ArchivedLogEntry[] = [];
+// Bumped by clear(), so a failed write does not bring back entries that were cleared meanwhile
+let clearCount = 0;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let writeQueue: Promise<unknown> = Promise.resolve();
+let retention: LogRetention = DEFAULT_LOG_RETENTION;
+let appStateSubscription: { remove: () => void } | null = null;
+// Open session per share, so entries can be tagged as they arrive
+const openSessions: Map<string | null, string> = new Map();
+
+const segmentKey = (id: number) => `${STORAGE_KEYS.SEGMENT_PREFIX}${id}`;
+
+/**
+ * Run archive operations one at a time; a failure is logged and does not block later ones.
+ */
+function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(operation);
+  writeQueue = result.catch((error) => {
+    console.warn('[logArchive] Operation failed:', error);
+  });
+  return result;
+}
+
+async function loadIndex(): Promise<ArchiveIndex> {
+  if (index) return index;
+
+  const raw = await AsyncStorage.getItem(STORAGE_KEYS.INDEX);
+  let loaded: ArchiveIndex = { version: 1, nextSegmentId: 1, segments: [], sessions: [] };
+  if (raw) {
+    try {
+      loaded = JSON.parse(raw) as ArchiveIndex;
+    } catch {
+      console.warn('[logArchive] Discarding unreadable archive index');
+    }
+  }
+
+  // Sessions still open from a previous launch ended when the app was killed
+  const lastWriteAt = loaded.segments[loaded.segments.length - 1]?.lastAt ?? null;
+  for (const session of loaded.sessions) {
+    if (session.endedAt === null) {
+      session.endedAt =
+        lastWriteAt && lastWriteAt > session.startedAt ? lastWriteAt : session.startedAt;
+      session.endReason = 'interrupted';
+    }
+  }
+
+  index = loaded;
+  return loaded;
+}
+
+async function saveIndex(current: ArchiveIndex): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEYS.INDEX, JSON.stringify(current));
+}
+
+async function readSegment(id: number): Promise<ArchivedLogEntry[]> {
+  const raw = await AsyncStorage.getItem(segmentKey(id));
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw) as ArchivedLogEntry[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Drop the oldest segments past the age or size limit, and sessions with no entries left.
+ */
+async function prune(current: ArchiveIndex): Promise<void> {
+  const cutoff = new Date(Date.now() - retention.maxAgeDays * DAY_MS).toISOString();
+  const maxBytes = retention.maxSizeKb * 1024;
+  let totalBytes = current.segments.reduce((sum, segment) => sum + segment.bytes, 0);
+
+  const removed: SegmentMeta[] = [];
+  while (current.segments.length > 0) {
+    const oldest = current.segments[0];
+    // Keep the segment being written to, even when it alone is over the size limit
+    const isLast = current.segments.length === 1;
+    if (oldest.lastAt < cutoff || (totalBytes > maxBytes && !isLast)) {
+      removed.push(current.segments.shift()!);
+      totalBytes -= oldest.bytes;
+    } else {
+      break;
+    }
+  }
+  if (removed.length > 0) {
+    await AsyncStorage.multiRemove(removed.map((segment) => segmentKey(segment.id)));
+  }
+
+  const oldestEntryAt = current.segments[0]?.firstAt ?? null;
+  current.sessions = current.sessions
+    .filter(
+      (session) =>
+        session.endedAt === null || (oldestEntryAt !== null && session.endedAt >= oldestEntryAt)
+    )
+    .slice(-MAX_SESSIONS);
+}
+
+/**
+ * Append buffered entries to the newest segment, rolling over into new segments as they fill.
+ * The index is only replaced once the segments are stored; on failure the entries stay buffered.
+ */
+async function writePending(): Promise<void> {
+  const entries = pending;
+  pending = [];
+  if (entries.length === 0) return;
+
+  const clearCountAtStart = clearCount;
+  try {
+    await writeEntries(entries);
+  } catch (error) {
+    if (clearCount === clearCountAtStart) {
+      pending = [...entries, ...pending];
+    }
+    throw error;
+  }
+}
+
+async function writeEntries(entries: ArchivedLogEntry[]): Promise<void> {
+  const loaded = await loadIndex();
+  // Work on a copy so a failed write leaves the cached index untouched
+  const current: ArchiveIndex = {
+    ...loaded,
+    segments: [...loaded.segments],
+    sessions: loaded.sessions.map((session) => ({ ...session })),
+  };
+  let lastMeta: SegmentMeta | undefined = current.segments[current.segments.length - 1];
+  let segment =
+    lastMeta && lastMeta.count < SEGMENT_MAX_ENTRIES ? await readSegment(lastMeta.id) : [];
+  if (!lastMeta || lastMeta.count >= SEGMENT_MAX_ENTRIES) {
+    lastMeta = undefined;
+  }
+
+  const writes: [string, string][] = [];
+  const commit = () => {
+    const serialized = JSON.stringify(segment);
+    const meta: SegmentMeta = {
+      id: lastMeta?.id ?? current.nextSegmentId++,
+      firstAt: segment[0].timestamp,
+      lastAt: segment[segment.length - 1].timestamp,
+      count: segment.length,
+      bytes: serialized.length,
+    };
+    writes.push([segmentKey(meta.id), serialized]);
+    if (lastMeta) {
+      current.segments[current.segments.length - 1] = meta;
+    } else {
+      current.segments.push(meta);
+    }
+    lastMeta = meta;
+  };
+
+  for (const entry of entries) {
+    segment.push(entry);
+    if (segment.length >= SEGMENT_MAX_ENTRIES) {
+      commit();
+      segment = [];
+      lastMeta = undefined;
+    }
+  }
+  if (segment.length > 0) {
+    commit();
+  }
+
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.sessionId) counts.set(entry.sessionId, (counts.get(entry.sessionId) ?? 0) + 1);
+  }
+  for (const session of current.sessions) {
+    session.entryCount += counts.get(session.id) ?? 0;
+  }
+
+  await AsyncStorage.multiSet(writes);
+  index = current;
+  await prune(current);
+  await saveIndex(current);
+}
+
+function scheduleFlush(): void {
+  if (pending.length >= FLUSH_THRESHOLD) {
+    void logArchive.flush();
+    return;
+  }
+  if (!flushTimer) {
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      void logArchive.flush();
+    }, FLUSH_DELAY_MS);
+  }
+}
+
+function ensureAppStateListener(): void {
+  if (appStateSubscription) return;
+  // iOS may kill a backgrounded app without warning, so write out what is buffered
+  appStateSubscription = AppState.addEventListener('change', (state) => {
+    if (state !== 'active') {
+      void logArchive.flush();
+    }
+  });
+}
+
+function createMarker(
+  sessionId: string,
+  shareId: string | null,
+  message: string,
+  data: Record<string, unknown>
+): ArchivedLogEntry {
+  return {
+    id: nanoid(),
+    timestamp: new Date().toISOString(),
+    level: 'info',
+    category: 'system',
+    message,
+    data: { sessionId, ...data },
+    sessionId,
+    shareId,
+  };
+}
+
+/**
+ * On-device log archive.
+ * Log entries are buffered and written to AsyncStorage in fixed-size segments, tagged with
+ * the signer session they belong to. The oldest segments rotate out by age and total size.
+ */
+export const logArchive = {
+  /**
+   * Queue an entry for the archive, tagged with the share's open session.
+   */
+  append(entry: Omit<LogEntry, 'id' | 'timestamp'>, shareId: string | null): void {
+    ensureAppStateListener();
+    pending.push({
+      ...entry,
+      id: nanoid(),
+      timestamp: new Date().toISOString(),
+      sessionId: openSessions.get(shareId) ?? null,
+      shareId,
+    });
+    scheduleFlush();
+  },
+
+  /**
+   * Open a signer session for a share and write its start marker.
+   * Does nothing if the share already has an open session, e.g. across a reconnect.
+   */
+  startSession(shareId: string | null): void {
+    if (openSessions.has(shareId)) return;
+
+    const session: LogSession = {
+      id: nanoid(),
+      shareId,
+      startedAt: new Date().toISOString(),
+      endedAt: null,
+      endReason: null,
+      entryCount: 0,
+    };
+    openSessions.set(shareId, session.id);
+    void enqueue(async () => {
+      const current = await loadIndex();
+      current.sessions.push(session);
+      await saveIndex(current);
+    });
+    ensureAppStateListener();
+    pending.push(createMarker(session.id, shareId, 'Signer session started', {}));
+    scheduleFlush();
+  },
+
+  /**
+   * Close the share's open session and write its stop marker.
+   */
+  endSession(shareId: string | null, reason: 'stopped' | 'error'): void {
+    const sessionId = openSessions.get(shareId);
+    if (!sessionId) return;
+
+    const endedAt = new Date().toISOString();
+    pending.push(createMarker(sessionId, shareId, 'Signer session ended', { reason }));
+    openSessions.delete(shareId);
+    void this.flush();
+    void enqueue(async () => {
+      const current = await loadIndex();
+      const session = current.sessions.find((item) => item.id === sessionId);
+      if (session) {
+        session.endedAt = endedAt;
+        session.endReason = reason;
+        await saveIndex(current);
+      }
+    });
+  },
+
+  /**
+   * Write buffered entries now.
+   */
+  flush(): Promise<void> {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    return enqueue(writePending);
+  },
+
+  /**
+   * Recorded sessions, newest first.
+   */
+  async getSessions(): Promise<LogSession[]> {
+    await this.flush();
+    const current = await enqueue(loadIndex);
+    return current.sessions.map((session) => ({ ...session })).reverse();
+  },
+
+  /**
+   * Read archived entries, newest first, a page at a time.
+   * @param sessionId - Only entries of this session; undefined for every entry
+   * @param cursor - nextCursor of the previous page; null for the newest page
+   */
+  async readPage(sessionId: string | undefined, cursor: number | null): Promise<LogArchivePage> {
+    await this.flush();
+    return enqueue(async () => {
+      const current = await loadIndex();
+      const candidates = current.segments
+        .filter((segment) => cursor === null || segment.id < cursor)
+        .reverse();
+
+      const entries: ArchivedLogEntry[] = [];
+      let nextCursor: number | null = null;
+      for (let i = 0; i < candidates.length; i++) {
+        const segment = await readSegment(candidates[i].id);
+        const matching =
+          sessionId === undefined
+            ? segment
+            : segment.filter((entry) => entry.sessionId === sessionId);
+        entries.push(...matching.reverse());
+        if (entries.length >= LOG_ARCHIVE_PAGE_SIZE && i < candidates.length - 1) {
+          nextCursor = candidates[i].id;
+          break;
+        }
+      }
+      return { entries, nextCursor };
+    });
+  },
+
+  /**
+   * Archived entries matching a predicate, newest first, up to a limit.
+   */
+  async find(
+    match: (entry: ArchivedLogEntry) => boolean,
+    limit: number = LOG_ARCHIVE_PAGE_SIZE
+  ): Promise<ArchivedLogEntry[]> {
+    await this.flush();
+    return enqueue(async () => {
+      const current = await loadIndex();
+      const found: ArchivedLogEntry[] = [];
+      for (const meta of [...current.segments].reverse()) {
+        const segment = await readSegment(meta.id);
+        found.push(...segment.filter(match).reverse());
+        if (found.length >= limit) break;
+      }
+      return found.slice(0, limit);
+    });
+  },
+
+  /**
+   * Approximate archive size in bytes and number of entries.
+   */
+  async getUsage(): Promise<{ bytes: number; entries: number }> {
+    const current = await enqueue(loadIndex);
+    return current.segments.reduce(
+      (usage, segment) => ({
+        bytes: usage.bytes + segment.bytes,
+        entries: usage.entries + segment.count,
+      }),
+      { bytes: 0, entries: 0 }
+    );
+  },
+
+  /**
+   * Apply new retention limits, pruning right away.
+   */
+  setRetention(next: LogRetention): Promise<void> {
+    retention = next;
+    return enqueue(async () => {
+      const current = await loadIndex();
+      await prune(current);
+      await saveIndex(current);
+    });
+  },
+
+  /**
+   * Delete every archived entry. Open sessions stay open.
+   */
+  clear(): Promise<void> {
+    pending = [];
+    clearCount++;
+    return enqueue(async () => {
+      const current = await loadIndex();
+      await AsyncStorage.multiRemove(current.segments.map((segment) => segmentKey(segment.id)));
+      current.segments = [];
+      current.sessions = current.sessions
+        .filter((session) => session.endedAt === null)
+        .map((session) => ({ ...session, entryCount: 0 }));
+      await saveIndex(current);
+    });
+  },
+};
@@ -1,23 +1,40 @@
-import type { Credentials } from '@/types';
+import type { BunkerKeys, Credentials } from '@/types';
 import * as SecureStore from 'expo-secure-store';
 
-const STORAGE_KEYS = {
+// Single-slot keys used before the keyring; only read during migration.
+const LEGACY_STORAGE_KEYS = {
   SHARE: 'igloo_bfshare',
   GROUP: 'igloo_bfgroup',
 } as const;
 
+const STORAGE_KEY_PREFIX = {
+  SHARE: 'igloo_bfshare_',
+  GROUP: 'igloo_bfgroup_',
+  BUNKER: 'igloo_bunker_',
+} as const;
+
+function getStorageKeys(shareId: string) {
+  return {
+    SHARE: `${STORAGE_KEY_PREFIX.SHARE}${shareId}`,
+    GROUP: `${STORAGE_KEY_PREFIX.GROUP}${shareId}`,
+    BUNKER: `${STORAGE_KEY_PREFIX.BUNKER}${shareId}`,
+  };
+}
+
 /**
  * Secure storage service for credential management.
  * Uses expo-secure-store which encrypts data at rest.
+ * Each keyring share is stored under its own pair of keys.
  */
 export const secureStorage = {
   /**
    * Save both share and group credentials securely.
    */
-  async saveCredentials(share: string, group: string): Promise<void> {
+  async saveCredentials(shareId: string, share: string, group: string): Promise<void> {
+    const keys = getStorageKeys(shareId);
     await Promise.all([
-      SecureStore.setItemAsync(STORAGE_KEYS.SHARE, share),
-      SecureStore.setItemAsync(STORAGE_KEYS.GROUP, group),
+      SecureStore.setItemAsync(keys.SHARE, share),
+      SecureStore.setItemAsync(keys.GROUP, group),
     ]);
   },
 
@@ -25,10 +42,11 @@ export const secureStorage = {
    * Retrieve stored credentials.
    * Returns null if either credential is missing.
    */
-  async getCredentials(): Promise<Credentials | null> {
+  async getCredentials(shareId: string): Promise<Credentials | null> {
+    const keys = getStorageKeys(shareId);
     const [share, group] = await Promise.all([
-      SecureStore.getItemAsync(STORAGE_KEYS.SHARE),
-      SecureStore.getItemAsync(STORAGE_KEYS.GROUP),
+      SecureStore.getItemAsync(keys.SHARE),
+      SecureStore.getItemAsync(keys.GROUP),
     ]);
 
     if (!share || !group) {
@@ -39,12 +57,14 @@ export const secureStorage = {
   },
 
   /**
-   * Delete all stored credentials.
+   * Delete stored credentials for one share, along with its bunker keys.
    */
-  async clearCredentials(): Promise<void> {
+  async clearCredentials(shareId: string): Promise<void> {
+    const keys = getStorageKeys(shareId);
     await Promise.all([
-      SecureStore.deleteItemAsync(STORAGE_KEYS.SHARE),
-      SecureStore.deleteItemAsync(STORAGE_KEYS.GROUP),
+      SecureStore.deleteItemAsync(keys.SHARE),
+      SecureStore.deleteItemAsync(keys.GROUP),
+      SecureStore.deleteItemAsync(keys.BUNKER),
     ]);
   },
 
@@ -52,10 +72,11 @@ export const secureStorage = {
    * Check if credentials exist without loading them.
    * Returns true only if both share and group are present.
    */
-  async hasCredentials(): Promise<boolean> {
+  async hasCredentials(shareId: string): Promise<boolean> {
+    const keys = getStorageKeys(shareId);
     const [share, group] = await Promise.all([
-      SecureStore.getItemAsync(STORAGE_KEYS.SHARE),
-      SecureStore.getItemAsync(STORAGE_KEYS.GROUP),
+      SecureStore.getItemAsync(keys.SHARE),
+      SecureStore.getItemAsync(keys.GROUP),
     ]);
     return share !== null && group !== null;
   },
@@ -63,15 +84,53 @@ export const secureStorage = {
   /**
    * Get just the share credential (for validation checks).
    */
-  async getShare(): Promise<string | null> {
-    return SecureStore.getItemAsync(STORAGE_KEYS.SHARE);
+  async getShare(shareId: string): Promise<string | null> {
+    return SecureStore.getItemAsync(getStorageKeys(shareId).SHARE);
   },
 
   /**
    * Get just the group credential (for validation checks).
    */
-  async getGroup(): Promise<string | null> {
-    return SecureStore.getItemAsync(STORAGE_KEYS.GROUP);
+  async getGroup(shareId: string): Promise<string | null> {
+    return SecureStore.getItemAsync(getStorageKeys(shareId).GROUP);
+  },
+
+  /**
+   * Get the NIP-46 bunker keys of a share, or null if the bunker was never set up.
+   */
+  async getBunkerKeys(shareId: string): Promise<BunkerKeys | null> {
+    const raw = await SecureStore.getItemAsync(getStorageKeys(shareId).BUNKER);
+    return raw ? (JSON.parse(raw) as BunkerKeys) : null;
+  },
+
+  async saveBunkerKeys(shareId: string, keys: BunkerKeys): Promise<void> {
+    await SecureStore.setItemAsync(getStorageKeys(shareId).BUNKER, JSON.stringify(keys));
+  },
+
+  /**
+   * Read credentials saved by the single-slot layout, if any remain.
+   */
+  async getLegacyCredentials(): Promise<Credentials | null> {
+    const [share, group] = await Promise.all([
+      SecureStore.getItemAsync(LEGACY_STORAGE_KEYS.SHARE),
+      SecureStore.getItemAsync(LEGACY_STORAGE_KEYS.GROUP),
+    ]);
+
+    if (!share || !group) {
+      return null;
+    }
+
+    return { share, group };
+  },
+
+  /**
+   * Delete credentials saved by the single-slot layout.
+   */
+  async clearLegacyCredentials(): Promise<void> {
+    await Promise.all([
+      SecureStore.deleteItemAsync(LEGACY_STORAGE_KEYS.SHARE),
+      SecureStore.deleteItemAsync(LEGACY_STORAGE_KEYS.GROUP),
+    ]);
   },
 };
 
@@ -0,0 +1,83 @@
+import { isPasswordEnvelope, openWithPassword, sealWithPassword } from '@/services/crypto';
+import type { EncryptedShare } from '@/types';
+
+const SHARE_FORMAT = 'igloo-share';
+const SHARE_VERSION = 1;
+
+export const MIN_SHARE_PASSPHRASE_LENGTH = 8;
+
+function getContext(envelope: Pick<EncryptedShare, 'format' | 'version'>): string {
+  return [envelope.format, envelope.version].join('|');
+}
+
+function parseEncryptedShare(stored: string): EncryptedShare | null {
+  // Plain credentials are bech32 strings; only JSON can be an envelope
+  if (!stored.startsWith('{')) return null;
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    if (!isPasswordEnvelope(parsed)) return null;
+    const envelope = parsed as Partial<EncryptedShare>;
+    return envelope.format === SHARE_FORMAT && typeof envelope.version === 'number'
+      ? (parsed as EncryptedShare)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Passphrase encryption for a stored bfshare, like igloo-desktop's encrypted credentials.
+ * The envelope is stored in secure storage in place of the share, so a copy of the
+ * device keychain alone does not reveal it.
+ *
+ * This is not igloo-desktop's file format. Desktop's share encryption is part of the desktop
+ * app and igloo-core only defines the plain bfshare, bfgroup and bfcred encodings, so there is
+ * no shared format to reuse. Shares move between apps in those plain encodings; the envelope
+ * only leaves the device inside an Igloo backup. The `format` and `version` header leaves room
+ * to read desktop's format if igloo-core ever exposes it.
+ */
+export const shareEncryption = {
+  /**
+   * Encrypt a bfshare under a passphrase and serialize the envelope for storage.
+   */
+  async encrypt(share: string, passphrase: string): Promise<string> {
+    if (passphrase.length < MIN_SHARE_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_SHARE_PASSPHRASE_LENGTH} characters`);
+    }
+    if (this.isEncrypted(share)) {
+      throw new Error('Share is already passphrase protected');
+    }
+
+    const header = { format: SHARE_FORMAT, version: SHARE_VERSION } as const;
+    const envelope = await sealWithPassword(share, passphrase, getContext(header));
+    const encrypted: EncryptedShare = { ...header, ...envelope };
+    return JSON.stringify(encrypted);
+  },
+
+  /**
+   * Decrypt a stored share. Plain shares are returned unchanged.
+   * Throws if the passphrase is wrong or the envelope was modified.
+   */
+  async decrypt(stored: string, passphrase: string): Promise<string> {
+    const envelope = parseEncryptedShare(stored);
+    if (!envelope) return stored;
+    if (envelope.version !== SHARE_VERSION) {
+      throw new Error(`Unsupported encrypted share version ${envelope.version}`);
+    }
+
+    try {
+      return await openWithPassword(envelope, passphrase, getContext(envelope));
+    } catch {
+      throw new Error('Wrong passphrase');
+    }
+  },
+
+  /**
+   * Check whether a stored share is a passphrase envelope rather than a bfshare.
+   */
+  isEncrypted(stored: string): boolean {
+    return parseEncryptedShare(stored) !== null;
+  },
+};
+
+export default shareEncryption;
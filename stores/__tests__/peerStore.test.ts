@@ -0,0 +1,96 @@
+import type { Peer } from '@/types';
+import { getQuorumStatus } from '../peerStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// igloo-core only ships ESM, which jest does not transform here; this is its normalizePubkey
+jest.mock('@frostr/igloo-core', () => ({
+  normalizePubkey: (pubkey: string) =>
+    /^0[23]/.test(pubkey) && pubkey.length === 66 ? pubkey.slice(2) : pubkey,
+}));
+
+const SELF = `02${'1'.repeat(64)}`;
+const TWO_OF_THREE = { threshold: 2, totalMembers: 3 };
+
+function peer(char: string, overrides: Partial<Peer> = {}): Peer {
+  return {
+    pubkey: `02${char.repeat(64)}`,
+    status: 'unknown',
+    lastSeen: null,
+    latency: null,
+    allowSend: true,
+    allowReceive: true,
+    ...overrides,
+  };
+}
+
+function peers(...list: Peer[]): Record<string, Peer> {
+  return Object.fromEntries(list.map((item) => [item.pubkey, item]));
+}
+
+describe('getQuorumStatus', () => {
+  it('is reachable once enough peers are online, counting this device', () => {
+    const status = getQuorumStatus(
+      peers(peer('a', { status: 'online' }), peer('b', { status: 'offline' })),
+      TWO_OF_THREE
+    );
+
+    expect(status).toEqual({
+      state: 'reachable',
+      threshold: 2,
+      available: 2,
+      pending: 0,
+      totalMembers: 3,
+    });
+  });
+
+  it('is checking while peers that could complete the quorum are still unknown', () => {
+    const status = getQuorumStatus(
+      peers(peer('a'), peer('b', { status: 'offline' })),
+      TWO_OF_THREE
+    );
+
+    expect(status).toMatchObject({ state: 'checking', available: 1, pending: 1 });
+  });
+
+  it('is unreachable when too many peers are offline', () => {
+    const status = getQuorumStatus(
+      peers(peer('a', { status: 'offline' }), peer('b', { status: 'offline' })),
+      TWO_OF_THREE
+    );
+
+    expect(status).toMatchObject({ state: 'unreachable', available: 1, pending: 0 });
+  });
+
+  it('does not count peers with sending disabled', () => {
+    const status = getQuorumStatus(
+      peers(peer('a', { status: 'online', allowSend: false }), peer('b', { allowSend: false })),
+      TWO_OF_THREE
+    );
+
+    expect(status).toMatchObject({ state: 'unreachable', available: 1, pending: 0 });
+  });
+
+  it('does not count this device twice when it is listed among the peers', () => {
+    const self = peer('1', { status: 'online' });
+    expect(self.pubkey).toBe(SELF);
+
+    expect(getQuorumStatus(peers(self), TWO_OF_THREE, SELF)).toMatchObject({
+      state: 'unreachable',
+      available: 1,
+    });
+    // The comparison ignores the key's parity prefix
+    expect(getQuorumStatus(peers(self), TWO_OF_THREE, SELF.slice(2))).toMatchObject({
+      available: 1,
+    });
+  });
+
+  it('is reachable alone for a 1-of-n group', () => {
+    expect(getQuorumStatus({}, { threshold: 1, totalMembers: 2 })).toMatchObject({
+      state: 'reachable',
+      available: 1,
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import type { BunkerClient, BunkerStatus, BunkerStoreState } from '@/types';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+const isClient = (client: BunkerClient, shareId: string, pubkey: string) =>
+  client.shareId === shareId && client.pubkey === pubkey;
+
+export const useBunkerStore = create<BunkerStoreState>()(
+  persist(
+    (set) => ({
+      // State
+      enabled: false,
+      clients: [],
+      status: 'stopped',
+      lastError: null,
+
+      // Actions
+      setEnabled: (enabled: boolean) => {
+        set({ enabled });
+      },
+
+      addClient: (client: BunkerClient) => {
+        // Reconnecting replaces the previous pairing and its permissions
+        set((state) => ({
+          clients: [
+            client,
+            ...state.clients.filter((item) => !isClient(item, client.shareId, client.pubkey)),
+          ],
+        }));
+      },
+
+      removeClient: (shareId: string, pubkey: string) => {
+        set((state) => ({
+          clients: state.clients.filter((client) => !isClient(client, shareId, pubkey)),
+        }));
+      },
+
+      setClientPermissions: (shareId: string, pubkey: string, permissions: string[]) => {
+        set((state) => ({
+          clients: state.clients.map((client) =>
+            isClient(client, shareId, pubkey) ? { ...client, permissions } : client
+          ),
+        }));
+      },
+
+      resolvePermissionRequest: (shareId: string, pubkey: string, grant: boolean) => {
+        set((state) => ({
+          clients: state.clients.map((client) => {
+            if (!isClient(client, shareId, pubkey)) return client;
+            const { requestedPermissions = [], ...rest } = client;
+            const permissions = grant
+              ? Array.from(new Set([...client.permissions, ...requestedPermissions]))
+              : client.permissions;
+            return { ...rest, permissions };
+          }),
+        }));
+      },
+
+      recordClientRequest: (shareId: string, pubkey: string) => {
+        const now = new Date().toISOString();
+        set((state) => ({
+          clients: state.clients.map((client) =>
+            isClient(client, shareId, pubkey)
+              ? { ...client, lastRequestAt: now, requestCount: client.requestCount + 1 }
+              : client
+          ),
+        }));
+      },
+
+      setStatus: (status: BunkerStatus, error: string | null = null) => {
+        set({ status, lastError: error });
+      },
+
+      reset: () => {
+        set({ enabled: false, clients: [], status: 'stopped', lastError: null });
+      },
+    }),
+    {
+      name: 'igloo-bunker',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        enabled: state.enabled,
+        clients: state.clients,
+      }),
+    }
+  )
+);
@@ -1,24 +1,116 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { nanoid } from 'nanoid';
 import { secureStorage } from '@/services/storage/secureStorage';
-import type { CredentialStoreState, ShareDetails } from '@/types';
+import type { CredentialStoreState, KeyringShare, ShareDetails } from '@/types';
+
+// Hydration can run twice on launch; share one migration between both calls.
+let legacyMigration: Promise<KeyringShare | null> | null = null;
+
+function migrateLegacyCredentials(
+  shareDetails: ShareDetails | null,
+  saveEntry: (entry: KeyringShare) => Promise<void>
+): Promise<KeyringShare | null> {
+  if (!legacyMigration) {
+    legacyMigration = runLegacyMigration(shareDetails, saveEntry).finally(() => {
+      legacyMigration = null;
+    });
+  }
+  return legacyMigration;
+}
+
+/**
+ * Move credentials from the single-slot keys into a keyring entry.
+ * The legacy keys are only deleted once the entry is saved, so a failure
+ * part way leaves them in place for the next launch to retry.
+ * Returns the new entry, or null when there was nothing to migrate.
+ */
+async function runLegacyMigration(
+  shareDetails: ShareDetails | null,
+  saveEntry: (entry: KeyringShare) => Promise<void>
+): Promise<KeyringShare | null> {
+  const legacy = await secureStorage.getLegacyCredentials();
+  if (!legacy) return null;
+
+  const entry: KeyringShare = {
+    id: nanoid(),
+    name: 'Primary',
+    shareDetails,
+    relays: [],
+    peerPolicies: [],
+    createdAt: new Date().toISOString(),
+  };
+
+  try {
+    await secureStorage.saveCredentials(entry.id, legacy.share, legacy.group);
+    await saveEntry(entry);
+  } catch (error) {
+    // Don't leave credentials behind for an entry the keyring doesn't list
+    await secureStorage.clearCredentials(entry.id).catch(() => {});
+    throw error;
+  }
+
+  await secureStorage.clearLegacyCredentials();
+  return entry;
+}
+
+async function clearAllShareCredentials(shares: KeyringShare[]): Promise<void> {
+  await Promise.all([
+    ...shares.map((share) => secureStorage.clearCredentials(share.id)),
+    secureStorage.clearLegacyCredentials(),
+  ]);
+}
+
+async function hasAnyShareCredentials(shares: KeyringShare[]): Promise<boolean> {
+  const [legacy, ...results] = await Promise.all([
+    secureStorage.getLegacyCredentials(),
+    ...shares.map((share) => secureStorage.hasCredentials(share.id)),
+  ]);
+  return legacy !== null || results.some(Boolean);
+}
 
 export const useCredentialStore = create<CredentialStoreState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       // State
       hasCredentials: false,
       shareDetails: null,
       onboardingComplete: false,
       echoSent: false,
       isHydrated: false,
+      shares: [],
+      activeShareId: null,
 
       // Actions
       hydrateFromStorage: async () => {
         try {
-          const hasCredentials = await secureStorage.hasCredentials();
+          // Keyring metadata lives in AsyncStorage; wait for it before checking secure storage
+          await waitForPersistedKeyring();
+
+          await migrateLegacyCredentials(get().shareDetails, async (entry) => {
+            set((state) => ({
+              shares: [...state.shares.filter((share) => share.id !== entry.id), entry],
+              activeShareId: entry.id,
+            }));
+            await savePersistedKeyring();
+          });
+          let { shares, activeShareId } = get();
+
+          // Fall back to the first share if the active one is gone
+          if (!activeShareId || !shares.some((share) => share.id === activeShareId)) {
+            activeShareId = shares[0]?.id ?? null;
+          }
+
+          const hasCredentials = activeShareId
+            ? await secureStorage.hasCredentials(activeShareId)
+            : false;
+          const activeShare = shares.find((share) => share.id === activeShareId);
+
           set({
+            shares,
+            activeShareId,
+            shareDetails: activeShare?.shareDetails ?? null,
             hasCredentials,
             isHydrated: true,
           });
@@ -37,7 +129,53 @@ export const useCredentialStore = create<CredentialStoreState>()(
       },
 
       setShareDetails: (details: ShareDetails | null) => {
-        set({ shareDetails: details });
+        set((state) => ({
+          shareDetails: details,
+          shares: state.shares.map((share) =>
+            share.id === state.activeShareId ? { ...share, shareDetails: details } : share
+          ),
+        }));
+      },
+
+      addShare: (share: KeyringShare) => {
+        set((state) => ({
+          shares: [...state.shares.filter((existing) => existing.id !== share.id), share],
+        }));
+      },
+
+      updateShare: (id: string, update: Partial<Omit<KeyringShare, 'id'>>) => {
+        set((state) => ({
+          shares: state.shares.map((share) => (share.id === id ? { ...share, ...update } : share)),
+          shareDetails:
+            id === state.activeShareId && update.shareDetails !== undefined
+              ? update.shareDetails
+              : state.shareDetails,
+        }));
+      },
+
+      removeShare: async (id: string) => {
+        await secureStorage.clearCredentials(id);
+
+        const remaining = get().shares.filter((share) => share.id !== id);
+        const activeShareId =
+          get().activeShareId === id ? (remaining[0]?.id ?? null) : get().activeShareId;
+        const activeShare = remaining.find((share) => share.id === activeShareId);
+
+        set({
+          shares: remaining,
+          activeShareId,
+          shareDetails: activeShare?.shareDetails ?? null,
+          hasCredentials: activeShare !== undefined,
+        });
+      },
+
+      setActiveShare: (id: string | null) => {
+        const activeShare = get().shares.find((share) => share.id === id);
+        set({
+          activeShareId: activeShare ? activeShare.id : null,
+          shareDetails: activeShare?.shareDetails ?? null,
+          hasCredentials: activeShare !== undefined,
+        });
       },
 
       setOnboardingComplete: (complete: boolean) => {
@@ -49,16 +187,19 @@ export const useCredentialStore = create<CredentialStoreState>()(
       },
 
       clearCredentials: async () => {
+        const shares = get().shares;
         const resetClearedState = () =>
           set({
             hasCredentials: false,
             shareDetails: null,
             onboardingComplete: false,
             echoSent: false,
+            shares: [],
+            activeShareId: null,
           });
 
         try {
-          await secureStorage.clearCredentials();
+          await clearAllShareCredentials(shares);
           // Only reset state if secure storage clear succeeded
           resetClearedState();
         } catch (error) {
@@ -66,7 +207,7 @@ export const useCredentialStore = create<CredentialStoreState>()(
           let retryCleared = false;
 
           try {
-            await secureStorage.clearCredentials();
+            await clearAllShareCredentials(shares);
             retryCleared = true;
           } catch (retryError) {
             console.error('Retrying credential clear failed:', retryError);
@@ -74,7 +215,7 @@ export const useCredentialStore = create<CredentialStoreState>()(
 
           let hasCredentials: boolean;
           try {
-            hasCredentials = await secureStorage.hasCredentials();
+            hasCredentials = await hasAnyShareCredentials(shares);
           } catch (statusError) {
             console.error('Failed to verify credential clear state:', statusError);
             throw error;
@@ -102,6 +243,8 @@ export const useCredentialStore = create<CredentialStoreState>()(
         shareDetails: state.shareDetails,
         onboardingComplete: state.onboardingComplete,
         echoSent: state.echoSent,
+        shares: state.shares,
+        activeShareId: state.activeShareId,
       }),
       onRehydrateStorage: () => (state) => {
         // After Zustand rehydrates, also check secure storage
@@ -110,3 +253,25 @@ export const useCredentialStore = create<CredentialStoreState>()(
     }
   )
 );
+
+/**
+ * Write the persisted metadata now and wait for it, rather than relying on the
+ * write persist fires (without awaiting) on every set.
+ */
+async function savePersistedKeyring(): Promise<void> {
+  const { name, storage, partialize, version } = useCredentialStore.persist.getOptions();
+  if (!name || !storage || !partialize) {
+    throw new Error('Credential store persistence is not configured');
+  }
+  await storage.setItem(name, { state: partialize(useCredentialStore.getState()), version });
+}
+
+function waitForPersistedKeyring(): Promise<void> {
+  if (useCredentialStore.persist.hasHydrated()) return Promise.resolve();
+  return new Promise((resolve) => {
+    const unsubscribe = useCredentialStore.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
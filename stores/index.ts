@@ -1,7 +1,25 @@
 // Re-export all stores for convenient imports
 export { useCredentialStore } from './credentialStore';
 export { useSignerStore } from './signerStore';
-export { usePeerStore } from './peerStore';
+export { usePeerStore, getPeerPolicies, getQuorumStatus } from './peerStore';
+export { usePeerHealthStore, getPeerHealthSummary, PEER_HEALTH_BUCKET_MS } from './peerHealthStore';
 export { useRelayStore } from './relayStore';
-export { useLogStore, getFilteredLogs, isLogLevelEnabled, isCategoryEnabled } from './logStore';
+export {
+  useLogStore,
+  getFilteredLogs,
+  filterLogEntries,
+  getLogEntryFacets,
+  isLogLevelEnabled,
+  isCategoryEnabled,
+} from './logStore';
 export { useAudioStore } from './audioStore';
+export { useSigningPolicyStore } from './signingPolicyStore';
+export { useLockStore } from './lockStore';
+export {
+  useSigningHistoryStore,
+  getFilteredHistory,
+  getHistoryDayStats,
+  getHistoryPeerStats,
+} from './signingHistoryStore';
+export { useBunkerStore } from './bunkerStore';
+export { useNotificationStore } from './notificationStore';
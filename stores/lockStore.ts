@@ -0,0 +1,145 @@
+import type { LockStoreState, PinAttemptResult } from '@/types';
+import { pinLock } from '@/services/lock';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+const DEFAULT_AUTO_LOCK_SECONDS = 300;
+// Failed attempts allowed before each further attempt is delayed
+const FREE_PIN_ATTEMPTS = 5;
+const BASE_THROTTLE_MS = 30 * 1000;
+const MAX_THROTTLE_MS = 15 * 60 * 1000;
+
+function getThrottleDelay(failedAttempts: number): number | null {
+  if (failedAttempts < FREE_PIN_ATTEMPTS) return null;
+  return Math.min(BASE_THROTTLE_MS * 2 ** (failedAttempts - FREE_PIN_ATTEMPTS), MAX_THROTTLE_MS);
+}
+
+// PIN checks run one at a time so each attempt sees the failures recorded before it
+let pinVerification: Promise<unknown> = Promise.resolve();
+
+function serializePinVerification<T>(verify: () => Promise<T>): Promise<T> {
+  const result = pinVerification.then(verify);
+  pinVerification = result.catch(() => undefined);
+  return result;
+}
+
+export const useLockStore = create<LockStoreState>()(
+  persist(
+    (set, get) => ({
+      // State
+      isPinSet: false,
+      // Locked until hydration confirms whether a PIN exists
+      isLocked: true,
+      isHydrated: false,
+      autoLockSeconds: DEFAULT_AUTO_LOCK_SECONDS,
+      wipeAfterFailures: null,
+      failedAttempts: 0,
+      lockedUntil: null,
+      lastVerifiedAt: null,
+
+      // Actions
+      hydrate: async () => {
+        try {
+          const [isPinSet, attempts] = await Promise.all([
+            pinLock.hasPin(),
+            pinLock.getAttemptState(),
+          ]);
+          set({
+            isPinSet,
+            isLocked: isPinSet,
+            failedAttempts: attempts.failedAttempts,
+            lockedUntil: attempts.lockedUntil,
+            isHydrated: true,
+          });
+        } catch (error) {
+          console.error('Failed to hydrate app lock:', error);
+          // Fail closed if a PIN may exist; the lock screen retries on unlock
+          set({ isHydrated: true });
+        }
+      },
+
+      setPin: async (pin: string) => {
+        await pinLock.setPin(pin);
+        await pinLock.saveAttemptState({ failedAttempts: 0, lockedUntil: null });
+        set({
+          isPinSet: true,
+          isLocked: false,
+          failedAttempts: 0,
+          lockedUntil: null,
+          lastVerifiedAt: Date.now(),
+        });
+      },
+
+      removePin: async () => {
+        await pinLock.clearPin();
+        set({
+          isPinSet: false,
+          isLocked: false,
+          failedAttempts: 0,
+          lockedUntil: null,
+          lastVerifiedAt: null,
+        });
+      },
+
+      lock: () => {
+        if (!get().isPinSet) return;
+        set({ isLocked: true, lastVerifiedAt: null });
+      },
+
+      verifyPin: (pin: string): Promise<PinAttemptResult> =>
+        serializePinVerification(async () => {
+          const now = Date.now();
+          const { lockedUntil, wipeAfterFailures } = get();
+          if (lockedUntil !== null && lockedUntil > now) {
+            return { status: 'throttled', retryAt: lockedUntil };
+          }
+
+          if (await pinLock.verifyPin(pin)) {
+            await pinLock.saveAttemptState({ failedAttempts: 0, lockedUntil: null });
+            set({ isLocked: false, failedAttempts: 0, lockedUntil: null, lastVerifiedAt: now });
+            return { status: 'unlocked' };
+          }
+
+          const failedAttempts = get().failedAttempts + 1;
+          if (wipeAfterFailures !== null && failedAttempts >= wipeAfterFailures) {
+            await pinLock.saveAttemptState({ failedAttempts, lockedUntil: null });
+            set({ failedAttempts, lockedUntil: null });
+            return { status: 'wipe' };
+          }
+
+          const delay = getThrottleDelay(failedAttempts);
+          const nextLockedUntil = delay !== null ? now + delay : null;
+          await pinLock.saveAttemptState({ failedAttempts, lockedUntil: nextLockedUntil });
+          set({ failedAttempts, lockedUntil: nextLockedUntil });
+
+          const attemptsBeforeWipe =
+            wipeAfterFailures !== null ? wipeAfterFailures - failedAttempts : undefined;
+          return nextLockedUntil !== null
+            ? { status: 'throttled', retryAt: nextLockedUntil, attemptsBeforeWipe }
+            : { status: 'invalid', attemptsBeforeWipe };
+        }),
+
+      setAutoLockSeconds: (seconds: number | null) => {
+        if (seconds !== null && (!Number.isFinite(seconds) || seconds <= 0)) return;
+        set({ autoLockSeconds: seconds });
+      },
+
+      setWipeAfterFailures: (failures: number | null) => {
+        if (failures !== null && (!Number.isInteger(failures) || failures < FREE_PIN_ATTEMPTS)) {
+          return;
+        }
+        set({ wipeAfterFailures: failures });
+      },
+    }),
+    {
+      name: 'igloo-lock',
+      storage: createJSONStorage(() => AsyncStorage),
+      // PIN and attempt state live in secure storage; only persist preferences here
+      partialize: (state) => ({
+        autoLockSeconds: state.autoLockSeconds,
+        wipeAfterFailures: state.wipeAfterFailures,
+      }),
+    }
+  )
+);
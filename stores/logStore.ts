@@ -1,6 +1,19 @@
-import type { LogCategory, LogEntry, LogFilter, LogLevel, LogStoreState } from '@/types';
+import type {
+  LogCategory,
+  LogEntry,
+  LogEntryFacets,
+  LogFilter,
+  LogLevel,
+  LogRetention,
+  LogStoreState,
+  LogTimeRange,
+} from '@/types';
+import { extractNostrEventFromEntry } from '@/services/igloo/nostrEvent';
+import { DEFAULT_LOG_RETENTION, logArchive } from '@/services/storage/logArchive';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { nanoid } from 'nanoid';
 import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
 
 const DEFAULT_MAX_ENTRIES = 500;
 
@@ -8,8 +21,28 @@ const DEFAULT_FILTER: LogFilter = {
   levels: ['debug', 'info', 'warn', 'error'],
   // Include 'system' logs by default; users can filter them out in the UI when needed.
   categories: ['signing', 'relay', 'peer', 'echo', 'system'],
+  query: '',
+  sessionId: null,
+  peerPubkey: null,
+  eventKind: null,
+  range: 'all',
 };
 
+const MINUTE_MS = 60 * 1000;
+
+const RANGE_MS: Record<Exclude<LogTimeRange, 'all'>, number> = {
+  '15m': 15 * MINUTE_MS,
+  '1h': 60 * MINUTE_MS,
+  '6h': 6 * 60 * MINUTE_MS,
+  '24h': 24 * 60 * MINUTE_MS,
+};
+
+// Data keys that name the peer an entry is about
+const PEER_KEYS = ['pubkey', 'peer', 'requester', 'requesterPubkey'];
+
+// Lowercased message and data per entry; entries are immutable, so this never goes stale
+const searchTextCache = new WeakMap<LogEntry, string>();
+
 function stableStringify(value: unknown): string {
   const seen = new WeakSet<object>();
 
@@ -47,81 +80,171 @@ function getEntryKey(entry: Pick<LogEntry, 'level' | 'category' | 'message' | 'd
   return `${entry.level}|${entry.category}|${entry.message}|${dataKey}`;
 }
 
-export const useLogStore = create<LogStoreState>()((set) => ({
-  // State (in-memory only - not persisted)
-  entries: [],
-  maxEntries: DEFAULT_MAX_ENTRIES,
-  filter: DEFAULT_FILTER,
-  autoScroll: true,
-
-  // Actions
-  addEntry: (entry: Omit<LogEntry, 'id' | 'timestamp'>) => {
-    set((state) => {
-      const entryKey = getEntryKey(entry);
-      const existingIndex = state.entries.findIndex(
-        (existing) => getEntryKey(existing) === entryKey
-      );
-
-      if (existingIndex >= 0) {
-        const existing = state.entries[existingIndex];
-        const updatedEntry: LogEntry = {
-          ...existing,
-          count: (existing.count ?? 1) + 1,
-          timestamp: new Date().toISOString(),
-        };
-
-        const entries = [...state.entries];
-        entries.splice(existingIndex, 1);
-        return { entries: [updatedEntry, ...entries] };
-      }
-
-      const newEntry: LogEntry = {
-        ...entry,
-        id: nanoid(),
-        timestamp: new Date().toISOString(),
-      };
-
-      // Prepend new entry and enforce max limit (rolling buffer)
-      let entries = [newEntry, ...state.entries];
-      if (entries.length > state.maxEntries) {
-        entries = entries.slice(0, state.maxEntries);
-      }
-
-      return { entries };
-    });
-  },
-
-  clearLogs: () => {
-    set({ entries: [] });
-  },
-
-  setFilter: (filter: Partial<LogFilter>) => {
-    set((state) => ({
-      filter: { ...state.filter, ...filter },
-    }));
-  },
-
-  setMaxEntries: (max: number) => {
-    set((state) => {
-      const entries = state.entries.slice(0, max);
-      return { maxEntries: max, entries };
-    });
-  },
-
-  setAutoScroll: (enabled: boolean) => {
-    set({ autoScroll: enabled });
-  },
-}));
+export const useLogStore = create<LogStoreState>()(
+  persist(
+    (set) => ({
+      // State (entries are in-memory only; the on-device archive keeps history)
+      entries: [],
+      maxEntries: DEFAULT_MAX_ENTRIES,
+      filter: DEFAULT_FILTER,
+      autoScroll: true,
+      retention: DEFAULT_LOG_RETENTION,
+
+      // Actions
+      addEntry: (entry: Omit<LogEntry, 'id' | 'timestamp'>) => {
+        set((state) => {
+          const entryKey = getEntryKey(entry);
+          const existingIndex = state.entries.findIndex(
+            (existing) => getEntryKey(existing) === entryKey
+          );
+
+          if (existingIndex >= 0) {
+            const existing = state.entries[existingIndex];
+            const updatedEntry: LogEntry = {
+              ...existing,
+              count: (existing.count ?? 1) + 1,
+              timestamp: new Date().toISOString(),
+            };
+
+            const entries = [...state.entries];
+            entries.splice(existingIndex, 1);
+            return { entries: [updatedEntry, ...entries] };
+          }
+
+          const newEntry: LogEntry = {
+            ...entry,
+            id: nanoid(),
+            timestamp: new Date().toISOString(),
+          };
+
+          // Prepend new entry and enforce max limit (rolling buffer)
+          let entries = [newEntry, ...state.entries];
+          if (entries.length > state.maxEntries) {
+            entries = entries.slice(0, state.maxEntries);
+          }
+
+          return { entries };
+        });
+      },
+
+      clearLogs: () => {
+        set({ entries: [] });
+      },
+
+      setFilter: (filter: Partial<LogFilter>) => {
+        set((state) => ({
+          filter: { ...state.filter, ...filter },
+        }));
+      },
+
+      resetFilter: () => {
+        set({ filter: DEFAULT_FILTER });
+      },
+
+      setMaxEntries: (max: number) => {
+        set((state) => {
+          const entries = state.entries.slice(0, max);
+          return { maxEntries: max, entries };
+        });
+      },
+
+      setAutoScroll: (enabled: boolean) => {
+        set({ autoScroll: enabled });
+      },
+
+      setRetention: (retention: Partial<LogRetention>) => {
+        set((state) => {
+          const next = { ...state.retention, ...retention };
+          void logArchive.setRetention(next);
+          return { retention: next };
+        });
+      },
+    }),
+    {
+      name: 'igloo-logs',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Only the archive retention survives a restart
+      partialize: (state) => ({ retention: state.retention }),
+      onRehydrateStorage: () => (state) => {
+        if (state) {
+          void logArchive.setRetention(state.retention);
+        }
+      },
+    }
+  )
+);
 
 /**
  * Get filtered log entries
  */
 export function getFilteredLogs(state: LogStoreState): LogEntry[] {
-  return state.entries.filter(
-    (entry) =>
-      state.filter.levels.includes(entry.level) &&
-      state.filter.categories.includes(entry.category)
+  return filterLogEntries(state.entries, state.filter);
+}
+
+/**
+ * Get the entries matching a filter, from the live buffer or the archive
+ */
+export function filterLogEntries<T extends LogEntry>(
+  entries: T[],
+  filter: LogFilter,
+  now: number = Date.now()
+): T[] {
+  const query = filter.query.trim().toLowerCase();
+  const peerPubkey = filter.peerPubkey ? normalizePubkey(filter.peerPubkey) : null;
+  const since = filter.range === 'all' ? null : now - RANGE_MS[filter.range];
+  const hasFacetFilter =
+    filter.sessionId !== null || peerPubkey !== null || filter.eventKind !== null;
+
+  return entries.filter((entry) => {
+    if (!filter.levels.includes(entry.level)) return false;
+    if (!filter.categories.includes(entry.category)) return false;
+    if (since !== null && new Date(entry.timestamp).getTime() < since) return false;
+    if (hasFacetFilter) {
+      const facets = getLogEntryFacets(entry);
+      if (filter.sessionId !== null && facets.sessionId !== filter.sessionId) return false;
+      if (peerPubkey !== null && facets.peerPubkey !== peerPubkey) return false;
+      if (filter.eventKind !== null && facets.eventKind !== filter.eventKind) return false;
+    }
+    return !query || getSearchText(entry).includes(query);
+  });
+}
+
+/**
+ * Signing session, peer and event kind an entry refers to, when its data has them
+ */
+export function getLogEntryFacets(entry: LogEntry): LogEntryFacets {
+  const data = entry.data ?? {};
+  const peerValue = PEER_KEYS.map((key) => data[key]).find(
+    (value): value is string => typeof value === 'string'
+  );
+  const kindValue = [data.eventKind, data.kind].find(
+    (value): value is number => typeof value === 'number'
   );
+
+  return {
+    sessionId: typeof data.sessionId === 'string' ? data.sessionId : null,
+    peerPubkey: peerValue ? normalizePubkey(peerValue) : null,
+    eventKind:
+      kindValue ??
+      (entry.category === 'signing' ? extractNostrEventFromEntry(data)?.kind : undefined) ??
+      null,
+  };
+}
+
+function getSearchText(entry: LogEntry): string {
+  let text = searchTextCache.get(entry);
+  if (text === undefined) {
+    const dataText = entry.data ? stableStringify(entry.data) : '';
+    text = `${entry.message}\n${dataText}`.toLowerCase();
+    searchTextCache.set(entry, text);
+  }
+  return text;
+}
+
+// Compare x-only pubkeys, as peers are logged both with and without the 02/03 prefix
+function normalizePubkey(pubkey: string): string {
+  const trimmed = pubkey.trim().toLowerCase();
+  return trimmed.length === 66 && /^0[23]/.test(trimmed) ? trimmed.slice(2) : trimmed;
 }
 
 /**
@@ -0,0 +1,44 @@
+/**
+ * Notification Store
+ *
+ * Persisted store for which local notifications the user wants.
+ * Changes are automatically saved to AsyncStorage.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { NotificationCategory, NotificationStoreState } from '@/types';
+
+const DEFAULT_CATEGORIES: Record<NotificationCategory, boolean> = {
+  signingActivity: true,
+  signerStopped: true,
+  audioInterrupted: true,
+  quorumLost: true,
+};
+
+export const useNotificationStore = create<NotificationStoreState>()(
+  persist(
+    (set) => ({
+      // State
+      categories: DEFAULT_CATEGORIES,
+
+      // Actions
+      setCategoryEnabled: (category: NotificationCategory, enabled: boolean) => {
+        set((state) => ({ categories: { ...state.categories, [category]: enabled } }));
+      },
+    }),
+    {
+      name: 'igloo-notifications',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Categories added after the user saved their choices start out enabled
+      merge: (persisted, current) => {
+        const saved = persisted as Partial<NotificationStoreState> | undefined;
+        return {
+          ...current,
+          categories: { ...DEFAULT_CATEGORIES, ...saved?.categories },
+        };
+      },
+    }
+  )
+);
@@ -0,0 +1,130 @@
+import type {
+  PeerAvailability,
+  PeerHealthBucket,
+  PeerHealthStoreState,
+  PeerHealthSummary,
+} from '@/types';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+// Pings are summed into 15 minute buckets so a week of auto-pings stays small
+export const PEER_HEALTH_BUCKET_MS = 15 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_HISTORY_AGE_MS = 7 * DAY_MS;
+
+function pruneBuckets(buckets: PeerHealthBucket[], now: number = Date.now()): PeerHealthBucket[] {
+  const cutoff = now - MAX_HISTORY_AGE_MS;
+  return buckets.filter((bucket) => bucket.start + PEER_HEALTH_BUCKET_MS > cutoff);
+}
+
+function pruneHistory(
+  history: Record<string, PeerHealthBucket[]>
+): Record<string, PeerHealthBucket[]> {
+  const pruned: Record<string, PeerHealthBucket[]> = {};
+  for (const [pubkey, buckets] of Object.entries(history)) {
+    const kept = pruneBuckets(buckets);
+    if (kept.length > 0) {
+      pruned[pubkey] = kept;
+    }
+  }
+  return pruned;
+}
+
+export const usePeerHealthStore = create<PeerHealthStoreState>()(
+  persist(
+    (set) => ({
+      // State
+      history: {},
+
+      // Actions
+      recordPing: (pubkey: string, success: boolean, latency?: number) => {
+        const key = pubkey.toLowerCase();
+        const now = Date.now();
+        const start = now - (now % PEER_HEALTH_BUCKET_MS);
+
+        set((state) => {
+          const buckets = state.history[key] ?? [];
+          const last = buckets[buckets.length - 1];
+          const current: PeerHealthBucket =
+            last?.start === start
+              ? { ...last }
+              : { start, pings: 0, successes: 0, latencyTotal: 0, latencyCount: 0 };
+
+          current.pings += 1;
+          if (success) {
+            current.successes += 1;
+            if (latency !== undefined) {
+              current.latencyTotal += latency;
+              current.latencyCount += 1;
+            }
+          }
+
+          const previous = last?.start === start ? buckets.slice(0, -1) : buckets;
+          return {
+            history: {
+              ...state.history,
+              [key]: pruneBuckets([...previous, current], now),
+            },
+          };
+        });
+      },
+
+      clearHistory: () => {
+        set({ history: {} });
+      },
+    }),
+    {
+      name: 'igloo-peer-health',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ history: state.history }),
+      onRehydrateStorage: () => (state) => {
+        if (state) {
+          state.history = pruneHistory(state.history);
+        }
+      },
+    }
+  )
+);
+
+function getAvailability(buckets: PeerHealthBucket[], since: number): number | null {
+  let pings = 0;
+  let successes = 0;
+  for (const bucket of buckets) {
+    if (bucket.start + PEER_HEALTH_BUCKET_MS <= since) continue;
+    pings += bucket.pings;
+    successes += bucket.successes;
+  }
+  return pings > 0 ? successes / pings : null;
+}
+
+/**
+ * Availability over the last hour, day and week, plus per-bucket latency and
+ * success rate for the last day (for sparklines)
+ */
+export function getPeerHealthSummary(
+  buckets: PeerHealthBucket[] = [],
+  now: number = Date.now()
+): PeerHealthSummary {
+  const availability: PeerAvailability = {
+    hour: getAvailability(buckets, now - HOUR_MS),
+    day: getAvailability(buckets, now - DAY_MS),
+    week: getAvailability(buckets, now - MAX_HISTORY_AGE_MS),
+  };
+
+  const slots = DAY_MS / PEER_HEALTH_BUCKET_MS;
+  const firstStart = now - (now % PEER_HEALTH_BUCKET_MS) - (slots - 1) * PEER_HEALTH_BUCKET_MS;
+  const latency: (number | null)[] = new Array(slots).fill(null);
+  const success: (number | null)[] = new Array(slots).fill(null);
+  for (const bucket of buckets) {
+    const slot = Math.round((bucket.start - firstStart) / PEER_HEALTH_BUCKET_MS);
+    if (slot < 0 || slot >= slots) continue;
+    latency[slot] =
+      bucket.latencyCount > 0 ? Math.round(bucket.latencyTotal / bucket.latencyCount) : null;
+    success[slot] = bucket.pings > 0 ? bucket.successes / bucket.pings : null;
+  }
+
+  return { availability, latency, success };
+}
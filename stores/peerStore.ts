@@ -1,4 +1,12 @@
-import type { Peer, PeerStatus, PeerStoreState } from '@/types';
+import type {
+  Peer,
+  PeerPolicy,
+  PeerPolicyUpdate,
+  PeerStatus,
+  PeerStoreState,
+  QuorumStatus,
+  ShareDetails,
+} from '@/types';
 import { normalizePubkey } from '@frostr/igloo-core';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { create } from 'zustand';
@@ -46,6 +54,7 @@ export const usePeerStore = create<PeerStoreState>()(
               ...peer,
               pubkey: normalizedKey,
               displayName: existing.displayName ?? peer.displayName,
+              note: existing.note ?? peer.note,
               allowSend: existing.allowSend ?? peer.allowSend,
               allowReceive: existing.allowReceive ?? peer.allowReceive,
             });
@@ -66,6 +75,7 @@ export const usePeerStore = create<PeerStoreState>()(
             ...peer,
             pubkey: normalizedKey,
             displayName: existing?.displayName ?? peer.displayName,
+            note: existing?.note ?? peer.note,
             allowSend: existing?.allowSend ?? peer.allowSend,
             allowReceive: existing?.allowReceive ?? peer.allowReceive,
             status: existing?.status ?? peer.status,
@@ -132,21 +142,25 @@ export const usePeerStore = create<PeerStoreState>()(
         });
       },
 
-      updatePeerPolicy: (
-        pubkey: string,
-        policy: { allowSend?: boolean; allowReceive?: boolean }
-      ) => {
+      updatePeerPolicy: (pubkey: string, policy: PeerPolicyUpdate) => {
+        // The policy label is the peer's display name; blank text clears a label or note
+        const { label, note, ...flags } = policy;
+        const fields: Partial<Peer> = { ...flags };
+        if (label !== undefined) fields.displayName = label.trim() || undefined;
+        if (note !== undefined) fields.note = note.trim() || undefined;
+
         set((state) => {
           const { normalizedKey, existingKey } = findPeerKey(state.peers, pubkey);
           const key = normalizedKey || pubkey;
           const existing = existingKey ? state.peers[existingKey] : undefined;
-          const nextPeer = existing
-            ? { ...existing, ...policy, pubkey: key }
+          const nextPeer: Peer = existing
+            ? { ...existing, ...fields, pubkey: key }
             : {
                 pubkey: key,
                 status: 'unknown',
                 lastSeen: null,
                 latency: null,
+                ...fields,
                 allowSend: policy.allowSend ?? true,
                 allowReceive: policy.allowReceive ?? true,
               };
@@ -182,6 +196,7 @@ export const usePeerStore = create<PeerStoreState>()(
             {
               pubkey: normalizePeerKey(peer.pubkey || pubkey) || peer.pubkey,
               displayName: peer.displayName,
+              note: peer.note,
               allowSend: peer.allowSend,
               allowReceive: peer.allowReceive,
               // Don't persist ephemeral state
@@ -196,3 +211,44 @@ export const usePeerStore = create<PeerStoreState>()(
     }
   )
 );
+
+/**
+ * Peer policies as stored on a keyring share and handed to the node.
+ */
+export function getPeerPolicies(peers: Record<string, Peer>): PeerPolicy[] {
+  return Object.values(peers).map((peer) => ({
+    pubkey: peer.pubkey,
+    allowSend: peer.allowSend,
+    allowReceive: peer.allowReceive,
+    label: peer.displayName,
+    note: peer.note,
+  }));
+}
+
+/**
+ * Whether this device and the online peers it may send requests to can meet the threshold.
+ * Peers with sending disabled never count, whatever their status.
+ */
+export function getQuorumStatus(
+  peers: Record<string, Peer>,
+  shareDetails: Pick<ShareDetails, 'threshold' | 'totalMembers'>,
+  selfPubkey: string | null = null
+): QuorumStatus {
+  const selfKey = normalizePeerKey(selfPubkey);
+  let available = 1; // This device
+  let pending = 0;
+  for (const peer of Object.values(peers)) {
+    if (!peer.allowSend || (selfKey && normalizePeerKey(peer.pubkey) === selfKey)) continue;
+    if (peer.status === 'online') available += 1;
+    else if (peer.status === 'unknown') pending += 1;
+  }
+
+  const { threshold, totalMembers } = shareDetails;
+  const state =
+    available >= threshold
+      ? 'reachable'
+      : available + pending >= threshold
+        ? 'checking'
+        : 'unreachable';
+  return { state, threshold, available, pending, totalMembers };
+}
@@ -1,4 +1,11 @@
-import type { AudioStatus, SignerStatus, SignerStoreState, SigningRequest } from '@/types';
+import type {
+  AudioStatus,
+  RelayHealth,
+  SignerStatus,
+  SignerStoreState,
+  SigningApprovalDecision,
+  SigningRequest,
+} from '@/types';
 import { create } from 'zustand';
 
 const MAX_RECENT_REQUESTS = 10;
@@ -13,14 +20,19 @@ export const useSignerStore = create<SignerStoreState>()((set, get) => ({
   signingRequestsCompleted: 0,
   sessionStartTime: null,
   recentRequests: [],
+  heldRequests: [],
+  shareStatuses: {},
+  relayHealth: {},
 
   // Actions
   setStatus: (status: SignerStatus) => {
     set((state) => ({
       status,
-      sessionStartTime: status === 'running' && state.status !== 'running'
-        ? new Date()
-        : state.sessionStartTime,
+      // A reconnect continues the session rather than starting a new one
+      sessionStartTime:
+        status === 'running' && state.status !== 'running' && state.status !== 'reconnecting'
+          ? new Date()
+          : state.sessionStartTime,
       lastError: status === 'running' ? null : state.lastError,
       // Reset audio status when signer stops
       audioStatus: status === 'stopped' ? 'idle' : state.audioStatus,
@@ -35,6 +47,16 @@ export const useSignerStore = create<SignerStoreState>()((set, get) => ({
     set({ connectedRelays: relays });
   },
 
+  setRelayHealth: (health: RelayHealth) => {
+    set((state) => ({
+      relayHealth: { ...state.relayHealth, [health.url]: health },
+    }));
+  },
+
+  replaceRelayHealth: (health: RelayHealth[]) => {
+    set({ relayHealth: Object.fromEntries(health.map((entry) => [entry.url, entry])) });
+  },
+
   setError: (error: string | null) => {
     set({
       lastError: error,
@@ -76,6 +98,41 @@ export const useSignerStore = create<SignerStoreState>()((set, get) => ({
     });
   },
 
+  holdSigningRequest: (request: SigningRequest) => {
+    set((state) => {
+      const inRecent = state.recentRequests.some((req) => req.id === request.id);
+      return {
+        heldRequests: [...state.heldRequests.filter((req) => req.id !== request.id), request],
+        recentRequests: inRecent
+          ? state.recentRequests.map((req) => (req.id === request.id ? { ...req, ...request } : req))
+          : [request, ...state.recentRequests].slice(0, MAX_RECENT_REQUESTS),
+      };
+    });
+  },
+
+  resolveHeldRequest: (id: string, decision: SigningApprovalDecision) => {
+    set((state) => ({
+      heldRequests: state.heldRequests.filter((req) => req.id !== id),
+      recentRequests: state.recentRequests.map((req) =>
+        req.id === id
+          ? {
+              ...req,
+              approval: decision,
+              expiresAt: undefined,
+              // The round was declined while held; approving only lets the peer's retry through
+              status: 'failed',
+            }
+          : req
+      ),
+    }));
+  },
+
+  setShareStatus: (shareId: string, status: SignerStatus) => {
+    set((state) => ({
+      shareStatuses: { ...state.shareStatuses, [shareId]: status },
+    }));
+  },
+
   resetSession: () => {
     set({
       status: 'stopped',
@@ -86,6 +143,8 @@ export const useSignerStore = create<SignerStoreState>()((set, get) => ({
       signingRequestsCompleted: 0,
       sessionStartTime: null,
       recentRequests: [],
+      heldRequests: [],
+      relayHealth: {},
     });
   },
 }));
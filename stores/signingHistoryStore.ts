@@ -0,0 +1,221 @@
+import type {
+  SigningHistoryDayStats,
+  SigningHistoryEntry,
+  SigningHistoryFilter,
+  SigningHistoryPeerStats,
+  SigningHistoryRange,
+  SigningHistoryStoreState,
+  SigningOutcome,
+  SigningRequest,
+} from '@/types';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+// Retention: enough for a quarterly audit without growing AsyncStorage unbounded
+const MAX_HISTORY_ENTRIES = 5000;
+const MAX_HISTORY_AGE_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGE_DAYS: Record<Exclude<SigningHistoryRange, 'all'>, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+};
+
+const DEFAULT_FILTER: SigningHistoryFilter = {
+  query: '',
+  outcomes: [],
+  shareId: null,
+  range: 'all',
+};
+
+// Outcomes that end a request; later events must not move it back to pending or held
+const FINAL_OUTCOMES: SigningOutcome[] = [
+  'completed',
+  'failed',
+  'denied',
+  'rejected',
+  'approved',
+  'expired',
+];
+
+function pruneEntries(entries: SigningHistoryEntry[]): SigningHistoryEntry[] {
+  const cutoff = Date.now() - MAX_HISTORY_AGE_DAYS * DAY_MS;
+  return entries
+    .filter((entry) => new Date(entry.receivedAt).getTime() >= cutoff)
+    .slice(0, MAX_HISTORY_ENTRIES);
+}
+
+function toHistoryEntry(shareId: string, request: SigningRequest): SigningHistoryEntry {
+  const policyAction = request.policyDecision?.action ?? null;
+  return {
+    id: request.id,
+    shareId,
+    sessionId: request.sessionId ?? null,
+    requesterPubkey: request.pubkey,
+    requestType: request.type,
+    ecdhPubkey: request.ecdhPubkey ?? null,
+    eventKind: request.eventKind ?? null,
+    eventId: request.eventId ?? null,
+    outcome: request.status === 'held' ? 'held' : 'pending',
+    policyAction,
+    receivedAt: new Date(request.timestamp).toISOString(),
+    resolvedAt: null,
+    latency: null,
+    error: null,
+  };
+}
+
+export const useSigningHistoryStore = create<SigningHistoryStoreState>()(
+  persist(
+    (set) => ({
+      // State
+      entries: [],
+      filter: DEFAULT_FILTER,
+
+      // Actions
+      recordRequest: (shareId: string, request: SigningRequest) => {
+        set((state) => {
+          if (state.entries.some((entry) => entry.id === request.id)) {
+            return state;
+          }
+          return { entries: pruneEntries([toHistoryEntry(shareId, request), ...state.entries]) };
+        });
+      },
+
+      updateOutcome: (id: string, outcome: SigningOutcome, error?: string) => {
+        set((state) => ({
+          entries: state.entries.map((entry) => {
+            // The first final outcome wins, e.g. a user rejection over the error that follows it
+            if (entry.id !== id || FINAL_OUTCOMES.includes(entry.outcome)) return entry;
+
+            const isFinal = FINAL_OUTCOMES.includes(outcome);
+            const resolvedAt = isFinal ? new Date().toISOString() : null;
+            return {
+              ...entry,
+              outcome,
+              resolvedAt,
+              latency: resolvedAt
+                ? new Date(resolvedAt).getTime() - new Date(entry.receivedAt).getTime()
+                : null,
+              error: error ?? null,
+            };
+          }),
+        }));
+      },
+
+      setFilter: (filter: Partial<SigningHistoryFilter>) => {
+        set((state) => ({
+          filter: { ...state.filter, ...filter },
+        }));
+      },
+
+      resetFilter: () => {
+        set({ filter: DEFAULT_FILTER });
+      },
+
+      clearHistory: () => {
+        set({ entries: [] });
+      },
+    }),
+    {
+      name: 'igloo-signing-history',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ entries: state.entries }),
+      onRehydrateStorage: () => (state) => {
+        if (state) {
+          state.entries = pruneEntries(state.entries);
+        }
+      },
+    }
+  )
+);
+
+/**
+ * Get history entries matching the current filter
+ */
+export function getFilteredHistory(
+  entries: SigningHistoryEntry[],
+  filter: SigningHistoryFilter,
+  now: number = Date.now()
+): SigningHistoryEntry[] {
+  const query = filter.query.trim().toLowerCase();
+  const since = filter.range === 'all' ? null : now - RANGE_DAYS[filter.range] * DAY_MS;
+
+  return entries.filter((entry) => {
+    if (filter.shareId && entry.shareId !== filter.shareId) return false;
+    if (filter.outcomes.length > 0 && !filter.outcomes.includes(entry.outcome)) return false;
+    if (since !== null && new Date(entry.receivedAt).getTime() < since) return false;
+    if (!query) return true;
+    return (
+      entry.requesterPubkey.toLowerCase().includes(query) ||
+      (entry.eventId?.toLowerCase().includes(query) ?? false) ||
+      (entry.sessionId?.toLowerCase().includes(query) ?? false) ||
+      (entry.ecdhPubkey?.toLowerCase().includes(query) ?? false) ||
+      (entry.eventKind !== null && String(entry.eventKind) === query)
+    );
+  });
+}
+
+/**
+ * Per-day request counts, newest day first
+ */
+export function getHistoryDayStats(entries: SigningHistoryEntry[]): SigningHistoryDayStats[] {
+  const days = new Map<string, SigningHistoryDayStats>();
+  for (const entry of entries) {
+    const day = toLocalDay(entry.receivedAt);
+    const stats = days.get(day) ?? { day, total: 0, completed: 0, failed: 0 };
+    stats.total += 1;
+    if (entry.outcome === 'completed') {
+      stats.completed += 1;
+    } else if (FINAL_OUTCOMES.includes(entry.outcome)) {
+      stats.failed += 1;
+    }
+    days.set(day, stats);
+  }
+  return Array.from(days.values()).sort((a, b) => b.day.localeCompare(a.day));
+}
+
+/**
+ * Per-requester request counts, busiest first
+ */
+export function getHistoryPeerStats(entries: SigningHistoryEntry[]): SigningHistoryPeerStats[] {
+  const peers = new Map<
+    string,
+    SigningHistoryPeerStats & { latencyTotal: number; latencyCount: number }
+  >();
+  for (const entry of entries) {
+    const stats = peers.get(entry.requesterPubkey) ?? {
+      pubkey: entry.requesterPubkey,
+      total: 0,
+      completed: 0,
+      averageLatency: null,
+      latencyTotal: 0,
+      latencyCount: 0,
+    };
+    stats.total += 1;
+    if (entry.outcome === 'completed') {
+      stats.completed += 1;
+      if (entry.latency !== null) {
+        stats.latencyTotal += entry.latency;
+        stats.latencyCount += 1;
+      }
+    }
+    peers.set(entry.requesterPubkey, stats);
+  }
+  return Array.from(peers.values())
+    .map(({ latencyTotal, latencyCount, ...stats }) => ({
+      ...stats,
+      averageLatency: latencyCount > 0 ? Math.round(latencyTotal / latencyCount) : null,
+    }))
+    .sort((a, b) => b.total - a.total);
+}
+
+function toLocalDay(timestamp: string): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
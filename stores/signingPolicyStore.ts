@@ -0,0 +1,102 @@
+import type { SigningPolicyRule, SigningPolicyStoreState } from '@/types';
+import { DEFAULT_SIGNING_POLICY } from '@/services/policy';
+import { normalizePubkey } from '@frostr/igloo-core';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { nanoid } from 'nanoid';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+const DEFAULT_APPROVAL_TIMEOUT_SECONDS = 30;
+const MIN_APPROVAL_TIMEOUT_SECONDS = 5;
+const MAX_APPROVAL_TIMEOUT_SECONDS = 300;
+
+const normalizePeerKey = (pubkey: string): string => {
+  const trimmed = pubkey.trim();
+  try {
+    return normalizePubkey(trimmed).toLowerCase();
+  } catch {
+    return trimmed.toLowerCase();
+  }
+};
+
+const normalizeRule = <T extends Partial<Omit<SigningPolicyRule, 'id'>>>(rule: T): T => {
+  if (!rule.peers) return rule;
+  const peers = Array.from(new Set(rule.peers.map(normalizePeerKey).filter(Boolean)));
+  return { ...rule, peers };
+};
+
+export const useSigningPolicyStore = create<SigningPolicyStoreState>()(
+  persist(
+    (set) => ({
+      // State
+      defaultAction: DEFAULT_SIGNING_POLICY.defaultAction,
+      rules: [...DEFAULT_SIGNING_POLICY.rules],
+      approvalTimeoutSeconds: DEFAULT_APPROVAL_TIMEOUT_SECONDS,
+
+      // Actions
+      setApprovalTimeout: (seconds) => {
+        if (!Number.isFinite(seconds)) return;
+        set({
+          approvalTimeoutSeconds: Math.min(
+            MAX_APPROVAL_TIMEOUT_SECONDS,
+            Math.max(MIN_APPROVAL_TIMEOUT_SECONDS, Math.round(seconds))
+          ),
+        });
+      },
+
+      setDefaultAction: (action) => {
+        set({ defaultAction: action });
+      },
+
+      addRule: (rule) => {
+        set((state) => ({
+          rules: [...state.rules, { ...normalizeRule(rule), id: nanoid() }],
+        }));
+      },
+
+      updateRule: (id, update) => {
+        set((state) => ({
+          rules: state.rules.map((rule) =>
+            rule.id === id ? { ...rule, ...normalizeRule(update) } : rule
+          ),
+        }));
+      },
+
+      removeRule: (id) => {
+        set((state) => ({
+          rules: state.rules.filter((rule) => rule.id !== id),
+        }));
+      },
+
+      moveRule: (id, direction) => {
+        set((state) => {
+          const index = state.rules.findIndex((rule) => rule.id === id);
+          const target = direction === 'up' ? index - 1 : index + 1;
+          if (index === -1 || target < 0 || target >= state.rules.length) {
+            return state;
+          }
+          const rules = [...state.rules];
+          [rules[index], rules[target]] = [rules[target], rules[index]];
+          return { rules };
+        });
+      },
+
+      resetToDefaults: () => {
+        set({
+          defaultAction: DEFAULT_SIGNING_POLICY.defaultAction,
+          rules: [...DEFAULT_SIGNING_POLICY.rules],
+          approvalTimeoutSeconds: DEFAULT_APPROVAL_TIMEOUT_SECONDS,
+        });
+      },
+    }),
+    {
+      name: 'igloo-signing-policy',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        defaultAction: state.defaultAction,
+        rules: state.rules,
+        approvalTimeoutSeconds: state.approvalTimeoutSeconds,
+      }),
+    }
+  )
+);
@@ -16,6 +16,24 @@ export interface Credentials {
   group: string; // bfgroup credential
 }
 
+/** Non-sensitive metadata for one share+group pair in the keyring */
+export interface KeyringShare {
+  id: string;
+  name: string;
+  shareDetails: ShareDetails | null;
+  relays: string[];
+  peerPolicies: PeerPolicy[];
+  createdAt: string;
+  /** The stored share is encrypted under a passphrase that must be entered to start */
+  passphraseProtected?: boolean;
+}
+
+/** Share credential encrypted under a user passphrase, stored in place of the bfshare */
+export interface EncryptedShare extends PasswordEnvelope {
+  format: 'igloo-share';
+  version: 1;
+}
+
 export interface ValidationResult {
   isValid: boolean;
   shareValid: boolean;
@@ -28,7 +46,7 @@ export interface ValidationResult {
 // Signer Types
 // ============================================
 
-export type SignerStatus = 'stopped' | 'connecting' | 'running' | 'error';
+export type SignerStatus = 'stopped' | 'connecting' | 'running' | 'reconnecting' | 'error';
 
 export type AudioStatus = 'idle' | 'playing' | 'interrupted' | 'error';
 
@@ -60,20 +78,223 @@ export interface SoundscapeConfig {
   available: boolean;
 }
 
+/** What a peer asked the share for: a partial signature, or an ECDH share for decryption */
+export type SigningRequestType = 'sign' | 'ecdh';
+
 export interface SigningRequest {
   id: string;
+  type: SigningRequestType;
   pubkey: string;
   timestamp: Date;
   eventKind?: number;
-  status: 'pending' | 'completed' | 'failed';
+  /** Counterparty of an ECDH request: the pubkey whose shared secret with the group is derived */
+  ecdhPubkey?: string;
+  /** Nostr event id, when the session carries an event that hashes to the sighash */
+  eventId?: string;
+  /** Hash a sign request asks to sign; approvals are bound to it */
+  sighash?: string;
+  /** Bifrost signing session id */
+  sessionId?: string;
+  status: 'pending' | 'held' | 'completed' | 'failed';
+  /** Outcome of the signing policy evaluation for this request */
+  policyDecision?: SigningPolicyDecision;
+  /** Raw session content (usually the Nostr event being signed) */
+  content?: string;
+  /** When a held request is auto-rejected if the user has not answered */
+  expiresAt?: Date;
+  /** How a held request was resolved */
+  approval?: SigningApprovalDecision;
 }
 
+export type SigningApprovalDecision = 'approved' | 'rejected' | 'expired';
+
 export interface SigningResult {
   requestId: string;
   success: boolean;
   error?: string;
 }
 
+/** Aggregated signature from a signing round started on this device */
+export interface SenderSignature {
+  sighash: string;
+  pubkey: string; // Group pubkey the signature verifies against
+  signature: string; // 64-byte BIP-340 Schnorr signature, hex
+}
+
+/** Message encryption schemes that use the group's ECDH shared secret */
+export type NostrCipher = 'nip04' | 'nip44';
+
+/** Nostr event fields entered in the signing composer */
+export interface EventDraft {
+  kind: number;
+  content: string;
+  tags: string[][];
+  created_at?: number; // Unix seconds; now if omitted
+}
+
+// ============================================
+// Signing Policy Types
+// ============================================
+
+export type SigningPolicyAction = 'allow' | 'deny' | 'ask';
+
+/** Local time-of-day window, in minutes since midnight. Wraps midnight when start > end. */
+export interface SigningPolicyTimeWindow {
+  startMinute: number;
+  endMinute: number;
+}
+
+/** Matches once more than maxRequests arrive from the same peer within windowMs. */
+export interface SigningPolicyRateLimit {
+  maxRequests: number;
+  windowMs: number;
+}
+
+/**
+ * A single signing policy rule. Every condition that is set must match for the
+ * rule to apply; rules are evaluated in order and the first match wins.
+ */
+export interface SigningPolicyRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  action: SigningPolicyAction;
+  eventKinds?: number[];
+  peers?: string[];
+  timeWindow?: SigningPolicyTimeWindow;
+  /** Case-insensitive regular expression tested against the event content */
+  contentPattern?: string;
+  rateLimit?: SigningPolicyRateLimit;
+}
+
+export interface SigningPolicyConfig {
+  defaultAction: SigningPolicyAction;
+  rules: SigningPolicyRule[];
+}
+
+/** Request attributes the policy engine evaluates rules against. */
+export interface SigningPolicyContext {
+  pubkey: string;
+  eventKind?: number;
+  content?: string;
+  /** Signing a hash with no event that hashes to it, so its kind and content are unknown */
+  unverified?: boolean;
+  timestamp: Date;
+}
+
+export interface SigningPolicyDecision {
+  action: SigningPolicyAction;
+  ruleId: string | null;
+  ruleName?: string;
+  reason: string;
+  evaluatedAt: string; // ISO 8601 timestamp string (serializable)
+}
+
+// ============================================
+// Signing History Types
+// ============================================
+
+export type SigningOutcome =
+  | 'pending'
+  | 'held'
+  | 'completed'
+  | 'failed'
+  | 'denied' // Rejected by the signing policy
+  | 'rejected' // Rejected by the user
+  | 'approved' // Approved by the user; the peer's next matching request is let through
+  | 'expired'; // Held for approval until the timeout
+
+/** One signing request in the persistent journal */
+export interface SigningHistoryEntry {
+  id: string; // Request id
+  /** Absent on entries recorded before ECDH requests were journaled */
+  requestType?: SigningRequestType;
+  shareId: string;
+  sessionId: string | null;
+  requesterPubkey: string;
+  eventKind: number | null;
+  eventId: string | null;
+  ecdhPubkey?: string | null;
+  outcome: SigningOutcome;
+  policyAction: SigningPolicyAction | null;
+  receivedAt: string; // ISO 8601
+  resolvedAt: string | null; // ISO 8601
+  latency: number | null; // ms from request to completion or failure
+  error: string | null;
+}
+
+export type SigningHistoryRange = 'day' | 'week' | 'month' | 'all';
+
+export interface SigningHistoryFilter {
+  /** Matches requester pubkey, event id, session id, ECDH pubkey or event kind */
+  query: string;
+  outcomes: SigningOutcome[];
+  shareId: string | null;
+  range: SigningHistoryRange;
+}
+
+export interface SigningHistoryDayStats {
+  day: string; // YYYY-MM-DD, local time
+  total: number;
+  completed: number;
+  failed: number;
+}
+
+export interface SigningHistoryPeerStats {
+  pubkey: string;
+  total: number;
+  completed: number;
+  averageLatency: number | null;
+}
+
+// ============================================
+// Signing Session Types
+// ============================================
+
+/** Which side of a threshold signing round this device was on */
+export type SigningSessionRole =
+  | 'initiator' // Sent the request and aggregates responses (/sign/sender/*)
+  | 'responder' // Answered a co-signer's request (/sign/handler/*)
+  | 'unknown';
+
+export type SigningSessionOutcome =
+  | 'pending' // No final message yet
+  | 'responded' // Partial signature sent to the initiator
+  | 'completed' // Signature aggregated
+  | 'rejected' // Refused by a peer or by the signing policy
+  | 'failed';
+
+/** One log entry of a signing session */
+export interface SigningSessionStep {
+  entryId: string;
+  timestamp: string; // ISO 8601
+  offsetMs: number; // Since the first step of the session
+  tag: string | null; // Bifrost message tag, e.g. /sign/sender/res
+  label: string;
+  level: LogLevel;
+  pubkey: string | null;
+  error: string | null;
+}
+
+/** The log entries of one bifrost signing session, stitched together */
+export interface SigningSessionTimeline {
+  sessionId: string;
+  role: SigningSessionRole;
+  outcome: SigningSessionOutcome;
+  sessionType: string | null;
+  stamp: number | null; // Unix seconds
+  members: number[]; // Share indexes taking part
+  hashCount: number | null;
+  hashPreview: string | null;
+  eventKind: number | null;
+  responders: string[]; // Pubkeys whose responses were received
+  steps: SigningSessionStep[]; // Oldest first
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  error: string | null;
+}
+
 // ============================================
 // Peer Types
 // ============================================
@@ -88,6 +309,8 @@ export interface Peer {
   latency: number | null;
   allowSend: boolean;
   allowReceive: boolean;
+  /** Free-form note kept with the peer's policy */
+  note?: string;
 }
 
 export interface PeerPolicy {
@@ -98,6 +321,48 @@ export interface PeerPolicy {
   note?: string;
 }
 
+/** Fields of a peer's policy that can be edited; `label` is shown as the peer's display name */
+export type PeerPolicyUpdate = Partial<Omit<PeerPolicy, 'pubkey'>>;
+
+/** Ping outcomes for one peer within one PEER_HEALTH_BUCKET_MS slot */
+export interface PeerHealthBucket {
+  start: number; // Epoch ms, aligned to the bucket size
+  pings: number;
+  successes: number;
+  latencyTotal: number;
+  latencyCount: number;
+}
+
+/** Share of successful pings, 0-1, or null without pings in the window */
+export interface PeerAvailability {
+  hour: number | null;
+  day: number | null;
+  week: number | null;
+}
+
+export interface PeerHealthSummary {
+  availability: PeerAvailability;
+  /** One slot per bucket over the last day, oldest first */
+  latency: (number | null)[];
+  success: (number | null)[];
+}
+
+/**
+ * Whether enough signers are reachable to meet the group threshold.
+ * 'checking' means peers that haven't answered a ping yet could still make up the difference.
+ */
+export type QuorumState = 'reachable' | 'checking' | 'unreachable';
+
+export interface QuorumStatus {
+  state: QuorumState;
+  threshold: number;
+  /** Online peers we may send requests to, plus this device */
+  available: number;
+  /** Peers we may send requests to whose status is still unknown */
+  pending: number;
+  totalMembers: number;
+}
+
 export interface PingResult {
   success: boolean;
   pubkey: string;
@@ -122,6 +387,46 @@ export const DEFAULT_RELAYS = [
   'wss://nos.lol',
 ] as const;
 
+export type RelayConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'error';
+
+/** Health of one relay used by the running signer */
+export interface RelayHealth {
+  url: string;
+  status: RelayConnectionStatus;
+  lastEventAt: string | null; // ISO timestamp of the last response from the relay
+  latency: number | null; // ms round trip of the last probe (REQ to EOSE)
+  errorCount: number;
+  reconnectAttempts: number;
+  lastError: string | null;
+}
+
+/** Outcome of publishing an event to one relay */
+export interface RelayPublishResult {
+  url: string;
+  ok: boolean;
+  message: string | null; // Relay's OK message or the error
+}
+
+/** Where a suggested relay was found */
+export type RelaySuggestionSource =
+  | 'group' // The group pubkey's NIP-65 relay list
+  | 'peer' // A co-signer's NIP-65 relay list
+  | 'keyring'; // Another share of the same group held on this device
+
+/** A relay the rest of the signing group uses that is missing from our relay list */
+export interface RelaySuggestion {
+  url: string;
+  sources: RelaySuggestionSource[];
+  /** Co-signers (x-only pubkeys) whose relay list includes the relay */
+  peerPubkeys: string[];
+}
+
+export interface RelayDiscoveryResult {
+  suggestions: RelaySuggestion[];
+  /** Number of NIP-65 relay lists found for the group and its peers */
+  relayListsFound: number;
+}
+
 // ============================================
 // Log Types
 // ============================================
@@ -139,25 +444,224 @@ export interface LogEntry {
   count?: number;
 }
 
+export type LogTimeRange = 'all' | '15m' | '1h' | '6h' | '24h';
+
 export interface LogFilter {
   levels: LogLevel[];
   categories: LogCategory[];
+  query: string; // Free text over message and data
+  sessionId: string | null; // Signing session id in the entry data
+  peerPubkey: string | null; // Peer or requester pubkey in the entry data
+  eventKind: number | null;
+  range: LogTimeRange;
 }
 
+/** Values of an entry that the Logs tab can filter on */
+export interface LogEntryFacets {
+  sessionId: string | null;
+  peerPubkey: string | null;
+  eventKind: number | null;
+}
+
+/** A log entry saved to the on-device archive */
+export interface ArchivedLogEntry extends LogEntry {
+  /** Signer session the entry was logged in, or null outside any session */
+  sessionId: string | null;
+  shareId: string | null;
+}
+
+/** One signer run, from start to stop, as recorded in the log archive */
+export interface LogSession {
+  id: string;
+  shareId: string | null;
+  startedAt: string; // ISO 8601
+  endedAt: string | null; // ISO 8601, null while the session is open
+  /** 'interrupted' when the app was killed while the signer was running */
+  endReason: 'stopped' | 'error' | 'interrupted' | null;
+  entryCount: number;
+}
+
+/** How much of the log archive is kept on the device */
+export interface LogRetention {
+  maxAgeDays: number;
+  maxSizeKb: number;
+}
+
+export interface LogArchivePage {
+  entries: ArchivedLogEntry[];
+  /** Pass back to read older entries; null when there are none */
+  nextCursor: number | null;
+}
+
+// ============================================
+// Diagnostics Types
+// ============================================
+
+/** Signer state captured alongside logs in a diagnostics bundle */
+export interface DiagnosticsSnapshot {
+  signerStatus: SignerStatus;
+  lastError: string | null;
+  sessionStartTime: string | null; // ISO 8601
+  shareDetails: ShareDetails | null;
+  relays: string[];
+  connectedRelays: string[];
+  relayHealth: RelayHealth[];
+  peers: Peer[];
+}
+
+// ============================================
+// Bunker Types
+// ============================================
+
+/** Keys of the NIP-46 bunker for one keyring share, kept in secure storage */
+export interface BunkerKeys {
+  secretKey: string; // hex; transport key clients address requests to, not the group key
+  connectSecret: string; // One-time secret in the bunker:// URI, rotated after each connect
+}
+
+export type BunkerStatus = 'stopped' | 'listening' | 'error';
+
+/** A Nostr client paired with the bunker of a keyring share */
+export interface BunkerClient {
+  pubkey: string; // Client's transport pubkey (hex)
+  shareId: string;
+  name: string | null;
+  /** NIP-46 permissions, e.g. 'sign_event' for every kind or 'sign_event:1' for one kind */
+  permissions: string[];
+  connectedAt: string; // ISO 8601
+  lastRequestAt: string | null;
+  requestCount: number;
+  /** Relays the client asked for in a nostrconnect:// link; the bunker listens on them too */
+  relays?: string[];
+  /** Permissions a bunker:// client asked for when pairing, waiting for the user to grant them */
+  requestedPermissions?: string[];
+}
+
+/** A client-initiated pairing from a nostrconnect:// link, awaiting the user's approval */
+export interface NostrConnectInvite {
+  clientPubkey: string;
+  relays: string[];
+  secret: string; // Echoed back so the client knows the reply is for its link
+  permissions: string[];
+  name: string | null;
+  url: string | null;
+}
+
+/** A decrypted NIP-46 request */
+export interface NostrConnectRequest {
+  id: string;
+  method: string;
+  params: string[];
+}
+
+// ============================================
+// Backup Types
+// ============================================
+
+/** One keyring share as stored inside a backup */
+export interface BackupShare {
+  name: string;
+  share: string; // bfshare credential, or a passphrase-encrypted share envelope
+  group: string; // bfgroup credential
+  relays: string[];
+  peerPolicies: PeerPolicy[];
+  /** Needed to restore a passphrase-encrypted share, which can't be decoded without it */
+  shareDetails?: ShareDetails;
+}
+
+/** Decrypted backup contents */
+export interface BackupPayload {
+  version: 1;
+  createdAt: string;
+  shares: BackupShare[];
+  audio: {
+    volume: number;
+    soundscapeId: SoundscapeId;
+  };
+}
+
+/** Password-encrypted data (scrypt + XChaCha20-Poly1305), hex encoded for JSON */
+export interface PasswordEnvelope {
+  kdf: {
+    name: 'scrypt';
+    N: number;
+    r: number;
+    p: number;
+    salt: string; // hex
+  };
+  cipher: 'xchacha20-poly1305';
+  nonce: string; // hex
+  ciphertext: string; // hex
+}
+
+/** Password-encrypted backup envelope, serialized as JSON for sharing */
+export interface EncryptedBackup extends PasswordEnvelope {
+  format: 'igloo-backup';
+  version: 1;
+}
+
+export interface BackupRestoreResult {
+  restored: number;
+  skipped: number;
+}
+
+// ============================================
+// QR Types
+// ============================================
+
+/** What a scanned QR frame added to the text being assembled */
+export type MultipartQRScan =
+  | { status: 'complete'; value: string } // A plain QR code, or the last missing part
+  | { status: 'partial'; received: number; total: number }
+  | { status: 'invalid'; reason: string };
+
+// ============================================
+// App Lock Types
+// ============================================
+
+/** Outcome of a PIN entry */
+export type PinAttemptStatus = 'unlocked' | 'invalid' | 'throttled' | 'wipe';
+
+export interface PinAttemptResult {
+  status: PinAttemptStatus;
+  /** Remaining attempts before the keyring is wiped, when wipe is enabled */
+  attemptsBeforeWipe?: number;
+  /** Epoch ms when another attempt is allowed, when throttled */
+  retryAt?: number;
+}
+
+// ============================================
+// Notification Types
+// ============================================
+
+/** Kinds of local notification that can be turned on or off in Settings */
+export type NotificationCategory =
+  | 'signingActivity' // Requests received or completed while backgrounded
+  | 'signerStopped' // The node closed and the signer could not carry on
+  | 'audioInterrupted' // The iOS background audio keepalive stopped
+  | 'quorumLost'; // Too few signers reachable to meet the threshold
+
 // ============================================
 // Store Types
 // ============================================
 
 export interface CredentialStoreState {
   hasCredentials: boolean;
+  /** Details of the active share */
   shareDetails: ShareDetails | null;
   onboardingComplete: boolean;
   echoSent: boolean;
   isHydrated: boolean;
+  shares: KeyringShare[];
+  activeShareId: string | null;
   // Actions
   hydrateFromStorage: () => Promise<void>;
   setCredentialsExist: (exists: boolean) => void;
   setShareDetails: (details: ShareDetails | null) => void;
+  addShare: (share: KeyringShare) => void;
+  updateShare: (id: string, update: Partial<Omit<KeyringShare, 'id'>>) => void;
+  removeShare: (id: string) => Promise<void>;
+  setActiveShare: (id: string | null) => void;
   setOnboardingComplete: (complete: boolean) => void;
   setEchoSent: (sent: boolean) => void;
   clearCredentials: () => Promise<void>;
@@ -172,14 +676,25 @@ export interface SignerStoreState {
   signingRequestsCompleted: number;
   sessionStartTime: Date | null;
   recentRequests: SigningRequest[];
+  /** Requests waiting for the user to approve or reject */
+  heldRequests: SigningRequest[];
+  /** Signer status of every keyring share, including ones running in the background */
+  shareStatuses: Record<string, SignerStatus>;
+  /** Health of the active share's relays, keyed by URL */
+  relayHealth: Record<string, RelayHealth>;
   // Actions
   setStatus: (status: SignerStatus) => void;
   setAudioStatus: (status: AudioStatus) => void;
   setConnectedRelays: (relays: string[]) => void;
+  setRelayHealth: (health: RelayHealth) => void;
+  replaceRelayHealth: (health: RelayHealth[]) => void;
   setError: (error: string | null) => void;
   incrementRequestsCompleted: () => void;
   addSigningRequest: (request: SigningRequest) => void;
   updateSigningRequest: (id: string, update: Partial<SigningRequest>) => void;
+  holdSigningRequest: (request: SigningRequest) => void;
+  resolveHeldRequest: (id: string, decision: SigningApprovalDecision) => void;
+  setShareStatus: (shareId: string, status: SignerStatus) => void;
   resetSession: () => void;
 }
 
@@ -191,12 +706,19 @@ export interface PeerStoreState {
   setPeers: (peers: Peer[]) => void;
   updatePeer: (pubkey: string, update: Partial<Peer>) => void;
   updatePeerStatus: (pubkey: string, status: PeerStatus, latency?: number) => void;
-  updatePeerPolicy: (pubkey: string, policy: { allowSend?: boolean; allowReceive?: boolean }) => void;
+  updatePeerPolicy: (pubkey: string, policy: PeerPolicyUpdate) => void;
   setSelfPubkey: (pubkey: string) => void;
   setLastPingTime: (time: Date) => void;
   clearPeers: () => void;
 }
 
+export interface PeerHealthStoreState {
+  history: Record<string, PeerHealthBucket[]>; // Keyed by normalized pubkey, oldest first
+  // Actions
+  recordPing: (pubkey: string, success: boolean, latency?: number) => void;
+  clearHistory: () => void;
+}
+
 export interface RelayStoreState {
   relays: string[];
   // Actions
@@ -211,12 +733,80 @@ export interface LogStoreState {
   maxEntries: number;
   filter: LogFilter;
   autoScroll: boolean;
+  /** Retention of the on-device log archive (persisted) */
+  retention: LogRetention;
   // Actions
   addEntry: (entry: Omit<LogEntry, 'id' | 'timestamp'>) => void;
   clearLogs: () => void;
   setFilter: (filter: Partial<LogFilter>) => void;
+  resetFilter: () => void;
   setMaxEntries: (max: number) => void;
   setAutoScroll: (enabled: boolean) => void;
+  setRetention: (retention: Partial<LogRetention>) => void;
+}
+
+export interface BunkerStoreState {
+  /** Listen for NIP-46 requests while the active share's signer is running */
+  enabled: boolean;
+  clients: BunkerClient[];
+  status: BunkerStatus;
+  lastError: string | null;
+  // Actions
+  setEnabled: (enabled: boolean) => void;
+  addClient: (client: BunkerClient) => void;
+  removeClient: (shareId: string, pubkey: string) => void;
+  setClientPermissions: (shareId: string, pubkey: string, permissions: string[]) => void;
+  resolvePermissionRequest: (shareId: string, pubkey: string, grant: boolean) => void;
+  recordClientRequest: (shareId: string, pubkey: string) => void;
+  setStatus: (status: BunkerStatus, error?: string | null) => void;
+  reset: () => void;
+}
+
+export interface SigningHistoryStoreState {
+  entries: SigningHistoryEntry[]; // Newest first
+  filter: SigningHistoryFilter;
+  // Actions
+  recordRequest: (shareId: string, request: SigningRequest) => void;
+  updateOutcome: (id: string, outcome: SigningOutcome, error?: string) => void;
+  setFilter: (filter: Partial<SigningHistoryFilter>) => void;
+  resetFilter: () => void;
+  clearHistory: () => void;
+}
+
+export interface SigningPolicyStoreState extends SigningPolicyConfig {
+  /** Seconds an "ask" request waits for approval before it is rejected */
+  approvalTimeoutSeconds: number;
+  // Actions
+  setApprovalTimeout: (seconds: number) => void;
+  setDefaultAction: (action: SigningPolicyAction) => void;
+  addRule: (rule: Omit<SigningPolicyRule, 'id'>) => void;
+  updateRule: (id: string, update: Partial<Omit<SigningPolicyRule, 'id'>>) => void;
+  removeRule: (id: string) => void;
+  moveRule: (id: string, direction: 'up' | 'down') => void;
+  resetToDefaults: () => void;
+}
+
+export interface LockStoreState {
+  isPinSet: boolean;
+  isLocked: boolean;
+  isHydrated: boolean;
+  /** Lock after this many seconds in the background or without touches; null disables auto-lock */
+  autoLockSeconds: number | null;
+  /** Wipe every share after this many failed PIN attempts; null disables the wipe */
+  wipeAfterFailures: number | null;
+  failedAttempts: number;
+  /** Epoch ms until which PIN entry is throttled */
+  lockedUntil: number | null;
+  /** Epoch ms of the last successful PIN entry */
+  lastVerifiedAt: number | null;
+  // Actions
+  hydrate: () => Promise<void>;
+  setPin: (pin: string) => Promise<void>;
+  removePin: () => Promise<void>;
+  lock: () => void;
+  verifyPin: (pin: string) => Promise<PinAttemptResult>;
+  setAutoLockSeconds: (seconds: number | null) => void;
+  setWipeAfterFailures: (failures: number | null) => void;
 }
 
 export interface AudioStoreState {
@@ -229,6 +819,12 @@ export interface AudioStoreState {
   setSoundscape: (id: SoundscapeId) => void;
 }
 
+export interface NotificationStoreState {
+  categories: Record<NotificationCategory, boolean>;
+  // Actions
+  setCategoryEnabled: (category: NotificationCategory, enabled: boolean) => void;
+}
+
 // ============================================
 // Service Event Types
 // ============================================
@@ -238,10 +834,15 @@ export interface IglooServiceEvents {
   'audio:status': (status: AudioStatus) => void;
   'relay:connected': (relay: string) => void;
   'relay:disconnected': (relay: string) => void;
+  'relay:health': (health: RelayHealth) => void;
   'signing:request': (request: SigningRequest) => void;
   'signing:complete': (result: SigningResult) => void;
   'signing:error': (error: Error, requestId?: string) => void;
+  'signing:held': (request: SigningRequest) => void;
+  'signing:approval': (requestId: string, decision: SigningApprovalDecision) => void;
   'peer:status': (pubkey: string, status: PeerStatus, latency?: number) => void;
+  /** The node closed on its own and the signer stopped instead of reconnecting */
+  'signer:lost': (reason: string) => void;
   'log': (entry: Omit<LogEntry, 'id' | 'timestamp'>) => void;
   'error': (error: Error) => void;
 }
@@ -251,3 +852,9 @@ export interface IglooServiceEvents {
 // ============================================
 
 export type OnboardingStep = 'welcome' | 'scan' | 'manual' | 'confirming';
+
+/** An incoming igloo:// or nostrconnect:// URL */
+export type DeepLink =
+  | { type: 'credentials'; group: string | null; share: string | null }
+  | { type: 'log-session'; sessionId: string }
+  | { type: 'nostrconnect'; uri: string };